@@ -9,6 +9,7 @@
 import type { FSRSCard, FSRSParameters, ReviewLog } from "../data/types";
 import { CardState, Rating } from "../data/types";
 import { FSRS6CoreAlgorithm } from "./fsrs6-core";
+import type { LoadBalancer } from "./load-balancer";
 import type { FSRS6Card, FSRS6Parameters } from "../types/fsrs6-types";
 import { FSRS6_DEFAULTS } from "../types/fsrs6-types";
 
@@ -107,6 +108,25 @@ export class FSRS {
     this.params = { ...this.params, ...newParams };
   }
 
+  /**
+   * 设置负载均衡器（传 null 恢复纯随机化）
+   */
+  setLoadBalancer(balancer: LoadBalancer | null): void {
+    this.core.setLoadBalancer(balancer);
+  }
+
+  /**
+   * 按当前参数和负载均衡重新排定复习卡片的到期日
+   * 新卡片、学习中卡片和缺少复习时间的卡片原样返回
+   */
+  rescheduleCard(card: FSRSCard): FSRSCard {
+    if (card.state !== CardState.Review || !card.lastReview || !(card.stability > 0)) {
+      return card;
+    }
+    const { due, scheduledDays } = this.core.rescheduleDue(new Date(card.lastReview), card.stability);
+    return { ...card, due: due.toISOString(), scheduledDays };
+  }
+
   /**
    * 获取FSRS6版本信息
    */
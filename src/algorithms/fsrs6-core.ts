@@ -10,7 +10,8 @@ import type {
   FSRS6Parameters, 
   FSRS6VersionInfo,
   FSRS6PerformanceMetrics,
-  FSRS6AlgorithmState
+  FSRS6AlgorithmState,
+  FSRS6MemoryState
 } from "../types/fsrs6-types";
 import { 
   FSRS6_DEFAULTS, 
@@ -19,6 +20,29 @@ import {
   FSRS6ParameterError,
   FSRS6ComputationError
 } from "../types/fsrs6-types";
+import type { LoadBalancer } from "./load-balancer";
+
+/**
+ * 随机化幅度随间隔分段增长（与 Anki 一致）：2.5-7 天 ±15%，7-20 天 ±10%，20 天以上 ±5%，另加 1 天
+ */
+const FUZZ_RANGES = [
+  { start: 2.5, end: 7, factor: 0.15 },
+  { start: 7, end: 20, factor: 0.1 },
+  { start: 20, end: Number.POSITIVE_INFINITY, factor: 0.05 }
+];
+
+/**
+ * 间隔允许随机化到的天数范围 [最短, 最长]（间隔达到 3 天时至少 ±1 天）
+ */
+export function getFuzzBounds(scheduledDays: number, maximumInterval: number): [number, number] {
+  const delta = FUZZ_RANGES.reduce(
+    (sum, range) => sum + range.factor * Math.max(Math.min(scheduledDays, range.end) - range.start, 0),
+    1
+  );
+  const maxDays = Math.min(Math.round(scheduledDays + delta), maximumInterval);
+  const minDays = Math.min(Math.max(2, Math.round(scheduledDays - delta)), maxDays);
+  return [minDays, maxDays];
+}
 
 /**
  * FSRS6 核心算法类
@@ -28,6 +52,7 @@ export class FSRS6CoreAlgorithm {
   private params: FSRS6Parameters;
   private state: FSRS6AlgorithmState;
   private performanceMetrics: FSRS6PerformanceMetrics;
+  private loadBalancer: LoadBalancer | null = null;
 
   constructor(params?: Partial<FSRS6Parameters>) {
     this.params = this.initializeParameters(params);
@@ -116,7 +141,7 @@ export class FSRS6CoreAlgorithm {
       // 根据评分更新卡片状态
       updatedCard = this.updateCardByRating(updatedCard, rating);
 
-      // 计算下次复习时间
+      // 计算下次复习时间（评分预览也走这里，负载计数由调用方在评分生效后更新）
       const dueTime = this.calculateNextDue(updatedCard, now);
       updatedCard.due = dueTime.toISOString();
 
@@ -158,6 +183,69 @@ export class FSRS6CoreAlgorithm {
     }
   }
 
+  /**
+   * 新卡片的初始记忆状态
+   */
+  initialMemoryState(): FSRS6MemoryState {
+    return {
+      stability: 0,
+      difficulty: this.calculateInitialDifficulty(),
+      state: CardState.New
+    };
+  }
+
+  /**
+   * 纯记忆状态转移（无日期、无随机化、不记录指标）
+   * 与 review() 使用完全相同的公式，供参数优化器和调度模拟器重放复习记录
+   */
+  nextMemoryState(memory: FSRS6MemoryState, rating: Rating, elapsedDays: number): FSRS6MemoryState {
+    const card = {
+      stability: memory.stability,
+      difficulty: memory.difficulty,
+      state: memory.state,
+      elapsedDays,
+      lapses: 0
+    } as FSRS6Card;
+    const next = this.updateCardByRating(card, rating);
+    return {
+      stability: next.stability,
+      difficulty: next.difficulty,
+      state: next.state,
+      scheduledDays: next.scheduledDays
+    };
+  }
+
+  /**
+   * 给定间隔天数和稳定性时的可回忆性预测
+   */
+  predictRetrievability(elapsedDays: number, stability: number): number {
+    return this.calculateRetrievability({ elapsedDays, stability } as FSRS6Card);
+  }
+
+  /**
+   * 给定稳定性时的下次间隔（天，不含随机化）
+   */
+  predictInterval(stability: number): number {
+    return this.calculateNextInterval(stability);
+  }
+
+  /**
+   * 设置负载均衡器：启用随机化时在随机范围内选择负载最低的一天
+   */
+  setLoadBalancer(balancer: LoadBalancer | null): void {
+    this.loadBalancer = balancer;
+  }
+
+  /**
+   * 按当前参数从上次复习时间重新排定到期日（用于批量重新调度，新到期日计入负载均衡器）
+   */
+  rescheduleDue(lastReview: Date, stability: number): { due: Date; scheduledDays: number } {
+    const scheduledDays = this.calculateNextInterval(stability);
+    const due = this.calculateNextDue({ scheduledDays } as FSRS6Card, lastReview);
+    this.loadBalancer?.addDue(due);
+    return { due, scheduledDays };
+  }
+
   /**
    * 计算初始难度 (FSRS6优化版本)
    */
@@ -355,25 +443,37 @@ export class FSRS6CoreAlgorithm {
     due.setDate(due.getDate() + card.scheduledDays);
 
     // 应用随机化
-    if (this.params.enableFuzz) {
-      const fuzzedDue = this.applyFuzz(due, card.scheduledDays);
-      return fuzzedDue;
-    }
-
-    return due;
+    return this.params.enableFuzz ? this.applyFuzz(due, card.scheduledDays) : due;
   }
 
   /**
    * 应用随机化 (FSRS6标准实现)
+   * 设置了负载均衡器时，改为在随机范围内选择负载最低的一天
    */
   private applyFuzz(due: Date, scheduledDays: number): Date {
     if (scheduledDays < 2.5) return due;
 
-    const fuzzRange = Math.min(0.05 * scheduledDays, 1);
-    const fuzz = (Math.random() - 0.5) * 2 * fuzzRange;
+    const [minDays, maxDays] = getFuzzBounds(scheduledDays, this.params.maximumInterval);
+
+    if (this.loadBalancer) {
+      const candidates: Date[] = [];
+      // 原定日期放在首位，其余按与原定日期的距离由近到远排列，负载相同时尽量少做调整
+      for (let offset = 0; scheduledDays - offset >= minDays || scheduledDays + offset <= maxDays; offset++) {
+        for (const delta of offset === 0 ? [0] : [-offset, offset]) {
+          const days = scheduledDays + delta;
+          if (days < minDays || days > maxDays) continue;
+          const candidate = new Date(due);
+          candidate.setDate(candidate.getDate() + delta);
+          candidates.push(candidate);
+        }
+      }
+      return this.loadBalancer.pickDay(candidates);
+    }
+
+    const fuzzedDays = minDays + Math.floor(Math.random() * (maxDays - minDays + 1));
 
     const fuzzedDue = new Date(due);
-    fuzzedDue.setDate(fuzzedDue.getDate() + Math.round(fuzz));
+    fuzzedDue.setDate(fuzzedDue.getDate() + fuzzedDays - scheduledDays);
 
     return fuzzedDue;
   }
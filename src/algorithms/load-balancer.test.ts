@@ -0,0 +1,97 @@
+/**
+ * 复习负载均衡测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LoadBalancer } from './load-balancer';
+import { FSRS6CoreAlgorithm, getFuzzBounds } from './fsrs6-core';
+import { planReschedule } from '../services/scheduling/RescheduleService';
+import { CardState } from '../data/types';
+import { createTestCard } from '../data/__tests__/card-fixtures';
+
+const LAST_REVIEW = new Date(2025, 2, 1, 9, 0);
+const DAY = 24 * 60 * 60 * 1000;
+
+function shiftDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+describe('LoadBalancer', () => {
+  it('should pick the least loaded candidate and keep the original on ties', () => {
+    const balancer = new LoadBalancer();
+    const [a, b, c] = [0, 1, 2].map(d => shiftDays(LAST_REVIEW, d));
+    expect(balancer.pickDay([b, a, c])).toBe(b);
+
+    balancer.addDue(b);
+    balancer.addDue(a);
+    expect(balancer.pickDay([b, a, c])).toBe(c);
+  });
+
+  it('should weight easy days and never pick a zero-load day when avoidable', () => {
+    const sunday = new Date(2025, 2, 2);
+    const monday = shiftDays(sunday, 1);
+    const easyDays = [0.3, 1, 1, 1, 1, 1, 1];
+    const balancer = new LoadBalancer(easyDays);
+    balancer.addDue(monday);
+    // 周日 (0+1)/0.3 > 周一 (1+1)/1
+    expect(balancer.pickDay([sunday, monday])).toBe(monday);
+
+    const closed = new LoadBalancer([0, 1, 1, 1, 1, 1, 1]);
+    expect(closed.pickDay([sunday])).toBe(sunday);
+  });
+
+  it('should move a fuzzed due date away from an easy day within the fuzz range', () => {
+    const core = new FSRS6CoreAlgorithm({ enableFuzz: true, requestRetention: 0.9 });
+    const original = shiftDays(LAST_REVIEW, 30);
+
+    const easyDays = [1, 1, 1, 1, 1, 1, 1];
+    easyDays[original.getDay()] = 0;
+    const balancer = new LoadBalancer(easyDays);
+    balancer.addDue(shiftDays(original, -1));
+    core.setLoadBalancer(balancer);
+
+    const { due, scheduledDays } = core.rescheduleDue(LAST_REVIEW, 30);
+    expect(scheduledDays).toBe(30);
+    expect(due.getTime() - original.getTime()).toBe(DAY);
+    expect(balancer.getDueCount(due)).toBe(1);
+  });
+
+  it('should widen the fuzz range with the interval', () => {
+    expect(getFuzzBounds(3, 36500)).toEqual([2, 4]);
+    expect(getFuzzBounds(5, 36500)).toEqual([4, 6]);
+    expect(getFuzzBounds(10, 36500)).toEqual([8, 12]);
+    expect(getFuzzBounds(30, 36500)).toEqual([27, 33]);
+    expect(getFuzzBounds(100, 101)).toEqual([93, 101]);
+  });
+
+  it('should move a 5-day interval off a loaded day or an easy day', () => {
+    const original = shiftDays(LAST_REVIEW, 5);
+
+    const loaded = new LoadBalancer();
+    [0, 0, 0, -1, -1].forEach(delta => loaded.addDue(shiftDays(original, delta)));
+    const core = new FSRS6CoreAlgorithm({ enableFuzz: true, requestRetention: 0.9 });
+    core.setLoadBalancer(loaded);
+    const { due, scheduledDays } = core.rescheduleDue(LAST_REVIEW, 5);
+    expect(scheduledDays).toBe(5);
+    expect(due.getTime() - original.getTime()).toBe(DAY);
+
+    const easyDays = [1, 1, 1, 1, 1, 1, 1];
+    easyDays[original.getDay()] = 0;
+    const easy = new LoadBalancer(easyDays);
+    easy.addDue(shiftDays(original, 1));
+    core.setLoadBalancer(easy);
+    expect(core.rescheduleDue(LAST_REVIEW, 5).due.getTime() - original.getTime()).toBe(-DAY);
+  });
+
+  it('should reschedule review cards and leave other cards untouched', () => {
+    const review = createTestCard('r', { state: CardState.Review, stability: 20, lastReview: LAST_REVIEW.toISOString(), due: LAST_REVIEW.toISOString() });
+    const learning = createTestCard('l', { state: CardState.Learning, stability: 1, lastReview: LAST_REVIEW.toISOString(), due: LAST_REVIEW.toISOString() });
+
+    const changed = planReschedule([review, learning], { requestRetention: 0.9, enableFuzz: false });
+    expect(changed.map(c => c.id)).toEqual(['r']);
+    expect(changed[0].fsrs.scheduledDays).toBe(20);
+    expect(review.fsrs.due).toBe(LAST_REVIEW.toISOString());
+  });
+});
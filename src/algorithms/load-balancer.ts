@@ -0,0 +1,102 @@
+/**
+ * 复习负载均衡器
+ *
+ * 在随机化（fuzz）允许的日期范围内，选择预计复习量最少的一天作为到期日，
+ * 并支持“轻松日”：按星期设置负载系数（如周日 0.3 表示只承担 30% 的正常负载）
+ */
+
+import type { Card } from "../data/types";
+import { getScheduledDue } from "../data/card-query-index";
+
+export interface LoadBalanceSettings {
+  enabled: boolean;
+  /** 按星期的负载系数，下标与 Date.getDay() 一致（0 = 周日），1 表示正常 */
+  easyDays: number[];
+}
+
+export const DEFAULT_LOAD_BALANCE_SETTINGS: LoadBalanceSettings = {
+  enabled: false,
+  easyDays: [1, 1, 1, 1, 1, 1, 1]
+};
+
+export class LoadBalancer {
+  private dueCounts = new Map<string, number>();
+  private easyDays: number[];
+
+  constructor(easyDays: number[] = DEFAULT_LOAD_BALANCE_SETTINGS.easyDays) {
+    this.easyDays = DEFAULT_LOAD_BALANCE_SETTINGS.easyDays.map((fallback, day) => {
+      const factor = easyDays[day];
+      return typeof factor === 'number' && Number.isFinite(factor) ? Math.min(Math.max(factor, 0), 1) : fallback;
+    });
+  }
+
+  /**
+   * 以现有卡片的到期日初始化每日负载（不计新卡片和已暂停的卡片）
+   */
+  static fromCards(cards: Card[], easyDays?: number[]): LoadBalancer {
+    return LoadBalancer.fromDueDates(
+      cards.map(getScheduledDue).filter((due): due is string => !!due),
+      easyDays
+    );
+  }
+
+  /**
+   * 以到期时间列表初始化每日负载（如卡片索引中记录的到期时间）
+   */
+  static fromDueDates(dues: string[], easyDays?: number[]): LoadBalancer {
+    const balancer = new LoadBalancer(easyDays);
+    for (const due of dues) {
+      balancer.addDue(new Date(due));
+    }
+    return balancer;
+  }
+
+  addDue(date: Date): void {
+    const key = dayKey(date);
+    this.dueCounts.set(key, (this.dueCounts.get(key) ?? 0) + 1);
+  }
+
+  removeDue(date: Date): void {
+    const key = dayKey(date);
+    const count = this.dueCounts.get(key) ?? 0;
+    if (count <= 1) this.dueCounts.delete(key);
+    else this.dueCounts.set(key, count - 1);
+  }
+
+  getDueCount(date: Date): number {
+    return this.dueCounts.get(dayKey(date)) ?? 0;
+  }
+
+  /**
+   * 按轻松日系数折算后的负载（系数为 0 的日子视为不可用）
+   */
+  getWeightedLoad(date: Date): number {
+    const factor = this.easyDays[date.getDay()];
+    if (factor <= 0) return Number.POSITIVE_INFINITY;
+    return (this.getDueCount(date) + 1) / factor;
+  }
+
+  /**
+   * 从候选日期中选出负载最低的一天，负载相同时保留靠前的候选（调用方把原定日期放在首位）
+   * 系数为 0 的日子只在没有其他候选时才会被选中（此时返回第一个候选）
+   */
+  pickDay(candidates: Date[]): Date {
+    const available = candidates.filter(candidate => this.easyDays[candidate.getDay()] > 0);
+    if (available.length === 0) return candidates[0];
+
+    let best = available[0];
+    let bestLoad = this.getWeightedLoad(best);
+    for (const candidate of available) {
+      const load = this.getWeightedLoad(candidate);
+      if (load < bestLoad) {
+        best = candidate;
+        bestLoad = load;
+      }
+    }
+    return best;
+  }
+}
+
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
@@ -0,0 +1,73 @@
+/**
+ * FSRS6 批量参数优化器测试
+ */
+
+import { describe, test, expect } from "vitest";
+import { FSRS6ParameterOptimizer, type ReviewSequence } from "./FSRS6ParameterOptimizer";
+import { Rating } from "../../data/types";
+import { FSRS6_DEFAULTS, FSRS6_PARAMETER_RANGES } from "../../types/fsrs6-types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * 生成合成复习记录：间隔越长越容易遗忘（比默认参数预测的遗忘更快）
+ */
+function makeSequences(count: number): ReviewSequence[] {
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+
+  const sequences: ReviewSequence[] = [];
+  for (let c = 0; c < count; c++) {
+    let time = 0;
+    const reviews = [{ rating: Rating.Good, time }];
+    for (let i = 0; i < 6; i++) {
+      const gap = 1 + Math.floor(random() * 20);
+      time += gap * DAY;
+      const recalled = random() < Math.exp(-gap / 6);
+      reviews.push({ rating: recalled ? Rating.Good : Rating.Again, time });
+    }
+    sequences.push({ cardId: `card-${c}`, reviews });
+  }
+  return sequences;
+}
+
+describe('FSRS6ParameterOptimizer', () => {
+  test('should collect sorted sequences from review history', () => {
+    const sequences = FSRS6ParameterOptimizer.collectSequences([
+      {
+        id: 'a',
+        reviewHistory: [
+          { rating: Rating.Good, review: '2025-01-05T00:00:00Z' },
+          { rating: Rating.Again, review: '2025-01-01T00:00:00Z' }
+        ]
+      },
+      { id: 'b', reviewHistory: [{ rating: Rating.Good, review: '2025-01-01T00:00:00Z' }] }
+    ] as any);
+
+    expect(sequences).toHaveLength(1);
+    expect(sequences[0].reviews.map(r => r.rating)).toEqual([Rating.Again, Rating.Good]);
+    expect(FSRS6ParameterOptimizer.countSamples(sequences)).toBe(1);
+  });
+
+  test('should reject datasets that are too small', async () => {
+    const optimizer = new FSRS6ParameterOptimizer({ minSamples: 1000 });
+    await expect(optimizer.optimize(makeSequences(10))).rejects.toThrow();
+  });
+
+  test('should reduce training log-loss and keep weights in range', async () => {
+    const optimizer = new FSRS6ParameterOptimizer({ epochs: 2, batchSize: 64, minSamples: 100 });
+    const result = await optimizer.optimize(makeSequences(150), [...FSRS6_DEFAULTS.DEFAULT_WEIGHTS]);
+
+    expect(result.weights).toHaveLength(21);
+    expect(result.train.after.logLoss).toBeLessThanOrEqual(result.train.before.logLoss);
+    expect(result.trainCards + result.testCards).toBe(150);
+    result.weights.forEach((w, i) => {
+      const range = FSRS6_PARAMETER_RANGES[`w${i}` as keyof typeof FSRS6_PARAMETER_RANGES];
+      expect(w).toBeGreaterThanOrEqual(range.min);
+      expect(w).toBeLessThanOrEqual(range.max);
+    });
+  });
+});
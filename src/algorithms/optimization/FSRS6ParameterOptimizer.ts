@@ -0,0 +1,323 @@
+/**
+ * FSRS6 批量参数优化器
+ * 在完整复习日志上拟合全部21个权重参数
+ *
+ * 核心理念：
+ * - 与参考 fsrs-optimizer 相同的目标函数：二分类对数损失（rating > Again 视为记住）
+ * - 复习记录通过 FSRS6CoreAlgorithm 的纯状态转移重放，保证与实际调度公式一致
+ * - 按卡片划分训练集/测试集，报告优化前后的 log-loss 与 RMSE(bins)
+ */
+
+import type { Card } from "../../data/types";
+import { CardState, Rating } from "../../data/types";
+import { FSRS6CoreAlgorithm } from "../fsrs6-core";
+import type { FSRS6Parameters } from "../../types/fsrs6-types";
+import { FSRS6_DEFAULTS, FSRS6_PARAMETER_RANGES } from "../../types/fsrs6-types";
+import { createSeededRandom, shuffleInPlace } from "../seeded-random";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EPSILON = 1e-4;
+const RMSE_BINS = 20;
+
+/**
+ * 单张卡片按时间排序的复习序列
+ */
+export interface ReviewSequence {
+  cardId: string;
+  reviews: Array<{ rating: Rating; time: number }>;
+}
+
+export interface FSRS6OptimizerOptions {
+  epochs: number;
+  batchSize: number;          // 每批卡片数
+  learningRate: number;       // 相对于参数取值范围的步长
+  testRatio: number;          // 测试集比例（按卡片划分）
+  seed: number;               // 划分与打乱的随机种子
+  minSamples: number;         // 参与损失计算的最少复习数
+  shortTermMemoryEnabled: boolean;
+  longTermStabilityEnabled: boolean;
+}
+
+export interface FSRS6FitMetrics {
+  logLoss: number;
+  rmseBins: number;
+  samples: number;
+}
+
+export interface FSRS6OptimizationResult {
+  weights: number[];
+  initialWeights: number[];
+  train: { before: FSRS6FitMetrics; after: FSRS6FitMetrics };
+  test: { before: FSRS6FitMetrics; after: FSRS6FitMetrics };
+  trainCards: number;
+  testCards: number;
+  improved: boolean;
+  durationMs: number;
+}
+
+export type OptimizerProgressCallback = (progress: {
+  epoch: number;
+  totalEpochs: number;
+  batch: number;
+  totalBatches: number;
+  trainLoss?: number;
+}) => void;
+
+const DEFAULT_OPTIONS: FSRS6OptimizerOptions = {
+  epochs: 5,
+  batchSize: 512,
+  learningRate: 0.02,
+  testRatio: 0.2,
+  seed: 42,
+  minSamples: 200,
+  shortTermMemoryEnabled: FSRS6_DEFAULTS.SHORT_TERM_MEMORY_ENABLED,
+  longTermStabilityEnabled: FSRS6_DEFAULTS.LONG_TERM_STABILITY_ENABLED
+};
+
+export class FSRS6ParameterOptimizer {
+  private options: FSRS6OptimizerOptions;
+  private core: FSRS6CoreAlgorithm;
+
+  constructor(options?: Partial<FSRS6OptimizerOptions>) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.core = new FSRS6CoreAlgorithm({
+      enableFuzz: false,
+      shortTermMemoryEnabled: this.options.shortTermMemoryEnabled,
+      longTermStabilityEnabled: this.options.longTermStabilityEnabled
+    });
+  }
+
+  /**
+   * 从卡片的 reviewHistory 提取复习序列
+   */
+  static collectSequences(cards: Card[]): ReviewSequence[] {
+    const sequences: ReviewSequence[] = [];
+    for (const card of cards) {
+      const reviews = (card.reviewHistory || [])
+        .map((log) => ({ rating: log.rating, time: Date.parse(log.review) }))
+        .filter((r) => Number.isFinite(r.time) && r.rating >= Rating.Again && r.rating <= Rating.Easy)
+        .sort((a, b) => a.time - b.time);
+      if (reviews.length >= 2) sequences.push({ cardId: card.id, reviews });
+    }
+    return sequences;
+  }
+
+  /**
+   * 统计可参与损失计算的复习数（非首次、间隔 ≥ 1 天）
+   */
+  static countSamples(sequences: ReviewSequence[]): number {
+    let count = 0;
+    for (const seq of sequences) {
+      for (let i = 1; i < seq.reviews.length; i++) {
+        if (elapsedDaysBetween(seq.reviews[i - 1].time, seq.reviews[i].time) >= 1) count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * 评估给定权重在序列上的拟合指标
+   */
+  evaluate(sequences: ReviewSequence[], weights: number[]): FSRS6FitMetrics {
+    const predictions: Array<[number, number]> = [];
+    this.setWeights(weights);
+    let loss = 0;
+    for (const seq of sequences) loss += this.sequenceLoss(seq, predictions);
+    const samples = predictions.length;
+    return {
+      logLoss: samples > 0 ? loss / samples : 0,
+      rmseBins: rmseBins(predictions),
+      samples
+    };
+  }
+
+  /**
+   * 运行批量优化
+   */
+  async optimize(
+    sequences: ReviewSequence[],
+    initialWeights: number[] = [...FSRS6_DEFAULTS.DEFAULT_WEIGHTS],
+    onProgress?: OptimizerProgressCallback,
+    signal?: AbortSignal
+  ): Promise<FSRS6OptimizationResult> {
+    const started = Date.now();
+    const { epochs, batchSize, learningRate, testRatio, seed, minSamples } = this.options;
+
+    const totalSamples = FSRS6ParameterOptimizer.countSamples(sequences);
+    if (totalSamples < minSamples) {
+      throw new Error(`需要至少${minSamples}条有效复习记录才能优化参数（当前 ${totalSamples} 条）`);
+    }
+
+    const random = createSeededRandom(seed);
+    const shuffled = shuffleInPlace([...sequences], random);
+    const testCount = Math.floor(shuffled.length * testRatio);
+    const testSet = shuffled.slice(0, testCount);
+    const trainSet = shuffled.slice(testCount);
+
+    const start = initialWeights.map((w, i) => clampWeight(w, i));
+    const trainBefore = this.evaluate(trainSet, start);
+    const testBefore = this.evaluate(testSet, start);
+
+    // Adam 优化器状态
+    const weights = [...start];
+    const m = new Array(weights.length).fill(0);
+    const v = new Array(weights.length).fill(0);
+    const beta1 = 0.9;
+    const beta2 = 0.999;
+    let step = 0;
+
+    let bestWeights = [...start];
+    let bestLoss = trainBefore.logLoss;
+    const totalBatches = Math.max(1, Math.ceil(trainSet.length / batchSize));
+
+    for (let epoch = 0; epoch < epochs; epoch++) {
+      shuffleInPlace(trainSet, random);
+
+      for (let b = 0; b < totalBatches; b++) {
+        if (signal?.aborted) throw new Error('参数优化已取消');
+
+        const batch = trainSet.slice(b * batchSize, (b + 1) * batchSize);
+        const grad = this.gradient(batch, weights);
+        step++;
+
+        for (let i = 0; i < weights.length; i++) {
+          m[i] = beta1 * m[i] + (1 - beta1) * grad[i];
+          v[i] = beta2 * v[i] + (1 - beta2) * grad[i] * grad[i];
+          const mHat = m[i] / (1 - beta1 ** step);
+          const vHat = v[i] / (1 - beta2 ** step);
+          const span = rangeOf(i).max - rangeOf(i).min;
+          weights[i] = clampWeight(weights[i] - learningRate * span * mHat / (Math.sqrt(vHat) + 1e-8), i);
+        }
+
+        onProgress?.({ epoch: epoch + 1, totalEpochs: epochs, batch: b + 1, totalBatches });
+        // 让出主线程，避免界面卡顿
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+
+      const epochLoss = this.evaluate(trainSet, weights).logLoss;
+      if (epochLoss < bestLoss) {
+        bestLoss = epochLoss;
+        bestWeights = [...weights];
+      }
+      onProgress?.({ epoch: epoch + 1, totalEpochs: epochs, batch: totalBatches, totalBatches, trainLoss: epochLoss });
+    }
+
+    const trainAfter = this.evaluate(trainSet, bestWeights);
+    const testAfter = this.evaluate(testSet, bestWeights);
+    const reference = testSet.length > 0 && testBefore.samples > 0
+      ? testAfter.logLoss < testBefore.logLoss
+      : trainAfter.logLoss < trainBefore.logLoss;
+
+    return {
+      weights: bestWeights.map((w) => Number(w.toFixed(4))),
+      initialWeights: start,
+      train: { before: trainBefore, after: trainAfter },
+      test: { before: testBefore, after: testAfter },
+      trainCards: trainSet.length,
+      testCards: testSet.length,
+      improved: reference,
+      durationMs: Date.now() - started
+    };
+  }
+
+  // ===== 私有方法 =====
+
+  /**
+   * 前向差分数值梯度（参数在上界时改用后向差分）
+   */
+  private gradient(batch: ReviewSequence[], weights: number[]): number[] {
+    const base = this.batchLoss(batch, weights);
+    const grad = new Array(weights.length).fill(0);
+    for (let i = 0; i < weights.length; i++) {
+      const range = rangeOf(i);
+      const h = (range.max - range.min) * 1e-4;
+      const forward = weights[i] + h <= range.max;
+      const probe = [...weights];
+      probe[i] = forward ? weights[i] + h : weights[i] - h;
+      const loss = this.batchLoss(batch, probe);
+      grad[i] = forward ? (loss - base) / h : (base - loss) / h;
+    }
+    return grad;
+  }
+
+  private batchLoss(batch: ReviewSequence[], weights: number[]): number {
+    this.setWeights(weights);
+    let loss = 0;
+    let samples = 0;
+    for (const seq of batch) {
+      const predictions: Array<[number, number]> = [];
+      loss += this.sequenceLoss(seq, predictions);
+      samples += predictions.length;
+    }
+    return samples > 0 ? loss / samples : 0;
+  }
+
+  /**
+   * 重放单张卡片的复习序列，累计对数损失并记录 (预测, 实际) 对
+   */
+  private sequenceLoss(seq: ReviewSequence, predictions: Array<[number, number]>): number {
+    let memory = this.core.initialMemoryState();
+    let loss = 0;
+
+    for (let i = 0; i < seq.reviews.length; i++) {
+      const review = seq.reviews[i];
+      const elapsed = i === 0 ? 0 : elapsedDaysBetween(seq.reviews[i - 1].time, review.time);
+
+      // 同日复习（学习步骤）不参与损失，只推进状态
+      if (i > 0 && elapsed >= 1 && memory.state !== CardState.New) {
+        const p = clampProbability(this.core.predictRetrievability(elapsed, memory.stability));
+        const y = review.rating > Rating.Again ? 1 : 0;
+        loss -= y * Math.log(p) + (1 - y) * Math.log(1 - p);
+        predictions.push([p, y]);
+      }
+
+      memory = this.core.nextMemoryState(memory, review.rating, elapsed);
+    }
+    return loss;
+  }
+
+  private setWeights(weights: number[]): void {
+    this.core.updateParameters({ w: weights as FSRS6Parameters['w'] });
+  }
+}
+
+// ===== 工具函数 =====
+
+function elapsedDaysBetween(from: number, to: number): number {
+  return Math.floor(Math.abs(to - from) / DAY_MS);
+}
+
+function rangeOf(index: number): { min: number; max: number } {
+  return FSRS6_PARAMETER_RANGES[`w${index}` as keyof typeof FSRS6_PARAMETER_RANGES];
+}
+
+function clampWeight(value: number, index: number): number {
+  const { min, max } = rangeOf(index);
+  if (!Number.isFinite(value)) return FSRS6_DEFAULTS.DEFAULT_WEIGHTS[index];
+  return Math.min(max, Math.max(min, value));
+}
+
+function clampProbability(p: number): number {
+  return Math.min(1 - EPSILON, Math.max(EPSILON, p));
+}
+
+/**
+ * 按预测值分箱后的加权 RMSE（与 fsrs-optimizer 的 RMSE(bins) 含义一致）
+ */
+function rmseBins(predictions: Array<[number, number]>): number {
+  if (predictions.length === 0) return 0;
+  const bins = Array.from({ length: RMSE_BINS }, () => ({ p: 0, y: 0, n: 0 }));
+  for (const [p, y] of predictions) {
+    const bin = bins[Math.min(RMSE_BINS - 1, Math.floor(p * RMSE_BINS))];
+    bin.p += p;
+    bin.y += y;
+    bin.n++;
+  }
+  let sum = 0;
+  for (const bin of bins) {
+    if (bin.n === 0) continue;
+    const diff = bin.p / bin.n - bin.y / bin.n;
+    sum += bin.n * diff * diff;
+  }
+  return Math.sqrt(sum / predictions.length);
+}
@@ -0,0 +1,88 @@
+/**
+ * FSRS6 调度模拟器测试
+ */
+
+import { describe, test, expect } from "vitest";
+import { FSRS6ScheduleSimulator } from "./FSRS6ScheduleSimulator";
+import { CardState, Rating } from "../../data/types";
+
+const NOW = new Date(2025, 0, 10, 12);
+
+function makeCard(id: string, fsrs?: Record<string, unknown>, reviewHistory: unknown[] = []) {
+  return { id, fsrs, reviewHistory, stats: { totalReviews: 0, totalTime: 0, averageTime: 0 } } as any;
+}
+
+describe('FSRS6ScheduleSimulator', () => {
+  test('should snapshot card states relative to today', () => {
+    const [fresh, review] = FSRS6ScheduleSimulator.snapshotCards([
+      makeCard('new', { state: CardState.New, stability: 0, difficulty: 5 }),
+      makeCard('review', {
+        state: CardState.Review,
+        stability: 10,
+        difficulty: 5,
+        due: new Date(2025, 0, 8, 9).toISOString(),
+        lastReview: new Date(2024, 11, 29, 9).toISOString(),
+        scheduledDays: 10
+      })
+    ], NOW);
+
+    expect(fresh.state).toBe(CardState.New);
+    expect(review.dueDay).toBe(-2);
+    expect(review.lastReviewDay).toBe(-12);
+  });
+
+  test('should estimate rating distribution from review history', () => {
+    const behavior = FSRS6ScheduleSimulator.estimateBehavior([
+      makeCard('a', undefined, [
+        { rating: Rating.Good, review: '2025-01-01T00:00:00Z' },
+        { rating: Rating.Easy, review: '2025-01-03T00:00:00Z' }
+      ])
+    ]);
+
+    expect(behavior.firstRatings.good).toBeGreaterThan(behavior.firstRatings.again);
+    expect(behavior.recallRatings.easy).toBeGreaterThan(behavior.recallRatings.hard);
+  });
+
+  test('should introduce new cards and be deterministic', () => {
+    const cards = FSRS6ScheduleSimulator.snapshotCards(
+      Array.from({ length: 30 }, (_, i) => makeCard(`n${i}`, { state: CardState.New })),
+      NOW
+    );
+    const simulator = new FSRS6ScheduleSimulator();
+    const a = simulator.simulate(cards, 0.9, { days: 30, newCardsPerDay: 5 });
+    const b = simulator.simulate(cards, 0.9, { days: 30, newCardsPerDay: 5 });
+
+    expect(a.days.reduce((sum, d) => sum + d.newCards, 0)).toBe(30);
+    expect(a.days[6].newCards).toBe(0);
+    expect(a.totalReviews).toBe(b.totalReviews);
+  });
+
+  test('higher retention should cost more reviews', () => {
+    const cards = FSRS6ScheduleSimulator.snapshotCards(
+      Array.from({ length: 200 }, (_, i) => makeCard(`n${i}`, { state: CardState.New })),
+      NOW
+    );
+    const [low, high] = new FSRS6ScheduleSimulator().compare(cards, [0.8, 0.95], { days: 120, newCardsPerDay: 10 });
+
+    expect(high.totalReviews).toBeGreaterThan(low.totalReviews);
+  });
+
+  test('should respect the daily review cap', () => {
+    const cards = FSRS6ScheduleSimulator.snapshotCards(
+      Array.from({ length: 50 }, (_, i) => makeCard(`r${i}`, {
+        state: CardState.Review,
+        stability: 5,
+        difficulty: 5,
+        due: new Date(2025, 0, 1).toISOString(),
+        lastReview: new Date(2024, 11, 25).toISOString(),
+        scheduledDays: 7
+      })),
+      NOW
+    );
+    const result = new FSRS6ScheduleSimulator().simulate(cards, 0.9, { days: 3, newCardsPerDay: 0, maxReviewsPerDay: 20 });
+
+    expect(result.days[0].reviews).toBe(20);
+    expect(result.days.every(d => d.reviews <= 20)).toBe(true);
+    expect(result.totalReviews).toBeGreaterThanOrEqual(50);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * FSRS6 调度模拟器
+ * 基于现有卡片的记忆状态向后推演 N 天，估算不同目标记忆率下的复习负担
+ *
+ * 核心理念：
+ * - 每次复习是否记住按当前可回忆性 R 抽样，记住后的 Hard/Good/Easy 按用户历史分布抽样
+ * - 状态转移直接复用 FSRS6CoreAlgorithm 的纯函数接口，与实际调度公式一致
+ * - 各候选记忆率使用同一随机种子，结果可以直接横向比较
+ */
+
+import type { Card } from "../../data/types";
+import { CardState, Rating } from "../../data/types";
+import { FSRS6CoreAlgorithm } from "../fsrs6-core";
+import type { FSRS6Parameters } from "../../types/fsrs6-types";
+import { createSeededRandom } from "../seeded-random";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 模拟用的卡片快照（以“今天”为第0天）
+ */
+export interface SimulationCardState {
+  stability: number;
+  difficulty: number;
+  state: CardState;
+  dueDay: number;               // 到期日（负数表示已逾期）
+  lastReviewDay: number;        // 上次复习日
+}
+
+export interface RatingDistribution {
+  again: number;
+  hard: number;
+  good: number;
+  easy: number;
+}
+
+export interface ScheduleSimulationOptions {
+  days: number;
+  newCardsPerDay: number;
+  maxReviewsPerDay?: number;    // 超出上限的到期卡片顺延到次日
+  newCardLimit?: number;        // 可学习的新卡总数，默认为快照中的新卡数
+  firstRatings: RatingDistribution;                    // 新卡首次评分分布
+  recallRatings: Omit<RatingDistribution, 'again'>;    // 记住时的评分分布
+  secondsPerReview: number;
+  secondsPerNewCard: number;
+  seed: number;
+}
+
+export interface SimulationDay {
+  day: number;
+  reviews: number;
+  newCards: number;
+  lapses: number;
+  minutes: number;
+  retained: number;             // 当日结束时预计仍能记住的卡片数（ΣR）
+}
+
+export interface ScheduleSimulationResult {
+  requestRetention: number;
+  days: SimulationDay[];
+  totalReviews: number;
+  totalMinutes: number;
+  averageDailyMinutes: number;
+  finalRetained: number;
+}
+
+export type SimulationBehavior = Pick<
+  ScheduleSimulationOptions,
+  'firstRatings' | 'recallRatings' | 'secondsPerReview' | 'secondsPerNewCard'
+>;
+
+const DEFAULT_BEHAVIOR: SimulationBehavior = {
+  firstRatings: { again: 0.2, hard: 0.1, good: 0.6, easy: 0.1 },
+  recallRatings: { hard: 0.1, good: 0.8, easy: 0.1 },
+  secondsPerReview: 8,
+  secondsPerNewCard: 20
+};
+
+const DEFAULT_OPTIONS: ScheduleSimulationOptions = {
+  ...DEFAULT_BEHAVIOR,
+  days: 90,
+  newCardsPerDay: 20,
+  seed: 42
+};
+
+export class FSRS6ScheduleSimulator {
+  constructor(private baseParams: Partial<FSRS6Parameters> = {}) {}
+
+  /**
+   * 将卡片的 FSRS 状态转换为以今天为起点的快照
+   */
+  static snapshotCards(cards: Card[], now: Date = new Date()): SimulationCardState[] {
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    const toDay = (iso: string | undefined) => {
+      const time = iso ? Date.parse(iso) : NaN;
+      return Number.isFinite(time) ? Math.floor((time - today) / DAY_MS) : NaN;
+    };
+
+    return cards.map((card) => {
+      const fsrs = card.fsrs;
+      if (!fsrs || fsrs.state === CardState.New || !(fsrs.stability > 0)) {
+        return { stability: 0, difficulty: fsrs?.difficulty ?? 5, state: CardState.New, dueDay: 0, lastReviewDay: 0 };
+      }
+      const dueDay = Number.isFinite(toDay(fsrs.due)) ? toDay(fsrs.due) : 0;
+      const lastReviewDay = Number.isFinite(toDay(fsrs.lastReview))
+        ? toDay(fsrs.lastReview)
+        : dueDay - Math.max(1, fsrs.scheduledDays || 1);
+      return {
+        stability: fsrs.stability,
+        difficulty: fsrs.difficulty,
+        state: fsrs.state,
+        dueDay,
+        lastReviewDay
+      };
+    });
+  }
+
+  /**
+   * 从复习历史估算评分分布和单卡用时（拉普拉斯平滑，无数据时回退到默认值）
+   */
+  static estimateBehavior(cards: Card[]): SimulationBehavior {
+    const first = { again: 1, hard: 1, good: 1, easy: 1 };
+    const recall = { hard: 1, good: 1, easy: 1 };
+    const firstDurations: number[] = [];
+    const reviewDurations: number[] = [];
+    let timedCards = 0;
+    let averageSeconds = 0;
+
+    for (const card of cards) {
+      const history = [...(card.reviewHistory || [])].sort((a, b) => a.review.localeCompare(b.review));
+      history.forEach((log, index) => {
+        const key = ratingKey(log.rating);
+        if (!key) return;
+        if (index === 0) first[key]++;
+        else if (key !== 'again') recall[key]++;
+        if (log.duration && log.duration > 0) {
+          (index === 0 ? firstDurations : reviewDurations).push(log.duration / 1000);
+        }
+      });
+      if (card.stats?.totalReviews > 0 && card.stats.averageTime > 0) {
+        averageSeconds += card.stats.averageTime;
+        timedCards++;
+      }
+    }
+
+    // 优先使用复习记录中的逐次用时，旧数据回退到卡片平均用时
+    const fallbackSeconds = timedCards > 0 ? averageSeconds / timedCards : DEFAULT_BEHAVIOR.secondsPerReview;
+    const secondsPerReview = median(reviewDurations) ?? fallbackSeconds;
+    return {
+      firstRatings: normalize(first),
+      recallRatings: normalize(recall),
+      secondsPerReview,
+      secondsPerNewCard: median(firstDurations)
+        ?? secondsPerReview * (DEFAULT_BEHAVIOR.secondsPerNewCard / DEFAULT_BEHAVIOR.secondsPerReview)
+    };
+  }
+
+  /**
+   * 对多个候选记忆率分别模拟
+   */
+  compare(
+    cards: SimulationCardState[],
+    retentions: number[],
+    options?: Partial<ScheduleSimulationOptions>
+  ): ScheduleSimulationResult[] {
+    return retentions.map((retention) => this.simulate(cards, retention, options));
+  }
+
+  /**
+   * 在给定目标记忆率下模拟
+   */
+  simulate(
+    cards: SimulationCardState[],
+    requestRetention: number,
+    options?: Partial<ScheduleSimulationOptions>
+  ): ScheduleSimulationResult {
+    const opts: ScheduleSimulationOptions = { ...DEFAULT_OPTIONS, ...options };
+    const core = new FSRS6CoreAlgorithm({ ...this.baseParams, requestRetention, enableFuzz: false });
+    const random = createSeededRandom(opts.seed);
+
+    const learned = cards.filter((c) => c.state !== CardState.New).map((c) => ({ ...c }));
+    let newRemaining = opts.newCardLimit ?? cards.length - learned.length;
+
+    const days: SimulationDay[] = [];
+    let totalReviews = 0;
+    let totalMinutes = 0;
+
+    for (let day = 0; day < opts.days; day++) {
+      const stats: SimulationDay = { day, reviews: 0, newCards: 0, lapses: 0, minutes: 0, retained: 0 };
+
+      // 到期复习：逾期最久的优先
+      let due = learned.filter((c) => c.dueDay <= day).sort((a, b) => a.dueDay - b.dueDay);
+      if (opts.maxReviewsPerDay !== undefined) due = due.slice(0, Math.max(0, opts.maxReviewsPerDay));
+
+      for (const card of due) {
+        const elapsed = Math.max(0, day - card.lastReviewDay);
+        const recalled = random() < core.predictRetrievability(elapsed, card.stability);
+        const rating = recalled ? pickRating(opts.recallRatings, random) : Rating.Again;
+        applyReview(core, card, rating, elapsed, day);
+
+        stats.reviews++;
+        if (!recalled) stats.lapses++;
+        stats.minutes += opts.secondsPerReview / 60;
+      }
+
+      // 新卡学习
+      const newToday = Math.min(opts.newCardsPerDay, newRemaining);
+      for (let i = 0; i < newToday; i++) {
+        const card: SimulationCardState = { ...core.initialMemoryState(), dueDay: day, lastReviewDay: day };
+        applyReview(core, card, pickRating(opts.firstRatings, random), 0, day);
+        learned.push(card);
+        stats.newCards++;
+        stats.minutes += opts.secondsPerNewCard / 60;
+      }
+      newRemaining -= newToday;
+
+      for (const card of learned) {
+        stats.retained += core.predictRetrievability(day + 1 - card.lastReviewDay, card.stability);
+      }
+
+      totalReviews += stats.reviews;
+      totalMinutes += stats.minutes;
+      days.push(stats);
+    }
+
+    return {
+      requestRetention,
+      days,
+      totalReviews,
+      totalMinutes,
+      averageDailyMinutes: opts.days > 0 ? totalMinutes / opts.days : 0,
+      finalRetained: days.length > 0 ? days[days.length - 1].retained : 0
+    };
+  }
+}
+
+// ===== 工具函数 =====
+
+function applyReview(
+  core: FSRS6CoreAlgorithm,
+  card: SimulationCardState,
+  rating: Rating,
+  elapsed: number,
+  day: number
+): void {
+  const next = core.nextMemoryState(card, rating, elapsed);
+  card.stability = next.stability;
+  card.difficulty = next.difficulty;
+  card.state = next.state;
+  card.lastReviewDay = day;
+  // 学习步骤在模拟中按“次日再复习”处理
+  card.dueDay = day + Math.max(1, next.scheduledDays ?? 1);
+}
+
+function pickRating(distribution: Partial<RatingDistribution>, random: () => number): Rating {
+  const entries: Array<[Rating, number]> = [
+    [Rating.Again, distribution.again ?? 0],
+    [Rating.Hard, distribution.hard ?? 0],
+    [Rating.Good, distribution.good ?? 0],
+    [Rating.Easy, distribution.easy ?? 0]
+  ];
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = random() * total;
+  for (const [rating, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return rating;
+  }
+  return Rating.Good;
+}
+
+function ratingKey(rating: Rating): keyof RatingDistribution | null {
+  switch (rating) {
+    case Rating.Again: return 'again';
+    case Rating.Hard: return 'hard';
+    case Rating.Good: return 'good';
+    case Rating.Easy: return 'easy';
+    default: return null;
+  }
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function normalize<T extends Record<string, number>>(counts: T): T {
+  const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+  const result = { ...counts };
+  for (const key of Object.keys(result) as Array<keyof T>) {
+    result[key] = (counts[key] / total) as T[keyof T];
+  }
+  return result;
+}
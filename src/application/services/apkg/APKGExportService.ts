@@ -0,0 +1,328 @@
+/**
+ * APKG导出服务
+ *
+ * 应用层服务，编排离线导出流程（不依赖 AnkiConnect）：
+ * 模板 → Anki 模型、卡片 → 笔记、收集媒体、可选的调度状态，最后写入 .apkg
+ *
+ * @module application/services/apkg
+ */
+
+import type {
+  AnkiModel,
+  APKGExportConfig,
+  APKGExportResult,
+  APKGWriteCard,
+  APKGWriteNote
+} from '../../../domain/apkg/types';
+import type { Card } from '../../../data/types';
+import type { MediaFileInfo } from '../../../types/ankiconnect-types';
+import type { ParseTemplate } from '../../../types/newCardParsingTypes';
+import type AnkiPlugin from '../../../main';
+
+import { APKGWriter } from '../../../domain/apkg/writer/APKGWriter';
+import {
+  collectionCreationTime,
+  toAnkiRevlog,
+  toAnkiScheduling
+} from '../../../domain/apkg/writer/SchedulingMapper';
+import { AnkiConnectClient } from '../../../services/ankiconnect/AnkiConnectClient';
+import { CardExporter } from '../../../services/ankiconnect/CardExporter';
+import { TuankiTemplateExporter } from '../../../services/ankiconnect/TuankiTemplateExporter';
+import type { AnkiModelDefinition } from '../../../services/ankiconnect/TuankiTemplateExporter';
+import { APKGLogger } from '../../../infrastructure/logger/APKGLogger';
+import { groupNoteSiblings } from '../../../data/note-siblings';
+
+const CLOZE_NUMBER_REGEX = /\{\{c(\d+)::/g;
+
+interface PreparedModel {
+  template: ParseTemplate;
+  definition: AnkiModelDefinition;
+  model: AnkiModel;
+}
+
+/**
+ * APKG导出服务
+ */
+export class APKGExportService {
+  private logger: APKGLogger;
+  private templateExporter: TuankiTemplateExporter;
+  private cardExporter: CardExporter;
+
+  constructor(private plugin: AnkiPlugin) {
+    this.logger = new APKGLogger({ prefix: '[APKGExportService]' });
+    // 复用 AnkiConnect 导出的模板和字段转换逻辑；离线导出不会向 AnkiConnect 发送请求
+    const client = new AnkiConnectClient();
+    this.templateExporter = new TuankiTemplateExporter(plugin, client);
+    this.cardExporter = new CardExporter(plugin, client, this.templateExporter);
+  }
+
+  /**
+   * 导出牌组为APKG
+   *
+   * @param config - 导出配置
+   * @param onProgress - 进度回调 (已处理卡片数, 总卡片数)
+   */
+  async export(
+    config: APKGExportConfig,
+    onProgress?: (current: number, total: number) => void
+  ): Promise<APKGExportResult> {
+    const warnings: string[] = [];
+    const stats = { notes: 0, cards: 0, mediaFiles: 0 };
+
+    try {
+      const dataStorage = this.plugin.dataStorage;
+      const deck = await dataStorage.getDeck(config.deckId);
+      if (!deck) {
+        throw new Error(`牌组不存在: ${config.deckId}`);
+      }
+
+      const cards = await dataStorage.getCardsByDeck(config.deckId);
+      this.logger.info(`开始导出牌组 ${deck.name}: ${cards.length} 张卡片`);
+
+      const ankiDeck = { id: stableId(`deck:${deck.id}`), name: deck.name, desc: deck.description || '' };
+      const crt = config.includeScheduling
+        ? collectionCreationTime(cards.filter(c => c.fsrs?.due).map(c => new Date(c.fsrs.due)))
+        : collectionCreationTime([]);
+
+      const models = new Map<string, PreparedModel>();
+      const notes: APKGWriteNote[] = [];
+      const media = new Map<string, Uint8Array>();
+
+      // 兄弟卡片属于同一条笔记：每条笔记只写一次，各兄弟卡片的调度状态写入对应序号的卡片
+      let processed = 0;
+      for (const siblings of groupNoteSiblings(cards)) {
+        const card = siblings[0];
+        onProgress?.(processed, cards.length);
+        processed += siblings.length;
+
+        try {
+          const prepared = this.prepareModel(card, models);
+          if (!prepared) {
+            warnings.push(`卡片 ${card.id} 的模板不可用，已跳过`);
+            continue;
+          }
+
+          const exportCard = prepared.definition.isCloze ? withAnkiCloze(card) : card;
+          const collected: MediaFileInfo[] = [];
+          const converted = await this.cardExporter.convertCardToAnkiNote(
+            exportCard,
+            prepared.template,
+            {
+              id: prepared.model.id,
+              name: prepared.definition.modelName,
+              fields: prepared.definition.inOrderFields,
+              templates: prepared.definition.cardTemplates,
+              css: prepared.definition.css
+            },
+            config.includeMedia ? collected : undefined
+          );
+
+          const fields = prepared.definition.inOrderFields.map(name => converted.fields?.[name] ?? '');
+          const ords = prepared.definition.isCloze
+            ? clozeOrds(fields)
+            : prepared.definition.cardTemplates.map((_, ord) => ord);
+          if (ords.length === 0) {
+            warnings.push(`挖空卡片 ${card.id} 没有挖空内容，已跳过`);
+            continue;
+          }
+
+          notes.push({
+            guid: noteGuid(card),
+            mid: prepared.model.id,
+            did: ankiDeck.id,
+            fields,
+            tags: converted.tags || [],
+            modified: card.modified ? Date.parse(card.modified) : undefined,
+            cards: ords.map(ord => this.buildCard(
+              siblingForOrd(siblings, prepared.template, ord, prepared.definition.isCloze),
+              ord,
+              crt,
+              notes.length + 1,
+              config.includeScheduling
+            ))
+          });
+          stats.cards += ords.length;
+
+          if (config.includeMedia) {
+            await this.collectMedia(card, collected, media);
+          }
+        } catch (error) {
+          warnings.push(`卡片 ${card.id} 导出失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      onProgress?.(cards.length, cards.length);
+
+      stats.notes = notes.length;
+      stats.mediaFiles = media.size;
+
+      const writer = new APKGWriter(this.plugin.wasmUrl);
+      const data = await writer.write({
+        models: Array.from(models.values()).map(prepared => prepared.model),
+        decks: [ankiDeck],
+        notes,
+        media,
+        crt
+      });
+
+      this.logger.info(`导出完成: ${stats.notes} 个笔记, ${stats.cards} 张卡片, ${stats.mediaFiles} 个媒体文件`);
+      return {
+        success: true,
+        fileName: `${sanitizeFileName(deck.name)}.apkg`,
+        data,
+        stats,
+        warnings
+      };
+    } catch (error) {
+      this.logger.error('APKG导出失败', error);
+      return {
+        success: false,
+        stats,
+        warnings,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * 获取卡片模板对应的 Anki 模型（同一模板只生成一次）
+   */
+  private prepareModel(card: Card, models: Map<string, PreparedModel>): PreparedModel | null {
+    const templateId = card.templateId || '';
+    const cached = models.get(templateId);
+    if (cached) return cached;
+
+    const template = this.cardExporter.getTemplateById(templateId);
+    if (!template) return null;
+
+    const definition = this.templateExporter.buildModelDefinition(template);
+    const model: AnkiModel = {
+      // 模型ID由模板ID派生，重复导出时 Anki 会识别为同一笔记类型
+      id: stableId(`model:${template.id}`),
+      name: definition.modelName,
+      type: definition.isCloze ? 1 : 0,
+      flds: definition.inOrderFields.map((name, ord) => ({
+        name,
+        ord,
+        sticky: false,
+        rtl: false,
+        font: 'Arial',
+        size: 20
+      })),
+      tmpls: definition.cardTemplates.map((tmpl, ord) => ({
+        name: tmpl.Name,
+        ord,
+        qfmt: tmpl.Front,
+        afmt: tmpl.Back
+      })),
+      css: definition.css,
+      sortf: 0
+    };
+
+    const prepared = { template, definition, model };
+    models.set(templateId, prepared);
+    return prepared;
+  }
+
+  private buildCard(card: Card, ord: number, crt: number, position: number, includeScheduling: boolean): APKGWriteCard {
+    if (!includeScheduling) {
+      return { ord };
+    }
+    return {
+      ord,
+      scheduling: toAnkiScheduling(card.fsrs, crt, position, !!card.suspended),
+      revlog: toAnkiRevlog(card.reviewHistory)
+    };
+  }
+
+  /**
+   * 收集卡片内容引用的媒体和媒体管理服务中登记的媒体
+   */
+  private async collectMedia(card: Card, referenced: MediaFileInfo[], media: Map<string, Uint8Array>): Promise<void> {
+    const adapter = this.plugin.app.vault.adapter;
+
+    for (const file of referenced) {
+      if (media.has(file.filename)) continue;
+      try {
+        media.set(file.filename, new Uint8Array(await adapter.readBinary(file.vaultPath)));
+      } catch (error) {
+        this.logger.warn(`读取媒体文件失败: ${file.vaultPath}`, error);
+      }
+    }
+
+    const mediaManager = this.plugin.mediaManager;
+    if (!mediaManager) return;
+    for (const file of await mediaManager.getMediaByCard(card.id)) {
+      if (media.has(file.filename)) continue;
+      try {
+        media.set(file.filename, new Uint8Array(await mediaManager.readMedia(file)));
+      } catch (error) {
+        this.logger.warn(`读取媒体文件失败: ${file.storagePath}`, error);
+      }
+    }
+  }
+}
+
+/**
+ * 由字符串派生稳定的数字ID（落在毫秒时间戳范围内，与 Anki 的ID格式一致）
+ */
+function stableId(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return 1_000_000_000_000 + hash;
+}
+
+/**
+ * 笔记GUID：从 Anki 导入的卡片沿用原GUID，重新导入时 Anki 会更新而不是重复添加
+ */
+function noteGuid(card: Card): string {
+  const ankiGuid = (card.metadata as { ankiGuid?: string } | undefined)?.ankiGuid;
+  return ankiGuid || card.uuid || card.id;
+}
+
+/**
+ * 卡片序号对应的兄弟卡片（挖空按编号、卡片类型按模板中的顺序）；
+ * 未拆分的笔记只有一张卡片，所有序号共用它的调度状态
+ */
+function siblingForOrd(siblings: Card[], template: ParseTemplate, ord: number, isCloze: boolean): Card {
+  const match = isCloze
+    ? siblings.find(sibling => sibling.clozeOrdinal === ord + 1)
+    : siblings.find(sibling => sibling.cardTypeId !== undefined && sibling.cardTypeId === template.cardTypes?.[ord]?.id);
+  return match ?? siblings[0];
+}
+
+/**
+ * 将 ==高亮== 挖空转换为 Anki 的 {{cN::}} 语法（已使用 Anki 语法的内容保持不变）
+ */
+function withAnkiCloze(card: Card): Card {
+  if (!card.fields) return card;
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(card.fields)) {
+    if (typeof value !== 'string' || /\{\{c\d+::/.test(value)) {
+      fields[key] = value;
+      continue;
+    }
+    let index = 0;
+    fields[key] = value.replace(/==([^=\n]+)==/g, (_, text) => `{{c${++index}::${text}}}`);
+  }
+  return { ...card, fields };
+}
+
+/**
+ * 挖空编号对应的卡片序号（c1 → 0）
+ */
+function clozeOrds(fields: string[]): number[] {
+  const numbers = new Set<number>();
+  for (const field of fields) {
+    for (const match of field.matchAll(CLOZE_NUMBER_REGEX)) {
+      numbers.add(parseInt(match[1], 10));
+    }
+  }
+  return Array.from(numbers).filter(n => n > 0).sort((a, b) => a - b).map(n => n - 1);
+}
+
+function sanitizeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'deck';
+}
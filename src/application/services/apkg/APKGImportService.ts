@@ -14,7 +14,7 @@ import type {
   ImportError,
   ProgressCallback
 } from '../../../domain/apkg/types';
-import type { Deck } from '../../../data/types';
+import type { Card, Deck } from '../../../data/types';
 import type { IDataStorageAdapter } from '../../../infrastructure/adapters/DataStorageAdapter';
 import type { IMediaStorageAdapter } from '../../../infrastructure/adapters/MediaStorageAdapter';
 import type AnkiPlugin from '../../../main';
@@ -24,6 +24,8 @@ import { APKGParser } from '../../../domain/apkg/parser/APKGParser';
 import { FieldSideResolver } from '../../../domain/apkg/converter/FieldSideResolver';
 import { ContentConverter } from '../../../domain/apkg/converter/ContentConverter';
 import { MediaProcessor } from '../../../domain/apkg/converter/MediaProcessor';
+import { SchedulingConverter } from '../../../domain/apkg/converter/SchedulingConverter';
+import type { ImportedScheduling } from '../../../domain/apkg/converter/SchedulingConverter';
 import { CardBuilder } from '../../../domain/apkg/builder/CardBuilder';
 import { AnkiTemplateConverter } from './AnkiTemplateConverter';
 import { APKGLogger } from '../../../infrastructure/logger/APKGLogger';
@@ -123,6 +125,11 @@ export class APKGImportService {
         completedItems: 0
       });
       
+      // 保留学习进度时，按笔记转换 Anki 的调度状态和复习记录
+      const scheduling = config.preserveScheduling
+        ? new SchedulingConverter(apkgData.cards, apkgData.revlog, apkgData.metadata.created)
+        : null;
+      
       const cards = [];
       for (let i = 0; i < apkgData.notes.length; i++) {
         const note = apkgData.notes[i];
@@ -153,6 +160,10 @@ export class APKGImportService {
         });
         
         if (result.success && result.card) {
+          const imported = scheduling?.convert(note.id);
+          if (imported) {
+            applyScheduling(result.card, imported);
+          }
           cards.push(result.card);
           stats.importedCards++;
         } else {
@@ -318,5 +329,21 @@ export class APKGImportService {
   }
 }
 
+/**
+ * 用 Anki 中的学习进度覆盖新建卡片的调度状态
+ */
+function applyScheduling(card: Card, imported: ImportedScheduling): void {
+  card.fsrs = imported.fsrs;
+  card.reviewHistory = imported.reviewHistory;
+  if (imported.suspended) {
+    card.suspended = true;
+  }
 
-
+  const totalTime = imported.reviewHistory.reduce((sum, log) => sum + (log.duration ?? 0), 0) / 1000;
+  card.stats = {
+    ...card.stats,
+    totalReviews: imported.reviewHistory.length,
+    totalTime,
+    averageTime: imported.reviewHistory.length ? totalTime / imported.reviewHistory.length : 0
+  };
+}
@@ -5,6 +5,7 @@
  */
 
 export { APKGImportService } from './APKGImportService';
+export { APKGExportService } from './APKGExportService';
 
 
 
@@ -4,6 +4,9 @@ import { isMultipleChoiceCard, parseChoiceOptions } from '../../utils/multiple-c
 import { ExtensiblePreviewManager } from './types/ExtensiblePreview';
 import { ClozePreview } from './types/ClozePreview';
 import { ContentExtractor } from '../../services/ContentExtractor';
+import { buildCardTypeSides, findTemplateCardType, type CardTypeSides } from '../../utils/template-card-types';
+import type { ParseTemplate } from '../../types/newCardParsingTypes';
+import { createTtsFieldResolver, renderTtsButtons, resolveTtsSettings } from '../../services/audio/TextToSpeechService';
 import type AnkiPlugin from '../../main';
 import {
   UnifiedCardType,
@@ -528,6 +531,38 @@ export class ContentPreviewEngine {
     }
   }
 
+  /**
+   * 卡片类型对应的问题面和答案面；卡片没有卡片类型或模板中已不存在该类型时返回 null
+   */
+  private getCardTypeSides(card: Card): CardTypeSides | null {
+    if (!card.cardTypeId) return null;
+    const template = this.getParseTemplate(card);
+    const cardType = findTemplateCardType(template, card.cardTypeId);
+    return cardType ? buildCardTypeSides(card, template, cardType) : null;
+  }
+
+  /**
+   * 卡片使用的解析模板
+   */
+  private getParseTemplate(card: Card): ParseTemplate | undefined {
+    const templates: ParseTemplate[] = this.plugin?.settings?.simplifiedParsing?.templates ?? [];
+    return templates.find(t => t.id === card.templateId);
+  }
+
+  /**
+   * 将各节中的 TTS 标记（{{tts:字段名}}）替换为朗读按钮
+   */
+  private renderTtsMarkers(card: Card, sections: PreviewSection[]): PreviewSection[] {
+    if (!sections.some(section => section.content.includes('{{tts'))) return sections;
+    const template = this.getParseTemplate(card);
+    const settings = resolveTtsSettings(template);
+    const resolveField = createTtsFieldResolver(card, template);
+    return sections.map(section => ({
+      ...section,
+      content: renderTtsButtons(section.content, settings, resolveField)
+    }));
+  }
+
   /**
    * 生成预览节
    */
@@ -536,6 +571,16 @@ export class ContentPreviewEngine {
 
     switch (cardType) {
       case UnifiedCardType.BASIC_QA:
+        // 多卡片类型模板的兄弟卡片：按卡片类型从共享字段中组合问题面和答案面
+        const cardTypeSides = this.getCardTypeSides(card);
+        if (cardTypeSides) {
+          sections.push(
+            this.createPreviewSection('front', cardTypeSides.front, 'markdown'),
+            this.createPreviewSection('back', cardTypeSides.back, 'markdown')
+          );
+          break;
+        }
+
         // ✅ 修复：遵循卡片数据结构规范 v1.0
         // 优先使用 card.content 解析，降级使用 fields
         let qaFullContent = '';
@@ -666,7 +711,7 @@ export class ContentPreviewEngine {
         break;
     }
 
-    return sections;
+    return this.renderTtsMarkers(card, sections);
   }
 
   /**
@@ -248,7 +248,7 @@ export class AnkiSettingsTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName("启用键盘快捷键")
-      .setDesc("启用学习模式的键盘快捷键（1-4评分，空格显示答案）")
+      .setDesc("启用学习模式的键盘快捷键（1-4评分，空格显示答案，R 重播音频）")
       .addToggle(toggle => toggle
         .setValue(this.plugin.settings.enableShortcuts)
         .onChange(async (value) => {
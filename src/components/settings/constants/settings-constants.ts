@@ -261,7 +261,15 @@ export const DEFAULT_AI_CONFIG = {
     anthropic: { apiKey: '', model: 'claude-3-5-sonnet-20241022', verified: false },
     deepseek: { apiKey: '', model: 'deepseek-chat', verified: false },
     zhipu: { apiKey: '', model: 'glm-4-flash', verified: false },
-    siliconflow: { apiKey: '', model: 'Qwen/Qwen2.5-7B-Instruct', verified: false }
+    siliconflow: { apiKey: '', model: 'Qwen/Qwen2.5-7B-Instruct', verified: false },
+    local: {
+      apiKey: '',
+      model: 'qwen2.5:7b',
+      verified: false,
+      baseUrl: 'http://localhost:11434',
+      apiFormat: 'ollama' as 'openai' | 'ollama',
+      models: ['qwen2.5:7b']
+    }
   },
   defaultProvider: 'zhipu' as const,
   formattingProvider: undefined,  // 默认未设置，将使用 defaultProvider
@@ -407,6 +415,10 @@ export const AI_MODEL_OPTIONS = {
     
     // 01-ai系列
     { id: 'Pro/01-ai/Yi-Lightning', label: 'Yi Lightning', description: '零一万物 - 极速版' }
+  ],
+  // 本地模型列表由用户配置（apiKeys.local.models），此处仅作兜底
+  local: [
+    { id: 'qwen2.5:7b', label: 'Qwen2.5 7B', description: 'Ollama 本地模型' }
   ]
 } as const;
 
@@ -417,11 +429,12 @@ export const AI_PROVIDER_LABELS = {
   anthropic: 'Anthropic',
   deepseek: 'DeepSeek',
   zhipu: '智谱清言',
-  siliconflow: '硅基流动'
+  siliconflow: '硅基流动',
+  local: '本地模型'
 } as const;
 
 // AI提供商类型
-export type AIProvider = 'openai' | 'gemini' | 'anthropic' | 'deepseek' | 'zhipu' | 'siliconflow';
+export type AIProvider = 'openai' | 'gemini' | 'anthropic' | 'deepseek' | 'zhipu' | 'siliconflow' | 'local';
 
 // ================================
 // 致谢信息配置
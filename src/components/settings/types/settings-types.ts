@@ -5,6 +5,8 @@
 
 import type AnkiPlugin from "../../../main";
 import type { SimplifiedParsingSettings } from "../../../types/newCardParsingTypes";
+import type { Card, Deck, UserProfile } from "../../../data/types";
+import type { LoadBalanceSettings } from "../../../algorithms/load-balancer";
 
 // 基础设置接口扩展
 export interface EditorSettings {
@@ -26,6 +28,7 @@ export interface SettingsWithEditor {
   // 🆕 自动备份配置
   autoBackupConfig?: import('../../../types/data-management-types').AutoBackupConfig;
   fsrsParams: FSRSParameters;
+  loadBalancing?: LoadBalanceSettings;
   license: LicenseInfo;
   annotation?: AnnotationSettings;
   // 简化卡片解析设置
@@ -125,6 +128,11 @@ export interface DataStorageInterface {
   exportData?: () => Promise<any>;
   importData?: (data: any) => Promise<any>;
   rebuildStatesFromLogs?: () => Promise<void>;
+  getAllCards?: () => Promise<Card[]>;
+  getDeckCards?: (deckId: string) => Promise<Card[]>;
+  getDecks?: () => Promise<Deck[]>;
+  saveDeck?: (deck: Deck) => Promise<unknown>;
+  getUserProfile?: () => Promise<UserProfile>;
 }
 
 export interface PluginExtended extends AnkiPlugin {
@@ -288,7 +296,7 @@ export interface DeckSyncMapping {
   tuankiDeckId: string;
   tuankiDeckName: string;
   ankiDeckName: string;
-  syncDirection: 'to_anki' | 'from_anki';
+  syncDirection: 'to_anki' | 'from_anki' | 'bidirectional';
   enabled: boolean;
   lastSyncTime?: string;
 }
@@ -306,7 +314,7 @@ export interface TemplateSyncMapping {
 export interface SyncLogEntry {
   id: string;
   timestamp: string;
-  direction: 'to_anki' | 'from_anki';
+  direction: 'to_anki' | 'from_anki' | 'bidirectional';
   summary: {
     totalCards: number;
     successCount: number;
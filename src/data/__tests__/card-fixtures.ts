@@ -0,0 +1,86 @@
+/**
+ * 测试用卡片和牌组的构造函数（字段完整，按需覆盖）
+ */
+
+import { CardState, CardType } from '../types';
+import type { Card, Deck, DeckSettings, FSRSCard } from '../types';
+
+const CREATED = '2025-01-01T00:00:00.000Z';
+
+/**
+ * 构造卡片，默认是尚未学习的新卡片
+ */
+export function createTestCard(id: string, fsrs: Partial<FSRSCard> = {}, extra: Partial<Card> = {}): Card {
+  return {
+    id,
+    uuid: `tk-${id}`,
+    deckId: 'deck',
+    templateId: 'basic',
+    type: CardType.Basic,
+    content: id,
+    fsrs: {
+      due: CREATED,
+      stability: 0,
+      difficulty: 0,
+      elapsedDays: 0,
+      scheduledDays: 0,
+      reps: 0,
+      lapses: 0,
+      state: CardState.New,
+      retrievability: 0,
+      ...fsrs
+    },
+    reviewHistory: [],
+    stats: { totalReviews: 0, totalTime: 0, averageTime: 0, memoryRate: 0 },
+    created: CREATED,
+    modified: CREATED,
+    ...extra
+  };
+}
+
+/**
+ * 构造根牌组，设置为默认值
+ */
+export function createTestDeck(id: string, settings: Partial<DeckSettings> = {}): Deck {
+  return {
+    id,
+    name: id,
+    description: '',
+    category: '',
+    path: id,
+    level: 0,
+    order: 0,
+    inheritSettings: false,
+    settings: {
+      newCardsPerDay: 20,
+      maxReviewsPerDay: 100,
+      enableAutoAdvance: true,
+      showAnswerTime: 0,
+      fsrsParams: { w: [], requestRetention: 0.9, maximumInterval: 36500, enableFuzz: true },
+      learningSteps: [1, 10],
+      relearningSteps: [10],
+      graduatingInterval: 1,
+      easyInterval: 4,
+      ...settings
+    },
+    stats: {
+      totalCards: 0,
+      newCards: 0,
+      learningCards: 0,
+      reviewCards: 0,
+      todayNew: 0,
+      todayReview: 0,
+      todayTime: 0,
+      totalReviews: 0,
+      totalTime: 0,
+      memoryRate: 0,
+      averageEase: 0,
+      forecastDays: {}
+    },
+    includeSubdecks: false,
+    created: CREATED,
+    modified: CREATED,
+    tags: [],
+    metadata: {}
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * 卡片二级索引测试
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CardQueryIndex, getCardDeckIds } from '../card-query-index';
+import { CardState } from '../types';
+import type { Card, FSRSCard } from '../types';
+
+function makeCard(id: string, extra: Partial<Card> = {}): Card {
+  return {
+    id,
+    uuid: `uuid-${id}`,
+    deckId: 'deck-a',
+    templateId: 'basic',
+    sourceFile: 'notes/a.md',
+    tags: ['exam'],
+    ...extra
+  } as Card;
+}
+
+describe('CardQueryIndex', () => {
+  let index: CardQueryIndex;
+
+  beforeEach(() => {
+    index = new CardQueryIndex();
+    index.upsertCards([
+      makeCard('1'),
+      makeCard('2', { sourceFile: 'notes/b.md', tags: ['exam', 'bio'] }),
+      makeCard('3', { deckId: 'deck-b', deckIds: ['deck-b', 'deck-a'], templateId: 'cloze', tags: [] }),
+    ]);
+  });
+
+  it('应该按 uuid/源文件/模板/标签 查询', () => {
+    expect(index.getCardIdByUUID('uuid-3')).toBe('3');
+    expect(index.getCardIdsBySourceFile('notes/a.md').sort()).toEqual(['1', '3']);
+    expect(index.getCardIdsByTemplate('cloze')).toEqual(['3']);
+    expect(index.getCardIdsByTag('exam').sort()).toEqual(['1', '2']);
+  });
+
+  it('多牌组卡片应该出现在每个牌组下', () => {
+    expect(index.getCardIdsByDeck('deck-a').sort()).toEqual(['1', '2', '3']);
+    expect(index.getCardIdsByDeck('deck-b')).toEqual(['3']);
+    expect(index.getDeckIdsByCardId('3')).toEqual(['deck-b', 'deck-a']);
+  });
+
+  it('更新卡片时应该清除旧的反向条目', () => {
+    index.upsertCards([makeCard('2', { sourceFile: 'notes/c.md', tags: [] })]);
+
+    expect(index.getCardIdsBySourceFile('notes/b.md')).toEqual([]);
+    expect(index.getCardIdsBySourceFile('notes/c.md')).toEqual(['2']);
+    expect(index.getCardIdsByTag('bio')).toEqual([]);
+  });
+
+  it('删除卡片后不应再被查询到', () => {
+    index.removeCards(['3']);
+
+    expect(index.getCardIdByUUID('uuid-3')).toBeUndefined();
+    expect(index.getCardIdsByDeck('deck-b')).toEqual([]);
+    expect(index.size).toBe(2);
+  });
+
+  it('应该只记录已排程卡片的到期时间', () => {
+    const fsrs = (state: CardState, due: string) => ({ state, due }) as FSRSCard;
+    index.upsertCards([
+      makeCard('1', { fsrs: fsrs(CardState.Review, '2025-03-01T00:00:00.000Z') }),
+      makeCard('2', { fsrs: fsrs(CardState.New, '2025-03-02T00:00:00.000Z') }),
+      makeCard('3', { fsrs: fsrs(CardState.Learning, '2025-03-03T00:00:00.000Z'), suspended: true }),
+      makeCard('4', { fsrs: fsrs(CardState.Relearning, '2025-03-04T00:00:00.000Z') })
+    ]);
+
+    expect(index.getScheduledDueDates().sort()).toEqual(['2025-03-01T00:00:00.000Z', '2025-03-04T00:00:00.000Z']);
+    index.removeCards(['4']);
+    expect(index.getScheduledDueDates()).toEqual(['2025-03-01T00:00:00.000Z']);
+  });
+
+  it('应该能从快照恢复，并拒绝未知版本', () => {
+    const restored = new CardQueryIndex();
+    expect(restored.load(index.toJSON())).toBe(true);
+    expect(restored.size).toBe(3);
+    expect(restored.getCardIdByUUID('uuid-2')).toBe('2');
+
+    expect(restored.load({ ...index.toJSON(), _schemaVersion: '0.0.1' })).toBe(false);
+    expect(restored.size).toBe(0);
+  });
+
+  it('旧数据没有 deckIds 时应该回退到 deckId', () => {
+    expect(getCardDeckIds(makeCard('9'))).toEqual(['deck-a']);
+    expect(getCardDeckIds(makeCard('9', { deckIds: ['x', 'y'] }))).toEqual(['x', 'y']);
+  });
+});
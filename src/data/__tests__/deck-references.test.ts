@@ -0,0 +1,109 @@
+/**
+ * 引用式牌组测试（saveDeckCards 归属与孤儿卡片 / 解散与重组牌组 / 按引用学习）
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+let idCounter = 0;
+vi.mock('../../utils/helpers', () => ({
+  generateId: () => `id-${++idCounter}`,
+  generateUUID: () => `tk-${idCounter}`
+}));
+
+import { AnkiDataStorage } from '../storage';
+import type { Card, Deck } from '../types';
+import { DeckHierarchyService } from '../../services/deck/DeckHierarchyService';
+import { loadDeckCardsForStudy } from '../../utils/study/studyCompletionHelper';
+import { MemoryAdapter, createMemoryPlugin } from './memory-adapter';
+
+function makeCard(id: string, deckId: string): Card {
+  return {
+    id,
+    deckId,
+    content: id,
+    fsrs: { due: '2025-01-01T00:00:00.000Z', stability: 0, difficulty: 0, elapsedDays: 0, scheduledDays: 0, reps: 0, lapses: 0, state: 0, retrievability: 0 },
+    reviewHistory: []
+  } as unknown as Card;
+}
+
+function makeDeck(id: string, parentId?: string): Deck {
+  return { id, name: id, path: id, parentId, level: parentId ? 1 : 0, order: 0 } as unknown as Deck;
+}
+
+function cardIdsOf(cards: Card[]): string[] {
+  return cards.map(card => card.id);
+}
+
+describe('引用式牌组', () => {
+  let adapter: MemoryAdapter;
+  let storage: AnkiDataStorage;
+
+  beforeEach(() => {
+    adapter = new MemoryAdapter();
+    storage = new AnkiDataStorage(createMemoryPlugin(adapter));
+  });
+
+  it('saveDeckCards 应该维护多牌组归属，并删除不再属于任何牌组的卡片', async () => {
+    await storage.saveDeckCards('d1', [makeCard('a', 'd1'), makeCard('shared', 'd1')]);
+    await storage.saveDeckCards('d2', [makeCard('shared', 'd1'), makeCard('b', 'd2')]);
+
+    const shared = (await storage.getCards()).find(card => card.id === 'shared');
+    expect(shared).toMatchObject({ deckId: 'd1', deckIds: ['d1', 'd2'] });
+    expect(cardIdsOf(await storage.getDeckCards('d2'))).toEqual(['shared', 'b']);
+    // 按牌组查询包括只被引用的卡片
+    expect(cardIdsOf(await storage.getCards({ deckId: 'd2' }))).toEqual(['shared', 'b']);
+
+    // 移出主牌组：卡片保留，主牌组改为仍引用它的牌组
+    await storage.saveDeckCards('d1', [makeCard('a', 'd1')]);
+    expect((await storage.getCards()).find(card => card.id === 'shared')).toMatchObject({ deckId: 'd2', deckIds: ['d2'] });
+
+    // 移出最后一个牌组：卡片成为孤儿并被删除
+    await storage.saveDeckCards('d2', [makeCard('b', 'd2')]);
+    expect(cardIdsOf(await storage.getCards()).sort()).toEqual(['a', 'b']);
+  });
+
+  it('updateCards 应该批量写入学习数据，不改变牌组归属并跳过已删除的卡片', async () => {
+    await storage.saveDeckCards('d1', [makeCard('shared', 'd1')]);
+    await storage.addCardsToDeck('d2', ['shared']);
+
+    const rescheduled = { ...makeCard('shared', 'd2'), fsrs: { ...makeCard('shared', 'd2').fsrs, due: '2025-03-01T00:00:00.000Z' } };
+    expect(await storage.updateCards([rescheduled, makeCard('missing', 'd1')])).toBe(1);
+
+    const cards = await storage.getCards();
+    expect(cardIdsOf(cards)).toEqual(['shared']);
+    expect(cards[0]).toMatchObject({ deckId: 'd1', deckIds: ['d1', 'd2'], fsrs: { due: '2025-03-01T00:00:00.000Z' } });
+  });
+
+  it('学习队列应该包括只被该牌组引用的卡片', async () => {
+    await storage.saveDeckCards('d1', [makeCard('shared', 'd1')]);
+    await storage.addCardsToDeck('d2', ['shared']);
+
+    const queue = await loadDeckCardsForStudy(storage, 'd2', 20, 200);
+
+    expect(cardIdsOf(queue)).toEqual(['shared']);
+  });
+
+  it('解散牌组应该把卡片并入父牌组，重组牌组应该只保存去重后的引用', async () => {
+    const hierarchy = new DeckHierarchyService(storage);
+    await storage.saveDeck(makeDeck('parent'));
+    await storage.saveDeck(makeDeck('child', 'parent'));
+    await storage.saveDeckCards('parent', [makeCard('y', 'parent')]);
+    await storage.saveDeckCards('child', [makeCard('x', 'child'), makeCard('y', 'child')]);
+
+    await hierarchy.dissolveDeck('child');
+
+    expect((await storage.getDecks()).map(deck => deck.id)).toEqual(['parent']);
+    expect(await storage.getDeckCardIds('parent')).toEqual(['y', 'x']);
+    expect((await storage.getCards()).map(card => [card.id, card.deckIds])).toEqual(
+      expect.arrayContaining([['x', ['parent']], ['y', ['parent']]])
+    );
+
+    await storage.saveDeck(makeDeck('other'));
+    await storage.saveDeckCards('other', [makeCard('z', 'other'), makeCard('x', 'other')]);
+    const combined = await hierarchy.combineDecks('Mix', ['parent', 'other']);
+
+    expect(await storage.getDeckCardIds(combined.id)).toEqual(['y', 'x', 'z']);
+    expect(await storage.getDeckCardIds('other')).toEqual(['z', 'x']);
+    expect((await storage.getCards()).find(card => card.id === 'x')?.deckIds).toEqual(['parent', 'other', combined.id]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * 测试用内存文件系统（实现存储层用到的 DataAdapter 方法）及基于它的插件桩
+ */
+
+import { TFile } from 'obsidian';
+import type { DataAdapter, Plugin } from 'obsidian';
+
+export class MemoryAdapter {
+  files = new Map<string, string>();
+  folders = new Set<string>();
+  /** 返回 true 的路径写入失败（模拟磁盘错误） */
+  failWrite: (path: string) => boolean = () => false;
+
+  async read(path: string): Promise<string> {
+    const content = this.files.get(path);
+    if (content === undefined) throw new Error(`ENOENT: ${path}`);
+    return content;
+  }
+
+  async write(path: string, data: string): Promise<void> {
+    if (this.failWrite(path)) throw new Error(`EIO: ${path}`);
+    this.files.set(path, data);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return this.files.has(path) || this.folders.has(path);
+  }
+
+  async stat(path: string): Promise<{ type: 'file' | 'folder'; size: number } | null> {
+    if (this.files.has(path)) return { type: 'file', size: this.files.get(path)!.length };
+    return this.folders.has(path) ? { type: 'folder', size: 0 } : null;
+  }
+
+  async remove(path: string): Promise<void> {
+    this.files.delete(path);
+  }
+
+  async rename(from: string, to: string): Promise<void> {
+    const content = await this.read(from);
+    this.files.delete(from);
+    this.files.set(to, content);
+  }
+
+  async mkdir(path: string): Promise<void> {
+    this.folders.add(path);
+  }
+
+  async list(path: string): Promise<{ files: string[]; folders: string[] }> {
+    const prefix = `${path}/`;
+    const children = (paths: Iterable<string>) =>
+      Array.from(paths).filter(p => p.startsWith(prefix) && !p.slice(prefix.length).includes('/'));
+    return { files: children(this.files.keys()), folders: children(this.folders) };
+  }
+
+  json<T = any>(path: string): T {
+    return JSON.parse(this.files.get(path) ?? 'null');
+  }
+
+  asDataAdapter(): DataAdapter {
+    return this as unknown as DataAdapter;
+  }
+}
+
+/**
+ * 以内存文件系统为 vault 的插件桩（供 AnkiDataStorage 使用）
+ */
+export function createMemoryPlugin(adapter: MemoryAdapter = new MemoryAdapter()): Plugin {
+  const vault = {
+    adapter,
+    getAbstractFileByPath: (path: string) => {
+      if (adapter.files.has(path)) return Object.assign(new TFile(), { path });
+      return adapter.folders.has(path) ? { path } : null;
+    },
+    read: (file: TFile) => adapter.read(file.path),
+    modify: (file: TFile, data: string) => adapter.write(file.path, data),
+    create: (path: string, data: string) => adapter.write(path, data),
+    createFolder: (path: string) => adapter.mkdir(path)
+  };
+  return { app: { vault }, settings: {} } as unknown as Plugin;
+}
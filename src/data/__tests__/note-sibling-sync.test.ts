@@ -0,0 +1,64 @@
+/**
+ * 兄弟卡片同步测试（经由 AnkiDataStorage.saveCard 落盘）
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+let idCounter = 0;
+vi.mock('../../utils/helpers', () => ({
+  generateId: () => `id-${++idCounter}`,
+  generateUUID: () => `tk-${idCounter}`
+}));
+
+import { AnkiDataStorage } from '../storage';
+import { CardType } from '../types';
+import type { Card } from '../types';
+import { MemoryAdapter, createMemoryPlugin } from './memory-adapter';
+
+function occlusionContent(maskIds: string[]): string {
+  const masks = maskIds.map((id, index) => ({
+    id, type: 'rect', x: 0.1 * index, y: 0.1, width: 0.05, height: 0.05, style: 'solid'
+  }));
+  const data = { version: '1.1', mode: 'hide-all-guess-one', masks };
+  return `![[anatomy.png]]\n<!-- tuanki-mask: ${JSON.stringify(data)} -->\n---div---\n解剖图`;
+}
+
+function makeOcclusionCard(id: string, maskIds: string[]): Card {
+  return {
+    id,
+    deckId: 'd1',
+    templateId: 'official-qa',
+    type: CardType.Basic,
+    content: occlusionContent(maskIds),
+    fsrs: { due: '2025-01-01T00:00:00.000Z', stability: 0, difficulty: 0, elapsedDays: 0, scheduledDays: 0, reps: 0, lapses: 0, state: 0, retrievability: 0 },
+    reviewHistory: []
+  } as unknown as Card;
+}
+
+describe('AnkiDataStorage 兄弟卡片同步', () => {
+  let storage: AnkiDataStorage;
+
+  beforeEach(() => {
+    idCounter = 0;
+    storage = new AnkiDataStorage(createMemoryPlugin(new MemoryAdapter()));
+  });
+
+  const targetsOf = async (noteId: string) =>
+    (await storage.getCardsByNote(noteId)).map(card => [card.id, card.occlusionTarget]).sort();
+
+  it('删除遮罩后再新增遮罩，被保存的卡片应该改为新出题目标并落盘', async () => {
+    await storage.saveCard(makeOcclusionCard('a', ['m1', 'm2']));
+    const [sibling] = (await storage.getCardsByNote('a')).filter(card => card.id !== 'a');
+    expect(await targetsOf('a')).toEqual([['a', 'm1'], [sibling.id, 'm2']]);
+
+    // 删除 m1：卡片 a 的出题目标已不存在
+    const self = (await storage.getCards()).find(card => card.id === 'a')!;
+    await storage.saveCard({ ...self, content: occlusionContent(['m2']) });
+
+    // 新增 m3：卡片 a 占用新的出题目标，不再保留已删除的 m1
+    const edited = (await storage.getCards()).find(card => card.id === 'a')!;
+    await storage.saveCard({ ...edited, content: occlusionContent(['m2', 'm3']) });
+
+    expect(await targetsOf('a')).toEqual([['a', 'm3'], [sibling.id, 'm2']]);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * 兄弟卡片测试（挖空编号 / 模板卡片类型 / 图片遮罩出题目标）
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+let idCounter = 0;
+vi.mock('../../utils/helpers', () => ({
+  generateId: () => `id-${++idCounter}`,
+  generateUUID: () => `tk-${idCounter}`
+}));
+
+import { groupNoteSiblings, needsNoteSiblingSync, planNoteSiblings } from '../note-siblings';
+import { CardType } from '../types';
+import type { Card } from '../types';
+import { focusClozeOrdinal, getClozeOrdinals } from '../../utils/cloze-ordinals';
+
+const NOW = new Date('2025-03-01T00:00:00.000Z');
+
+function makeCard(id: string, content: string, extra: Partial<Card> = {}): Card {
+  return {
+    id,
+    uuid: `uuid-${id}`,
+    deckId: 'deck-a',
+    templateId: 'official-cloze',
+    type: CardType.Cloze,
+    content,
+    fields: { text: content },
+    fsrs: { due: '2025-02-01T00:00:00.000Z', stability: 9, difficulty: 5, elapsedDays: 3, scheduledDays: 9, reps: 4, lapses: 0, state: 2, retrievability: 0.9 },
+    reviewHistory: [{ rating: 3 } as any],
+    stats: { totalReviews: 4, totalTime: 40, averageTime: 10, memoryRate: 1 },
+    tags: ['bio'],
+    created: '2025-01-01T00:00:00.000Z',
+    modified: '2025-01-01T00:00:00.000Z',
+    ...extra
+  } as Card;
+}
+
+describe('cloze ordinals', () => {
+  it('应该按出现顺序为 ==text== 编号，并识别 {{cN::}}', () => {
+    expect(getClozeOrdinals('==A== 和 ==B== 以及 ==C==')).toEqual([1, 2, 3]);
+    expect(getClozeOrdinals('{{c2::甲}} {{c1::乙}} {{c2::丙}}')).toEqual([1, 2]);
+    expect(getClozeOrdinals('没有挖空')).toEqual([]);
+  });
+
+  it('应该只保留当前编号的挖空', () => {
+    expect(focusClozeOrdinal('==A== 和 ==B==', 2)).toBe('A 和 ==B==');
+    expect(focusClozeOrdinal('{{c1::甲}} {{c2::乙::提示}}', 1)).toBe('==甲== 乙');
+  });
+});
+
+describe('planNoteSiblings - 挖空', () => {
+  it('未拆分的多挖空卡片应该保留进度并为其余挖空新建兄弟卡片', () => {
+    const card = makeCard('note', '光合作用产生 ==氧气== 和 ==葡萄糖==');
+    expect(needsNoteSiblingSync(card, card)).toBe(true);
+
+    const plan = planNoteSiblings(card, [], [], NOW);
+
+    expect(plan.card).toMatchObject({ noteId: 'note', clozeOrdinal: 1, fsrs: { reps: 4 } });
+    expect(plan.create).toHaveLength(1);
+    expect(plan.create[0]).toMatchObject({
+      noteId: 'note',
+      clozeOrdinal: 2,
+      content: card.content,
+      tags: ['bio'],
+      reviewHistory: [],
+      fsrs: { reps: 0, state: 0, due: NOW.toISOString() }
+    });
+    expect(plan.create[0].id).not.toBe('note');
+    expect(plan.update).toEqual([]);
+    expect(plan.remove).toEqual([]);
+  });
+
+  it('编辑笔记时应该同步共享字段，并移除已删除挖空的兄弟卡片', () => {
+    const old = '==A== ==B== ==C==';
+    const siblings = [
+      makeCard('c1', old, { noteId: 'c1', clozeOrdinal: 1 }),
+      makeCard('c2', old, { noteId: 'c1', clozeOrdinal: 2, suspended: true }),
+      makeCard('c3', old, { noteId: 'c1', clozeOrdinal: 3 })
+    ];
+    const edited = { ...siblings[0], content: '==A== ==B2==', tags: ['bio', 'exam'] };
+    expect(needsNoteSiblingSync(edited, siblings[0])).toBe(true);
+    expect(needsNoteSiblingSync({ ...siblings[0], fsrs: { ...siblings[0].fsrs, reps: 5 } }, siblings[0])).toBe(false);
+
+    const plan = planNoteSiblings(edited, siblings, [], NOW);
+
+    expect(plan.create).toEqual([]);
+    expect(plan.remove).toEqual(['c3']);
+    expect(plan.update).toHaveLength(1);
+    expect(plan.update[0]).toMatchObject({ id: 'c2', content: '==A== ==B2==', tags: ['bio', 'exam'], suspended: true, fsrs: { reps: 4 } });
+  });
+});
+
+describe('planNoteSiblings - 卡片类型', () => {
+  const cardTypes = [
+    { id: 'forward', name: '单词→释义', frontFields: ['word'], backFields: ['meaning'] },
+    { id: 'reverse', name: '释义→单词', frontFields: ['meaning'], backFields: ['word'] },
+    { id: 'audio', name: '发音→单词', frontFields: ['audio'], backFields: ['word'] }
+  ];
+
+  function makeNote(id: string, extra: Partial<Card> = {}): Card {
+    return makeCard(id, 'apple\n\n---div---\n\n苹果', {
+      templateId: 'vocab',
+      type: CardType.Basic,
+      fields: { word: 'apple', meaning: '苹果', audio: '[sound:apple.mp3]' },
+      ...extra
+    });
+  }
+
+  it('模板定义多个卡片类型时应该为每个卡片类型生成一张卡片', () => {
+    const card = makeNote('note');
+    expect(needsNoteSiblingSync(card, card, cardTypes)).toBe(true);
+    expect(needsNoteSiblingSync(card, card, cardTypes.slice(0, 1))).toBe(false);
+
+    const plan = planNoteSiblings(card, [], cardTypes, NOW);
+
+    expect(plan.card).toMatchObject({ noteId: 'note', cardTypeId: 'forward', fsrs: { reps: 4 } });
+    expect(plan.create.map(sibling => sibling.cardTypeId)).toEqual(['reverse', 'audio']);
+    expect(plan.create[0]).toMatchObject({ noteId: 'note', fields: card.fields, fsrs: { reps: 0 } });
+    expect(plan.create[0].clozeOrdinal).toBeUndefined();
+  });
+
+  it('删除卡片类型后应该移除对应的兄弟卡片，并按笔记分组', () => {
+    const forward = makeNote('n1', { noteId: 'n1', cardTypeId: 'forward' });
+    const reverse = makeNote('n2', { noteId: 'n1', cardTypeId: 'reverse' });
+    const audio = makeNote('n3', { noteId: 'n1', cardTypeId: 'audio' });
+
+    const plan = planNoteSiblings({ ...reverse, tags: ['vocab'] }, [forward, reverse, audio], cardTypes.slice(0, 2), NOW);
+
+    expect(plan.card.cardTypeId).toBe('reverse');
+    expect(plan.update.map(sibling => [sibling.id, sibling.tags])).toEqual([['n1', ['vocab']]]);
+    expect(plan.remove).toEqual(['n3']);
+    expect(plan.create).toEqual([]);
+
+    const other = makeNote('solo');
+    expect(groupNoteSiblings([reverse, other, forward]).map(group => group.map(card => card.id))).toEqual([['n1', 'n2'], ['solo']]);
+  });
+});
+
+describe('planNoteSiblings - 图片遮罩', () => {
+  const maskComment = (mode?: string) => `<!-- tuanki-mask: ${JSON.stringify({
+    version: '1.1',
+    ...(mode ? { mode } : {}),
+    masks: [
+      { id: 'm1', type: 'rect', x: 0.1, y: 0.1, width: 0.2, height: 0.2, groupId: 'heart' },
+      { id: 'm2', type: 'polygon', x: 0.5, y: 0.5, points: [{ x: 0.5, y: 0.5 }, { x: 0.7, y: 0.5 }, { x: 0.6, y: 0.7 }], groupId: 'heart' },
+      { id: 'm3', type: 'circle', x: 0.8, y: 0.2, radius: 0.1 }
+    ]
+  })} -->`;
+  const makeOcclusionCard = (id: string, mode?: string, extra: Partial<Card> = {}) =>
+    makeCard(id, `![[anatomy.png]]\n${maskComment(mode)}\n---div---\n解剖图`, { type: CardType.Basic, templateId: 'official-qa', ...extra });
+
+  it('设置出题模式后应该为每个遮罩或分组生成一张卡片', () => {
+    const card = makeOcclusionCard('note', 'hide-all-guess-one');
+    expect(needsNoteSiblingSync(card, card)).toBe(true);
+
+    const plan = planNoteSiblings(card, [], [], NOW);
+
+    expect(plan.card).toMatchObject({ noteId: 'note', occlusionTarget: 'heart', fsrs: { reps: 4 } });
+    expect(plan.create.map(sibling => sibling.occlusionTarget)).toEqual(['m3']);
+    expect(plan.create[0].cardTypeId).toBeUndefined();
+  });
+
+  it('未设置出题模式时所有遮罩属于同一张卡片', () => {
+    const card = makeOcclusionCard('note');
+    expect(needsNoteSiblingSync(card, card)).toBe(false);
+    expect(planNoteSiblings(card, [], [], NOW).create).toEqual([]);
+  });
+});
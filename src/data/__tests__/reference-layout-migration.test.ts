@@ -0,0 +1,65 @@
+/**
+ * 引用布局迁移测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CardStore, getCardBucket } from '../card-store';
+import { migrateToReferenceLayout } from '../reference-layout-migration';
+import type { Card } from '../types';
+import { MemoryAdapter } from './memory-adapter';
+
+const ROOT = 'tuanki';
+
+function makeCard(id: string, modified: string): Card {
+  return { id, deckId: '', content: id, modified } as unknown as Card;
+}
+
+function setupLegacyVault(): MemoryAdapter {
+  const adapter = new MemoryAdapter();
+  adapter.files.set(`${ROOT}/decks/decks.json`, JSON.stringify({ decks: [{ id: 'd1' }, { id: 'd2' }] }));
+  adapter.files.set(`${ROOT}/decks/d1/cards.json`, JSON.stringify({
+    cards: [makeCard('a', '2025-01-01'), makeCard('shared', '2025-01-01')]
+  }));
+  adapter.files.set(`${ROOT}/decks/d2/cards.json`, JSON.stringify({
+    cards: [makeCard('shared', '2025-02-01'), makeCard('b', '2025-01-01')]
+  }));
+  return adapter;
+}
+
+describe('migrateToReferenceLayout', () => {
+  it('应该把旧分片中的卡片写入卡片存储，并合并重复卡片的牌组归属', async () => {
+    const adapter = setupLegacyVault();
+    const store = new CardStore(adapter.asDataAdapter(), () => ROOT);
+
+    const result = await migrateToReferenceLayout(adapter.asDataAdapter(), ROOT, store);
+
+    expect(result).toMatchObject({ migrated: true, decks: 2, cards: 3, mergedDuplicates: 1 });
+    expect(await store.getCard('shared')).toMatchObject({ deckId: 'd1', deckIds: ['d1', 'd2'], modified: '2025-02-01' });
+    expect(adapter.json(`${ROOT}/decks/d2/refs.json`).cardIds).toEqual(['shared', 'b']);
+    expect(adapter.files.has(`${ROOT}/decks/d1/cards.legacy.json`)).toBe(true);
+    expect(adapter.files.has(`${ROOT}/decks/d1/cards.json`)).toBe(false);
+
+    // 已迁移的数据目录再次调用不做任何事
+    expect((await migrateToReferenceLayout(adapter.asDataAdapter(), ROOT, store)).migrated).toBe(false);
+  });
+
+  it('卡片写入失败时应该抛出错误，保留旧分片且不写入布局标记', async () => {
+    const adapter = setupLegacyVault();
+    const failingBucket = getCardBucket('b');
+    adapter.failWrite = path => path.includes(`store-${failingBucket}.json`);
+    const store = new CardStore(adapter.asDataAdapter(), () => ROOT);
+
+    await expect(migrateToReferenceLayout(adapter.asDataAdapter(), ROOT, store)).rejects.toThrow('EIO');
+
+    expect(adapter.files.has(`${ROOT}/cards/layout.json`)).toBe(false);
+    expect(adapter.files.has(`${ROOT}/decks/d1/cards.json`)).toBe(true);
+    expect(adapter.files.has(`${ROOT}/decks/d2/cards.json`)).toBe(true);
+    expect(adapter.files.has(`${ROOT}/decks/d1/cards.legacy.json`)).toBe(false);
+
+    // 磁盘恢复后重新迁移成功
+    adapter.failWrite = () => false;
+    const retry = await migrateToReferenceLayout(adapter.asDataAdapter(), ROOT, new CardStore(adapter.asDataAdapter(), () => ROOT));
+    expect(retry).toMatchObject({ migrated: true, cards: 3 });
+    expect(await store.getCard('b')).toMatchObject({ deckIds: ['d2'] });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * 复习记录补全测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applySessionReviewsToLogs } from '../review-log-backfill';
+import type { Card } from '../types';
+import type { StudySession } from '../study-types';
+
+function makeCard(id: string, reviews: Array<[number, string]>): Card {
+  return {
+    id,
+    reviewHistory: reviews.map(([rating, review]) => ({ rating, review }))
+  } as unknown as Card;
+}
+
+function makeSession(id: string, reviews: Array<[string, number, number, string]>): StudySession {
+  return {
+    id,
+    cardReviews: reviews.map(([cardId, rating, responseTime, timestamp]) => ({
+      cardId,
+      rating,
+      responseTime,
+      timestamp
+    }))
+  } as unknown as StudySession;
+}
+
+describe('applySessionReviewsToLogs', () => {
+  it('应该按卡片、评分和最接近的时间匹配', () => {
+    const card = makeCard('c1', [
+      [3, '2025-01-01T10:00:00.000Z'],
+      [1, '2025-01-02T10:00:00.000Z']
+    ]);
+    const { cards, logs } = applySessionReviewsToLogs([card], [
+      makeSession('s1', [['c1', 3, 4200, '2025-01-01T10:00:00.020Z']]),
+      makeSession('s2', [
+        ['c1', 3, 9999, '2025-01-02T10:00:00.010Z'],
+        ['c1', 1, 6100, '2025-01-02T10:00:00.015Z']
+      ])
+    ]);
+
+    expect(cards).toHaveLength(1);
+    expect(logs).toBe(2);
+    expect(card.reviewHistory[0]).toMatchObject({ duration: 4200, sessionId: 's1' });
+    expect(card.reviewHistory[1]).toMatchObject({ duration: 6100, sessionId: 's2' });
+  });
+
+  it('超出容差或已有上下文的记录不应被修改', () => {
+    const card = makeCard('c1', [[3, '2025-01-01T10:00:00.000Z']]);
+    const { cards } = applySessionReviewsToLogs([card], [
+      makeSession('s1', [['c1', 3, 4200, '2025-01-01T11:00:00.000Z']])
+    ]);
+
+    expect(cards).toHaveLength(0);
+    expect(card.reviewHistory[0].duration).toBeUndefined();
+  });
+
+  it('每个会话条目只能匹配一次', () => {
+    const card = makeCard('c1', [
+      [3, '2025-01-01T10:00:00.000Z'],
+      [3, '2025-01-01T10:00:05.000Z']
+    ]);
+    const { logs } = applySessionReviewsToLogs([card], [
+      makeSession('s1', [['c1', 3, 3000, '2025-01-01T10:00:00.010Z']])
+    ]);
+
+    expect(logs).toBe(1);
+    expect(card.reviewHistory[1].sessionId).toBeUndefined();
+  });
+});
@@ -1,6 +1,7 @@
 import type { AnkiDataStorage } from "./storage";
 import type { Card, Deck, Rating } from "./types";
 import type { StudySession } from "./study-types";
+import { getCardDeckIds } from "./card-query-index";
 import { bucketDate, type TimeBucket, fmtISODate, rangeDays, hoursMatrixInit, dayOfWeek, hourOfDay, startOfDay } from "../utils/time";
 
 export interface TrendPoint { key: string; reviews: number; minutes: number; accuracy: number }
@@ -259,6 +260,20 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * 按需加载卡片：筛选了 deckIds 时逐牌组按引用读取（被多个牌组引用的卡片只计一次），否则读取全部
+   */
+  private async loadCards(filter?: AnalyticsFilter): Promise<Card[]> {
+    if (!filter?.deckIds?.length) return this.storage.getCards();
+    const byId = new Map<string, Card>();
+    for (const id of filter.deckIds) {
+      try {
+        for (const card of await this.storage.getDeckCards(id)) byId.set(card.id, card);
+      } catch {}
+    }
+    return Array.from(byId.values());
+  }
+
   async trend(bucket: TimeBucket, daysWindow = 30, filter?: AnalyticsFilter): Promise<TrendPoint[]> {
     const cacheKey = `trend:${bucket}:${daysWindow}:${JSON.stringify(filter)}:${this.lastDataVersion}`;
     const cached = this.getCachedData<TrendPoint[]>(cacheKey);
@@ -367,28 +382,24 @@ export class AnalyticsService {
       this.storage.getDecks(),
       this.storage.getStudySessions({ since: filter?.since, until: filter?.until })
     ]);
-    // 仅按需加载卡片：若筛选了 deckIds，则逐牌组读取；否则读取全部（保持兼容）
-    let cards: Card[] = [];
-    if (filter?.deckIds?.length) {
-      for (const id of filter.deckIds) {
-        try { cards.push(...await this.storage.getDeckCards(id)); } catch {}
-      }
-    } else {
-      cards = await this.storage.getCards();
-    }
+    const cards = await this.loadCards(filter);
     const srcSessions = await this.applyFilter(sessions, filter);
-    const srcCards = await this.filterValidDeckData(filter?.deckIds?.length ? cards : cards);
+    const srcCards = await this.filterValidDeckData(cards);
     const byDeck = new Map<string, { name: string; reviews: number; correct: number; total: number; avgInterval: number; avgDifficulty: number; n: number }>();
     const deckMap = new Map(decks.map(d => [d.id, d.name]));
     for (const s of srcSessions) {
       const rec = byDeck.get(s.deckId) || { name: deckMap.get(s.deckId)||"", reviews:0, correct:0, total:0, avgInterval:0, avgDifficulty:0, n:0 };
       rec.reviews += s.cardsReviewed||0; rec.correct += s.correctAnswers||0; rec.total += s.cardsReviewed||0; byDeck.set(s.deckId, rec);
     }
+    // 卡片计入引用它的每个牌组
     for (const c of srcCards) {
-      const rec = byDeck.get(c.deckId) || { name: deckMap.get(c.deckId)||"", reviews:0, correct:0, total:0, avgInterval:0, avgDifficulty:0, n:0 };
-      rec.avgInterval += (c.fsrs?.scheduledDays||0);
-      rec.avgDifficulty += (c.fsrs?.difficulty||0);
-      rec.n += 1; byDeck.set(c.deckId, rec);
+      for (const deckId of getCardDeckIds(c)) {
+        if (filter?.deckIds?.length && !filter.deckIds.includes(deckId)) continue;
+        const rec = byDeck.get(deckId) || { name: deckMap.get(deckId)||"", reviews:0, correct:0, total:0, avgInterval:0, avgDifficulty:0, n:0 };
+        rec.avgInterval += (c.fsrs?.scheduledDays||0);
+        rec.avgDifficulty += (c.fsrs?.difficulty||0);
+        rec.n += 1; byDeck.set(deckId, rec);
+      }
     }
     const result = Array.from(byDeck.entries()).map(([deckId, r]) => ({
       deckId, name: r.name,
@@ -403,13 +414,7 @@ export class AnalyticsService {
   // Interval growth trend: average scheduledDays among reviewed cards per bucket
   async intervalGrowth(bucket: TimeBucket, filter?: AnalyticsFilter): Promise<TrendPoint[]> {
     const sessions = await this.storage.getStudySessions({ since: filter?.since, until: filter?.until });
-    // 按需加载卡片
-    let cards: Card[] = [];
-    if (filter?.deckIds?.length) {
-      for (const id of filter.deckIds) { try { cards.push(...await this.storage.getDeckCards(id)); } catch {} }
-    } else {
-      cards = await this.storage.getCards();
-    }
+    const cards = await this.loadCards(filter);
     const src = await this.applyFilter(sessions, filter);
     const validCards = await this.filterValidDeckData(cards);
     const cardMap = new Map(validCards.map(c => [c.id, c]));
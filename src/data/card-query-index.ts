@@ -0,0 +1,211 @@
+// Card Query Index
+// 卡片二级索引：uuid → cardId、deckId → cardIds、sourceFile → cardIds、templateId → cardIds、tag → cardIds、noteId → cardIds
+// 另记录已排程卡片的到期时间，供负载均衡统计每日复习量
+// 由 AnkiDataStorage 在写入卡片存储时维护，避免每次查询都遍历所有分桶
+
+import type { Card } from "./types";
+import { CardState } from "./types";
+
+/**
+ * 单张卡片的索引条目（持久化形态）
+ */
+export interface CardIndexEntry {
+  deckIds: string[];
+  uuid?: string;
+  sourceFile?: string;
+  templateId?: string;
+  tags?: string[];
+  noteId?: string;
+  /** 已排程卡片的到期时间（新卡片和已暂停的卡片不记录） */
+  due?: string;
+}
+
+/**
+ * 持久化文件结构
+ */
+export interface CardIndexSnapshot {
+  _schemaVersion: string;
+  builtAt: string;
+  entries: Record<string, CardIndexEntry>;
+}
+
+export const CARD_INDEX_SCHEMA_VERSION = "2.2.0";
+
+/**
+ * 卡片二级索引
+ *
+ * 只持久化 cardId → 条目 的正向映射，反向映射在加载时重建，
+ * 以保证磁盘上的数据只有一个事实来源。
+ */
+export class CardQueryIndex {
+  private entries = new Map<string, CardIndexEntry>();
+  private deckToCards = new Map<string, Set<string>>();
+  private uuidToCard = new Map<string, string>();
+  private sourceToCards = new Map<string, Set<string>>();
+  private templateToCards = new Map<string, Set<string>>();
+  private tagToCards = new Map<string, Set<string>>();
+  private noteToCards = new Map<string, Set<string>>();
+
+  /**
+   * 写入或更新卡片条目
+   */
+  upsertCards(cards: Card[]): void {
+    for (const card of cards) {
+      this.add(card.id, {
+        deckIds: getCardDeckIds(card),
+        uuid: card.uuid || undefined,
+        sourceFile: card.sourceFile || undefined,
+        templateId: card.templateId || undefined,
+        tags: card.tags && card.tags.length > 0 ? [...card.tags] : undefined,
+        noteId: card.noteId || undefined,
+        due: getScheduledDue(card)
+      });
+    }
+  }
+
+  removeCards(cardIds: string[]): void {
+    for (const id of cardIds) this.remove(id);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.deckToCards.clear();
+    this.uuidToCard.clear();
+    this.sourceToCards.clear();
+    this.templateToCards.clear();
+    this.tagToCards.clear();
+    this.noteToCards.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // ===== 查询 =====
+
+  getEntry(cardId: string): CardIndexEntry | undefined {
+    return this.entries.get(cardId);
+  }
+
+  getDeckIdsByCardId(cardId: string): string[] {
+    return this.entries.get(cardId)?.deckIds ?? [];
+  }
+
+  getCardIdByUUID(uuid: string): string | undefined {
+    return this.uuidToCard.get(uuid);
+  }
+
+  getCardIds(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  getCardIdsByDeck(deckId: string): string[] {
+    return Array.from(this.deckToCards.get(deckId) ?? []);
+  }
+
+  getCardIdsBySourceFile(sourceFile: string): string[] {
+    return Array.from(this.sourceToCards.get(sourceFile) ?? []);
+  }
+
+  getCardIdsByTemplate(templateId: string): string[] {
+    return Array.from(this.templateToCards.get(templateId) ?? []);
+  }
+
+  getCardIdsByTag(tag: string): string[] {
+    return Array.from(this.tagToCards.get(tag) ?? []);
+  }
+
+  getCardIdsByNote(noteId: string): string[] {
+    return Array.from(this.noteToCards.get(noteId) ?? []);
+  }
+
+  /**
+   * 全部已排程卡片的到期时间
+   */
+  getScheduledDueDates(): string[] {
+    const dues: string[] = [];
+    for (const entry of this.entries.values()) {
+      if (entry.due) dues.push(entry.due);
+    }
+    return dues;
+  }
+
+  // ===== 序列化 =====
+
+  toJSON(): CardIndexSnapshot {
+    const entries: Record<string, CardIndexEntry> = {};
+    for (const [id, entry] of this.entries) entries[id] = entry;
+    return {
+      _schemaVersion: CARD_INDEX_SCHEMA_VERSION,
+      builtAt: new Date().toISOString(),
+      entries
+    };
+  }
+
+  /**
+   * 从快照恢复索引；版本不匹配或结构异常时返回 false，由调用方决定重建
+   */
+  load(snapshot: CardIndexSnapshot | null | undefined): boolean {
+    this.clear();
+    if (!snapshot || snapshot._schemaVersion !== CARD_INDEX_SCHEMA_VERSION) return false;
+    if (!snapshot.entries || typeof snapshot.entries !== "object") return false;
+    for (const [id, entry] of Object.entries(snapshot.entries)) {
+      if (entry && Array.isArray(entry.deckIds)) this.add(id, entry);
+    }
+    return true;
+  }
+
+  // ===== 内部维护 =====
+
+  private add(cardId: string, entry: CardIndexEntry): void {
+    if (this.entries.has(cardId)) this.remove(cardId);
+    this.entries.set(cardId, entry);
+    for (const deckId of entry.deckIds) addToBucket(this.deckToCards, deckId, cardId);
+    if (entry.uuid) this.uuidToCard.set(entry.uuid, cardId);
+    if (entry.sourceFile) addToBucket(this.sourceToCards, entry.sourceFile, cardId);
+    if (entry.templateId) addToBucket(this.templateToCards, entry.templateId, cardId);
+    for (const tag of entry.tags ?? []) addToBucket(this.tagToCards, tag, cardId);
+    if (entry.noteId) addToBucket(this.noteToCards, entry.noteId, cardId);
+  }
+
+  private remove(cardId: string): void {
+    const entry = this.entries.get(cardId);
+    if (!entry) return;
+    this.entries.delete(cardId);
+    for (const deckId of entry.deckIds) removeFromBucket(this.deckToCards, deckId, cardId);
+    if (entry.uuid && this.uuidToCard.get(entry.uuid) === cardId) this.uuidToCard.delete(entry.uuid);
+    if (entry.sourceFile) removeFromBucket(this.sourceToCards, entry.sourceFile, cardId);
+    if (entry.templateId) removeFromBucket(this.templateToCards, entry.templateId, cardId);
+    for (const tag of entry.tags ?? []) removeFromBucket(this.tagToCards, tag, cardId);
+    if (entry.noteId) removeFromBucket(this.noteToCards, entry.noteId, cardId);
+  }
+}
+
+/**
+ * 卡片所属的全部牌组（兼容只有 deckId 的旧数据）
+ */
+export function getCardDeckIds(card: Pick<Card, "deckId" | "deckIds">): string[] {
+  if (card.deckIds && card.deckIds.length > 0) return [...card.deckIds];
+  return card.deckId ? [card.deckId] : [];
+}
+
+/**
+ * 计入每日复习负载的到期时间：新卡片和已暂停的卡片返回 undefined
+ */
+export function getScheduledDue(card: Pick<Card, "fsrs" | "suspended">): string | undefined {
+  if (!card.fsrs?.due || card.fsrs.state === CardState.New || card.suspended) return undefined;
+  return card.fsrs.due;
+}
+
+function addToBucket(map: Map<string, Set<string>>, key: string, id: string): void {
+  const set = map.get(key);
+  if (set) set.add(id);
+  else map.set(key, new Set([id]));
+}
+
+function removeFromBucket(map: Map<string, Set<string>>, key: string, id: string): void {
+  const set = map.get(key);
+  if (!set) return;
+  set.delete(id);
+  if (set.size === 0) map.delete(key);
+}
@@ -0,0 +1,170 @@
+// Card Store
+// 卡片实体存储：每张卡片只存一份，按卡片ID哈希分桶写入 cards/store-XX.json
+// 牌组不再物理持有卡片，而是通过 decks/<deckId>/refs.json 保存有序引用
+
+import type { DataAdapter } from "obsidian";
+import type { Card } from "./types";
+
+export const CARD_STORE_SCHEMA_VERSION = "2.0.0";
+export const CARD_STORE_BUCKETS = 32;
+
+interface CardBucketFile {
+  _schemaVersion: string;
+  bucket: string;
+  cards: Card[];
+}
+
+/**
+ * 计算卡片所在的分桶（FNV-1a 哈希）
+ */
+export function getCardBucket(cardId: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < cardId.length; i++) {
+    hash ^= cardId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return ((hash >>> 0) % CARD_STORE_BUCKETS).toString(16).padStart(2, "0");
+}
+
+/**
+ * 分桶卡片存储
+ *
+ * 读取的分桶常驻内存，写入按分桶串行化并以 tmp + rename 方式落盘。
+ */
+export class CardStore {
+  private cache = new Map<string, Map<string, Card>>();
+  private writeQueue = new Map<string, Promise<void>>();
+
+  constructor(
+    private adapter: DataAdapter,
+    private getRoot: () => string
+  ) {}
+
+  get folder(): string {
+    return `${this.getRoot()}/cards`;
+  }
+
+  bucketPath(bucket: string): string {
+    return `${this.folder}/store-${bucket}.json`;
+  }
+
+  async getCard(cardId: string): Promise<Card | null> {
+    const bucket = await this.loadBucket(getCardBucket(cardId));
+    return bucket.get(cardId) ?? null;
+  }
+
+  /**
+   * 按给定顺序读取卡片，缺失的ID会被跳过
+   */
+  async getCards(cardIds: string[]): Promise<Card[]> {
+    const result: Card[] = [];
+    for (const id of cardIds) {
+      const bucket = await this.loadBucket(getCardBucket(id));
+      const card = bucket.get(id);
+      if (card) result.push(card);
+    }
+    return result;
+  }
+
+  async getAllCards(): Promise<Card[]> {
+    const all: Card[] = [];
+    for (let i = 0; i < CARD_STORE_BUCKETS; i++) {
+      const bucket = await this.loadBucket(i.toString(16).padStart(2, "0"));
+      all.push(...bucket.values());
+    }
+    return all;
+  }
+
+  async putCards(cards: Card[]): Promise<void> {
+    if (cards.length === 0) return;
+    const groups = new Map<string, Card[]>();
+    for (const card of cards) {
+      const key = getCardBucket(card.id);
+      const list = groups.get(key) ?? [];
+      list.push(card);
+      groups.set(key, list);
+    }
+    for (const [key, list] of groups) {
+      await this.enqueueWrite(key, (bucket) => {
+        for (const card of list) bucket.set(card.id, card);
+      });
+    }
+  }
+
+  async removeCards(cardIds: string[]): Promise<void> {
+    if (cardIds.length === 0) return;
+    const groups = new Map<string, string[]>();
+    for (const id of cardIds) {
+      const key = getCardBucket(id);
+      const list = groups.get(key) ?? [];
+      list.push(id);
+      groups.set(key, list);
+    }
+    for (const [key, ids] of groups) {
+      await this.enqueueWrite(key, (bucket) => {
+        for (const id of ids) bucket.delete(id);
+      });
+    }
+  }
+
+  /**
+   * 丢弃内存缓存（外部同步修改了数据目录时使用）
+   */
+  invalidate(bucket?: string): void {
+    if (bucket) this.cache.delete(bucket);
+    else this.cache.clear();
+  }
+
+  private async loadBucket(key: string): Promise<Map<string, Card>> {
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const bucket = new Map<string, Card>();
+    try {
+      const raw = await this.adapter.read(this.bucketPath(key));
+      const data: CardBucketFile = JSON.parse(raw);
+      for (const card of data.cards || []) bucket.set(card.id, card);
+    } catch {
+      // 分桶文件尚不存在
+    }
+    this.cache.set(key, bucket);
+    return bucket;
+  }
+
+  /**
+   * 串行写入分桶；写入失败时丢弃该分桶的缓存（内存中已修改但未落盘），并把错误抛给调用方
+   */
+  private async enqueueWrite(key: string, mutate: (bucket: Map<string, Card>) => void): Promise<void> {
+    const prev = this.writeQueue.get(key) || Promise.resolve();
+    const next = prev.then(async () => {
+      const bucket = await this.loadBucket(key);
+      mutate(bucket);
+      try {
+        await this.writeBucket(key, bucket);
+      } catch (e) {
+        this.cache.delete(key);
+        console.error("Card store write failed", e);
+        throw e;
+      }
+    });
+    // 失败的写入不阻塞同一分桶的后续写入
+    this.writeQueue.set(key, next.catch(() => {}));
+    await next;
+  }
+
+  private async writeBucket(key: string, bucket: Map<string, Card>): Promise<void> {
+    try { await this.adapter.mkdir(this.folder); } catch {}
+    const payload: CardBucketFile = {
+      _schemaVersion: CARD_STORE_SCHEMA_VERSION,
+      bucket: key,
+      cards: Array.from(bucket.values())
+    };
+    const filePath = this.bucketPath(key);
+    const tmp = `${filePath}.tmp`;
+    await this.adapter.write(tmp, JSON.stringify(payload, null, 2));
+    if (await this.adapter.exists(filePath)) {
+      await this.adapter.remove(filePath);
+    }
+    await this.adapter.rename(tmp, filePath);
+  }
+}
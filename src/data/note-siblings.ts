@@ -0,0 +1,241 @@
+// Note Siblings
+// 兄弟卡片：一条笔记生成多张卡片，共享内容，分别持有 FSRS 状态和复习记录
+// - 挖空笔记：每个挖空编号各自成卡（clozeOrdinal）
+// - 多卡片类型模板：每个卡片类型各自成卡（cardTypeId）
+// - 设置了出题模式的图片遮罩：每个遮罩或分组各自成卡（occlusionTarget）
+// 由 AnkiDataStorage 在保存/删除卡片时调用，保证同一笔记的兄弟卡片内容一致
+
+import type { Card, FSRSCard } from "./types";
+import { CardState, CardType } from "./types";
+import type { TemplateCardType } from "./template-types";
+import { generateId, generateUUID } from "../utils/helpers";
+import { getClozeOrdinals } from "../utils/cloze-ordinals";
+import { getContentOcclusionTargets } from "../services/image-mask/occlusion-targets";
+
+/**
+ * 兄弟卡片之间共享的字段（笔记级字段）；其余字段（学习进度、暂停状态等）各自独立
+ */
+export const SHARED_NOTE_FIELDS = [
+  "type",
+  "templateId",
+  "deckId",
+  "deckIds",
+  "content",
+  "fields",
+  "parsedMetadata",
+  "tags",
+  "sourceFile",
+  "sourceBlock",
+  "sourceRange",
+  "documentRef"
+] as const satisfies ReadonlyArray<keyof Card>;
+
+/**
+ * 卡片在笔记中占用的槽位字段（挖空编号 / 卡片类型 / 图片遮罩出题目标）
+ */
+const NOTE_SLOT_FIELDS = [
+  "clozeOrdinal",
+  "cardTypeId",
+  "occlusionTarget"
+] as const satisfies ReadonlyArray<keyof Card>;
+
+export interface NoteSiblingPlan {
+  /** 被保存的卡片自身需要写入的笔记信息 */
+  card: Card;
+  /** 新建的兄弟卡片 */
+  create: Card[];
+  /** 需要同步共享字段的已有兄弟卡片 */
+  update: Card[];
+  /** 挖空或卡片类型已被删除、需要移除的兄弟卡片ID */
+  remove: string[];
+}
+
+export function isClozeCard(card: Pick<Card, "type">): boolean {
+  return card.type === CardType.Cloze;
+}
+
+/**
+ * 共享字段是否有变化（新卡片视为有变化）
+ */
+export function sharedFieldsChanged(card: Card, stored: Card | null): boolean {
+  if (!stored) return true;
+  return SHARED_NOTE_FIELDS.some(key => JSON.stringify(card[key]) !== JSON.stringify(stored[key]));
+}
+
+/**
+ * 同步方案是否改变了卡片自身的笔记归属或槽位（改变时需要重新保存卡片自身）
+ */
+export function noteAssignmentChanged(card: Card, planned: Card): boolean {
+  return planned.noteId !== card.noteId || NOTE_SLOT_FIELDS.some(key => planned[key] !== card[key]);
+}
+
+/**
+ * 保存后是否需要同步兄弟卡片：已属于笔记的卡片共享字段有变化，
+ * 或未拆分的卡片含有多个挖空 / 多个图片遮罩出题目标 / 所用模板定义了多个卡片类型
+ *
+ * @param cardTypes 卡片所用模板的卡片类型
+ */
+export function needsNoteSiblingSync(card: Card, stored: Card | null, cardTypes: TemplateCardType[] = []): boolean {
+  if (card.noteId) return sharedFieldsChanged(card, stored);
+  return getSiblingSlots(card, cardTypes).length > 1;
+}
+
+/**
+ * 计算同步方案
+ *
+ * 挖空卡片按挖空编号分卡，含图片遮罩出题目标的卡片按出题目标分卡，其余卡片按模板的卡片类型分卡（下称"槽位"）：
+ * - 未拆分的卡片成为笔记的首张卡片（noteId 取自身 ID），保留原有学习进度，占用第一个槽位
+ * - 已有兄弟卡片按槽位认领，槽位已不存在的兄弟卡片移除
+ * - 被保存卡片的槽位不存在时，改为占用一个未被认领的槽位
+ * - 仍未被认领的槽位新建兄弟卡片
+ *
+ * @param card 刚保存的卡片
+ * @param siblings 同一笔记的其他卡片
+ * @param cardTypes 卡片所用模板的卡片类型
+ */
+export function planNoteSiblings(
+  card: Card,
+  siblings: Card[],
+  cardTypes: TemplateCardType[] = [],
+  now: Date = new Date()
+): NoteSiblingPlan {
+  const slots = getSiblingSlots(card, cardTypes);
+  const keys = slots.map(slot => slot.key);
+  const self: Card = { ...card, noteId: card.noteId || card.id };
+  const claimed = new Set<string>();
+  const plan: NoteSiblingPlan = { card: self, create: [], update: [], remove: [] };
+
+  const selfKey = slotKey(self);
+  if (selfKey !== undefined && keys.includes(selfKey)) {
+    claimed.add(selfKey);
+  }
+
+  const rank = (sibling: Card) => keys.indexOf(slotKey(sibling) ?? "");
+  const others = siblings
+    .filter(sibling => sibling.id !== card.id)
+    .sort((a, b) => rank(a) - rank(b));
+  for (const sibling of others) {
+    const key = slotKey(sibling);
+    if (key !== undefined && keys.includes(key) && !claimed.has(key)) {
+      claimed.add(key);
+      plan.update.push(copySharedFields(self, sibling));
+    } else {
+      plan.remove.push(sibling.id);
+    }
+  }
+
+  if (selfKey === undefined || !claimed.has(selfKey)) {
+    const unclaimed = slots.find(slot => !claimed.has(slot.key));
+    if (unclaimed) {
+      Object.assign(self, unclaimed.assign);
+      claimed.add(unclaimed.key);
+    }
+  }
+
+  for (const slot of slots) {
+    if (!claimed.has(slot.key)) {
+      plan.create.push(createSibling(self, slot.assign, now));
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * 按笔记分组（保持首次出现的顺序）；每组第一张为笔记首张卡片（ID 与 noteId 相同），导出时代表整条笔记
+ */
+export function groupNoteSiblings(cards: Card[]): Card[][] {
+  const groups = new Map<string, Card[]>();
+  for (const card of cards) {
+    const noteKey = card.noteId || card.id;
+    const group = groups.get(noteKey);
+    if (!group) groups.set(noteKey, [card]);
+    else if (card.id === noteKey) group.unshift(card);
+    else group.push(card);
+  }
+  return Array.from(groups.values());
+}
+
+interface SiblingSlot {
+  key: string;
+  assign: Pick<Card, "clozeOrdinal" | "cardTypeId" | "occlusionTarget">;
+}
+
+function getSiblingSlots(card: Card, cardTypes: TemplateCardType[]): SiblingSlot[] {
+  if (isClozeCard(card)) return getClozeOrdinals(card.content).map(ordinal => clozeSlot(ordinal));
+  const occlusionTargets = getContentOcclusionTargets(card.content);
+  if (occlusionTargets.length > 0) return occlusionTargets.map(target => occlusionSlot(target));
+  return cardTypes.map(cardType => cardTypeSlot(cardType.id));
+}
+
+function clozeSlot(ordinal: number): SiblingSlot {
+  return { key: `c${ordinal}`, assign: { clozeOrdinal: ordinal } };
+}
+
+function cardTypeSlot(cardTypeId: string): SiblingSlot {
+  return { key: `t:${cardTypeId}`, assign: { cardTypeId } };
+}
+
+function occlusionSlot(target: string): SiblingSlot {
+  return { key: `o:${target}`, assign: { occlusionTarget: target } };
+}
+
+/**
+ * 卡片在笔记中的槽位（不属于任何槽位时返回 undefined）
+ */
+export function slotKey(card: Card): string | undefined {
+  if (isClozeCard(card)) return card.clozeOrdinal === undefined ? undefined : clozeSlot(card.clozeOrdinal).key;
+  if (card.occlusionTarget !== undefined) return occlusionSlot(card.occlusionTarget).key;
+  return card.cardTypeId === undefined ? undefined : cardTypeSlot(card.cardTypeId).key;
+}
+
+function copySharedFields(source: Card, target: Card): Card {
+  const updated: Card = { ...target };
+  for (const key of SHARED_NOTE_FIELDS) {
+    const value = source[key];
+    (updated as any)[key] = value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  }
+  return updated;
+}
+
+function createSibling(source: Card, slot: SiblingSlot["assign"], now: Date): Card {
+  const timestamp = now.toISOString();
+  const sibling: Card = {
+    id: generateId(),
+    uuid: generateUUID(),
+    noteId: source.noteId,
+    ...slot,
+    deckId: source.deckId,
+    templateId: source.templateId,
+    type: source.type,
+    content: source.content,
+    fsrs: createNewFSRSCard(timestamp),
+    reviewHistory: [],
+    stats: {
+      totalReviews: 0,
+      totalTime: 0,
+      averageTime: 0,
+      memoryRate: 0
+    },
+    priority: source.priority,
+    source: source.source,
+    created: timestamp,
+    modified: timestamp
+  };
+  return copySharedFields(source, sibling);
+}
+
+function createNewFSRSCard(timestamp: string): FSRSCard {
+  return {
+    due: timestamp,
+    stability: 0,
+    difficulty: 0,
+    elapsedDays: 0,
+    scheduledDays: 0,
+    reps: 0,
+    lapses: 0,
+    state: CardState.New,
+    lastReview: undefined,
+    retrievability: 1
+  };
+}
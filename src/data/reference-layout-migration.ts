@@ -0,0 +1,122 @@
+// Reference Layout Migration
+// 将旧的分片布局（decks/<deckId>/cards.json，卡片物理存放在牌组内）
+// 迁移为引用布局（cards/store-XX.json + decks/<deckId>/refs.json）
+
+import type { DataAdapter } from "obsidian";
+import type { Card, Deck } from "./types";
+import type { CardStore } from "./card-store";
+
+export const REFERENCE_LAYOUT_VERSION = 2;
+
+export interface DeckRefsFile {
+  _schemaVersion: string;
+  deckId: string;
+  cardIds: string[];
+}
+
+export interface ReferenceLayoutMigrationResult {
+  migrated: boolean;
+  decks: number;
+  cards: number;
+  /** 在多个旧分片中重复出现、被合并为多牌组引用的卡片数 */
+  mergedDuplicates: number;
+}
+
+const LAYOUT_META_FILE = "cards/layout.json";
+
+/**
+ * 检查并执行引用布局迁移（幂等）
+ *
+ * 旧分片不会被删除，而是重命名为 cards.legacy.json，便于出问题时手动回滚。
+ * 卡片或引用写入失败时抛出错误，旧分片保持原样、不写入布局标记，下次启动时重新迁移。
+ */
+export async function migrateToReferenceLayout(
+  adapter: DataAdapter,
+  root: string,
+  store: CardStore
+): Promise<ReferenceLayoutMigrationResult> {
+  const result: ReferenceLayoutMigrationResult = { migrated: false, decks: 0, cards: 0, mergedDuplicates: 0 };
+
+  const metaPath = `${root}/${LAYOUT_META_FILE}`;
+  try {
+    const meta = JSON.parse(await adapter.read(metaPath));
+    if (meta?.layoutVersion >= REFERENCE_LAYOUT_VERSION) return result;
+  } catch {
+    // 尚未迁移
+  }
+
+  let decks: Deck[] = [];
+  try {
+    decks = JSON.parse(await adapter.read(`${root}/decks/decks.json`))?.decks || [];
+  } catch {}
+
+  console.log(`🔄 Migrating ${decks.length} decks to reference layout...`);
+
+  const cardsById = new Map<string, Card>();
+  const refsByDeck = new Map<string, string[]>();
+  const legacyShards: string[] = [];
+
+  for (const deck of decks) {
+    const shardPath = `${root}/decks/${deck.id}/cards.json`;
+    if (!(await adapter.exists(shardPath))) continue;
+
+    let cards: Card[] = [];
+    try {
+      cards = JSON.parse(await adapter.read(shardPath))?.cards || [];
+    } catch (error) {
+      console.warn(`⚠️ 跳过无法解析的牌组分片: ${shardPath}`, error);
+      continue;
+    }
+    legacyShards.push(shardPath);
+
+    const refs: string[] = [];
+    for (const card of cards) {
+      if (!card?.id || refs.includes(card.id)) continue;
+      refs.push(card.id);
+
+      const existing = cardsById.get(card.id);
+      if (existing) {
+        // 同一卡片出现在多个分片中：保留修改时间较新的副本，合并牌组归属
+        result.mergedDuplicates++;
+        const newer = (card.modified || "") > (existing.modified || "") ? card : existing;
+        const deckIds = Array.from(new Set([...(existing.deckIds || []), deck.id]));
+        cardsById.set(card.id, { ...newer, deckId: existing.deckId, deckIds });
+      } else {
+        cardsById.set(card.id, { ...card, deckId: deck.id, deckIds: [deck.id] });
+      }
+    }
+    refsByDeck.set(deck.id, refs);
+  }
+
+  // 所有卡片和引用都写入成功后，才重命名旧分片并写入布局标记
+  await store.putCards(Array.from(cardsById.values()));
+
+  for (const [deckId, cardIds] of refsByDeck) {
+    const refs: DeckRefsFile = { _schemaVersion: "2.0.0", deckId, cardIds };
+    await adapter.write(`${root}/decks/${deckId}/refs.json`, JSON.stringify(refs, null, 2));
+  }
+
+  for (const shardPath of legacyShards) {
+    const legacyPath = shardPath.replace(/cards\.json$/, "cards.legacy.json");
+    try {
+      if (await adapter.exists(legacyPath)) await adapter.remove(legacyPath);
+      await adapter.rename(shardPath, legacyPath);
+    } catch (error) {
+      console.warn(`⚠️ 旧分片重命名失败: ${shardPath}`, error);
+    }
+  }
+
+  try { await adapter.mkdir(`${root}/cards`); } catch {}
+  await adapter.write(
+    metaPath,
+    JSON.stringify({ layoutVersion: REFERENCE_LAYOUT_VERSION, migratedAt: new Date().toISOString() }, null, 2)
+  );
+
+  result.migrated = true;
+  result.decks = refsByDeck.size;
+  result.cards = cardsById.size;
+  console.log(
+    `✅ Reference layout migration done: ${result.cards} cards, ${result.decks} decks, ${result.mergedDuplicates} merged`
+  );
+  return result;
+}
@@ -0,0 +1,121 @@
+// Review Log Backfill
+// 用已保存的学习会话（StudySession.cardReviews）补全旧复习记录的作答用时与会话ID
+
+import type { DataAdapter } from "obsidian";
+import type { Card } from "./types";
+import type { StudySession } from "./study-types";
+import type { CardStore } from "./card-store";
+
+export const REVIEW_LOG_BACKFILL_VERSION = 1;
+
+export interface ReviewLogBackfillResult {
+  backfilled: boolean;
+  updatedCards: number;
+  updatedLogs: number;
+}
+
+const BACKFILL_META_FILE = "learning/review-log-backfill.json";
+
+/**
+ * 匹配容差：ReviewLog.review 在评分时生成，CardReview.timestamp 在随后更新统计时生成，
+ * 两者通常只差几毫秒，但保存失败重试等情况下可能相差更久
+ */
+const MATCH_TOLERANCE_MS = 60 * 1000;
+
+interface SessionReviewRef {
+  sessionId: string;
+  rating: number;
+  responseTime: number;
+  time: number;
+  used: boolean;
+}
+
+/**
+ * 将会话中的复习条目匹配到卡片的复习记录上，返回被修改的卡片
+ *
+ * 同一卡片、同一评分、时间最接近（且在容差内）的条目视为同一次复习；每个会话条目只使用一次。
+ */
+export function applySessionReviewsToLogs(cards: Card[], sessions: StudySession[]): { cards: Card[]; logs: number } {
+  const refsByCard = new Map<string, SessionReviewRef[]>();
+  for (const session of sessions) {
+    for (const review of session.cardReviews || []) {
+      const time = new Date(review.timestamp).getTime();
+      if (!review.cardId || !Number.isFinite(time)) continue;
+      const list = refsByCard.get(review.cardId) ?? [];
+      list.push({ sessionId: session.id, rating: review.rating, responseTime: review.responseTime, time, used: false });
+      refsByCard.set(review.cardId, list);
+    }
+  }
+
+  const changed: Card[] = [];
+  let logs = 0;
+
+  for (const card of cards) {
+    const refs = refsByCard.get(card.id);
+    if (!refs || !card.reviewHistory?.length) continue;
+
+    let cardChanged = false;
+    for (const log of card.reviewHistory) {
+      if (log.duration !== undefined && log.sessionId) continue;
+      const logTime = Date.parse(log.review);
+      if (!Number.isFinite(logTime)) continue;
+
+      let best: SessionReviewRef | null = null;
+      for (const ref of refs) {
+        if (ref.used || ref.rating !== log.rating) continue;
+        const diff = Math.abs(ref.time - logTime);
+        if (diff > MATCH_TOLERANCE_MS) continue;
+        if (!best || diff < Math.abs(best.time - logTime)) best = ref;
+      }
+      if (!best) continue;
+
+      best.used = true;
+      log.duration ??= best.responseTime;
+      log.sessionId ??= best.sessionId;
+      cardChanged = true;
+      logs++;
+    }
+    if (cardChanged) changed.push(card);
+  }
+
+  return { cards: changed, logs };
+}
+
+/**
+ * 检查并执行复习记录补全（幂等，只运行一次）
+ */
+export async function backfillReviewLogContext(
+  adapter: DataAdapter,
+  root: string,
+  store: CardStore,
+  loadSessions: () => Promise<StudySession[]>
+): Promise<ReviewLogBackfillResult> {
+  const result: ReviewLogBackfillResult = { backfilled: false, updatedCards: 0, updatedLogs: 0 };
+
+  const metaPath = `${root}/${BACKFILL_META_FILE}`;
+  try {
+    const meta = JSON.parse(await adapter.read(metaPath));
+    if (meta?.version >= REVIEW_LOG_BACKFILL_VERSION) return result;
+  } catch {
+    // 尚未补全
+  }
+
+  const sessions = await loadSessions();
+  if (sessions.length > 0) {
+    const { cards, logs } = applySessionReviewsToLogs(await store.getAllCards(), sessions);
+    await store.putCards(cards);
+    result.updatedCards = cards.length;
+    result.updatedLogs = logs;
+  }
+
+  await adapter.write(
+    metaPath,
+    JSON.stringify({ version: REVIEW_LOG_BACKFILL_VERSION, backfilledAt: new Date().toISOString(), ...result }, null, 2)
+  );
+
+  result.backfilled = true;
+  if (result.updatedLogs > 0) {
+    console.log(`✅ Review log backfill done: ${result.updatedLogs} logs on ${result.updatedCards} cards`);
+  }
+  return result;
+}
@@ -1,17 +1,40 @@
 // Anki Plugin Data Storage
 // 使用Obsidian的API进行数据持久化存储
 
-import { TFile } from "obsidian";
+import { Notice, TFile } from "obsidian";
 import type { Card, Deck, UserProfile, AnkiExportData, DataQuery, ApiResponse } from "./types";
 import type { StudySession } from "./study-types";
-import type { TriadTemplate } from "./template-types";
+import type { TemplateCardType, TriadTemplate } from "./template-types";
+import type { ParseTemplate } from "../types/newCardParsingTypes";
+import { CardQueryIndex, getCardDeckIds, type CardIndexSnapshot } from "./card-query-index";
+import { CARD_STORE_BUCKETS, CardStore, getCardBucket } from "./card-store";
+import { migrateToReferenceLayout, type DeckRefsFile } from "./reference-layout-migration";
+import { backfillReviewLogContext } from "./review-log-backfill";
+import { needsNoteSiblingSync, noteAssignmentChanged, planNoteSiblings } from "./note-siblings";
+import type { ReviewJournalData } from "../services/ReviewUndoManager";
+
+const CARD_INDEX_FILE = "indices/card-query-index.json";
+const CARD_INDEX_SAVE_DELAY = 2000;
 
 export class AnkiDataStorage {
   private plugin: import("obsidian").Plugin;
   private dataFolder = "tuanki";
+
+  // 卡片实体存储（每张卡片只存一份，牌组通过 refs.json 引用）
+  private cardStore: CardStore;
+
+  // 卡片二级索引（uuid/deck/sourceFile/templateId/tag → 卡片）
+  private cardIndex = new CardQueryIndex();
+  private cardIndexReady = false;
+  private cardIndexBuilding: Promise<void> | null = null;
+  private cardIndexSaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // 正在同步兄弟卡片的笔记（同步过程中的保存不再触发同步）
+  private syncingNotes = new Set<string>();
   
   constructor(plugin: import("obsidian").Plugin) {
     this.plugin = plugin;
+    this.cardStore = new CardStore(plugin.app.vault.adapter, () => this.dataFolder);
   }
 
   // 初始化数据存储
@@ -33,8 +56,27 @@ export class AnkiDataStorage {
       // 初始化必要的数据文件
       await this.ensureDataFiles();
 
+      // 旧分片布局 → 引用布局（幂等；失败时保留旧分片，下次启动重试）
+      try {
+        await migrateToReferenceLayout(this.plugin.app.vault.adapter, this.dataFolder, this.cardStore);
+      } catch (error) {
+        console.error("❌ Reference layout migration failed, legacy deck shards kept:", error);
+        new Notice("❌ 卡片数据迁移失败，旧数据已保留，将在下次启动时重试", 8000);
+      }
+
       // 如无任何牌组，则自动创建一个默认牌组，避免新建卡片时无 deckId
       await this.ensureDefaultDeck();
+
+      // 加载卡片索引（缺失或过期时在首次查询时重建）
+      await this.loadCardIndex();
+
+      // 用历史学习会话补全旧复习记录的用时与会话ID（幂等）
+      await backfillReviewLogContext(
+        this.plugin.app.vault.adapter,
+        this.dataFolder,
+        this.cardStore,
+        () => this.getStudySessions()
+      );
       
       console.log("✅ Anki data storage initialized successfully");
     } catch (error) {
@@ -74,10 +116,12 @@ export class AnkiDataStorage {
     // 新的目录结构
     const folders = [
       `${this.dataFolder}/decks`,
+      `${this.dataFolder}/cards`,
       `${this.dataFolder}/learning`,
       `${this.dataFolder}/learning/sessions`,
       `${this.dataFolder}/profile`,
-      `${this.dataFolder}/backups`
+      `${this.dataFolder}/backups`,
+      `${this.dataFolder}/indices`
     ];
     
     for (const dir of folders) {
@@ -400,7 +444,7 @@ export class AnkiDataStorage {
       await this.writeJsonFile("decks/decks.json", { decks: filteredDecks });
       console.log(`✅ 已从牌组索引中移除: ${deckId}`);
 
-      // 2. 删除该牌组的所有卡片与媒体目录
+      // 2. 移除该牌组的卡片引用与媒体目录
       await this.deleteCardsByDeck(deckId);
       try {
         await (this.plugin.app.vault.adapter as any).rmdir?.(`${this.dataFolder}/decks/${deckId}/media`, true);
@@ -452,20 +496,18 @@ export class AnkiDataStorage {
   // 卡片操作
   async getCards(query?: DataQuery): Promise<Card[]> {
     try {
-      // 若指定了 deckId，优先走分片
+      // 若指定了 deckId，按牌组引用读取（保持牌组内顺序）
       if (query?.deckId) {
         const cards = await this.getDeckCards(query.deckId);
-        return query ? this.filterCards(cards, query) : cards;
+        return this.filterCards(cards, query);
       }
-      // 未指定 deckId：优先遍历 decks.json 聚合所有分片
-      const decks = await this.getDecks();
-      let all: Card[] = [];
-      for (const d of decks) {
-        try {
-          const part = await this.getDeckCards(d.id);
-          all = all.concat(part);
-        } catch {}
+      // 指定了卡片ID：只读取这些卡片所在的分片
+      if (query?.cardIds) {
+        const cards = await this.cardStore.getCards(query.cardIds);
+        return this.filterCards(cards, query);
       }
+      // 未指定 deckId：直接读取卡片存储（每张卡片只出现一次）
+      const all = await this.cardStore.getAllCards();
       return query ? this.filterCards(all, query) : all;
     } catch (error) {
       console.error("Failed to get cards:", error);
@@ -475,92 +517,186 @@ export class AnkiDataStorage {
 
   async saveCard(card: Card): Promise<ApiResponse<Card>> {
     try {
-      // 优先写入到对应牌组分片
-      const deckId = card.deckId;
-      if (deckId) {
-        const cards = await this.getDeckCards(deckId);
-        const idx = cards.findIndex((c) => c.id === card.id);
-        const now = new Date();
-        const isNew = idx < 0;
-        if (idx >= 0) cards[idx] = { ...card, modified: now.toISOString() };
-        else cards.push({ ...card, created: now.toISOString(), modified: now.toISOString() });
-        await this.saveDeckCards(deckId, cards);
-        
-        // 🆕 确保数据写入完成后通知变更
-        await new Promise(resolve => setTimeout(resolve, 50));
-        
-        // 🆕 通知数据同步服务
-        if ((this.plugin as any).dataSyncService) {
-          await (this.plugin as any).dataSyncService.notifyChange({
-            type: 'cards',
-            action: isNew ? 'create' : 'update',
-            ids: [card.id],
-            metadata: { deckId: card.deckId }
-          });
-        }
-      } else {
+      if (!card.deckId) {
         // 必须指定 deckId
         throw new Error("saveCard requires deckId");
       }
+
+      const stored = await this.cardStore.getCard(card.id);
+      const now = new Date().toISOString();
+      const isNew = !stored;
+      const prevDeckIds = stored ? getCardDeckIds(stored) : [];
+      const nextDeckIds = this.resolveDeckMembership(card, stored);
+
+      const saved: Card = {
+        ...card,
+        deckIds: nextDeckIds,
+        created: isNew ? now : card.created || stored.created,
+        modified: now
+      };
+      await this.cardStore.putCards([saved]);
+      this.cardIndex.upsertCards([saved]);
+      this.scheduleCardIndexSave();
+
+      // 同步牌组引用：新加入的牌组追加到末尾，被移出的牌组删除引用
+      for (const deckId of nextDeckIds) {
+        if (!prevDeckIds.includes(deckId)) await this.updateDeckRefs(deckId, (ids) => ids.includes(card.id) ? ids : [...ids, card.id]);
+      }
+      for (const deckId of prevDeckIds) {
+        if (!nextDeckIds.includes(deckId)) await this.updateDeckRefs(deckId, (ids) => ids.filter((id) => id !== card.id));
+      }
+        
+      // 🆕 确保数据写入完成后通知变更
+      await new Promise(resolve => setTimeout(resolve, 50));
+      
+      // 🆕 通知数据同步服务
+      if ((this.plugin as any).dataSyncService) {
+        await (this.plugin as any).dataSyncService.notifyChange({
+          type: 'cards',
+          action: isNew ? 'create' : 'update',
+          ids: [card.id],
+          metadata: { deckId: card.deckId }
+        });
+      }
       // 触发卡片变更时的自动同步
       if ((this.plugin as any).autoSyncManager) {
         (this.plugin as any).autoSyncManager.onCardChange(card.deckId);
       }
 
-      return { success: true, data: card, timestamp: new Date().toISOString() };
+      // 挖空笔记 / 多卡片类型笔记：同步兄弟卡片
+      const noteKey = saved.noteId || saved.id;
+      if (!this.syncingNotes.has(noteKey) && needsNoteSiblingSync(saved, stored, this.getTemplateCardTypes(saved.templateId))) {
+        return { success: true, data: await this.syncNoteSiblings(saved), timestamp: new Date().toISOString() };
+      }
+
+      return { success: true, data: saved, timestamp: new Date().toISOString() };
     } catch (error) {
       console.error("Failed to save card:", error);
       return { success: false, error: (error as any).message, timestamp: new Date().toISOString() } as any;
     }
   }
 
-  async deleteCard(cardId: string): Promise<ApiResponse<boolean>> {
+  /**
+   * 按挖空编号或模板卡片类型拆分/同步同一笔记的兄弟卡片，返回更新后的当前卡片
+   */
+  async syncNoteSiblings(card: Card): Promise<Card> {
+    const noteKey = card.noteId || card.id;
+    this.syncingNotes.add(noteKey);
     try {
-      // 找到卡片所在牌组
-      const allDecks = await this.getDecks();
-      let deletedDeckId: string | undefined;
-      
-      for (const d of allDecks) {
-        const cards = await this.getDeckCards(d.id);
-        const before = cards.length;
-        const next = cards.filter((c) => c.id !== cardId);
-        if (next.length !== before) {
-          await this.saveDeckCards(d.id, next);
-          deletedDeckId = d.id;
-          break;
-        }
+      const siblings = card.noteId ? await this.getCardsByNote(card.noteId) : [];
+      const plan = planNoteSiblings(card, siblings, this.getTemplateCardTypes(card.templateId));
+
+      let current = card;
+      if (noteAssignmentChanged(card, plan.card)) {
+        const result = await this.saveCard(plan.card);
+        if (result.data) current = result.data;
       }
-      
-      if (deletedDeckId) {
-        // 🆕 确保数据写入完成后通知变更
-        await new Promise(resolve => setTimeout(resolve, 50));
-        
-        // 🆕 通知数据同步服务
-        if ((this.plugin as any).dataSyncService) {
-          await (this.plugin as any).dataSyncService.notifyChange({
-            type: 'cards',
-            action: 'delete',
-            ids: [cardId],
-            metadata: { deckId: deletedDeckId }
-          });
-        }
-        
-        return { success: true, data: true, timestamp: new Date().toISOString() };
+      for (const sibling of [...plan.update, ...plan.create]) {
+        await this.saveCard(sibling);
       }
-      
-      // 取消旧全量文件的回退写入
-      return { success: true, data: false, timestamp: new Date().toISOString() };
+      for (const siblingId of plan.remove) {
+        const stored = await this.cardStore.getCard(siblingId);
+        if (stored) await this.removeCardEntity(stored);
+      }
+      return current;
+    } finally {
+      this.syncingNotes.delete(noteKey);
+    }
+  }
+
+  /**
+   * 批量更新已有卡片的学习数据（按分桶合并写入，用于重新调度等批量操作）
+   * 不改变牌组归属、不同步兄弟卡片；已不存在的卡片跳过
+   * @returns 实际写入的卡片数
+   */
+  async updateCards(cards: Card[]): Promise<number> {
+    const stored = new Map((await this.cardStore.getCards(cards.map((c) => c.id))).map((c) => [c.id, c]));
+    const now = new Date().toISOString();
+    const updated: Card[] = [];
+    for (const card of cards) {
+      const prev = stored.get(card.id);
+      if (prev) updated.push({ ...card, deckId: prev.deckId, deckIds: prev.deckIds, modified: now });
+    }
+    if (updated.length === 0) return 0;
+
+    await this.cardStore.putCards(updated);
+    this.cardIndex.upsertCards(updated);
+    this.scheduleCardIndexSave();
+
+    if ((this.plugin as any).dataSyncService) {
+      await (this.plugin as any).dataSyncService.notifyChange({
+        type: 'cards',
+        action: 'update',
+        ids: updated.map((c) => c.id)
+      });
+    }
+    return updated.length;
+  }
+
+  /**
+   * 卡片所用解析模板定义的卡片类型
+   */
+  getTemplateCardTypes(templateId: string | undefined): TemplateCardType[] {
+    if (!templateId) return [];
+    const templates: ParseTemplate[] = (this.plugin as any).settings?.simplifiedParsing?.templates ?? [];
+    return templates.find(template => template.id === templateId)?.cardTypes ?? [];
+  }
+
+  /**
+   * 删除卡片实体，并从所有引用它的牌组中移除；兄弟卡片随笔记一起删除
+   *
+   * @param options.keepSiblings 只删除这一张卡片，兄弟卡片保留（合并重复笔记时由调用方逐张处理）
+   */
+  async deleteCard(cardId: string, options: { keepSiblings?: boolean } = {}): Promise<ApiResponse<boolean>> {
+    try {
+      const stored = await this.cardStore.getCard(cardId);
+      if (!stored) {
+        return { success: true, data: false, timestamp: new Date().toISOString() };
+      }
+
+      const siblings = stored.noteId && !options.keepSiblings ? await this.getCardsByNote(stored.noteId) : [];
+      for (const sibling of siblings) {
+        if (sibling.id !== stored.id) await this.removeCardEntity(sibling);
+      }
+      await this.removeCardEntity(stored);
+
+      return { success: true, data: true, timestamp: new Date().toISOString() };
     } catch (error) {
       console.error("Failed to delete card:", error);
       return { success: false, error: (error as any).message, timestamp: new Date().toISOString() } as any;
     }
   }
 
+  private async removeCardEntity(stored: Card): Promise<void> {
+    const cardId = stored.id;
+    const deckIds = getCardDeckIds(stored);
+    for (const deckId of deckIds) {
+      await this.updateDeckRefs(deckId, (ids) => ids.filter((id) => id !== cardId));
+    }
+    await this.cardStore.removeCards([cardId]);
+    this.cardIndex.removeCards([cardId]);
+    this.scheduleCardIndexSave();
+
+    // 🆕 确保数据写入完成后通知变更
+    await new Promise(resolve => setTimeout(resolve, 50));
+    
+    // 🆕 通知数据同步服务
+    if ((this.plugin as any).dataSyncService) {
+      await (this.plugin as any).dataSyncService.notifyChange({
+        type: 'cards',
+        action: 'delete',
+        ids: [cardId],
+        metadata: { deckId: stored.deckId, deckIds }
+      });
+    }
+  }
+
   private async deleteCardsByDeck(deckId: string): Promise<void> {
-    // 删除该牌组分片文件
+    // 移除该牌组的全部引用；仅属于该牌组的卡片随之删除，被其他牌组引用的卡片保留
+    await this.saveDeckCards(deckId, []);
     try {
-      const p = `${this.dataFolder}/decks/${deckId}/cards.json`;
-      if (await this.exists(p)) await (this.plugin.app.vault.adapter as any).remove(p);
+      const p = `${this.dataFolder}/decks/${deckId}/refs.json`;
+      if (await this.exists(p)) await this.plugin.app.vault.adapter.remove(p);
     } catch {}
   }
 
@@ -742,10 +878,12 @@ export class AnkiDataStorage {
       
       // 导入新数据
       await this.writeJsonFile("decks/decks.json", { decks: data.decks });
-      // 将导入的卡片按牌组落入分片
+      // 将导入的卡片按所属牌组写入引用（多牌组卡片只存一份）
       const byDeck = new Map<string, Card[]>();
       for (const c of (data.cards || [])) {
-        const list = byDeck.get(c.deckId) || []; list.push(c); byDeck.set(c.deckId, list);
+        for (const deckId of getCardDeckIds(c)) {
+          const list = byDeck.get(deckId) || []; list.push(c); byDeck.set(deckId, list);
+        }
       }
       for (const [deckId, list] of byDeck.entries()) await this.saveDeckCards(deckId, list);
       // 仅写入分片结构
@@ -1012,14 +1150,85 @@ export class AnkiDataStorage {
     return items;
   }
 
-  // ===== 新增：牌组级卡片读写（分片） =====
+  // ===== 复习撤销日志（与学习会话同目录 learning/review-journal.json） =====
+  async loadReviewJournal(): Promise<ReviewJournalData | null> {
+    try {
+      return await this.readJsonFile('learning/review-journal.json');
+    } catch {
+      return null;
+    }
+  }
+
+  async saveReviewJournal(data: ReviewJournalData): Promise<void> {
+    try { await this.ensureFolder(`${this.dataFolder}/learning`); } catch {}
+    await this.writeJsonFile('learning/review-journal.json', data);
+  }
+
+  // ===== 牌组引用（引用式牌组） =====
+
+  /**
+   * 按牌组引用顺序读取卡片
+   */
   async getDeckCards(deckId: string): Promise<Card[]> {
     try {
-      const data = await this.readJsonFile(`decks/${deckId}/cards.json`);
-      return (data.cards || []).map((c: Card) => c);
+      const ids = await this.readDeckRefs(deckId);
+      return await this.cardStore.getCards(ids);
     } catch { return []; }
   }
 
+  /**
+   * 牌组内的有序卡片ID
+   */
+  async getDeckCardIds(deckId: string): Promise<string[]> {
+    return this.readDeckRefs(deckId);
+  }
+
+  /**
+   * 将已有卡片加入牌组（不复制卡片）
+   * @param position 插入位置，缺省追加到末尾
+   */
+  async addCardsToDeck(deckId: string, cardIds: string[], position?: number): Promise<number> {
+    const cards = await this.cardStore.getCards(cardIds);
+    const added = cards.filter((c) => !getCardDeckIds(c).includes(deckId));
+    if (added.length === 0) return 0;
+
+    const updated = added.map((c) => ({ ...c, deckIds: [...getCardDeckIds(c), deckId] }));
+    await this.cardStore.putCards(updated);
+    this.cardIndex.upsertCards(updated);
+    this.scheduleCardIndexSave();
+
+    const addedIds = updated.map((c) => c.id);
+    await this.updateDeckRefs(deckId, (ids) => {
+      const rest = addedIds.filter((id) => !ids.includes(id));
+      const at = position === undefined ? ids.length : Math.max(0, Math.min(position, ids.length));
+      return [...ids.slice(0, at), ...rest, ...ids.slice(at)];
+    });
+    return updated.length;
+  }
+
+  /**
+   * 从牌组移除卡片引用
+   *
+   * 卡片若因此不再属于任何牌组，则一并删除（与 saveDeckCards 的语义一致）。
+   */
+  async removeCardsFromDeck(deckId: string, cardIds: string[]): Promise<void> {
+    const remove = new Set(cardIds);
+    const current = await this.readDeckRefs(deckId);
+    await this.saveDeckCards(deckId, await this.cardStore.getCards(current.filter((id) => !remove.has(id))));
+  }
+
+  /**
+   * 调整牌组内卡片顺序；未列出的卡片保持原相对顺序排在末尾
+   */
+  async reorderDeckCards(deckId: string, orderedCardIds: string[]): Promise<void> {
+    await this.updateDeckRefs(deckId, (ids) => {
+      const present = new Set(ids);
+      const head = orderedCardIds.filter((id) => present.has(id));
+      const headSet = new Set(head);
+      return [...head, ...ids.filter((id) => !headSet.has(id))];
+    });
+  }
+
   private async ensureFolder(path: string): Promise<void> {
     try {
       await this.plugin.app.vault.createFolder(path);
@@ -1030,8 +1239,9 @@ export class AnkiDataStorage {
   
   private async enqueueDeckWrite(deckId: string, task: () => Promise<void>): Promise<void> {
     const prev = this.deckWriteQueue.get(deckId) || Promise.resolve();
-    const next = prev.then(task).catch((e) => console.error("Deck write failed", e));
-    this.deckWriteQueue.set(deckId, next);
+    const next = prev.then(task);
+    // 失败的写入不阻塞同一牌组的后续写入，错误交给调用方处理
+    this.deckWriteQueue.set(deckId, next.catch((e) => console.error("Deck write failed", e)));
     await next;
   }
 
@@ -1051,20 +1261,99 @@ export class AnkiDataStorage {
     }
   }
 
+  /**
+   * 以给定的卡片列表（及顺序）作为牌组的完整内容
+   *
+   * - 列表中的卡片写入卡片存储，并确保引用了该牌组
+   * - 原先在牌组中、但不在列表里的卡片被移出；若不再属于任何牌组则删除
+   */
   async saveDeckCards(deckId: string, cards: Card[]): Promise<void> {
     await this.ensureFolder(`${this.dataFolder}/decks/${deckId}`);
     await this.enqueueDeckWrite(deckId, async () => {
-      const payload = { _schemaVersion: "1.0.0", deckId, cards };
-      const content = JSON.stringify(payload, null, 2);
-      const filePath = `${this.dataFolder}/decks/${deckId}/cards.json`;
-      const tmp = `${filePath}.tmp`;
-      const existing = this.plugin.app.vault.getAbstractFileByPath(filePath);
-      await this.plugin.app.vault.adapter.write(tmp, content);
-      if (existing instanceof TFile) {
-        await this.plugin.app.vault.adapter.remove(filePath);
+      const prevIds = await this.readDeckRefs(deckId);
+      const nextIds = Array.from(new Set(cards.map((c) => c.id)));
+      const nextSet = new Set(nextIds);
+
+      const storedById = new Map((await this.cardStore.getCards(nextIds)).map((c) => [c.id, c] as const));
+      const toPut: Card[] = [];
+      const seen = new Set<string>();
+      for (const card of cards) {
+        if (seen.has(card.id)) continue;
+        seen.add(card.id);
+        const stored = storedById.get(card.id);
+        const deckIds = Array.from(new Set([...(stored?.deckIds ?? []), ...(card.deckIds ?? []), deckId]));
+        toPut.push({ ...card, deckId: deckIds.includes(card.deckId) ? card.deckId : deckId, deckIds });
       }
-      await this.plugin.app.vault.adapter.rename(tmp, filePath);
-      await this.updateDeckIndexStats(deckId, cards.length);
+
+      const orphanIds: string[] = [];
+      const removed = await this.cardStore.getCards(prevIds.filter((id) => !nextSet.has(id)));
+      for (const card of removed) {
+        const deckIds = getCardDeckIds(card).filter((id) => id !== deckId);
+        if (deckIds.length === 0) {
+          orphanIds.push(card.id);
+        } else {
+          toPut.push({ ...card, deckId: deckIds.includes(card.deckId) ? card.deckId : deckIds[0], deckIds });
+        }
+      }
+
+      await this.cardStore.putCards(toPut);
+      await this.cardStore.removeCards(orphanIds);
+      await this.writeDeckRefs(deckId, nextIds);
+
+      this.cardIndex.upsertCards(toPut);
+      this.cardIndex.removeCards(orphanIds);
+      this.scheduleCardIndexSave();
+    });
+  }
+
+  /**
+   * 计算卡片保存后的牌组归属
+   *
+   * 旧代码通过直接修改 card.deckId 来"移动"卡片：若新的 deckId 不在归属列表中，
+   * 则用它替换原主牌组；新代码应直接维护 deckIds。
+   */
+  private resolveDeckMembership(card: Card, stored: Card | null): string[] {
+    const deckIds = [...(card.deckIds ?? (stored ? getCardDeckIds(stored) : []))];
+    if (!deckIds.includes(card.deckId)) {
+      const replaced = stored ? deckIds.indexOf(stored.deckId) : -1;
+      if (replaced >= 0) deckIds[replaced] = card.deckId;
+      else deckIds.unshift(card.deckId);
+    }
+    return Array.from(new Set(deckIds));
+  }
+
+  private async readDeckRefs(deckId: string): Promise<string[]> {
+    try {
+      const raw = await this.plugin.app.vault.adapter.read(`${this.dataFolder}/decks/${deckId}/refs.json`);
+      const data: DeckRefsFile = JSON.parse(raw);
+      return Array.isArray(data.cardIds) ? data.cardIds : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private async writeDeckRefs(deckId: string, cardIds: string[]): Promise<void> {
+    const payload: DeckRefsFile = { _schemaVersion: "2.0.0", deckId, cardIds };
+    const filePath = `${this.dataFolder}/decks/${deckId}/refs.json`;
+    const tmp = `${filePath}.tmp`;
+    await this.plugin.app.vault.adapter.write(tmp, JSON.stringify(payload, null, 2));
+    if (await this.exists(filePath)) {
+      await this.plugin.app.vault.adapter.remove(filePath);
+    }
+    await this.plugin.app.vault.adapter.rename(tmp, filePath);
+    await this.updateDeckIndexStats(deckId, cardIds.length);
+  }
+
+  /**
+   * 在牌组写队列中读改写引用列表
+   */
+  private async updateDeckRefs(deckId: string, mutate: (ids: string[]) => string[]): Promise<void> {
+    await this.ensureFolder(`${this.dataFolder}/decks/${deckId}`);
+    await this.enqueueDeckWrite(deckId, async () => {
+      const current = await this.readDeckRefs(deckId);
+      const next = mutate(current);
+      if (next.length === current.length && next.every((id, i) => id === current[i])) return;
+      await this.writeDeckRefs(deckId, next);
     });
   }
 
@@ -1081,7 +1370,7 @@ export class AnkiDataStorage {
 
   private filterCards(cards: Card[], query: DataQuery): Card[] {
     return cards.filter(card => {
-      if (query.deckId && card.deckId !== query.deckId) return false;
+      if (query.deckId && !getCardDeckIds(card).includes(query.deckId)) return false;
       if (query.cardIds && !query.cardIds.includes(card.id)) return false;
       if (query.state !== undefined && card.fsrs.state !== query.state) return false;
       if (query.tags && (!card.tags || !query.tags.some(tag => card.tags?.includes(tag)))) return false;
@@ -1114,14 +1403,24 @@ export class AnkiDataStorage {
    */
   async getCardsBySourceFile(filePath: string): Promise<Card[]> {
     try {
-      const allCards = await this.getCards();
-      return allCards.filter(card => card.sourceFile === filePath);
+      await this.ensureCardIndex();
+      const cards = await this.cardStore.getCards(this.cardIndex.getCardIdsBySourceFile(filePath));
+      return cards.filter(card => card.sourceFile === filePath);
     } catch (error) {
       console.error("Failed to get cards by source file:", error);
       return [];
     }
   }
 
+  /**
+   * 获取同一挖空笔记的全部兄弟卡片
+   */
+  async getCardsByNote(noteId: string): Promise<Card[]> {
+    await this.ensureCardIndex();
+    const cards = await this.cardStore.getCards(this.cardIndex.getCardIdsByNote(noteId));
+    return cards.filter(card => card.noteId === noteId);
+  }
+
   /**
    * 获取所有卡片（别名方法）
    */
@@ -1134,27 +1433,153 @@ export class AnkiDataStorage {
    */
   async getCardByUUID(uuid: string): Promise<Card | null> {
     try {
-      const allCards = await this.getCards();
-      const card = allCards.find(card => card.uuid === uuid);
-      return card || null;
+      await this.ensureCardIndex();
+      const cardId = this.cardIndex.getCardIdByUUID(uuid);
+      if (!cardId) return null;
+
+      const card = await this.cardStore.getCard(cardId);
+      if (card?.uuid === uuid) return card;
+
+      // 索引与卡片存储不一致：回退全量扫描并重建索引
+      console.warn(`Card index out of date for uuid ${uuid}, rebuilding...`);
+      await this.rebuildCardIndex();
+      const all = await this.getCards();
+      return all.find(c => c.uuid === uuid) || null;
     } catch (error) {
       console.error("Failed to get card by UUID:", error);
       return null;
     }
   }
 
+  /**
+   * 全部已排程卡片的到期时间（取自卡片索引，不读取卡片分桶）
+   */
+  async getScheduledDueDates(): Promise<string[]> {
+    await this.ensureCardIndex();
+    return this.cardIndex.getScheduledDueDates();
+  }
+
   /**
    * 根据模板ID获取卡片
    */
   async getCardsByTemplate(templateId: string): Promise<Card[]> {
     try {
-      const allCards = await this.getCards();
-      return allCards.filter(card => card.templateId === templateId);
+      await this.ensureCardIndex();
+      const cards = await this.cardStore.getCards(this.cardIndex.getCardIdsByTemplate(templateId));
+      return cards.filter(card => card.templateId === templateId);
     } catch (error) {
       console.error("Failed to get cards by template:", error);
       return [];
     }
   }
 
+  /**
+   * 根据标签获取卡片
+   */
+  async getCardsByTag(tag: string): Promise<Card[]> {
+    try {
+      await this.ensureCardIndex();
+      const cards = await this.cardStore.getCards(this.cardIndex.getCardIdsByTag(tag));
+      return cards.filter(card => card.tags?.includes(tag));
+    } catch (error) {
+      console.error("Failed to get cards by tag:", error);
+      return [];
+    }
+  }
+
+  // ===== 卡片二级索引 =====
 
+  /**
+   * 全量重建卡片索引并立即落盘
+   */
+  async rebuildCardIndex(): Promise<void> {
+    if (this.cardIndexBuilding) return this.cardIndexBuilding;
+
+    this.cardIndexBuilding = (async () => {
+      const started = Date.now();
+      this.cardIndex.clear();
+      this.cardIndex.upsertCards(await this.cardStore.getAllCards());
+      this.cardIndexReady = true;
+      await this.flushCardIndex();
+      console.log(`✅ Card index rebuilt: ${this.cardIndex.size} cards in ${Date.now() - started}ms`);
+    })();
+
+    try {
+      await this.cardIndexBuilding;
+    } finally {
+      this.cardIndexBuilding = null;
+    }
+  }
+
+  /**
+   * 立即写出尚未保存的索引（插件卸载时调用）
+   */
+  async flushCardIndex(): Promise<void> {
+    if (this.cardIndexSaveTimer) {
+      clearTimeout(this.cardIndexSaveTimer);
+      this.cardIndexSaveTimer = null;
+    }
+    if (!this.cardIndexReady) return;
+    try {
+      await this.ensureFolder(`${this.dataFolder}/indices`);
+      await this.plugin.app.vault.adapter.write(
+        `${this.dataFolder}/${CARD_INDEX_FILE}`,
+        JSON.stringify(this.cardIndex.toJSON())
+      );
+    } catch (error) {
+      console.warn("Failed to save card index:", error);
+    }
+  }
+
+  private async ensureCardIndex(): Promise<void> {
+    if (this.cardIndexReady) return;
+    await this.rebuildCardIndex();
+  }
+
+  /**
+   * 加载持久化索引，并只对索引写出之后有改动的卡片分桶做增量刷新
+   */
+  private async loadCardIndex(): Promise<void> {
+    let snapshot: CardIndexSnapshot | null = null;
+    try {
+      const raw = await this.plugin.app.vault.adapter.read(`${this.dataFolder}/${CARD_INDEX_FILE}`);
+      snapshot = JSON.parse(raw);
+    } catch {
+      // 首次运行或文件损坏：等待首次查询时重建
+    }
+    if (!snapshot || !this.cardIndex.load(snapshot)) {
+      this.cardIndexReady = false;
+      return;
+    }
+
+    const builtAt = Date.parse(snapshot.builtAt) || 0;
+    const staleBuckets = new Set<string>();
+    for (let i = 0; i < CARD_STORE_BUCKETS; i++) {
+      const bucket = i.toString(16).padStart(2, "0");
+      try {
+        const stat = await this.plugin.app.vault.adapter.stat(this.cardStore.bucketPath(bucket));
+        if (stat && (stat.mtime ?? 0) > builtAt) staleBuckets.add(bucket);
+      } catch {}
+    }
+
+    if (staleBuckets.size > 0) {
+      // 分桶在索引写出后被修改（如崩溃前未落盘或外部同步），仅重扫这些分桶
+      const staleIds = this.cardIndex.getCardIds().filter((id) => staleBuckets.has(getCardBucket(id)));
+      this.cardIndex.removeCards(staleIds);
+      for (const bucket of staleBuckets) this.cardStore.invalidate(bucket);
+      const all = await this.cardStore.getAllCards();
+      this.cardIndex.upsertCards(all.filter((c) => staleBuckets.has(getCardBucket(c.id))));
+    }
+
+    this.cardIndexReady = true;
+    if (staleBuckets.size > 0) this.scheduleCardIndexSave();
+  }
+
+  private scheduleCardIndexSave(): void {
+    if (!this.cardIndexReady || this.cardIndexSaveTimer) return;
+    this.cardIndexSaveTimer = setTimeout(() => {
+      this.cardIndexSaveTimer = null;
+      void this.flushCardIndex();
+    }, CARD_INDEX_SAVE_DELAY);
+  }
 }
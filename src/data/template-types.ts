@@ -26,6 +26,17 @@ export interface FieldTemplateField {
 // 列表中任何一项的联合类型
 export type TemplateItem = FieldTemplateField | SpecialElement;
 
+/**
+ * 卡片类型：定义一条笔记生成的一张卡片在问题面和答案面显示哪些字段
+ * 模板定义了多个卡片类型时，一条笔记按卡片类型生成多张独立调度的兄弟卡片（如 单词→释义、释义→单词）
+ */
+export interface TemplateCardType {
+  id: string;
+  name: string;           // 显示名称，也作为导出到 Anki 的卡片模板名称
+  frontFields: string[];  // 问题面显示的字段名（按顺序）
+  backFields: string[];   // 答案面额外显示的字段名（答案面会先显示问题面的字段）
+}
+
 /**
  * 模板分类枚举
  */
@@ -54,6 +65,8 @@ export interface FieldTemplate {
   backTemplate: string;
   description?: string;
   isOfficial?: boolean;
+  // 卡片类型：未定义时一条笔记只生成一张卡片，字段按 side 显示
+  cardTypes?: TemplateCardType[];
   // 新增：模板分类
   category?: TemplateCategory;
   // 新增：版本管理和时间戳
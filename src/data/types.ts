@@ -5,6 +5,7 @@
 import type { CardRelationMetadata } from '../services/relation/types';
 // 🌍 导入国际化语言类型
 import type { SupportedLanguage } from '../utils/i18n';
+import type { StudyMode } from '../types/study-types';
 
 // ===== 标注块双向绑定接口 (v0.7) =====
 
@@ -75,8 +76,16 @@ export interface ReviewLog {
   lastElapsedDays: number;
   scheduledDays: number;
   review: string; // (ISO 8601 string)
+
+  // 复习上下文（旧记录可能缺失）
+  duration?: number;            // 作答用时(毫秒)
+  sessionId?: string;           // 所属学习会话ID
+  device?: ReviewDevice;        // 复习设备
+  studyMode?: StudyMode;        // 学习模式
 }
 
+export type ReviewDevice = 'desktop' | 'tablet' | 'phone';
+
 // ===== 选择题统计接口 =====
 
 /**
@@ -112,12 +121,19 @@ export interface Card {
   // ===== 基础标识 =====
   id: string;
   uuid: string;                       // 全局唯一标识符，用于Anki同步（必选）
-  deckId: string;
+  deckId: string;                     // 主牌组ID（始终包含在 deckIds 中）
+  deckIds?: string[];                 // 🆕 引用该卡片的全部牌组（引用式牌组，缺省时视为 [deckId]）
   templateId: string;                 // 关联的字段模板ID
   type: CardType;                     // 卡片类型
   
   // 🆕 父子卡片关系（v0.8）
   parentCardId?: string;              // 父卡片UUID（子卡片填写，用于建立层级关系）
+
+  // 🆕 兄弟卡片：挖空笔记的每个挖空编号、多卡片类型模板的每个卡片类型、或图片遮罩的每个遮罩（分组）各自成卡，共享内容、独立调度
+  noteId?: string;                    // 所属笔记ID（兄弟卡片相同，取笔记首张卡片的ID）
+  clozeOrdinal?: number;              // 本卡片考察的挖空编号（{{c1::}} 或第 1 个 ==text== 为 1）
+  cardTypeId?: string;                // 本卡片对应的模板卡片类型ID（见 TemplateCardType）
+  occlusionTarget?: string;           // 本卡片考察的图片遮罩（遮罩ID或分组ID，见 MaskData.mode）
   
   // ===== 内容存储（双层架构）=====
   // content: 用户编辑的原始Markdown内容（包含语义标记、分隔符等）
@@ -192,6 +208,11 @@ export interface Card {
   // ===== 标签和优先级 =====
   tags?: string[];                    // 标签
   priority?: number;                  // 优先级 (1-4)
+
+  // ===== 调度标记 =====
+  suspended?: boolean;                // 已暂停：不进入任何学习队列
+  buriedUntil?: string;               // 已搁置：在该时间（次日零点）之前不进入学习队列
+  leech?: LeechInfo;                  // 难点卡片（Leech）检测记录
   
   // ===== 来源标识 =====
   source?: 'tuanki' | 'anki' | 'apkg' | 'incremental';  // 卡片创建来源
@@ -352,6 +373,16 @@ export interface DeckSettings {
   
   // FSRS参数
   fsrsParams: FSRSParameters;
+  fsrsOptimization?: FSRSOptimizationRecord; // 存在时该牌组使用优化得到的权重，而非全局预设
+
+  // 难点卡片（Leech）处理，缺省时使用默认阈值
+  leech?: LeechSettings;
+
+  // 复习一张卡片后，将同一父卡片或同一源块的兄弟卡片搁置到次日
+  burySiblings?: boolean;
+
+  // 输入答案模式，缺省时不启用；模板的设置优先于牌组
+  typedAnswer?: TypedAnswerSettings;
   
   // 学习模式
   learningSteps: number[];      // 学习步骤(分钟)
@@ -360,6 +391,48 @@ export interface DeckSettings {
   easyInterval: number;         // 简单间隔(天)
 }
 
+export type LeechAction = 'tag' | 'suspend' | 'move';
+
+export interface TypedAnswerSettings {
+  enabled: boolean;
+  granularity: 'char' | 'word';  // 按字符或按单词比对（中日韩文字在单词模式下按单字比对）
+  ignoreCase: boolean;
+  ignorePunctuation: boolean;
+  ignoreAccents: boolean;        // 忽略重音符号（é → e）
+}
+
+export interface TtsSettings {
+  lang: string;                  // BCP 47 语言标签（如 en-US），为空时使用系统默认
+  voice: string;                 // 声音名称，为空时按语言自动选择（优先本地声音）
+  rate: number;                  // 语速，1 为正常
+  autoPlay: boolean;             // 显示问题面和答案面时自动朗读该面的 TTS 标记
+}
+
+export interface LeechSettings {
+  enabled: boolean;
+  lapseThreshold: number;       // 遗忘次数阈值（fsrs.lapses），0 表示不按遗忘次数判定
+  errorThreshold: number;       // 累计错误次数阈值（stats.errorTracking.errorCount），0 表示不启用
+  action: LeechAction;          // 标记 / 暂停 / 移入错题牌组
+  errorBookDeckId?: string;     // action 为 move 时的目标牌组，缺省时自动创建
+}
+
+export interface LeechInfo {
+  detectedAt: string;           // 首次判定时间
+  lastTriggeredAt: string;      // 最近一次触发时间
+  lapses: number;
+  errorCount: number;
+  action: LeechAction;
+  originDeckId?: string;        // 移入错题牌组前的主牌组
+}
+
+export interface FSRSOptimizationRecord {
+  w: number[];                  // 优化后的21个权重
+  optimizedAt: string;          // 优化时间
+  reviewCount: number;          // 参与拟合的复习记录数
+  logLossBefore: number;        // 测试集优化前对数损失
+  logLossAfter: number;         // 测试集优化后对数损失
+}
+
 export interface DeckStats {
   // 牌组统计
   totalCards: number;
@@ -574,7 +647,28 @@ export interface ImportMapping {
   ankiModelName?: string;
   
   // 同步状态
-  syncStatus?: 'synced' | 'tuanki_modified' | 'anki_modified';
+  syncStatus?: 'synced' | 'tuanki_modified' | 'anki_modified' | 'conflict';
+
+  // 是否参与双向同步
+  isBidirectional?: boolean;
+
+  // 上次同步完成时两侧的内容（双向同步的三方比较基线）
+  snapshot?: SyncSnapshot;
+
+  // 已同步回 Tuanki 的最后一条 Anki 复习记录ID（毫秒时间戳）
+  lastAnkiReviewId?: number;
+}
+
+// 双向同步基线快照
+export interface SyncSnapshot {
+  // Tuanki 侧字段（card.fields 的键）
+  tuankiFields: Record<string, string>;
+
+  // Anki 侧字段（笔记类型字段名）
+  ankiFields: Record<string, string>;
+
+  // 两侧共同的标签
+  tags: string[];
 }
 
 // 🆕 错题等级类型
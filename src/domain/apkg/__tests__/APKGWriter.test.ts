@@ -0,0 +1,160 @@
+// @vitest-environment node
+/**
+ * APKG 写入器测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import initSqlJs from 'sql.js';
+import { APKGWriter } from '../writer/APKGWriter';
+import { fieldChecksum } from '../writer/SQLiteWriter';
+import { collectionCreationTime, dayNumber, toAnkiRevlog, toAnkiScheduling } from '../writer/SchedulingMapper';
+import type { AnkiModel, APKGWriteData } from '../types';
+import { CardState } from '../../../data/types';
+
+const NOW = new Date(2025, 4, 10, 12, 0);
+
+function model(id: number, type: number, fields: string[]): AnkiModel {
+  return {
+    id,
+    name: `model-${id}`,
+    type,
+    flds: fields.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20 })),
+    tmpls: [{ name: 'Card 1', ord: 0, qfmt: type === 1 ? '{{cloze:text}}' : '{{front}}', afmt: '{{back}}' }],
+    css: '.card {}'
+  };
+}
+
+function reviewCard() {
+  return {
+    due: new Date(2025, 4, 20, 9, 0).toISOString(),
+    stability: 12.345678,
+    difficulty: 5.4321,
+    elapsedDays: 10,
+    scheduledDays: 10,
+    reps: 3,
+    lapses: 1,
+    state: CardState.Review,
+    lastReview: new Date(2025, 4, 10, 9, 0).toISOString(),
+    retrievability: 0.9
+  };
+}
+
+describe('SchedulingMapper', () => {
+  it('should map FSRS review state to the Anki review queue with memory state', () => {
+    const crt = collectionCreationTime([new Date(2025, 4, 1, 15, 0)], NOW);
+    const scheduling = toAnkiScheduling(reviewCard(), crt, 1, false, NOW);
+
+    expect(scheduling).toMatchObject({ type: 2, queue: 2, ivl: 10, reps: 3, lapses: 1, factor: 2500 });
+    expect(scheduling.due).toBe(19);
+    expect(JSON.parse(scheduling.data)).toEqual({ s: 12.3457, d: 5.432 });
+  });
+
+  it('should export new, suspended and learning cards', () => {
+    const crt = collectionCreationTime([], NOW);
+    expect(toAnkiScheduling(undefined, crt, 7)).toMatchObject({ type: 0, queue: 0, due: 7 });
+    expect(toAnkiScheduling(reviewCard(), crt, 1, true, NOW).queue).toBe(-1);
+
+    const learning = { ...reviewCard(), state: CardState.Learning, due: new Date(2025, 4, 10, 12, 10).toISOString() };
+    const scheduling = toAnkiScheduling(learning, crt, 1, false, NOW);
+    expect(scheduling).toMatchObject({ type: 1, queue: 1 });
+    expect(scheduling.due).toBe(Math.floor(new Date(learning.due).getTime() / 1000));
+    expect(dayNumber(NOW, crt)).toBe(0);
+  });
+
+  it('should convert review history to revlog entries', () => {
+    const first = new Date(2025, 4, 1, 9, 0);
+    const second = new Date(2025, 4, 2, 9, 0);
+    const revlog = toAnkiRevlog([
+      { rating: 3, state: CardState.Review, due: '', stability: 5, difficulty: 5, elapsedDays: 1, lastElapsedDays: 0, scheduledDays: 5, review: second.toISOString(), duration: 90000 },
+      { rating: 1, state: CardState.New, due: new Date(first.getTime() + 600000).toISOString(), stability: 1, difficulty: 5, elapsedDays: 0, lastElapsedDays: 0, scheduledDays: 0, review: first.toISOString() }
+    ] as any);
+
+    expect(revlog).toEqual([
+      { id: first.getTime(), ease: 1, ivl: -600, lastIvl: 0, factor: 0, time: 0, type: 0 },
+      { id: second.getTime(), ease: 3, ivl: 5, lastIvl: -600, factor: 2500, time: 60000, type: 1 }
+    ]);
+  });
+});
+
+describe('APKGWriter', () => {
+  it('should write a collection that contains notes, cards, revlog and media', async () => {
+    const crt = collectionCreationTime([], NOW);
+    const data: APKGWriteData = {
+      models: [model(1001, 0, ['front', 'back']), model(1002, 1, ['text'])],
+      decks: [{ id: 2001, name: 'Export', desc: '' }],
+      notes: [
+        {
+          guid: 'note-a',
+          mid: 1001,
+          did: 2001,
+          fields: ['<b>Q</b>', 'A <img src="a.png">'],
+          tags: ['tag one', 'x'],
+          cards: [{
+            ord: 0,
+            scheduling: toAnkiScheduling(reviewCard(), crt, 1, false, NOW),
+            revlog: [{ id: 5, ease: 3, ivl: 10, lastIvl: 0, factor: 2500, time: 1000, type: 1 }]
+          }]
+        },
+        { guid: 'note-b', mid: 1002, did: 2001, fields: ['{{c1::a}} {{c2::b}}'], tags: [], cards: [{ ord: 0 }, { ord: 1 }] }
+      ],
+      media: new Map([['a.png', new Uint8Array([1, 2, 3])]]),
+      crt
+    };
+
+    const bytes = await new APKGWriter().write(data);
+    const zip = await JSZip.loadAsync(bytes);
+
+    expect(JSON.parse(await zip.file('media')!.async('text'))).toEqual({ '0': 'a.png' });
+    expect(Array.from(await zip.file('0')!.async('uint8array'))).toEqual([1, 2, 3]);
+
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(await zip.file('collection.anki21')!.async('uint8array'));
+    try {
+      const [col] = db.exec('SELECT ver, crt, models, decks FROM col')[0].values;
+      expect(col[0]).toBe(11);
+      expect(col[1]).toBe(crt);
+      expect(Object.keys(JSON.parse(col[2] as string)).sort()).toEqual(['1001', '1002']);
+      expect(JSON.parse(col[3] as string)['2001'].name).toBe('Export');
+
+      const notes = db.exec('SELECT guid, flds, tags, sfld FROM notes ORDER BY id')[0].values;
+      expect(notes[0]).toEqual(['note-a', '<b>Q</b>\x1fA <img src="a.png">', ' tag_one x ', 'Q']);
+
+      const cards = db.exec('SELECT ord, type, queue, due, ivl FROM cards ORDER BY id')[0].values;
+      expect(cards).toEqual([[0, 2, 2, 10, 10], [0, 0, 0, 2, 0], [1, 0, 0, 2, 0]]);
+
+      expect(db.exec('SELECT COUNT(*) FROM revlog')[0].values[0][0]).toBe(1);
+    } finally {
+      db.close();
+    }
+  });
+
+  it('should take the sort field from the model and keep note and card ids apart', async () => {
+    const sorted = { ...model(1001, 0, ['front', 'back']), sortf: 1 };
+    const data: APKGWriteData = {
+      models: [sorted],
+      decks: [{ id: 2001, name: 'Export', desc: '' }],
+      notes: [
+        { guid: 'note-a', mid: 1001, did: 2001, fields: ['Q1', '<i>A1</i>'], tags: [], cards: [{ ord: 0 }] },
+        { guid: 'note-b', mid: 1001, did: 2001, fields: ['Q2', 'A2'], tags: [], cards: [{ ord: 0 }] }
+      ],
+      media: new Map(),
+      crt: collectionCreationTime([], NOW)
+    };
+
+    const zip = await JSZip.loadAsync(await new APKGWriter().write(data));
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(await zip.file('collection.anki21')!.async('uint8array'));
+    try {
+      const notes = db.exec('SELECT id, sfld, csum FROM notes ORDER BY id')[0].values;
+      expect(notes.map(row => row[1])).toEqual(['A1', 'A2']);
+      expect(notes[0][2]).toBe(await fieldChecksum('A1'));
+
+      const noteIds = notes.map(row => row[0] as number);
+      const cardIds = db.exec('SELECT id FROM cards ORDER BY id')[0].values.map(row => row[0] as number);
+      expect(Math.min(...cardIds)).toBeGreaterThan(Math.max(...noteIds));
+    } finally {
+      db.close();
+    }
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * 调度状态转换器测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SchedulingConverter } from '../converter/SchedulingConverter';
+import type { AnkiCard, AnkiRevlog } from '../types';
+import { CardState, Rating } from '../../../data/types';
+
+const DAY = 86400000;
+const CRT = new Date(2025, 0, 1, 4, 0).getTime();
+const NOW = new Date(2025, 2, 1, 12, 0);
+
+function ankiCard(overrides: Partial<AnkiCard>): AnkiCard {
+  return {
+    id: 1,
+    nid: 100,
+    did: 1,
+    ord: 0,
+    type: 2,
+    queue: 2,
+    due: 70,
+    ivl: 10,
+    factor: 2500,
+    reps: 3,
+    lapses: 0,
+    left: 0,
+    odue: 0,
+    odid: 0,
+    data: '',
+    ...overrides
+  };
+}
+
+function revlog(cid: number, time: number, ease: number, type = 1, ivl = 1): AnkiRevlog {
+  return { id: time, cid, ease, ivl, lastIvl: 0, factor: 2500, time: 8000, type };
+}
+
+describe('SchedulingConverter', () => {
+  it('should keep the Anki review state and prefer FSRS memory state from card data', () => {
+    const card = ankiCard({ data: JSON.stringify({ s: 12.5, d: 6.2 }) });
+    const converter = new SchedulingConverter([card], [], CRT, NOW);
+
+    const result = converter.convert(100)!;
+    expect(result.fsrs).toMatchObject({
+      state: CardState.Review,
+      stability: 12.5,
+      difficulty: 6.2,
+      scheduledDays: 10,
+      reps: 3,
+      lapses: 0
+    });
+    expect(result.fsrs.due).toBe(new Date(CRT + 70 * DAY).toISOString());
+    expect(result.fsrs.lastReview).toBe(new Date(CRT + 60 * DAY).toISOString());
+    expect(result.suspended).toBe(false);
+  });
+
+  it('should replay revlog through FSRS when card data has no memory state', () => {
+    const first = CRT + 10 * DAY;
+    const card = ankiCard({ id: 7, queue: -1 });
+    const logs = [
+      revlog(7, first, Rating.Good, 0, -600),
+      revlog(7, first + 600000, Rating.Good, 0, 1),
+      revlog(7, first + 3 * DAY, Rating.Easy, 1, 10),
+      revlog(7, first + 4 * DAY, 0, 4, 10)
+    ];
+    const converter = new SchedulingConverter([card], logs, CRT, NOW);
+
+    const result = converter.convert(100)!;
+    expect(result.reviewHistory.map(log => log.rating)).toEqual([Rating.Good, Rating.Good, Rating.Easy]);
+    expect(result.reviewHistory[0].duration).toBe(8000);
+    expect(result.fsrs.stability).toBeGreaterThan(0);
+    expect(result.fsrs.lastReview).toBe(new Date(first + 3 * DAY).toISOString());
+    expect(result.suspended).toBe(true);
+  });
+
+  it('should fall back to SM-2 interval and factor without history', () => {
+    const converter = new SchedulingConverter([ankiCard({ ivl: 30, factor: 1300 })], [], CRT, NOW);
+
+    const result = converter.convert(100)!;
+    expect(result.fsrs.stability).toBe(30);
+    expect(result.fsrs.difficulty).toBe(10);
+  });
+
+  it('should use the lowest template ordinal per note and handle learning and new cards', () => {
+    const learningDue = Math.floor(NOW.getTime() / 1000) + 600;
+    const cards = [
+      ankiCard({ id: 2, ord: 1, type: 2 }),
+      ankiCard({ id: 1, ord: 0, type: 1, queue: 1, due: learningDue, ivl: 0 }),
+      ankiCard({ id: 3, nid: 200, type: 0, queue: 0, due: 5, ivl: 0, reps: 0 })
+    ];
+    const converter = new SchedulingConverter(cards, [], CRT, NOW);
+
+    const learning = converter.convert(100)!;
+    expect(learning.fsrs.state).toBe(CardState.Learning);
+    expect(learning.fsrs.due).toBe(new Date(learningDue * 1000).toISOString());
+
+    const fresh = converter.convert(200)!;
+    expect(fresh.fsrs.state).toBe(CardState.New);
+    expect(fresh.fsrs.reps).toBe(0);
+
+    expect(converter.convert(300)).toBeNull();
+  });
+});
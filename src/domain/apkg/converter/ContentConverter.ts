@@ -7,6 +7,7 @@
  */
 
 import { APKGLogger } from '../../../infrastructure/logger/APKGLogger';
+import { ankiTtsTagsToMarkers } from '../../../utils/tts-markers';
 
 /**
  * 媒体引用
@@ -103,20 +104,20 @@ export class ContentConverter {
     for (const ref of mediaRefs) {
       // 从映射中获取实际保存的路径
       const path = mediaPathMap.get(ref.originalName);
-      
-      if (path) {
-        // 转换为Obsidian WikiLink格式
-        const wikilink = `![[${path}]]`;
-        
-        // 替换占位符（转义特殊字符以避免正则错误）
-        const escapedPlaceholder = this.escapeRegExp(ref.placeholder);
-        result = result.replace(new RegExp(escapedPlaceholder, 'g'), wikilink);
-        
-        this.logger.debug(`替换媒体: ${ref.placeholder} → ${wikilink}`);
-      } else {
-        // 未找到文件映射，记录警告
+
+      if (!path) {
+        // 未找到文件映射，按原文件名嵌入（文件稍后放入库中即可解析），避免占位符残留在内容中
         this.logger.warn(`未找到媒体文件映射: ${ref.originalName}`);
       }
+
+      // 转换为Obsidian WikiLink格式（[sound:x.mp3] → ![[x.mp3]]）
+      const wikilink = `![[${path || ref.originalName}]]`;
+
+      // 替换占位符（转义特殊字符以避免正则错误）
+      const escapedPlaceholder = this.escapeRegExp(ref.placeholder);
+      result = result.replace(new RegExp(escapedPlaceholder, 'g'), wikilink);
+
+      this.logger.debug(`替换媒体: ${ref.placeholder} → ${wikilink}`);
     }
 
     return result;
@@ -197,6 +198,9 @@ export class ContentConverter {
   private convertAnkiSyntax(html: string): string {
     let result = html;
 
+    // 转换TTS标签 [anki:tts lang=en_US]text[/anki:tts] -> {{tts en-US:text}}
+    result = ankiTtsTagsToMarkers(result);
+
     // 转换挖空语法 {{c1::text}} -> ==text==
     result = result.replace(/\{\{c\d+::([^}]+)\}\}/g, '==$1==');
 
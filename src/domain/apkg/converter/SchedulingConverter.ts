@@ -0,0 +1,232 @@
+/**
+ * 调度状态转换器
+ *
+ * 负责将Anki cards/revlog表中的学习进度转换为Tuanki的FSRS调度状态和复习历史
+ *
+ * @module domain/apkg/converter
+ */
+
+import type { FSRSCard, ReviewLog } from '../../../data/types';
+import { CardState, Rating } from '../../../data/types';
+import { FSRS6CoreAlgorithm } from '../../../algorithms/fsrs6-core';
+import type { AnkiCard, AnkiRevlog } from '../types';
+
+const MS_PER_DAY = 86400000;
+
+/** 大于该值的 due 为秒级时间戳，否则为相对集合创建日的天数 */
+const TIMESTAMP_THRESHOLD = 1_000_000_000;
+
+/** revlog.type: 手动操作（重置、设置到期日等） */
+const REVLOG_MANUAL = 4;
+
+/**
+ * 转换后的学习进度
+ */
+export interface ImportedScheduling {
+  /** FSRS调度状态 */
+  fsrs: FSRSCard;
+  /** 复习历史 (按时间升序) */
+  reviewHistory: ReviewLog[];
+  /** 是否已暂停 */
+  suspended: boolean;
+}
+
+/**
+ * Anki 23.10+ 写入 cards.data 的 FSRS 记忆状态
+ */
+interface AnkiCardData {
+  s?: number;
+  d?: number;
+  /** 上次复习时间 (秒) */
+  lrt?: number;
+}
+
+/**
+ * 调度状态转换器
+ *
+ * Anki 中一个笔记可能生成多张卡片（多模板或多个挖空），Tuanki 中对应一张卡片，
+ * 因此每个笔记取模板序号最小的卡片作为进度来源。
+ *
+ * 记忆状态的优先级：cards.data 中的 FSRS 状态 > 用 FSRS 重放 revlog 的结果 > 由 SM-2 间隔和难度系数近似。
+ * 卡片状态、到期时间、复习次数以 Anki 中的记录为准。
+ */
+export class SchedulingConverter {
+  private primaryCards = new Map<number, AnkiCard>();
+  private revlogByCard = new Map<number, AnkiRevlog[]>();
+  private algorithm = new FSRS6CoreAlgorithm({ enableFuzz: false });
+
+  /**
+   * @param cards - Anki 卡片
+   * @param revlog - Anki 复习记录
+   * @param crt - 集合创建时间 (毫秒)
+   * @param now - 当前时间
+   */
+  constructor(
+    cards: AnkiCard[],
+    revlog: AnkiRevlog[],
+    private crt: number,
+    private now: Date = new Date()
+  ) {
+    for (const card of cards) {
+      const current = this.primaryCards.get(card.nid);
+      if (!current || card.ord < current.ord) {
+        this.primaryCards.set(card.nid, card);
+      }
+    }
+
+    for (const entry of revlog) {
+      const entries = this.revlogByCard.get(entry.cid);
+      if (entries) {
+        entries.push(entry);
+      } else {
+        this.revlogByCard.set(entry.cid, [entry]);
+      }
+    }
+    for (const entries of this.revlogByCard.values()) {
+      entries.sort((a, b) => a.id - b.id);
+    }
+  }
+
+  /**
+   * 转换笔记的学习进度
+   *
+   * @param noteId - Anki 笔记ID
+   * @returns 学习进度；APKG 中没有该笔记的卡片时返回 null
+   */
+  convert(noteId: number): ImportedScheduling | null {
+    const card = this.primaryCards.get(noteId);
+    if (!card) return null;
+
+    const revlog = this.revlogByCard.get(card.id) || [];
+    const replay = this.replay(revlog);
+    const suspended = card.queue === -1;
+
+    if (card.type === 0) {
+      const fsrs = this.algorithm.createCard();
+      return {
+        fsrs: { ...fsrs, due: this.now.toISOString(), retrievability: 0 },
+        reviewHistory: replay.history,
+        suspended
+      };
+    }
+
+    const data = parseCardData(card.data);
+    const state = toCardState(card.type);
+    const due = this.dueDate(card);
+    const lastReview = data.lrt
+      ? new Date(data.lrt * 1000)
+      : replay.lastReview || new Date(due.getTime() - Math.max(0, card.ivl) * MS_PER_DAY);
+
+    const stability = data.s && data.s > 0
+      ? data.s
+      : replay.card && replay.card.stability > 0
+        ? replay.card.stability
+        : Math.max(card.ivl, 1);
+    const difficulty = data.d && data.d > 0
+      ? data.d
+      : replay.card && replay.card.difficulty > 0
+        ? replay.card.difficulty
+        : difficultyFromFactor(card.factor);
+
+    const elapsedSinceReview = Math.max(0, (this.now.getTime() - lastReview.getTime()) / MS_PER_DAY);
+
+    return {
+      fsrs: {
+        due: due.toISOString(),
+        stability,
+        difficulty: clamp(difficulty, 1, 10),
+        elapsedDays: replay.card?.elapsedDays ?? 0,
+        scheduledDays: Math.max(0, card.ivl),
+        reps: card.reps,
+        lapses: card.lapses,
+        state,
+        lastReview: lastReview.toISOString(),
+        retrievability: this.algorithm.predictRetrievability(elapsedSinceReview, stability)
+      },
+      reviewHistory: replay.history,
+      suspended
+    };
+  }
+
+  /**
+   * 到期时间：筛选牌组中的卡片使用原到期时间
+   */
+  private dueDate(card: AnkiCard): Date {
+    const due = card.odid && card.odue ? card.odue : card.due;
+    if (due > TIMESTAMP_THRESHOLD) {
+      return new Date(due * 1000);
+    }
+    return new Date(this.crt + due * MS_PER_DAY);
+  }
+
+  /**
+   * 用FSRS按时间顺序重放复习记录，生成复习历史和重放后的记忆状态
+   *
+   * 手动重置(ivl 为 0 的手动记录)之前的记录不参与记忆状态计算，但仍保留在历史中
+   */
+  private replay(revlog: AnkiRevlog[]): {
+    history: ReviewLog[];
+    card: FSRSCard | null;
+    lastReview: Date | null;
+  } {
+    const history: ReviewLog[] = [];
+    let card = this.algorithm.createCard();
+    let reviewed = false;
+    let lastReview: Date | null = null;
+
+    for (const entry of revlog) {
+      if (entry.type === REVLOG_MANUAL) {
+        if (entry.ivl === 0) {
+          card = this.algorithm.createCard();
+          reviewed = false;
+        }
+        continue;
+      }
+      if (entry.ease < Rating.Again || entry.ease > Rating.Easy) continue;
+
+      const reviewedAt = new Date(entry.id);
+      const result = this.algorithm.review(card, entry.ease as Rating, reviewedAt.toISOString());
+      history.push({ ...result.log, duration: Math.max(0, entry.time) });
+      card = result.card;
+      reviewed = true;
+      lastReview = reviewedAt;
+    }
+
+    return { history, card: reviewed ? card : null, lastReview };
+  }
+}
+
+function toCardState(type: number): CardState {
+  switch (type) {
+    case 1:
+      return CardState.Learning;
+    case 2:
+      return CardState.Review;
+    case 3:
+      return CardState.Relearning;
+    default:
+      return CardState.New;
+  }
+}
+
+function parseCardData(data: string | undefined): AnkiCardData {
+  if (!data) return {};
+  try {
+    const parsed = JSON.parse(data);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 由 SM-2 难度系数近似 FSRS 难度：250% 对应 5，每降低 120% 难度增加 5
+ */
+function difficultyFromFactor(factor: number): number {
+  if (!factor) return 5;
+  return 5 + ((2500 - factor) / 1200) * 5;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -1,5 +1,5 @@
 /**
- * APKG导入模块 - 统一导出
+ * APKG导入导出模块 - 统一导出
  * 
  * @module domain/apkg
  */
@@ -15,10 +15,17 @@ export { SQLiteReader } from './parser/SQLiteReader';
 export { FieldSideResolver } from './converter/FieldSideResolver';
 export { ContentConverter } from './converter/ContentConverter';
 export { MediaProcessor } from './converter/MediaProcessor';
+export { SchedulingConverter } from './converter/SchedulingConverter';
+export type { ImportedScheduling } from './converter/SchedulingConverter';
 
 // 构建器
 export { CardBuilder } from './builder/CardBuilder';
 
+// 写入器
+export { APKGWriter } from './writer/APKGWriter';
+export { SQLiteWriter } from './writer/SQLiteWriter';
+export * from './writer/SchedulingMapper';
+
 
 
 
@@ -58,7 +58,7 @@ export class APKGParser {
       }
       
       // 4. 解析数据库
-      const { models, decks, notes, metadata } = await this.sqlReader.read(dbData, format);
+      const { models, decks, notes, cards, revlog, metadata } = await this.sqlReader.read(dbData, format);
       
       // 5. 提取媒体文件
       const media = await this.extractMedia(zip);
@@ -69,6 +69,8 @@ export class APKGParser {
         models,
         decks,
         notes,
+        cards,
+        revlog,
         media,
         metadata
       };
@@ -11,6 +11,8 @@ import type {
   AnkiModel,
   AnkiDeck,
   AnkiNote,
+  AnkiCard,
+  AnkiRevlog,
   APKGFormat,
   APKGMetadata
 } from '../types';
@@ -23,6 +25,8 @@ interface SQLiteReadResult {
   models: AnkiModel[];
   decks: AnkiDeck[];
   notes: AnkiNote[];
+  cards: AnkiCard[];
+  revlog: AnkiRevlog[];
   metadata: APKGMetadata;
 }
 
@@ -59,11 +63,14 @@ export class SQLiteReader {
         const models = this.readModels(db);
         const decks = this.readDecks(db);
         const notes = this.readNotes(db);
+        const cards = this.readCards(db);
+        const revlog = this.readRevlog(db);
         const metadata = this.readMetadata(db, notes.length);
+        metadata.totalCards = cards.length;
         
-        this.logger.info(`数据读取完成: ${models.length} 个模型, ${decks.length} 个牌组, ${notes.length} 个笔记`);
+        this.logger.info(`数据读取完成: ${models.length} 个模型, ${decks.length} 个牌组, ${notes.length} 个笔记, ${cards.length} 张卡片, ${revlog.length} 条复习记录`);
         
-        return { models, decks, notes, metadata };
+        return { models, decks, notes, cards, revlog, metadata };
       } finally {
         db.close();
       }
@@ -151,6 +158,69 @@ export class SQLiteReader {
     return notes;
   }
 
+  /**
+   * 读取卡片调度数据
+   */
+  private readCards(db: SqlDatabase): AnkiCard[] {
+    try {
+      const results = db.exec(
+        'SELECT id, nid, did, ord, type, queue, due, ivl, factor, reps, lapses, left, odue, odid, data FROM cards'
+      );
+      if (!results.length) return [];
+
+      const cards: AnkiCard[] = results[0].values.map((row: any[]) => ({
+        id: row[0] as number,
+        nid: row[1] as number,
+        did: row[2] as number,
+        ord: row[3] as number,
+        type: row[4] as number,
+        queue: row[5] as number,
+        due: row[6] as number,
+        ivl: row[7] as number,
+        factor: row[8] as number,
+        reps: row[9] as number,
+        lapses: row[10] as number,
+        left: row[11] as number,
+        odue: (row[12] as number) || 0,
+        odid: (row[13] as number) || 0,
+        data: (row[14] as string) || ''
+      }));
+
+      this.logger.debug(`读取到 ${cards.length} 张卡片`);
+      return cards;
+    } catch (error) {
+      this.logger.warn('读取卡片数据失败', error);
+      return [];
+    }
+  }
+
+  /**
+   * 读取复习记录（按时间升序）
+   */
+  private readRevlog(db: SqlDatabase): AnkiRevlog[] {
+    try {
+      const results = db.exec('SELECT id, cid, ease, ivl, lastIvl, factor, time, type FROM revlog ORDER BY id');
+      if (!results.length) return [];
+
+      const revlog: AnkiRevlog[] = results[0].values.map((row: any[]) => ({
+        id: row[0] as number,
+        cid: row[1] as number,
+        ease: row[2] as number,
+        ivl: row[3] as number,
+        lastIvl: row[4] as number,
+        factor: row[5] as number,
+        time: row[6] as number,
+        type: row[7] as number
+      }));
+
+      this.logger.debug(`读取到 ${revlog.length} 条复习记录`);
+      return revlog;
+    } catch (error) {
+      this.logger.warn('读取复习记录失败', error);
+      return [];
+    }
+  }
+
   /**
    * 读取元数据
    */
@@ -1,7 +1,7 @@
 /**
- * APKG 导入领域模型 - 统一类型定义
+ * APKG 导入导出领域模型 - 统一类型定义
  * 
- * 本文件包含APKG导入功能的所有核心类型定义
+ * 本文件包含APKG导入导出功能的所有核心类型定义
  * 遵循领域驱动设计(DDD)原则
  * 
  * @module domain/apkg/types
@@ -51,6 +51,10 @@ export interface APKGData {
   decks: AnkiDeck[];
   /** 笔记列表 */
   notes: AnkiNote[];
+  /** 卡片列表 (调度状态) */
+  cards: AnkiCard[];
+  /** 复习记录 */
+  revlog: AnkiRevlog[];
   /** 媒体文件映射 (文件名 → 二进制数据) */
   media: Map<string, Uint8Array>;
   /** 元信息 */
@@ -174,6 +178,64 @@ export interface AnkiNote {
   sfld?: string;
 }
 
+/**
+ * Anki 卡片 (cards 表)
+ */
+export interface AnkiCard {
+  /** 卡片ID */
+  id: number;
+  /** 笔记ID */
+  nid: number;
+  /** 牌组ID */
+  did: number;
+  /** 模板序号 (挖空卡片为挖空编号-1) */
+  ord: number;
+  /** 类型: 0=新卡片 1=学习中 2=复习 3=重新学习 */
+  type: number;
+  /** 队列: -3/-2=埋藏 -1=暂停 0=新卡片 1=学习中 2=复习 3=跨天学习 */
+  queue: number;
+  /** 到期: 新卡片为序号, 学习队列为秒级时间戳, 复习队列为相对集合创建日的天数 */
+  due: number;
+  /** 间隔(天, 负数为秒) */
+  ivl: number;
+  /** 难度系数 (千分比, 2500 = 250%) */
+  factor: number;
+  /** 复习次数 */
+  reps: number;
+  /** 遗忘次数 */
+  lapses: number;
+  /** 剩余学习步数 */
+  left: number;
+  /** 筛选牌组中的原到期时间 */
+  odue: number;
+  /** 筛选牌组中的原牌组ID */
+  odid: number;
+  /** 附加数据 (FSRS 记忆状态 JSON) */
+  data?: string;
+}
+
+/**
+ * Anki 复习记录 (revlog 表)
+ */
+export interface AnkiRevlog {
+  /** 记录ID (毫秒时间戳) */
+  id: number;
+  /** 卡片ID */
+  cid: number;
+  /** 评分: 0=手动操作 1=重来 2=困难 3=良好 4=简单 */
+  ease: number;
+  /** 复习后间隔(天, 负数为秒) */
+  ivl: number;
+  /** 复习前间隔 */
+  lastIvl: number;
+  /** 难度系数 */
+  factor: number;
+  /** 用时(毫秒) */
+  time: number;
+  /** 类型: 0=学习 1=复习 2=重新学习 3=筛选 4=手动 */
+  type: number;
+}
+
 // ==================== 字段解析相关 ====================
 
 /**
@@ -434,6 +496,8 @@ export interface ImportConfig {
   createDeckIfNotExist: boolean;
   /** 目标牌组名称(可选,留空则使用APKG中的名称) */
   targetDeckName?: string;
+  /** 保留 Anki 中的学习进度和复习记录 (默认重置为新卡片) */
+  preserveScheduling?: boolean;
 }
 
 /**
@@ -525,6 +589,122 @@ export interface ImportError {
   stack?: string;
 }
 
+// ==================== 导出相关 ====================
+
+/**
+ * Anki 卡片调度状态 (对应 cards 表的调度列)
+ */
+export interface AnkiCardScheduling {
+  /** 0=新卡片, 1=学习中, 2=复习, 3=重新学习 */
+  type: number;
+  /** -1=暂停, 0=新卡片, 1=学习中, 2=复习 */
+  queue: number;
+  /** 新卡片为排序位置，学习中为秒级时间戳，复习为相对 crt 的天数 */
+  due: number;
+  /** 间隔天数 */
+  ivl: number;
+  /** 难度系数 (千分比) */
+  factor: number;
+  reps: number;
+  lapses: number;
+  /** 剩余学习步数 */
+  left: number;
+  /** FSRS 记忆状态等附加数据 (JSON) */
+  data: string;
+}
+
+/**
+ * Anki 复习记录 (对应 revlog 表)
+ */
+export interface AnkiRevlogEntry {
+  /** 复习时间 (毫秒时间戳) */
+  id: number;
+  /** 评分 1-4 */
+  ease: number;
+  /** 新间隔 (正数为天，负数为秒) */
+  ivl: number;
+  /** 上次间隔 */
+  lastIvl: number;
+  factor: number;
+  /** 用时 (毫秒) */
+  time: number;
+  /** 0=学习, 1=复习, 2=重新学习 */
+  type: number;
+}
+
+/**
+ * 待写入的卡片
+ */
+export interface APKGWriteCard {
+  /** 模板序号 (挖空题为挖空编号-1) */
+  ord: number;
+  /** 调度状态，不提供时作为新卡片导出 */
+  scheduling?: AnkiCardScheduling;
+  /** 复习记录 */
+  revlog?: AnkiRevlogEntry[];
+}
+
+/**
+ * 待写入的笔记
+ */
+export interface APKGWriteNote {
+  guid: string;
+  /** 模型ID */
+  mid: number;
+  /** 牌组ID */
+  did: number;
+  /** 字段值 (按模型字段顺序) */
+  fields: string[];
+  tags: string[];
+  cards: APKGWriteCard[];
+  /** 修改时间 (毫秒) */
+  modified?: number;
+}
+
+/**
+ * 待写入 APKG 的完整数据
+ */
+export interface APKGWriteData {
+  models: AnkiModel[];
+  decks: AnkiDeck[];
+  notes: APKGWriteNote[];
+  /** 媒体文件 (文件名 → 二进制数据) */
+  media: Map<string, Uint8Array>;
+  /** 集合创建时间 (秒)，复习卡片的 due 以此为基准 */
+  crt: number;
+}
+
+/**
+ * 导出配置
+ */
+export interface APKGExportConfig {
+  /** 要导出的牌组ID */
+  deckId: string;
+  /** 是否导出调度状态和复习记录 */
+  includeScheduling: boolean;
+  /** 是否打包媒体文件 */
+  includeMedia: boolean;
+}
+
+/**
+ * 导出结果
+ */
+export interface APKGExportResult {
+  success: boolean;
+  /** 建议的文件名 */
+  fileName?: string;
+  /** APKG 文件内容 */
+  data?: Uint8Array;
+  stats: {
+    notes: number;
+    cards: number;
+    mediaFiles: number;
+  };
+  /** 跳过的卡片及原因 */
+  warnings: string[];
+  error?: string;
+}
+
 // ==================== 日志相关 ====================
 
 /**
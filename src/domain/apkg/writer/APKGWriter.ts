@@ -0,0 +1,56 @@
+/**
+ * APKG 文件写入器
+ *
+ * 负责将集合数据库和媒体文件打包为 .apkg (ZIP)
+ *
+ * @module domain/apkg/writer
+ */
+
+import JSZip from 'jszip';
+import type { APKGWriteData } from '../types';
+import { APKGLogger } from '../../../infrastructure/logger/APKGLogger';
+import { SQLiteWriter } from './SQLiteWriter';
+
+/**
+ * 数据库文件名：使用 anki21 以保留 v2 调度器的学习状态
+ */
+const DB_FILE_NAME = 'collection.anki21';
+
+/**
+ * APKG 写入器
+ */
+export class APKGWriter {
+  private logger: APKGLogger;
+  private sqlWriter: SQLiteWriter;
+
+  constructor(wasmUrl?: string) {
+    this.logger = new APKGLogger({ prefix: '[APKGWriter]' });
+    this.sqlWriter = new SQLiteWriter(wasmUrl);
+  }
+
+  /**
+   * 生成APKG文件
+   *
+   * @param data - 待写入的数据
+   * @returns APKG文件二进制数据
+   */
+  async write(data: APKGWriteData): Promise<Uint8Array> {
+    const zip = new JSZip();
+
+    zip.file(DB_FILE_NAME, await this.sqlWriter.write(data));
+
+    // 媒体文件在包内以序号命名，media 文件记录序号到文件名的映射
+    const mediaMapping: Record<string, string> = {};
+    let index = 0;
+    for (const [filename, bytes] of data.media) {
+      const key = String(index++);
+      mediaMapping[key] = filename;
+      zip.file(key, bytes);
+    }
+    zip.file('media', JSON.stringify(mediaMapping));
+
+    const output = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+    this.logger.info(`APKG生成完成: ${data.notes.length} 个笔记, ${index} 个媒体文件 (${output.length} bytes)`);
+    return output;
+  }
+}
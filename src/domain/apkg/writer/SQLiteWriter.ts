@@ -0,0 +1,295 @@
+/**
+ * SQLite 数据库写入器
+ *
+ * 负责使用 sql.js 生成 Anki 集合数据库 (schema 11, 与 Anki 2.1 旧版导出格式一致)
+ *
+ * @module domain/apkg/writer
+ */
+
+import { loadSqlJs } from '../../../utils/sql-loader';
+import type { SqlDatabase } from '../../../utils/sql-loader';
+import type { AnkiDeck, AnkiModel, APKGWriteData, APKGWriteNote } from '../types';
+import { newCardScheduling } from './SchedulingMapper';
+import { APKGLogger } from '../../../infrastructure/logger/APKGLogger';
+
+/** 字段分隔符 */
+const FIELD_SEPARATOR = '\x1f';
+
+/** 默认牌组ID (Anki 集合中必须存在) */
+const DEFAULT_DECK_ID = 1;
+
+const SCHEMA_SQL = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+  conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null,
+  csum integer not null, flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null,
+  due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+  type integer not null
+);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const DEFAULT_LATEX_PRE = '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n';
+const DEFAULT_LATEX_POST = '\\end{document}';
+
+/**
+ * SQLite 数据库写入器
+ */
+export class SQLiteWriter {
+  private logger: APKGLogger;
+
+  constructor(private wasmUrl?: string) {
+    this.logger = new APKGLogger({ prefix: '[SQLiteWriter]' });
+  }
+
+  /**
+   * 生成集合数据库
+   *
+   * @param data - 待写入的数据
+   * @returns 数据库二进制数据
+   */
+  async write(data: APKGWriteData): Promise<Uint8Array> {
+    this.logger.info(`开始生成SQLite数据库: ${data.models.length} 个模型, ${data.notes.length} 个笔记`);
+
+    const SQL = await loadSqlJs(this.wasmUrl);
+    const db = new SQL.Database();
+
+    try {
+      db.exec(SCHEMA_SQL);
+      const nowMs = Date.now();
+      const now = Math.floor(nowMs / 1000);
+
+      this.writeCollection(db, data, nowMs);
+
+      db.exec('BEGIN');
+      // ID 以当前毫秒时间戳为起点递增，保证唯一；卡片 ID 排在全部笔记 ID 之后，两者不重叠
+      let noteId = nowMs;
+      let cardId = nowMs + data.notes.length;
+      const revlogIds = new Set<number>();
+      const sortFields = new Map(data.models.map(model => [model.id, model.sortf ?? 0]));
+      let position = 0;
+
+      for (const note of data.notes) {
+        noteId++;
+        // 排序字段和校验和取自模型的 sortf 字段
+        const sortField = note.fields[sortFields.get(note.mid) ?? 0] ?? '';
+        const checksum = await fieldChecksum(sortField);
+        db.run(
+          'INSERT INTO notes VALUES (?,?,?,?,?,?,?,?,?,?,?)',
+          [noteId, note.guid, note.mid, noteModified(note, now), -1, formatTags(note.tags),
+            note.fields.join(FIELD_SEPARATOR), stripHtml(sortField), checksum, 0, '']
+        );
+
+        position++;
+        for (const card of note.cards) {
+          cardId++;
+          const s = card.scheduling ?? newCardScheduling(position);
+          db.run(
+            'INSERT INTO cards VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)',
+            [cardId, noteId, note.did, card.ord, now, -1, s.type, s.queue, s.due, s.ivl,
+              s.factor, s.reps, s.lapses, s.left, 0, 0, 0, s.data]
+          );
+
+          for (const entry of card.revlog ?? []) {
+            // 复习记录以毫秒时间戳为主键，冲突时顺延
+            let id = entry.id;
+            while (revlogIds.has(id)) id++;
+            revlogIds.add(id);
+            db.run(
+              'INSERT INTO revlog VALUES (?,?,?,?,?,?,?,?,?)',
+              [id, cardId, -1, entry.ease, entry.ivl, entry.lastIvl, entry.factor, entry.time, entry.type]
+            );
+          }
+        }
+      }
+      db.exec('COMMIT');
+
+      const bytes = db.export();
+      this.logger.info(`SQLite数据库生成完成 (${bytes.length} bytes)`);
+      return bytes;
+    } catch (error) {
+      this.logger.error('SQLite写入失败', error);
+      throw error;
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * 写入 col 表 (集合配置、模型、牌组、牌组配置)
+   */
+  private writeCollection(db: SqlDatabase, data: APKGWriteData, nowMs: number): void {
+    const now = Math.floor(nowMs / 1000);
+    const firstDeckId = data.decks[0]?.id ?? DEFAULT_DECK_ID;
+
+    const conf = {
+      nextPos: data.notes.length + 1,
+      estTimes: true,
+      activeDecks: [firstDeckId],
+      sortType: 'noteFld',
+      timeLim: 0,
+      sortBackwards: false,
+      addToCur: true,
+      curDeck: firstDeckId,
+      newBury: true,
+      newSpread: 0,
+      dueCounts: true,
+      curModel: data.models[0] ? String(data.models[0].id) : null,
+      collapseTime: 1200,
+      schedVer: 2
+    };
+
+    const models: Record<string, unknown> = {};
+    for (const model of data.models) {
+      models[String(model.id)] = buildModelJson(model, firstDeckId, now);
+    }
+
+    const decks: Record<string, unknown> = {
+      [String(DEFAULT_DECK_ID)]: buildDeckJson({ id: DEFAULT_DECK_ID, name: 'Default', desc: '' }, now)
+    };
+    for (const deck of data.decks) {
+      decks[String(deck.id)] = buildDeckJson(deck, now);
+    }
+
+    db.run(
+      'INSERT INTO col VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?)',
+      [1, data.crt, nowMs, nowMs, 11, 0, 0, 0, JSON.stringify(conf), JSON.stringify(models),
+        JSON.stringify(decks), JSON.stringify({ '1': buildDeckConfigJson() }), '{}']
+    );
+  }
+}
+
+function buildModelJson(model: AnkiModel, deckId: number, now: number): Record<string, unknown> {
+  const fieldOrds = model.flds.map((_, ord) => ord);
+  return {
+    id: model.id,
+    name: model.name,
+    type: model.type,
+    mod: now,
+    usn: -1,
+    sortf: model.sortf ?? 0,
+    did: deckId,
+    tmpls: model.tmpls.map((tmpl, ord) => ({
+      name: tmpl.name,
+      ord,
+      qfmt: tmpl.qfmt,
+      afmt: tmpl.afmt,
+      bqfmt: tmpl.bqfmt ?? '',
+      bafmt: tmpl.bafmt ?? '',
+      did: null,
+      bfont: '',
+      bsize: 0
+    })),
+    flds: model.flds.map((field, ord) => ({
+      name: field.name,
+      ord,
+      sticky: field.sticky ?? false,
+      rtl: field.rtl ?? false,
+      font: field.font || 'Arial',
+      size: field.size || 20,
+      media: []
+    })),
+    css: model.css,
+    latexPre: model.latexPre ?? DEFAULT_LATEX_PRE,
+    latexPost: model.latexPost ?? DEFAULT_LATEX_POST,
+    latexsvg: false,
+    req: model.type === 1 ? [[0, 'any', [0]]] : model.tmpls.map((_, ord) => [ord, 'any', fieldOrds]),
+    tags: [],
+    vers: []
+  };
+}
+
+function buildDeckJson(deck: AnkiDeck, now: number): Record<string, unknown> {
+  return {
+    id: deck.id,
+    name: deck.name,
+    desc: deck.desc || '',
+    mod: now,
+    usn: -1,
+    lrnToday: [0, 0],
+    revToday: [0, 0],
+    newToday: [0, 0],
+    timeToday: [0, 0],
+    collapsed: false,
+    browserCollapsed: false,
+    dyn: 0,
+    conf: deck.conf ?? 1,
+    extendNew: 0,
+    extendRev: 0
+  };
+}
+
+function buildDeckConfigJson(): Record<string, unknown> {
+  return {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { bury: false, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 0], order: 1, perDay: 20 },
+    rev: { bury: false, ease4: 1.3, ivlFct: 1, maxIvl: 36500, perDay: 200, hardFactor: 1.2 },
+    lapse: { delays: [10], leechAction: 1, leechFails: 8, minInt: 1, mult: 0 }
+  };
+}
+
+function noteModified(note: APKGWriteNote, fallback: number): number {
+  return note.modified ? Math.floor(note.modified / 1000) : fallback;
+}
+
+function formatTags(tags: string[]): string {
+  const cleaned = tags.map(tag => tag.trim().replace(/\s+/g, '_')).filter(Boolean);
+  return cleaned.length ? ` ${cleaned.join(' ')} ` : '';
+}
+
+/**
+ * 去除 HTML 标签和媒体引用 (与 Anki 计算排序字段和校验和的方式一致)
+ */
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<img[^>]*src=["']?([^"'>]+)["']?[^>]*>/gi, ' $1 ')
+    .replace(/\[sound:[^\]]+\]/g, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * 首字段校验和：去除 HTML 后 SHA1 的前 8 位十六进制
+ */
+export async function fieldChecksum(field: string): Promise<number> {
+  const bytes = new TextEncoder().encode(stripHtml(field));
+  const digest = await crypto.subtle.digest('SHA-1', bytes);
+  const hex = Array.from(new Uint8Array(digest).slice(0, 4))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+  return parseInt(hex, 16);
+}
@@ -0,0 +1,164 @@
+/**
+ * 调度状态映射器
+ *
+ * 负责将Tuanki的FSRS调度状态和复习历史转换为Anki cards/revlog表的格式
+ *
+ * @module domain/apkg/writer
+ */
+
+import type { FSRSCard, ReviewLog } from '../../../data/types';
+import { CardState } from '../../../data/types';
+import type { AnkiCardScheduling, AnkiRevlogEntry } from '../types';
+
+const SECONDS_PER_DAY = 86400;
+
+/** Anki 默认难度系数 (250%) */
+export const DEFAULT_ANKI_FACTOR = 2500;
+
+/**
+ * 新卡片的调度状态
+ *
+ * @param position - 新卡片的排序位置
+ */
+export function newCardScheduling(position: number, suspended = false): AnkiCardScheduling {
+  return {
+    type: 0,
+    queue: suspended ? -1 : 0,
+    due: position,
+    ivl: 0,
+    factor: 0,
+    reps: 0,
+    lapses: 0,
+    left: 0,
+    data: ''
+  };
+}
+
+/**
+ * 以 crt (秒) 为基准计算日期对应的天数
+ */
+export function dayNumber(date: Date, crt: number): number {
+  return Math.floor((date.getTime() / 1000 - crt) / SECONDS_PER_DAY);
+}
+
+/**
+ * 计算集合创建时间 (秒)：取给定日期中最早一天的零点，保证复习卡片的 due 不为负
+ */
+export function collectionCreationTime(dates: Date[], now: Date = new Date()): number {
+  let earliest = now.getTime();
+  for (const date of dates) {
+    const time = date.getTime();
+    if (Number.isFinite(time) && time < earliest) earliest = time;
+  }
+  const day = new Date(earliest);
+  return Math.floor(new Date(day.getFullYear(), day.getMonth(), day.getDate()).getTime() / 1000);
+}
+
+/**
+ * 将FSRS调度状态转换为Anki调度状态
+ *
+ * @param fsrs - FSRS卡片状态
+ * @param crt - 集合创建时间 (秒)
+ * @param position - 作为新卡片时的排序位置
+ * @param suspended - 是否已暂停
+ * @param now - 当前时间 (用于区分当天学习队列和跨天学习队列)
+ */
+export function toAnkiScheduling(
+  fsrs: FSRSCard | undefined,
+  crt: number,
+  position: number,
+  suspended = false,
+  now: Date = new Date()
+): AnkiCardScheduling {
+  if (!fsrs || fsrs.state === CardState.New || !fsrs.due) {
+    return newCardScheduling(position, suspended);
+  }
+
+  const due = new Date(fsrs.due);
+  const common = {
+    factor: DEFAULT_ANKI_FACTOR,
+    reps: fsrs.reps || 0,
+    lapses: fsrs.lapses || 0,
+    data: memoryStateData(fsrs)
+  };
+
+  if (fsrs.state === CardState.Review) {
+    return {
+      ...common,
+      type: 2,
+      queue: suspended ? -1 : 2,
+      due: dayNumber(due, crt),
+      ivl: Math.max(1, Math.round(fsrs.scheduledDays || 0)),
+      left: 0
+    };
+  }
+
+  // 学习中/重新学习：当天到期放入学习队列(秒级时间戳)，跨天放入日学习队列(天数)
+  const isRelearning = fsrs.state === CardState.Relearning;
+  const crossDay = dayNumber(due, crt) > dayNumber(now, crt);
+  return {
+    ...common,
+    type: isRelearning ? 3 : 1,
+    queue: suspended ? -1 : (crossDay ? 3 : 1),
+    due: crossDay ? dayNumber(due, crt) : Math.floor(due.getTime() / 1000),
+    ivl: isRelearning ? Math.max(1, Math.round(fsrs.stability || 0)) : 0,
+    left: 1001
+  };
+}
+
+/**
+ * 将复习历史转换为Anki复习记录 (按时间升序)
+ */
+export function toAnkiRevlog(history: ReviewLog[] | undefined): AnkiRevlogEntry[] {
+  if (!history?.length) return [];
+
+  const sorted = history
+    .filter(log => log.review && Number.isFinite(Date.parse(log.review)))
+    .sort((a, b) => Date.parse(a.review) - Date.parse(b.review));
+
+  const entries: AnkiRevlogEntry[] = [];
+  let lastIvl = 0;
+  for (const log of sorted) {
+    const reviewedAt = Date.parse(log.review);
+    const ivl = log.scheduledDays >= 1
+      ? Math.round(log.scheduledDays)
+      : -Math.max(0, Math.round((Date.parse(log.due) - reviewedAt) / 1000) || 0);
+
+    entries.push({
+      id: reviewedAt,
+      ease: log.rating,
+      ivl,
+      lastIvl,
+      factor: log.state === CardState.New ? 0 : DEFAULT_ANKI_FACTOR,
+      time: Math.min(Math.max(0, Math.round(log.duration ?? 0)), 60000),
+      type: revlogType(log.state)
+    });
+    lastIvl = ivl;
+  }
+  return entries;
+}
+
+/**
+ * 复习记录类型：按评分前的状态区分学习/复习/重新学习
+ */
+function revlogType(state: CardState): number {
+  switch (state) {
+    case CardState.Review:
+      return 1;
+    case CardState.Relearning:
+      return 2;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * FSRS记忆状态 (Anki 23.10+ 在 cards.data 中读取 s/d)
+ */
+function memoryStateData(fsrs: FSRSCard): string {
+  if (!(fsrs.stability > 0) || !(fsrs.difficulty > 0)) return '';
+  return JSON.stringify({
+    s: Math.round(fsrs.stability * 10000) / 10000,
+    d: Math.round(fsrs.difficulty * 1000) / 1000
+  });
+}
@@ -11,6 +11,9 @@ import { createSafeNotice, safeOpenSettings } from "./utils/obsidian-api-safe";
 import { TempFileManager } from "./services/temp-file-manager";
 // import { DragDropCardCreator } from "./services/DragDropCardCreator"; // 已移除拖拽创建卡片功能
 import { CardEditorModal } from "./modals/CardEditorModal";
+import { CustomStudyModal, SavedFilterSuggestModal } from "./modals/CustomStudyModal";
+import { CsvImportModal } from "./modals/CsvImportModal";
+import { DuplicateMergeModal } from "./modals/DuplicateMergeModal";
 import type { CreateCardOptions } from "./types/modal-types";
 import { openCreateCardModal as openCreateCardModalStore } from "./stores/card-modal-store";
 
@@ -63,6 +66,17 @@ import type { SupportedLanguage } from './utils/i18n';
 
 // 🆕 学习模式类型
 import type { StudyMode } from './types/study-types';
+import type { SavedFilter } from './types/filter-types';
+import { FilterManager } from './services/filter-manager';
+import { startCustomStudyFromFilter } from './services/custom-study-service';
+import { importCsv } from './services/csv/CsvService';
+import { DEFAULT_LOAD_BALANCE_SETTINGS } from './algorithms/load-balancer';
+import type { LoadBalanceSettings } from './algorithms/load-balancer';
+import { RescheduleService } from './services/scheduling/RescheduleService';
+import { DuplicateMergeService } from './services/duplicate/DuplicateMergeService';
+import type { DuplicateCardGroup } from './services/duplicate/DuplicateMergeService';
+import { groupNoteSiblings, isClozeCard, needsNoteSiblingSync } from './data/note-siblings';
+import { getCardDeckIds } from './data/card-query-index';
 
 
 import "virtual:uno.css";
@@ -192,6 +206,9 @@ interface AnkiPluginSettings {
         enableFuzz: boolean;
     };
 
+    // 复习负载均衡与轻松日
+    loadBalancing?: LoadBalanceSettings;
+
     // 🎯 FSRS6个性化优化设置
     enablePersonalization?: boolean; // 启用个性化算法优化
     personalizationSettings?: {
@@ -319,16 +336,26 @@ interface AnkiPluginSettings {
                 verified: boolean;
                 lastVerified?: string;
             };
+            // 本地模型（OpenAI 兼容服务或 Ollama），apiKey 可留空
+            local?: {
+                apiKey: string;
+                model: string;
+                verified: boolean;
+                lastVerified?: string;
+                baseUrl: string;
+                apiFormat: import('./types/ai-types').LocalLLMApiFormat;
+                models?: string[];
+            };
         };
         
         // 默认AI服务
-        defaultProvider: 'openai' | 'gemini' | 'anthropic' | 'deepseek' | 'zhipu' | 'siliconflow';
+        defaultProvider: 'openai' | 'gemini' | 'anthropic' | 'deepseek' | 'zhipu' | 'siliconflow' | 'local';
         
         // AI格式化默认提供商（独立设置，允许与defaultProvider不同）
-        formattingProvider?: 'openai' | 'gemini' | 'anthropic' | 'deepseek' | 'zhipu' | 'siliconflow';
+        formattingProvider?: 'openai' | 'gemini' | 'anthropic' | 'deepseek' | 'zhipu' | 'siliconflow' | 'local';
         
         // AI拆分默认提供商（独立设置，允许与defaultProvider不同）
-        splittingProvider?: 'openai' | 'gemini' | 'anthropic' | 'deepseek' | 'zhipu' | 'siliconflow';
+        splittingProvider?: 'openai' | 'gemini' | 'anthropic' | 'deepseek' | 'zhipu' | 'siliconflow' | 'local';
         
         // AI格式化开关
         formatting: {
@@ -547,6 +574,8 @@ const DEFAULT_SETTINGS: AnkiPluginSettings = {
         enableFuzz: true
     },
 
+    loadBalancing: { ...DEFAULT_LOAD_BALANCE_SETTINGS, easyDays: [...DEFAULT_LOAD_BALANCE_SETTINGS.easyDays] },
+
 
     // 新版简化解析设置
     simplifiedParsing: DEFAULT_SIMPLIFIED_PARSING_SETTINGS,
@@ -662,6 +691,7 @@ export class TuankiPlugin extends Plugin {
   shortcutService!: ShortcutService;
   filterStateService!: FilterStateService; // 🆕 全局筛选状态服务
   dataSyncService!: DataSyncService; // 🆕 全局数据同步服务
+  duplicateMergeService!: DuplicateMergeService; // 近似重复查找（缓存索引）
   
   // 🆕 批量解析文件监听器（旧系统，将被替换）
   private batchParsingWatcher?: BatchParsingFileWatcher;
@@ -1392,6 +1422,12 @@ export class TuankiPlugin extends Plugin {
 			if (saveResult.failureCount > 0) {
 				console.error('[Plugin] 保存失败的卡片:', saveResult.errors);
 			}
+
+			// 5. 检查新卡片与已有卡片是否近似重复（按ID读回存储中的卡片）
+			if (saveResult.savedCards.length > 0) {
+				const savedCards = await this.dataStorage.getCards({ cardIds: saveResult.savedCards.map(card => card.id) });
+				await this.reviewNearDuplicates(savedCards);
+			}
 			
 		} catch (error) {
 			console.error('[Plugin] 添加卡片到数据库失败:', error);
@@ -1669,6 +1705,18 @@ export class TuankiPlugin extends Plugin {
 		// 🆕 6. 全局数据同步服务
 		this.dataSyncService = new DataSyncService();
 		console.log('[Tuanki] DataSyncService initialized');
+
+		// 近似重复索引随卡片变更增量更新
+		this.duplicateMergeService = new DuplicateMergeService(this.dataStorage, this.app.vault);
+		this.register(this.dataSyncService.subscribe('cards', async (event) => {
+			if (event.action === 'delete' && event.ids) {
+				this.duplicateMergeService.removeCards(event.ids);
+			} else if (event.ids) {
+				await this.duplicateMergeService.refreshCards(event.ids);
+			} else {
+				this.duplicateMergeService.invalidate();
+			}
+		}));
 		
 		// 7. 执行数据迁移
 		const migrationService = new DataMigrationService(this, this.dataStorage, this.contentParser);
@@ -1874,6 +1922,51 @@ export class TuankiPlugin extends Plugin {
 		}
 	});
 
+	// 按当前参数与负载均衡设置重新调度所有复习卡片
+	this.addCommand({
+		id: "reschedule-all-cards",
+		name: "Reschedule All Review Cards",
+		callback: async () => {
+			await this.rescheduleAllCards();
+		}
+	});
+
+	// 扫描整个卡片库中的近似重复卡片
+	this.addCommand({
+		id: "find-near-duplicate-cards",
+		name: "Find Near-Duplicate Cards",
+		callback: async () => {
+			await this.findNearDuplicateCards();
+		}
+	});
+
+	// 把含多个挖空、或所用模板定义了多个卡片类型的卡片拆分为独立调度的兄弟卡片
+	this.addCommand({
+		id: "split-note-siblings",
+		name: "Split Multi-Cloze and Multi-Card-Type Notes into Sibling Cards",
+		callback: async () => {
+			await this.splitNoteSiblings();
+		}
+	});
+
+	// 从保存的筛选器启动自定义学习
+	this.addCommand({
+		id: "start-custom-study",
+		name: "Start Custom Study from Saved Filter",
+		callback: () => {
+			this.openCustomStudy();
+		}
+	});
+
+	// 从 CSV / TSV 文件导入卡片
+	this.addCommand({
+		id: "import-csv",
+		name: "Import Cards from CSV/TSV",
+		callback: () => {
+			this.openCsvImport();
+		}
+	});
+
 		// ❌ 已移除：Open Analytics Dashboard 命令（遵守Obsidian规范，减少不必要的命令）
 		// this.addCommand({
 		// 	id: "open-analytics-dashboard",
@@ -2108,6 +2201,11 @@ export class TuankiPlugin extends Plugin {
 		
 		// 🆕 清理 AnkiConnect 服务
 		this.cleanupAnkiConnect();
+
+		// 写出尚未保存的卡片索引
+		if (this.dataStorage) {
+			void this.dataStorage.flushCardIndex();
+		}
 		
 		// 🆕 清理自动备份调度器
 		this.cleanupAutoBackup();
@@ -2464,6 +2562,156 @@ export class TuankiPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * 重新调度所有复习卡片，使参数和轻松日设置对已有卡片生效
+	 */
+	async rescheduleAllCards(): Promise<void> {
+		const notice = new Notice('正在重新调度复习卡片...', 0);
+		try {
+			const result = await new RescheduleService(this.dataStorage).rescheduleAll(
+				this.settings.fsrsParams,
+				this.settings.loadBalancing,
+				(done, total) => notice.setMessage(`正在重新调度复习卡片... ${done}/${total}`)
+			);
+			notice.hide();
+			new Notice(result.failed > 0
+				? `已重新调度 ${result.changed}/${result.total} 张卡片，${result.failed} 张保存失败`
+				: `已重新调度 ${result.changed}/${result.total} 张卡片`);
+		} catch (error) {
+			notice.hide();
+			console.error('[Plugin] 重新调度失败:', error);
+			new Notice('重新调度失败');
+		}
+	}
+
+	/**
+	 * 拆分尚未拆分的笔记：原卡片保留学习进度并占用第一个挖空/卡片类型，其余新建兄弟卡片；
+	 * 模板的卡片类型有增删时，同时补齐或移除已拆分笔记的兄弟卡片
+	 */
+	async splitNoteSiblings(): Promise<void> {
+		const notice = new Notice('正在拆分笔记...', 0);
+		try {
+			const targets = groupNoteSiblings(await this.dataStorage.getAllCards())
+				.filter(([card, ...siblings]) => {
+					const cardTypes = this.dataStorage.getTemplateCardTypes(card.templateId);
+					if (!card.noteId) return needsNoteSiblingSync(card, card, cardTypes);
+					if (isClozeCard(card)) return false;
+					const current = new Set([card, ...siblings].map(sibling => sibling.cardTypeId));
+					return current.size !== siblings.length + 1
+						|| cardTypes.length !== current.size
+						|| cardTypes.some(cardType => !current.has(cardType.id));
+				})
+				.map(([card]) => card);
+			let done = 0;
+			for (const card of targets) {
+				await this.dataStorage.syncNoteSiblings(card);
+				notice.setMessage(`正在拆分笔记... ${++done}/${targets.length}`);
+			}
+			notice.hide();
+			new Notice(targets.length > 0 ? `已拆分 ${targets.length} 条笔记` : '没有需要拆分的笔记');
+		} catch (error) {
+			notice.hide();
+			console.error('[Plugin] 拆分笔记失败:', error);
+			new Notice('拆分笔记失败');
+		}
+	}
+
+	/**
+	 * 扫描整个卡片库，打开近似重复合并界面
+	 */
+	async findNearDuplicateCards(): Promise<void> {
+		const notice = new Notice('正在查找近似重复卡片...', 0);
+		try {
+			const service = this.duplicateMergeService;
+			const groups = await service.findDuplicateGroups();
+			notice.hide();
+			if (groups.length === 0) {
+				new Notice('没有发现近似重复的卡片');
+				return;
+			}
+			this.openDuplicateMergeModal(service, groups);
+		} catch (error) {
+			notice.hide();
+			console.error('[Plugin] 查找近似重复卡片失败:', error);
+			new Notice('查找近似重复卡片失败');
+		}
+	}
+
+	/**
+	 * 新建或导入卡片后检查是否与已有卡片近似重复，有则打开合并界面
+	 */
+	async reviewNearDuplicates(cards: import("./data/types").Card[]): Promise<void> {
+		if (cards.length === 0) return;
+		try {
+			const service = this.duplicateMergeService;
+			const groups = await service.findDuplicatesOf(cards);
+			if (groups.length > 0) {
+				new Notice(`发现 ${groups.length} 组近似重复卡片`);
+				this.openDuplicateMergeModal(service, groups);
+			}
+		} catch (error) {
+			console.error('[Plugin] 近似重复检查失败:', error);
+		}
+	}
+
+	private openDuplicateMergeModal(service: DuplicateMergeService, groups: DuplicateCardGroup[]): void {
+		new DuplicateMergeModal(this.app, groups, async (cards, keeperId) => {
+			await service.mergeGroup(cards, keeperId);
+		}).open();
+	}
+
+	/**
+	 * 从保存的筛选器启动自定义学习（未指定筛选器时先弹出选择框）
+	 */
+	openCustomStudy(filter?: SavedFilter): void {
+		const openOptions = (selected: SavedFilter) => {
+			new CustomStudyModal(this.app, selected, async (options) => {
+				await startCustomStudyFromFilter(this, selected, options);
+			}).open();
+		};
+
+		if (filter) {
+			openOptions(filter);
+			return;
+		}
+
+		const filters = new FilterManager().getAllFilters();
+		if (filters.length === 0) {
+			new Notice('还没有保存的筛选器');
+			return;
+		}
+		new SavedFilterSuggestModal(this.app, filters, openOptions).open();
+	}
+
+	/**
+	 * 打开 CSV / TSV 导入窗口
+	 * @param onImported 导入完成后的回调（用于刷新卡片列表）
+	 */
+	async openCsvImport(onImported?: () => void | Promise<void>): Promise<void> {
+		const decks = await this.dataStorage.getDecks();
+		if (decks.length === 0) {
+			new Notice('请先创建牌组');
+			return;
+		}
+
+		new CsvImportModal(this.app, decks, async (text, options) => {
+			const result = await importCsv(this.dataStorage, text, options);
+			const summary = `已导入 ${result.cards.length} 张卡片` +
+				(result.skipped > 0 ? `，跳过 ${result.skipped} 行` : '') +
+				(result.failed > 0 ? `，${result.failed} 张保存失败` : '');
+			if (result.warnings.length > 0) {
+				// 警告可能逐行产生，提示中只列出前几条，完整列表见控制台
+				console.warn('[CSV导入] 警告:', result.warnings);
+				const shown = result.warnings.slice(0, 5).map(warning => `• ${warning}`).join('\n');
+				const more = result.warnings.length > 5 ? `\n…共 ${result.warnings.length} 条警告` : '';
+				new Notice(`${summary}\n${shown}${more}`, 10000);
+			} else {
+				new Notice(summary);
+			}
+			await onImported?.();
+		}).open();
+	}
+
 	/**
 	 * 打开学习会话（标签页模式，支持多种学习模式）
 	 * @param options 学习会话选项（支持旧的 deckId 字符串形式）
@@ -2534,7 +2782,7 @@ export class TuankiPlugin extends Plugin {
 			
 			// 如果指定了牌组，只加载该牌组的卡片
 			if (deckId) {
-				dueCards = dueCards.filter(card => card.deckId === deckId);
+				dueCards = dueCards.filter(card => getCardDeckIds(card).includes(deckId));
 			}
 			
 			// 限制数量
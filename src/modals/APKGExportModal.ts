@@ -0,0 +1,71 @@
+/**
+ * APKG 导出 Modal
+ *
+ * 功能：
+ * - 选择是否导出调度状态和复习记录、是否打包媒体文件
+ * - 离线生成 .apkg 并下载，无需运行 Anki 和 AnkiConnect
+ */
+
+import { Modal, Notice, Setting } from 'obsidian';
+import type { App } from 'obsidian';
+import type { APKGExportConfig } from '../domain/apkg/types';
+
+export class APKGExportModal extends Modal {
+  private config: APKGExportConfig;
+
+  constructor(
+    app: App,
+    private deckName: string,
+    deckId: string,
+    private onExport: (config: APKGExportConfig) => Promise<void>
+  ) {
+    super(app);
+    this.config = { deckId, includeScheduling: true, includeMedia: true };
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText(`导出为 APKG：${this.deckName}`);
+    contentEl.createEl('p', {
+      text: '生成可直接导入 Anki 桌面版的 .apkg 文件',
+      cls: 'setting-item-description'
+    });
+
+    new Setting(contentEl)
+      .setName('包含学习进度')
+      .setDesc('导出卡片的调度状态、FSRS 记忆状态和复习记录；关闭时所有卡片作为新卡片导出')
+      .addToggle(toggle => toggle
+        .setValue(this.config.includeScheduling)
+        .onChange(value => { this.config.includeScheduling = value; }));
+
+    new Setting(contentEl)
+      .setName('包含媒体文件')
+      .setDesc('打包卡片引用的图片和音频')
+      .addToggle(toggle => toggle
+        .setValue(this.config.includeMedia)
+        .onChange(value => { this.config.includeMedia = value; }));
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('取消')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText('导出')
+        .setCta()
+        .onClick(async () => {
+          button.setDisabled(true).setButtonText('正在导出...');
+          try {
+            await this.onExport({ ...this.config });
+            this.close();
+          } catch (error) {
+            new Notice(`导出失败: ${error instanceof Error ? error.message : '未知错误'}`);
+            button.setDisabled(false).setButtonText('导出');
+          }
+        }));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * 积压追赶 Modal
+ *
+ * 功能：
+ * - 显示牌组的逾期卡片数量
+ * - 设置排序方式、每日上限和分摊天数
+ * - 可选地把积压重新分摊到未来几天，然后开始今天的积压学习
+ */
+
+import { Modal, Setting } from 'obsidian';
+import type { App } from 'obsidian';
+import type { BacklogOptions, BacklogOrder } from '../services/backlog/BacklogService';
+import { DEFAULT_BACKLOG_OPTIONS } from '../services/backlog/BacklogService';
+
+const ORDER_OPTIONS: Array<{ value: BacklogOrder; label: string }> = [
+  { value: 'lowest-r', label: '最容易遗忘优先（挽救记忆）' },
+  { value: 'highest-r', label: '最容易答对优先（快速清理）' }
+];
+
+export class BacklogCatchUpModal extends Modal {
+  private options: BacklogOptions = { ...DEFAULT_BACKLOG_OPTIONS };
+
+  constructor(
+    app: App,
+    private deckName: string,
+    private overdueCount: number,
+    private onStart: (options: BacklogOptions) => void | Promise<void>
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText(`积压追赶：${this.deckName}`);
+    contentEl.createEl('p', {
+      text: `当前共有 ${this.overdueCount} 张逾期卡片`,
+      cls: 'setting-item-description'
+    });
+
+    new Setting(contentEl)
+      .setName('复习顺序')
+      .addDropdown(dropdown => {
+        for (const option of ORDER_OPTIONS) {
+          dropdown.addOption(option.value, option.label);
+        }
+        dropdown
+          .setValue(this.options.order)
+          .onChange(value => { this.options.order = value as BacklogOrder; });
+      });
+
+    new Setting(contentEl)
+      .setName('每日上限')
+      .setDesc('每天最多复习的积压卡片数')
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text.inputEl.min = '1';
+        text
+          .setValue(String(this.options.dailyLimit))
+          .onChange(value => {
+            const limit = parseInt(value, 10);
+            if (Number.isFinite(limit) && limit > 0) this.options.dailyLimit = limit;
+          });
+      });
+
+    new Setting(contentEl)
+      .setName('分摊天数')
+      .setDesc('大于 1 时，把积压按顺序重新安排到未来几天到期；1 表示不改动到期时间')
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text.inputEl.min = '1';
+        text
+          .setValue(String(this.options.spreadDays))
+          .onChange(value => {
+            const days = parseInt(value, 10);
+            if (Number.isFinite(days) && days > 0) this.options.spreadDays = days;
+          });
+      });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('取消')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText('开始追赶')
+        .setCta()
+        .onClick(async () => {
+          this.close();
+          await this.onStart({ ...this.options });
+        }));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
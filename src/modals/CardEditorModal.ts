@@ -189,6 +189,11 @@ export class CardEditorModal extends Modal {
       
       // 关闭模态窗
       this.close();
+
+      // 新卡片与已有卡片近似重复时打开合并界面
+      if (this.options.mode === 'create') {
+        void this.plugin.reviewNearDuplicates([updatedCard]);
+      }
       
     } catch (error) {
       console.error('[CardEditorModal] 保存失败:', error);
@@ -0,0 +1,64 @@
+/**
+ * CSV / TSV 导出 Modal
+ *
+ * 功能：
+ * - 选择分隔符，以及是否附带 FSRS 调度状态列
+ */
+
+import { Modal, Notice, Setting } from 'obsidian';
+import type { App } from 'obsidian';
+import type { CsvDelimiter, CsvExportOptions } from '../services/csv/CsvService';
+
+export class CsvExportModal extends Modal {
+  private options: CsvExportOptions = { delimiter: ',', includeFsrs: true };
+
+  constructor(
+    app: App,
+    private cardCount: number,
+    private onExport: (options: CsvExportOptions) => Promise<void>
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText(`导出 ${this.cardCount} 张卡片`);
+
+    new Setting(contentEl)
+      .setName('格式')
+      .addDropdown(dropdown => dropdown
+        .addOptions({ ',': 'CSV（逗号分隔）', '\t': 'TSV（制表符分隔）' })
+        .setValue(this.options.delimiter)
+        .onChange(value => { this.options.delimiter = value as CsvDelimiter; }));
+
+    new Setting(contentEl)
+      .setName('包含 FSRS 数据')
+      .setDesc('附带状态、到期时间、稳定性、难度、可提取性、复习和遗忘次数等列')
+      .addToggle(toggle => toggle
+        .setValue(this.options.includeFsrs)
+        .onChange(value => { this.options.includeFsrs = value; }));
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('取消')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText('导出')
+        .setCta()
+        .onClick(async () => {
+          button.setDisabled(true);
+          try {
+            await this.onExport({ ...this.options });
+            this.close();
+          } catch (error) {
+            new Notice(`导出失败: ${error instanceof Error ? error.message : '未知错误'}`);
+            button.setDisabled(false);
+          }
+        }));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
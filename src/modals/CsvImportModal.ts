@@ -0,0 +1,214 @@
+/**
+ * CSV / TSV 导入 Modal
+ *
+ * 功能：
+ * - 选择文件后自动识别分隔符，并根据表头建议列映射
+ * - 逐列调整映射目标，指定目标牌组、附加标签和去重字段
+ */
+
+import { Modal, Notice, Setting } from 'obsidian';
+import type { App } from 'obsidian';
+import type { Deck } from '../data/types';
+import {
+  CSV_TARGET_FIELDS,
+  detectDelimiter,
+  parseDelimited,
+  suggestCsvMapping
+} from '../services/csv/CsvService';
+import type { CsvDelimiter, CsvImportOptions, CsvTargetField } from '../services/csv/CsvService';
+
+const DELIMITER_OPTIONS: Record<string, string> = {
+  ',': '逗号 (CSV)',
+  '\t': '制表符 (TSV)',
+  ';': '分号'
+};
+
+/** 映射步骤中展示的预览行数 */
+const PREVIEW_ROWS = 3;
+
+export class CsvImportModal extends Modal {
+  private text = '';
+  private fileName = '';
+  private rows: string[][] = [];
+  private options: CsvImportOptions;
+
+  constructor(
+    app: App,
+    private decks: Deck[],
+    private onImport: (text: string, options: CsvImportOptions) => Promise<void>
+  ) {
+    super(app);
+    this.options = {
+      delimiter: ',',
+      hasHeader: true,
+      mapping: [],
+      deckId: decks[0]?.id || '',
+      tags: [],
+      dedupeField: 'front'
+    };
+  }
+
+  onOpen(): void {
+    this.titleEl.setText('导入 CSV / TSV');
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    new Setting(contentEl)
+      .setName('文件')
+      .setDesc(this.fileName || '支持 .csv、.tsv 和 .txt 文件，编码为 UTF-8')
+      .addButton(button => button
+        .setButtonText(this.fileName ? '重新选择' : '选择文件')
+        .onClick(() => this.pickFile()));
+
+    if (!this.text) return;
+
+    new Setting(contentEl)
+      .setName('分隔符')
+      .addDropdown(dropdown => dropdown
+        .addOptions(DELIMITER_OPTIONS)
+        .setValue(this.options.delimiter)
+        .onChange(value => {
+          this.options.delimiter = value as CsvDelimiter;
+          this.parse(true);
+          this.render();
+        }));
+
+    new Setting(contentEl)
+      .setName('首行为表头')
+      .addToggle(toggle => toggle
+        .setValue(this.options.hasHeader)
+        .onChange(value => {
+          this.options.hasHeader = value;
+          this.options.mapping = this.suggestMapping();
+          this.render();
+        }));
+
+    this.renderMapping(contentEl);
+
+    new Setting(contentEl)
+      .setName('目标牌组')
+      .setDesc('映射了牌组名列时，按名称匹配已有牌组，匹配不到的放入该牌组')
+      .addDropdown(dropdown => {
+        for (const deck of this.decks) {
+          dropdown.addOption(deck.id, deck.name);
+        }
+        dropdown
+          .setValue(this.options.deckId)
+          .onChange(value => { this.options.deckId = value; });
+      });
+
+    new Setting(contentEl)
+      .setName('附加标签')
+      .setDesc('用空格或逗号分隔，添加到每张导入的卡片')
+      .addText(text => text
+        .setPlaceholder('例如：csv 词汇')
+        .setValue(this.options.tags.join(' '))
+        .onChange(value => {
+          this.options.tags = value.split(/[\s,，]+/).map(tag => tag.replace(/^#/, '')).filter(Boolean);
+        }));
+
+    new Setting(contentEl)
+      .setName('去重字段')
+      .setDesc('该字段与已有卡片或前面的行相同时跳过')
+      .addDropdown(dropdown => dropdown
+        .addOptions({ front: '正面', back: '背面', none: '不去重' })
+        .setValue(this.options.dedupeField ?? 'none')
+        .onChange(value => {
+          this.options.dedupeField = value === 'none' ? null : value as 'front' | 'back';
+        }));
+
+    const dataRows = this.options.hasHeader ? this.rows.length - 1 : this.rows.length;
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('取消')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText(`导入 ${Math.max(0, dataRows)} 行`)
+        .setCta()
+        .onClick(async () => {
+          if (!this.options.mapping.includes('front')) {
+            new Notice('请至少将一列映射为正面');
+            return;
+          }
+          if (!this.options.deckId) {
+            new Notice('请选择目标牌组');
+            return;
+          }
+          button.setDisabled(true).setButtonText('正在导入...');
+          try {
+            await this.onImport(this.text, { ...this.options, mapping: [...this.options.mapping] });
+            this.close();
+          } catch (error) {
+            new Notice(`导入失败: ${error instanceof Error ? error.message : '未知错误'}`);
+            button.setDisabled(false).setButtonText(`导入 ${Math.max(0, dataRows)} 行`);
+          }
+        }));
+  }
+
+  /**
+   * 列映射：每列一行，描述中展示前几行的示例值
+   */
+  private renderMapping(containerEl: HTMLElement): void {
+    containerEl.createEl('h4', { text: '字段映射' });
+
+    const headers = this.options.hasHeader ? this.rows[0] || [] : null;
+    const samples = this.rows.slice(this.options.hasHeader ? 1 : 0, (this.options.hasHeader ? 1 : 0) + PREVIEW_ROWS);
+    const targets = Object.fromEntries(CSV_TARGET_FIELDS.map(field => [field.value, field.label]));
+
+    for (let column = 0; column < this.columnCount(); column++) {
+      const sample = samples
+        .map(row => (row[column] || '').replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .map(value => value.length > 40 ? `${value.slice(0, 40)}…` : value)
+        .join(' | ');
+
+      new Setting(containerEl)
+        .setName(headers?.[column]?.trim() || `第 ${column + 1} 列`)
+        .setDesc(sample || '（空）')
+        .addDropdown(dropdown => dropdown
+          .addOptions(targets)
+          .setValue(this.options.mapping[column] ?? '')
+          .onChange(value => { this.options.mapping[column] = value as CsvTargetField; }));
+    }
+  }
+
+  private pickFile(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.csv,.tsv,.txt';
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      this.fileName = file.name;
+      this.text = await file.text();
+      this.options.delimiter = file.name.toLowerCase().endsWith('.tsv') ? '\t' : detectDelimiter(this.text);
+      this.parse(true);
+      this.render();
+    };
+    input.click();
+  }
+
+  private parse(resetMapping: boolean): void {
+    this.rows = parseDelimited(this.text, this.options.delimiter);
+    if (resetMapping) {
+      this.options.mapping = this.suggestMapping();
+    }
+  }
+
+  private suggestMapping(): CsvTargetField[] {
+    const headers = this.options.hasHeader ? this.rows[0] || [] : null;
+    return suggestCsvMapping(headers, this.columnCount());
+  }
+
+  private columnCount(): number {
+    return this.rows.reduce((max, row) => Math.max(max, row.length), 0);
+  }
+}
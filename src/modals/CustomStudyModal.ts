@@ -0,0 +1,123 @@
+/**
+ * 自定义学习 Modal
+ *
+ * 功能：
+ * - SavedFilterSuggestModal：搜索并选择保存的筛选器
+ * - CustomStudyModal：设置数量上限、排序和突击模式后启动学习
+ */
+
+import { Modal, Setting, SuggestModal } from 'obsidian';
+import type { App } from 'obsidian';
+import type { SavedFilter } from '../types/filter-types';
+import type { CustomStudyOptions, CustomStudyOrder } from '../types/study-types';
+import {
+  CUSTOM_STUDY_ORDER_OPTIONS,
+  DEFAULT_CUSTOM_STUDY_OPTIONS
+} from '../services/custom-study-service';
+
+/**
+ * 保存的筛选器选择模态框
+ */
+export class SavedFilterSuggestModal extends SuggestModal<SavedFilter> {
+  constructor(
+    app: App,
+    private filters: SavedFilter[],
+    private onSelect: (filter: SavedFilter) => void
+  ) {
+    super(app);
+    this.setPlaceholder('搜索保存的筛选器...');
+    this.setInstructions([
+      { command: '↑↓', purpose: '导航' },
+      { command: '↵', purpose: '选择' },
+      { command: 'esc', purpose: '关闭' }
+    ]);
+  }
+
+  getSuggestions(query: string): SavedFilter[] {
+    const lowerQuery = query.trim().toLowerCase();
+    if (!lowerQuery) return this.filters;
+    return this.filters.filter(filter =>
+      filter.name.toLowerCase().includes(lowerQuery) ||
+      filter.description?.toLowerCase().includes(lowerQuery)
+    );
+  }
+
+  renderSuggestion(filter: SavedFilter, el: HTMLElement) {
+    el.createDiv({ text: filter.name, cls: 'saved-filter-suggestion-name' });
+    if (filter.description) {
+      el.createEl('small', { text: filter.description, cls: 'saved-filter-suggestion-desc' });
+    }
+  }
+
+  onChooseSuggestion(filter: SavedFilter) {
+    this.onSelect(filter);
+  }
+}
+
+/**
+ * 自定义学习选项模态框
+ */
+export class CustomStudyModal extends Modal {
+  private options: CustomStudyOptions = { ...DEFAULT_CUSTOM_STUDY_OPTIONS };
+
+  constructor(
+    app: App,
+    private filter: SavedFilter,
+    private onStart: (options: CustomStudyOptions) => void | Promise<void>
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText(`自定义学习：${this.filter.name}`);
+
+    new Setting(contentEl)
+      .setName('卡片数量上限')
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text.inputEl.min = '1';
+        text
+          .setValue(String(this.options.limit))
+          .onChange(value => {
+            const limit = parseInt(value, 10);
+            if (Number.isFinite(limit) && limit > 0) this.options.limit = limit;
+          });
+      });
+
+    new Setting(contentEl)
+      .setName('排序方式')
+      .addDropdown(dropdown => {
+        for (const option of CUSTOM_STUDY_ORDER_OPTIONS) {
+          dropdown.addOption(option.value, option.label);
+        }
+        dropdown
+          .setValue(this.options.order)
+          .onChange(value => { this.options.order = value as CustomStudyOrder; });
+      });
+
+    new Setting(contentEl)
+      .setName('突击模式')
+      .setDesc('只做练习，不修改卡片的复习间隔和复习记录')
+      .addToggle(toggle => toggle
+        .setValue(this.options.cram)
+        .onChange(value => { this.options.cram = value; }));
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('取消')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText('开始学习')
+        .setCta()
+        .onClick(async () => {
+          this.close();
+          await this.onStart({ ...this.options });
+        }));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
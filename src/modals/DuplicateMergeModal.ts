@@ -0,0 +1,142 @@
+/**
+ * 近似重复卡片合并 Modal
+ *
+ * 功能：
+ * - 按相似度列出近似重复的卡片组，展示每张卡片的内容和复习记录
+ * - 默认保留复习记录最好的卡片，可改选其他卡片
+ * - 逐组合并或忽略，也可以一键按建议合并全部
+ */
+
+import { Modal, Notice, Setting } from 'obsidian';
+import type { App } from 'obsidian';
+import type { Card } from '../data/types';
+import type { DuplicateCardGroup } from '../services/duplicate/DuplicateMergeService';
+import { getCardComparableText } from '../services/duplicate/NearDuplicateDetector';
+
+/** 卡片内容预览的最大长度 */
+const PREVIEW_LENGTH = 120;
+
+export class DuplicateMergeModal extends Modal {
+  private groups: DuplicateCardGroup[];
+  private keepers = new Map<DuplicateCardGroup, string>();
+  private busy = false;
+
+  constructor(
+    app: App,
+    groups: DuplicateCardGroup[],
+    private onMerge: (cards: Card[], keeperId: string) => Promise<void>
+  ) {
+    super(app);
+    this.groups = [...groups];
+    for (const group of this.groups) {
+      this.keepers.set(group, group.cards[0].id);
+    }
+  }
+
+  onOpen(): void {
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText(`近似重复卡片（${this.groups.length} 组）`);
+
+    if (this.groups.length === 0) {
+      contentEl.createEl('p', { text: '没有待处理的近似重复卡片。', cls: 'setting-item-description' });
+      new Setting(contentEl)
+        .addButton(button => button
+          .setButtonText('关闭')
+          .onClick(() => this.close()));
+      return;
+    }
+
+    contentEl.createEl('p', {
+      text: '合并后只保留选中的卡片及其复习记录，其余卡片的标签、牌组和来源信息并入保留卡片后删除。',
+      cls: 'setting-item-description'
+    });
+
+    new Setting(contentEl)
+      .setName('全部按建议合并')
+      .setDesc('每组保留复习记录最好的卡片')
+      .addButton(button => button
+        .setButtonText('全部合并')
+        .setDisabled(this.busy)
+        .onClick(() => this.mergeAll()));
+
+    for (const group of this.groups) {
+      contentEl.createEl('h4', { text: `相似度 ${Math.round(group.similarity * 100)}%` });
+
+      for (const card of group.cards) {
+        const setting = new Setting(contentEl)
+          .setName(preview(getCardComparableText(card)))
+          .setDesc(describeHistory(card));
+        if (card.sourceFile) {
+          setting.descEl.createDiv({ text: `来源：${card.sourceFile}` });
+        }
+        setting.addToggle(toggle => toggle
+          .setTooltip('保留这张卡片')
+          .setValue(this.keepers.get(group) === card.id)
+          .onChange(value => {
+            if (value) this.keepers.set(group, card.id);
+            this.render();
+          }));
+      }
+
+      new Setting(contentEl)
+        .addButton(button => button
+          .setButtonText('忽略')
+          .setDisabled(this.busy)
+          .onClick(() => {
+            this.groups = this.groups.filter(item => item !== group);
+            this.render();
+          }))
+        .addButton(button => button
+          .setButtonText('合并')
+          .setCta()
+          .setDisabled(this.busy)
+          .onClick(() => this.merge([group])));
+    }
+  }
+
+  private async mergeAll(): Promise<void> {
+    await this.merge([...this.groups]);
+  }
+
+  private async merge(groups: DuplicateCardGroup[]): Promise<void> {
+    this.busy = true;
+    this.render();
+    let merged = 0;
+    try {
+      for (const group of groups) {
+        await this.onMerge(group.cards, this.keepers.get(group) ?? group.cards[0].id);
+        this.groups = this.groups.filter(item => item !== group);
+        merged++;
+      }
+    } catch (error) {
+      console.error('[DuplicateMergeModal] 合并失败:', error);
+      new Notice(`合并失败: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.busy = false;
+      if (merged > 0) new Notice(`已合并 ${merged} 组重复卡片`);
+      this.render();
+    }
+  }
+}
+
+function describeHistory(card: Card): string {
+  const reviews = Math.max(card.reviewHistory?.length ?? 0, card.fsrs?.reps ?? 0);
+  if (reviews === 0) return '尚未复习';
+  const stability = card.fsrs?.stability ?? 0;
+  return `复习 ${reviews} 次 · 稳定性 ${stability.toFixed(1)} 天`;
+}
+
+function preview(value: string): string {
+  const text = value.replace(/\s+/g, ' ').trim();
+  if (!text) return '（空）';
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+}
@@ -0,0 +1,111 @@
+/**
+ * 双向同步冲突处理 Modal
+ *
+ * 功能：
+ * - 列出在 Tuanki 和 Anki 两侧都被修改过的笔记字段，并排展示两侧内容
+ * - 逐字段选择保留哪一侧，或一键全部采用某一侧
+ * - 选择"稍后处理"或直接关闭时不做修改，冲突保留到下次同步
+ */
+
+import { Modal, Setting } from 'obsidian';
+import type { App } from 'obsidian';
+import type { ConflictChoice, ConflictResolutions, SyncConflict } from '../types/ankiconnect-types';
+
+/** 单个字段内容预览的最大长度 */
+const PREVIEW_LENGTH = 200;
+
+export class SyncConflictModal extends Modal {
+  private choices: ConflictResolutions = {};
+  private resolved = false;
+
+  constructor(
+    app: App,
+    private conflicts: SyncConflict[],
+    private onResolve: (resolutions: ConflictResolutions | null) => void
+  ) {
+    super(app);
+    for (const conflict of conflicts) {
+      this.choices[conflict.cardId] = Object.fromEntries(
+        conflict.fields.map(field => [field.ankiField, 'tuanki' as ConflictChoice])
+      );
+    }
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(`同步冲突（${this.conflicts.length} 条笔记）`);
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    if (!this.resolved) {
+      this.resolved = true;
+      this.onResolve(null);
+    }
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('p', {
+      text: '以下字段自上次同步后在两侧都被修改过，请选择要保留的版本。',
+      cls: 'setting-item-description'
+    });
+
+    new Setting(contentEl)
+      .setName('全部采用')
+      .addButton(button => button
+        .setButtonText('Tuanki 版本')
+        .onClick(() => this.chooseAll('tuanki')))
+      .addButton(button => button
+        .setButtonText('Anki 版本')
+        .onClick(() => this.chooseAll('anki')));
+
+    for (const conflict of this.conflicts) {
+      contentEl.createEl('h4', { text: conflict.title || conflict.cardId });
+
+      for (const field of conflict.fields) {
+        const setting = new Setting(contentEl)
+          .setName(field.ankiField)
+          .addDropdown(dropdown => dropdown
+            .addOptions({ tuanki: '保留 Tuanki', anki: '使用 Anki' })
+            .setValue(this.choices[conflict.cardId][field.ankiField])
+            .onChange(value => {
+              this.choices[conflict.cardId][field.ankiField] = value as ConflictChoice;
+            }));
+
+        const desc = setting.descEl;
+        desc.createDiv({ text: `Tuanki：${preview(field.tuankiValue)}` });
+        desc.createDiv({ text: `Anki：${preview(field.ankiMarkdown ?? field.ankiValue)}` });
+      }
+    }
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('稍后处理')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText('应用')
+        .setCta()
+        .onClick(() => {
+          this.resolved = true;
+          this.onResolve(this.choices);
+          this.close();
+        }));
+  }
+
+  private chooseAll(choice: ConflictChoice): void {
+    for (const fields of Object.values(this.choices)) {
+      for (const field of Object.keys(fields)) {
+        fields[field] = choice;
+      }
+    }
+    this.render();
+  }
+}
+
+function preview(value: string): string {
+  const text = value.replace(/\s+/g, ' ').trim();
+  if (!text) return '（空）';
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+}
@@ -102,8 +102,8 @@ export class ClozeCardParser extends MarkdownFieldsConverter {
     let clozeIndex = 1;
     
     // 将所有==text==替换为{{c1::text}}格式
-    result = result.replace(CLOZE_PATTERNS.OBSIDIAN_STYLE, () => {
-      const replacement = `{{c${clozeIndex}::$1}}`;
+    result = result.replace(CLOZE_PATTERNS.OBSIDIAN_STYLE, (_match, text) => {
+      const replacement = `{{c${clozeIndex}::${text}}}`;
       clozeIndex++;
       return replacement;
     });
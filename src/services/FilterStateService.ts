@@ -5,6 +5,7 @@
 
 import type { CardType } from '../types/newCardParsingTypes';
 import type { TimeFilterType } from '../types/time-filter-types';
+import type { CardFlagFilterType } from '../types/card-flag-types';
 import type AnkiPlugin from '../main';
 
 export interface FilterState {
@@ -13,6 +14,7 @@ export interface FilterState {
   selectedPriority: number | null;
   selectedTags: Set<string>;
   selectedTimeFilter: TimeFilterType;  // 🆕 时间筛选
+  selectedCardFlag: CardFlagFilterType;  // 卡片标记筛选（难点卡片等）
   activeDocumentFilter: string | null;
 }
 
@@ -32,6 +34,7 @@ export class FilterStateService {
       selectedPriority: null,
       selectedTags: new Set(),
       selectedTimeFilter: null,  // 🆕 时间筛选默认为null（全部）
+      selectedCardFlag: null,
       activeDocumentFilter: null
     };
     
@@ -109,6 +112,7 @@ export class FilterStateService {
       selectedPriority: null,
       selectedTags: new Set(),
       selectedTimeFilter: null,  // 🆕 清除时间筛选
+      selectedCardFlag: null,
       activeDocumentFilter: null
     });
   }
@@ -138,6 +142,7 @@ export class FilterStateService {
         selectedPriority: this.state.selectedPriority,
         selectedTags: Array.from(this.state.selectedTags),
         selectedTimeFilter: this.state.selectedTimeFilter,  // 🆕 保存时间筛选
+        selectedCardFlag: this.state.selectedCardFlag,
         activeDocumentFilter: this.state.activeDocumentFilter
       };
       
@@ -163,6 +168,7 @@ export class FilterStateService {
         selectedPriority: parsed.selectedPriority ?? null,
         selectedTags: new Set(parsed.selectedTags || []),
         selectedTimeFilter: parsed.selectedTimeFilter || null,  // 🆕 加载时间筛选
+        selectedCardFlag: parsed.selectedCardFlag || null,
         activeDocumentFilter: parsed.activeDocumentFilter || null
       };
       
@@ -194,6 +200,10 @@ export class FilterStateService {
       parts.push(`${this.state.selectedTags.size}个标签`);
     }
     
+    if (this.state.selectedCardFlag) {
+      parts.push('标记');
+    }
+    
     if (this.state.activeDocumentFilter) {
       parts.push('文档');
     }
@@ -210,6 +220,7 @@ export class FilterStateService {
       this.state.selectedCardTypes.size > 0 ||
       this.state.selectedPriority !== null ||
       this.state.selectedTags.size > 0 ||
+      this.state.selectedCardFlag ||
       this.state.activeDocumentFilter
     );
   }
@@ -1,16 +1,16 @@
 /**
  * 复习撤销管理器
- * 
+ *
  * 功能：
- * - 保存每次评分前的卡片和会话状态快照
- * - 支持撤销最近的评分操作
- * - 支持连续撤销（最多10次）
- * - 自动管理撤销栈大小
+ * - 保存每次评分前后的卡片和会话状态快照
+ * - 支持多步撤销与重做（最多100步）
+ * - 撤销日志持久化到学习会话目录，关闭学习界面或重启后仍可撤销当天的评分
+ * - 自动管理撤销栈大小，跨天自动清理
  */
 
-import type { Card, Rating } from '../data/types';
-import type { FSRSData } from '../algorithms/fsrs';
-import type { Review } from '../data/types';
+import type { Card, FSRSCard, Rating, ReviewLog } from '../data/types';
+import { CardState } from '../data/types';
+import type { StudySession } from '../data/study-types';
 
 /**
  * 卡片统计数据接口
@@ -26,31 +26,70 @@ export interface CardStats {
 }
 
 /**
- * 复习快照 - 记录评分前的完整状态
+ * 评分会改动的卡片字段
+ */
+export interface ReviewCardSnapshot {
+  fsrs: FSRSCard;
+  reviewHistory: ReviewLog[];
+  stats: CardStats;
+  modified: string;
+  // 难点卡片处理可能改动的字段
+  tags?: string[];
+  suspended?: boolean;
+  leech?: Card['leech'];
+  deckId?: string;
+  deckIds?: string[];
+}
+
+/**
+ * 会话计数
+ */
+export interface ReviewSessionCounters {
+  cardsReviewed: number;
+  newCardsLearned: number;
+  correctAnswers: number;
+  totalTime: number;
+}
+
+/**
+ * 评分后被搁置的同笔记卡片
+ */
+export interface BuriedSiblingSnapshot {
+  cardId: string;
+  // 搁置前的 buriedUntil（未搁置时为空）
+  before?: string;
+  // 搁置到的时间
+  after: string;
+}
+
+/**
+ * 复习快照 - 记录评分前（及评分后）的完整状态
  */
 export interface ReviewSnapshot {
   // 卡片索引位置
   cardIndex: number;
-  
+
   // 卡片唯一标识
   cardId: string;
-  
+
+  // 所属学习会话与卡片摘要（用于跨会话撤销和复习记录面板）
+  sessionId?: string;
+  cardTitle?: string;
+
   // 卡片数据快照（评分前）
-  cardSnapshot: {
-    fsrs: FSRSData;
-    reviewHistory: Review[];
-    stats: CardStats;
-    modified: string;
-  };
-  
+  cardSnapshot: ReviewCardSnapshot;
+
   // 会话统计快照
-  sessionSnapshot: {
-    cardsReviewed: number;
-    newCardsLearned: number;
-    correctAnswers: number;
-    totalTime: number;
+  sessionSnapshot: ReviewSessionCounters;
+
+  // 评分后的状态（保存成功后记录，用于重做）
+  after?: {
+    cardSnapshot: ReviewCardSnapshot;
+    sessionSnapshot: ReviewSessionCounters;
+    // 评分后随之搁置的同笔记卡片，撤销/重做时一并恢复
+    buriedSiblings?: BuriedSiblingSnapshot[];
   };
-  
+
   // 评分操作信息
   reviewInfo: {
     rating: Rating;
@@ -59,54 +98,184 @@ export interface ReviewSnapshot {
   };
 }
 
+/**
+ * 持久化的撤销日志
+ */
+export interface ReviewJournalData {
+  _schemaVersion: '1.0.0';
+  undo: ReviewSnapshot[];
+  redo: ReviewSnapshot[];
+}
+
+/**
+ * 撤销日志的存储接口（由 AnkiDataStorage 实现）
+ */
+export interface ReviewJournalStore {
+  loadReviewJournal(): Promise<ReviewJournalData | null>;
+  saveReviewJournal(data: ReviewJournalData): Promise<void>;
+}
+
+/**
+ * 学习会话的存储接口（用于修正已保存的会话）
+ */
+export interface ReviewSessionStore {
+  getStudySessions(range?: { since?: string; until?: string }): Promise<StudySession[]>;
+  saveStudySession(session: StudySession): Promise<unknown>;
+}
+
+/**
+ * 复习记录面板中的一条记录
+ */
+export interface ReviewJournalEntry {
+  snapshot: ReviewSnapshot;
+  undone: boolean;
+}
+
+/**
+ * 从卡片提取评分会改动的字段（深拷贝）
+ */
+export function captureCardSnapshot(card: Card): ReviewCardSnapshot {
+  return cloneSnapshot({
+    fsrs: card.fsrs,
+    reviewHistory: card.reviewHistory || [],
+    stats: card.stats || { totalReviews: 0, totalTime: 0, averageTime: 0, memoryRate: 0 },
+    modified: card.modified || new Date().toISOString(),
+    tags: card.tags,
+    suspended: card.suspended,
+    leech: card.leech,
+    deckId: card.deckId,
+    deckIds: card.deckIds
+  });
+}
+
+/**
+ * 将快照写回卡片
+ */
+export function applyCardSnapshot(card: Card, snapshot: ReviewCardSnapshot): void {
+  const data = cloneSnapshot(snapshot);
+  card.fsrs = data.fsrs;
+  card.reviewHistory = data.reviewHistory;
+  card.stats = data.stats as Card['stats'];
+  card.modified = data.modified;
+  card.tags = data.tags;
+  card.suspended = data.suspended;
+  card.leech = data.leech;
+  if (data.deckId) {
+    card.deckId = data.deckId;
+    card.deckIds = data.deckIds;
+  }
+}
+
+/**
+ * 按一次评分增减会话计数（用于修正已保存的学习会话）
+ * @param direction -1 表示撤销该评分，1 表示重做
+ */
+export function adjustSessionForReview(session: StudySession, snapshot: ReviewSnapshot, direction: 1 | -1): void {
+  const wasNew = snapshot.cardSnapshot.fsrs?.state === CardState.New;
+  const seconds = Math.max(0, Math.round(snapshot.reviewInfo.responseTime / 1000));
+
+  session.cardsReviewed = Math.max(0, session.cardsReviewed + direction);
+  if (wasNew) session.newCardsLearned = Math.max(0, session.newCardsLearned + direction);
+  if (snapshot.reviewInfo.rating >= 3) session.correctAnswers = Math.max(0, session.correctAnswers + direction);
+
+  session.cardReviews = session.cardReviews || [];
+  if (direction < 0) {
+    const index = session.cardReviews.map(review => review.cardId).lastIndexOf(snapshot.cardId);
+    if (index >= 0) session.cardReviews.splice(index, 1);
+  } else {
+    session.cardReviews.push({
+      cardId: snapshot.cardId,
+      rating: snapshot.reviewInfo.rating,
+      responseTime: snapshot.reviewInfo.responseTime,
+      timestamp: new Date(snapshot.reviewInfo.timestamp)
+    });
+  }
+  // totalTime 以秒计，仅在记录过的会话上修正
+  if (session.totalTime > 0) session.totalTime = Math.max(0, session.totalTime + direction * seconds);
+}
+
+/**
+ * 修正已保存的学习会话（评分所在会话已结束时使用）
+ * @returns 是否找到并更新了会话
+ */
+export async function updateSavedSessionForReview(
+  store: ReviewSessionStore,
+  snapshot: ReviewSnapshot,
+  direction: 1 | -1
+): Promise<boolean> {
+  if (!snapshot.sessionId) return false;
+  // 会话开始时间不晚于评分时间，只需查找评分前一天以来的会话
+  const since = new Date(snapshot.reviewInfo.timestamp - 24 * 60 * 60 * 1000).toISOString();
+  const sessions = await store.getStudySessions({ since });
+  const saved = sessions.find(s => s.id === snapshot.sessionId);
+  if (!saved) return false;
+
+  adjustSessionForReview(saved, snapshot, direction);
+  await store.saveStudySession(saved);
+  return true;
+}
+
+function cloneSnapshot<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function startOfToday(): number {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+}
+
 /**
  * 复习撤销管理器类
  */
 export class ReviewUndoManager {
   // 撤销栈 - LIFO（后进先出）
   private undoStack: ReviewSnapshot[] = [];
-  
+
+  // 重做栈 - 撤销的评分按撤销顺序压入
+  private redoStack: ReviewSnapshot[] = [];
+
   // 最大撤销次数
-  private readonly MAX_STACK_SIZE = 10;
+  private readonly MAX_STACK_SIZE = 100;
+
+  private pendingWrite: Promise<void> = Promise.resolve();
 
   /**
    * 构造函数
+   *
+   * @param store - 日志存储，不传时仅保存在内存中
    */
-  constructor() {
+  constructor(private store?: ReviewJournalStore) {
     console.log('[ReviewUndoManager] 初始化撤销管理器');
   }
 
   /**
-   * 保存评分前的快照
-   * 
+   * 从存储载入撤销日志（只保留今天的记录）
+   */
+  public async load(): Promise<void> {
+    if (!this.store) return;
+    try {
+      const data = await this.store.loadReviewJournal();
+      const today = startOfToday();
+      const isToday = (s: ReviewSnapshot) => s.reviewInfo?.timestamp >= today;
+      this.undoStack = (data?.undo || []).filter(isToday).slice(-this.MAX_STACK_SIZE);
+      this.redoStack = (data?.redo || []).filter(isToday).slice(-this.MAX_STACK_SIZE);
+      console.log(`[ReviewUndoManager] 载入撤销日志，可撤销 ${this.undoStack.length} 步，可重做 ${this.redoStack.length} 步`);
+    } catch (error) {
+      console.error('[ReviewUndoManager] 载入撤销日志失败:', error);
+    }
+  }
+
+  /**
+   * 保存评分前的快照（新的评分会清空重做栈）
+   * 只更新内存中的撤销栈，日志在 recordResult 记录评分结果时一并写入，每次评分只写一次
+   *
    * @param snapshot - 快照数据
    */
   public saveSnapshot(snapshot: ReviewSnapshot): void {
     try {
       // 深拷贝防止引用污染
-      const clonedSnapshot: ReviewSnapshot = {
-        cardIndex: snapshot.cardIndex,
-        cardId: snapshot.cardId,
-        cardSnapshot: {
-          fsrs: JSON.parse(JSON.stringify(snapshot.cardSnapshot.fsrs)),
-          reviewHistory: JSON.parse(JSON.stringify(snapshot.cardSnapshot.reviewHistory)),
-          stats: JSON.parse(JSON.stringify(snapshot.cardSnapshot.stats)),
-          modified: snapshot.cardSnapshot.modified
-        },
-        sessionSnapshot: {
-          cardsReviewed: snapshot.sessionSnapshot.cardsReviewed,
-          newCardsLearned: snapshot.sessionSnapshot.newCardsLearned,
-          correctAnswers: snapshot.sessionSnapshot.correctAnswers,
-          totalTime: snapshot.sessionSnapshot.totalTime
-        },
-        reviewInfo: {
-          rating: snapshot.reviewInfo.rating,
-          timestamp: snapshot.reviewInfo.timestamp,
-          responseTime: snapshot.reviewInfo.responseTime
-        }
-      };
-
-      this.undoStack.push(clonedSnapshot);
+      this.undoStack.push(cloneSnapshot(snapshot));
+      this.redoStack = [];
 
       // 限制栈大小 - 超出时移除最早的快照
       if (this.undoStack.length > this.MAX_STACK_SIZE) {
@@ -120,62 +289,139 @@ export class ReviewUndoManager {
     }
   }
 
+  /**
+   * 记录最近一次评分后的状态（卡片保存成功后调用），用于重做
+   *
+   * @param buriedSiblings - 评分后搁置的同笔记卡片，与评分写入同一条日志
+   */
+  public recordResult(cardId: string, card: Card, sessionCounters: ReviewSessionCounters, buriedSiblings: BuriedSiblingSnapshot[] = []): void {
+    const latest = this.undoStack[this.undoStack.length - 1];
+    if (!latest || latest.cardId !== cardId) return;
+    latest.after = {
+      cardSnapshot: captureCardSnapshot(card),
+      sessionSnapshot: { ...sessionCounters },
+      ...(buriedSiblings.length > 0 ? { buriedSiblings: buriedSiblings.map(sibling => ({ ...sibling })) } : {})
+    };
+    this.persist();
+  }
+
   /**
    * 撤销最后一次评分操作
-   * 
+   *
    * @returns 快照数据，如果栈为空则返回null
    */
   public undo(): ReviewSnapshot | null {
-    if (this.undoStack.length === 0) {
+    const snapshot = this.undoStack.pop();
+    if (!snapshot) {
       console.warn('[ReviewUndoManager] 撤销栈为空，无法撤销');
       return null;
     }
 
-    const snapshot = this.undoStack.pop();
+    // 没有评分后状态的快照无法重做
+    if (snapshot.after) this.redoStack.push(snapshot);
+    this.persist();
     console.log(`[ReviewUndoManager] 撤销操作，剩余快照: ${this.undoStack.length}`);
-    return snapshot || null;
+    return cloneSnapshot(snapshot);
+  }
+
+  /**
+   * 重做最近一次撤销的评分
+   */
+  public redo(): ReviewSnapshot | null {
+    const snapshot = this.redoStack.pop();
+    if (!snapshot) {
+      console.warn('[ReviewUndoManager] 重做栈为空，无法重做');
+      return null;
+    }
+
+    this.undoStack.push(snapshot);
+    this.persist();
+    return cloneSnapshot(snapshot);
+  }
+
+  /**
+   * 撤销失败时放回撤销栈（不影响重做栈的其他记录）
+   */
+  public cancelUndo(snapshot: ReviewSnapshot): void {
+    const index = this.redoStack.findIndex(s => s.cardId === snapshot.cardId && s.reviewInfo.timestamp === snapshot.reviewInfo.timestamp);
+    if (index >= 0) this.redoStack.splice(index, 1);
+    this.undoStack.push(cloneSnapshot(snapshot));
+    this.persist();
+  }
+
+  /**
+   * 重做失败时放回重做栈
+   */
+  public cancelRedo(snapshot: ReviewSnapshot): void {
+    const index = this.undoStack.findIndex(s => s.cardId === snapshot.cardId && s.reviewInfo.timestamp === snapshot.reviewInfo.timestamp);
+    if (index >= 0) this.undoStack.splice(index, 1);
+    this.redoStack.push(cloneSnapshot(snapshot));
+    this.persist();
   }
 
   /**
    * 检查是否可以撤销
-   * 
+   *
    * @returns 是否可以撤销
    */
   public canUndo(): boolean {
     return this.undoStack.length > 0;
   }
 
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
   /**
    * 获取可撤销的次数
-   * 
+   *
    * @returns 撤销栈中的快照数量
    */
   public getUndoCount(): number {
     return this.undoStack.length;
   }
 
+  public getRedoCount(): number {
+    return this.redoStack.length;
+  }
+
+  /**
+   * 今天的评分记录（按时间倒序，包含已撤销的）
+   */
+  public getTodayEntries(): ReviewJournalEntry[] {
+    const today = startOfToday();
+    return [
+      ...this.undoStack.map(snapshot => ({ snapshot, undone: false })),
+      ...this.redoStack.map(snapshot => ({ snapshot, undone: true }))
+    ]
+      .filter(entry => entry.snapshot.reviewInfo.timestamp >= today)
+      .sort((a, b) => b.snapshot.reviewInfo.timestamp - a.snapshot.reviewInfo.timestamp);
+  }
+
   /**
    * 清空撤销栈
-   * 
+   *
    * 使用场景：
-   * - 会话结束
-   * - 切换牌组
-   * - 关闭学习界面
+   * - 切换数据目录
+   * - 调试
    */
   public clear(): void {
     const previousSize = this.undoStack.length;
     this.undoStack = [];
+    this.redoStack = [];
+    this.persist();
     console.log(`[ReviewUndoManager] 清空撤销栈，已清除 ${previousSize} 个快照`);
   }
 
   /**
    * 获取撤销栈状态（用于调试）
-   * 
+   *
    * @returns 撤销栈信息
    */
-  public getStackInfo(): { size: number; maxSize: number; snapshots: Array<{ cardId: string; rating: Rating; timestamp: number }> } {
+  public getStackInfo(): { size: number; redoSize: number; maxSize: number; snapshots: Array<{ cardId: string; rating: Rating; timestamp: number }> } {
     return {
       size: this.undoStack.length,
+      redoSize: this.redoStack.length,
       maxSize: this.MAX_STACK_SIZE,
       snapshots: this.undoStack.map(s => ({
         cardId: s.cardId,
@@ -184,5 +430,16 @@ export class ReviewUndoManager {
       }))
     };
   }
-}
 
+  /**
+   * 写入存储（串行执行，避免并发写同一个文件）
+   */
+  private persist(): void {
+    const store = this.store;
+    if (!store) return;
+    const data: ReviewJournalData = cloneSnapshot({ _schemaVersion: '1.0.0', undo: this.undoStack, redo: this.redoStack });
+    this.pendingWrite = this.pendingWrite
+      .then(() => store.saveReviewJournal(data))
+      .catch(error => console.error('[ReviewUndoManager] 保存撤销日志失败:', error));
+  }
+}
@@ -5,6 +5,7 @@
 
 import type AnkiPlugin from '../main';
 import type { AIProvider } from '../components/settings/constants/settings-constants';
+import { AIServiceFactory } from './ai/AIServiceFactory';
 
 export interface ShortcutConfig {
   key: string;
@@ -24,7 +25,7 @@ export class ShortcutService {
    */
   registerAllShortcuts() {
     const shortcuts = this.plugin.settings.aiConfig?.shortcuts || {};
-    const providers: AIProvider[] = ['openai', 'gemini', 'anthropic', 'deepseek', 'zhipu'];
+    const providers: AIProvider[] = ['openai', 'gemini', 'anthropic', 'deepseek', 'zhipu', 'siliconflow', 'local'];
     
     providers.forEach(provider => {
       this.registerShortcut(provider, shortcuts[provider]);
@@ -44,7 +45,9 @@ export class ShortcutService {
       gemini: 'Gemini',
       anthropic: 'Claude',
       deepseek: 'DeepSeek',
-      zhipu: '智谱清言'
+      zhipu: '智谱清言',
+      siliconflow: '硅基流动',
+      local: '本地模型'
     };
     
     // 注册Obsidian命令
@@ -79,10 +82,9 @@ export class ShortcutService {
   private async executeAIFormat(provider: AIProvider) {
     console.log(`[ShortcutService] 触发AI格式化，使用提供商: ${provider}`);
     
-    // 检查API配置
-    const apiConfig = this.plugin.settings.aiConfig?.apiKeys?.[provider];
-    if (!apiConfig || !apiConfig.apiKey) {
-      new (window as any).Notice(`${provider} 的API密钥未配置，请先在设置中配置`);
+    // 检查API配置（本地模型不需要密钥）
+    if (!AIServiceFactory.isProviderConfigured(provider, this.plugin)) {
+      new (window as any).Notice(`${provider} 的API未配置，请先在设置中配置`);
       return;
     }
     
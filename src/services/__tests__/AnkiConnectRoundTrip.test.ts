@@ -0,0 +1,176 @@
+// @vitest-environment node
+/**
+ * AnkiConnect 同步链路集成测试（使用进程内模拟后端）
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+let idCounter = 0;
+vi.mock('../../utils/helpers', () => ({
+  generateId: () => `id-${++idCounter}`,
+  generateUUID: () => `tk-${++idCounter}`
+}));
+
+import { AnkiConnectClient } from '../ankiconnect/AnkiConnectClient';
+import { CardExporter } from '../ankiconnect/CardExporter';
+import { CardImporter } from '../ankiconnect/CardImporter';
+import { TuankiTemplateExporter } from '../ankiconnect/TuankiTemplateExporter';
+import { AnkiTemplateConverter } from '../ankiconnect/AnkiTemplateConverter';
+import { MediaSyncService } from '../ankiconnect/MediaSyncService';
+import { IncrementalSyncTracker } from '../ankiconnect/IncrementalSyncTracker';
+import { FakeAnkiConnectBackend } from '../ankiconnect/transport/FakeAnkiConnectBackend';
+import { FakeAnkiConnectTransport } from '../ankiconnect/transport/FakeAnkiConnectTransport';
+import { AnkiConnectError } from '../../types/ankiconnect-types';
+import type { Card } from '../../data/types';
+import { CardState, CardType } from '../../data/types';
+import { createAnkiConnectPlugin } from './test-plugin';
+
+const IMAGE_BASE64 = btoa('fake-png-bytes');
+
+function tuankiCard(id: string, front: string, back: string, tags: string[]): Card {
+  return {
+    id,
+    uuid: `tk-${id}`,
+    deckId: 'deck-src',
+    templateId: 'official-qa',
+    type: CardType.Basic,
+    content: `${front}\n\n---div---\n\n${back}`,
+    fields: { front, back },
+    fsrs: {
+      due: '2025-01-01T00:00:00.000Z',
+      stability: 0,
+      difficulty: 0,
+      elapsedDays: 0,
+      scheduledDays: 0,
+      reps: 0,
+      lapses: 0,
+      state: CardState.New,
+      retrievability: 1
+    },
+    reviewHistory: [],
+    stats: { totalReviews: 0, totalTime: 0, averageTime: 0, memoryRate: 0 },
+    tags,
+    created: '2025-01-01T00:00:00.000Z',
+    modified: '2025-01-01T00:00:00.000Z'
+  } as Card;
+}
+
+describe('AnkiConnect round trip with fake backend', () => {
+  let clock: number;
+  let backend: FakeAnkiConnectBackend;
+  let transport: FakeAnkiConnectTransport;
+  let client: AnkiConnectClient;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    clock = new Date(2025, 2, 1, 12, 0).getTime();
+    backend = new FakeAnkiConnectBackend({ now: () => clock });
+    transport = new FakeAnkiConnectTransport(backend);
+    client = new AnkiConnectClient(undefined, transport);
+  });
+
+  it('should export, modify in Anki and import cards back with media', async () => {
+    const deckCards: Record<string, Card[]> = {
+      'deck-src': [
+        tuankiCard('c1', 'What is a cat? ![[cat.png]]', 'An animal', ['pets']),
+        tuankiCard('c2', 'Capital of France', 'Paris', ['geo'])
+      ]
+    };
+    const { plugin, files } = createAnkiConnectPlugin(deckCards, new Map([
+      ['assets/cat.png', new TextEncoder().encode('fake-png-bytes').buffer]
+    ]));
+
+    await client.createDeck('Tuanki::Export');
+    const exporter = new CardExporter(plugin, client, new TuankiTemplateExporter(plugin, client));
+    const exportResult = await exporter.exportDeck('deck-src', 'Tuanki::Export');
+
+    expect(exportResult.errors).toEqual([]);
+    expect(exportResult.exportedCards).toBe(2);
+    expect(await client.getMediaFilesNames('*.png')).toEqual(['cat.png']);
+    expect(await client.retrieveMediaFile('cat.png')).toBe(IMAGE_BASE64);
+
+    // 重复导出时按 duplicate 跳过，不产生新笔记
+    await exporter.exportDeck('deck-src', 'Tuanki::Export');
+    const noteIds = await client.findNotesByDeck('Tuanki::Export');
+    expect(noteIds).toHaveLength(2);
+
+    // 在 Anki 端修改
+    const [catNote, franceNote] = await client.getNotesInfo(noteIds);
+    const backField = Object.keys(franceNote.fields)[1];
+    clock += 60_000;
+    await client.updateNoteFields(franceNote.noteId, { [backField]: 'Paris (updated)' });
+    await client.updateNoteTags(franceNote.noteId, ['geo', 'europe']);
+
+    const importer = new CardImporter(plugin, client, new AnkiTemplateConverter(plugin));
+    const importResult = await importer.importDeck('Tuanki::Export', 'deck-dst');
+
+    expect(importResult.success).toBe(true);
+    expect(importResult.importedCards).toBe(2);
+    const imported = deckCards['deck-dst'];
+    const france = imported.find(card => card.customFields?.ankiOriginal?.noteId === franceNote.noteId)!;
+    expect(france.fields?.back).toContain('Paris (updated)');
+    expect(france.tags).toEqual(expect.arrayContaining(['geo', 'europe']));
+
+    const cat = imported.find(card => card.customFields?.ankiOriginal?.noteId === catNote.noteId)!;
+    expect(cat.fields?.front).toContain('cat.png');
+    expect(Array.from(files.keys()).some(path => path.endsWith('/cat.png') && path.startsWith('tuanki/media'))).toBe(true);
+  });
+
+  it('should detect Anki-side changes through the incremental tracker and download media', async () => {
+    const { plugin, files } = createAnkiConnectPlugin({});
+    await client.createDeck('Sync');
+    await client.createModel({
+      modelName: 'Basic',
+      inOrderFields: ['Front', 'Back'],
+      css: '',
+      cardTemplates: [{ Name: 'Card 1', Front: '{{Front}}', Back: '{{Back}}' }]
+    });
+    const noteId = await client.addNote({ deckName: 'Sync', modelName: 'Basic', fields: { Front: 'Q', Back: 'A' }, tags: [] });
+    await client.storeMediaFile('sound.mp3', IMAGE_BASE64);
+
+    const tracker = new IncrementalSyncTracker(plugin);
+    const card = { id: 'c1', createdAt: clock - 1000 } as unknown as Card;
+    tracker.updateSyncTimestamp('c1', { ankiNoteId: noteId, direction: 'export', syncTime: clock });
+    await tracker.persist();
+    expect(plugin.settings.ankiConnect.incrementalSyncState.timestamps.c1.ankiNoteId).toBe(noteId);
+
+    const modOf = async () => (await client.getNotesInfo([noteId]))[0].mod * 1000;
+    expect(tracker.shouldSync(card, await modOf())).toBe(false);
+
+    clock += 5_000;
+    await client.updateNoteFields(noteId, { Back: 'A2' });
+    expect(tracker.shouldSync(card, await modOf())).toBe(true);
+
+    const media = new MediaSyncService(plugin.app, client, { largeFileThresholdMB: 10, createBacklinks: false, supportedTypes: [] });
+    expect(await media.downloadMediaFromAnki('sound.mp3', 'attachments')).toBe(true);
+    expect(new TextDecoder().decode(files.get('attachments/sound.mp3') as ArrayBuffer)).toBe('fake-png-bytes');
+    expect(await media.downloadMediaFromAnki('missing.mp3', 'attachments')).toBe(false);
+  });
+
+  it('should surface AnkiConnect errors and persist state through sqlite', async () => {
+    await expect(client.addNote({ deckName: 'Nope', modelName: 'Basic', fields: {}, tags: [] }))
+      .rejects.toBeInstanceOf(AnkiConnectError);
+    expect(transport.requests.at(-1)?.action).toBe('addNote');
+
+    await client.createDeck('Persist');
+    await client.createModel({
+      modelName: 'Basic',
+      inOrderFields: ['Front', 'Back'],
+      css: '.card {}',
+      cardTemplates: [{ Name: 'Card 1', Front: '{{Front}}', Back: '{{Back}}' }]
+    });
+    const noteId = await client.addNote({ deckName: 'Persist', modelName: 'Basic', fields: { Front: '1+1', Back: '2' }, tags: ['math'] });
+    await client.storeMediaFile('a.png', IMAGE_BASE64);
+
+    const restored = await FakeAnkiConnectBackend.fromDatabase(await backend.exportDatabase());
+    const restoredClient = new AnkiConnectClient(undefined, new FakeAnkiConnectTransport(restored));
+
+    expect(await restoredClient.findNotes('deck:Persist tag:math')).toEqual([noteId]);
+    expect(restored.getNoteFields(noteId)).toEqual({ Front: '1+1', Back: '2' });
+    expect((await restoredClient.getModelInfo('Basic')).templates[0]).toEqual({ Name: 'Card 1', Front: '{{Front}}', Back: '{{Back}}' });
+    expect(await restoredClient.retrieveMediaFile('a.png')).toBe(IMAGE_BASE64);
+    expect(await restoredClient.getDeckNames()).toEqual(expect.arrayContaining(['Default', 'Persist']));
+  });
+});
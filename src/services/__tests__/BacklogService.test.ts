@@ -0,0 +1,109 @@
+/**
+ * 积压追赶测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+let idCounter = 0;
+vi.mock('../../utils/helpers', () => ({
+  generateId: () => `id-${++idCounter}`,
+  generateUUID: () => `tk-${++idCounter}`
+}));
+
+import {
+  BacklogService,
+  buildBacklogQueue,
+  createBacklogAlgorithm,
+  getOverdueCards,
+  planBacklogSpread
+} from '../backlog/BacklogService';
+import { AnkiDataStorage } from '../../data/storage';
+import { CardState, Rating } from '../../data/types';
+import type { Card } from '../../data/types';
+import { FSRS6_DEFAULTS } from '../../types/fsrs6-types';
+import { MemoryAdapter, createMemoryPlugin } from '../../data/__tests__/memory-adapter';
+import { createTestCard, createTestDeck } from '../../data/__tests__/card-fixtures';
+
+const NOW = new Date(2025, 5, 15, 10, 0);
+const DAY = 24 * 60 * 60 * 1000;
+
+function makeCard(id: string, stability: number, daysSinceReview: number, extra: Partial<Card> = {}): Card {
+  return createTestCard(id, {
+    state: CardState.Review,
+    stability,
+    difficulty: 5,
+    scheduledDays: 3,
+    lastReview: new Date(NOW.getTime() - daysSinceReview * DAY).toISOString(),
+    due: new Date(NOW.getTime() - DAY).toISOString()
+  }, extra);
+}
+
+const cards = () => [
+  makeCard('fresh', 100, 5),      // R 高
+  makeCard('faded', 2, 20),       // R 低
+  makeCard('middle', 10, 10),
+  createTestCard('future', { state: CardState.Review, stability: 5, due: new Date(NOW.getTime() + DAY).toISOString() }),
+  createTestCard('new', { due: NOW.toISOString() })
+];
+
+describe('BacklogService', () => {
+  it('should only pick overdue review cards and order them by retrievability', () => {
+    expect(getOverdueCards(cards(), NOW.getTime()).map(c => c.id)).toEqual(['fresh', 'faded', 'middle']);
+    expect(buildBacklogQueue(cards(), { order: 'lowest-r', dailyLimit: 10, spreadDays: 1 }, NOW).map(c => c.id))
+      .toEqual(['faded', 'middle', 'fresh']);
+    expect(buildBacklogQueue(cards(), { order: 'highest-r', dailyLimit: 10, spreadDays: 1 }, NOW).map(c => c.id))
+      .toEqual(['fresh', 'middle', 'faded']);
+  });
+
+  it('should subtract backlog reviews already done today from the daily limit', () => {
+    const all = cards();
+    all[0].reviewHistory = [{
+      rating: Rating.Good,
+      state: CardState.Review,
+      due: NOW.toISOString(),
+      stability: 100,
+      difficulty: 5,
+      elapsedDays: 5,
+      lastElapsedDays: 0,
+      scheduledDays: 3,
+      review: NOW.toISOString(),
+      studyMode: 'backlog'
+    }];
+    expect(buildBacklogQueue(all, { order: 'lowest-r', dailyLimit: 2, spreadDays: 1 }, NOW).map(c => c.id))
+      .toEqual(['faded']);
+  });
+
+  it('should spread the backlog across days and keep today\'s share due', async () => {
+    const all = cards();
+    const plan = planBacklogSpread(all, { order: 'lowest-r', dailyLimit: 10, spreadDays: 2 }, NOW);
+    expect(plan.map(p => [p.cardId, p.day])).toEqual([['faded', 0], ['middle', 0], ['fresh', 1]]);
+
+    const storage = new AnkiDataStorage(createMemoryPlugin(new MemoryAdapter()));
+    await storage.saveDeckCards('deck', all);
+    const updateCards = vi.spyOn(storage, 'updateCards');
+    const saveCard = vi.spyOn(storage, 'saveCard');
+
+    const moved = await new BacklogService(storage).spreadBacklog(all, { order: 'lowest-r', dailyLimit: 10, spreadDays: 2 }, NOW);
+    expect(moved).toBe(1);
+    expect(new Date(all[0].fsrs.due).getDate()).toBe(16);
+    expect(updateCards).toHaveBeenCalledTimes(1);
+    expect(saveCard).not.toHaveBeenCalled();
+
+    const [fresh] = await storage.getCards({ cardIds: ['fresh'] });
+    expect(fresh.fsrs.due).toBe(all[0].fsrs.due);
+  });
+
+  it('should build the algorithm from the global parameters and the deck\'s optimized weights', () => {
+    const globalWeights: number[] = [...FSRS6_DEFAULTS.DEFAULT_WEIGHTS];
+    const deckWeights: number[] = [...FSRS6_DEFAULTS.DEFAULT_WEIGHTS];
+    globalWeights[0] = 0.3;
+    deckWeights[0] = 0.5;
+    const deck = createTestDeck('deck', {
+      fsrsOptimization: { w: deckWeights, optimizedAt: NOW.toISOString(), reviewCount: 1000, logLossBefore: 0.4, logLossAfter: 0.3 }
+    });
+
+    expect(createBacklogAlgorithm({ requestRetention: 0.85, w: globalWeights }, deck).getParameters())
+      .toMatchObject({ requestRetention: 0.85, w: deckWeights });
+    expect(createBacklogAlgorithm({ w: globalWeights }).getParameters().w[0]).toBe(0.3);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * AI卡片质量审查测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CardQualityReviewer, isFlagged } from '../ai/CardQualityReviewer';
+import type { GeneratedCard } from '../../types/ai-types';
+import type { Card } from '../../data/types';
+
+function generated(id: string, front: string, back: string, extra: Partial<GeneratedCard> = {}): GeneratedCard {
+  return {
+    id,
+    type: 'qa',
+    front,
+    back,
+    metadata: { generatedAt: '2025-01-01T00:00:00.000Z', provider: 'openai', model: 'gpt-4o-mini', temperature: 0.5 },
+    ...extra
+  };
+}
+
+describe('CardQualityReviewer', () => {
+  let reviewer: CardQualityReviewer;
+
+  beforeEach(() => {
+    reviewer = new CardQualityReviewer();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should flag leakage, missing choice markers and duplicates with rule checks', async () => {
+    const existingCards = [
+      { id: 'e1', content: '法国的首都是哪里？\n\n---div---\n\n巴黎', fields: { front: '法国的首都是哪里？', back: '巴黎' } } as unknown as Card
+    ];
+    const cards = [
+      generated('leak', '光合作用产生氧气，光合作用产生什么气体？', '氧气'),
+      generated('choice', 'Q: 2+2=?\n\nA) 3\nB) 4\nC) 5', '4', { type: 'choice', correctAnswer: 1 }),
+      generated('dup', '法国的首都是哪里?', 'Paris'),
+      generated('ok', '水的化学式是什么？', 'H₂O')
+    ];
+
+    const reviews = await reviewer.review(cards, { existingCards });
+
+    expect(reviews.leak.issues.map(issue => issue.type)).toEqual(['answer-leakage']);
+    expect(reviews.choice.issues.map(issue => issue.type)).toEqual(['missing-choice-marker']);
+    expect(reviews.choice.suggestion?.front).toBe('Q: 2+2=?\n\nA) 3\nB) 4 {✓}\nC) 5');
+    expect(reviews.dup.issues.map(issue => issue.type)).toEqual(['duplicate']);
+    expect(reviews.ok.issues).toEqual([]);
+    expect(reviews.ok.score).toBe(100);
+    expect(reviews.leak.score).toBeLessThan(70);
+    expect([isFlagged(reviews.leak), isFlagged(reviews.ok)]).toEqual([true, false]);
+    expect(reviews.ok.aiReviewed).toBe(false);
+  });
+
+  it('should merge AI scores, issues and rewrites', async () => {
+    const chat = vi.fn(async () => ({
+      success: true,
+      content: '```json\n{"reviews":[{"index":0,"atomicity":4,"clarity":6,"issues":[{"type":"atomicity","message":"包含两个知识点"}],"rewrite":{"front":"TCP 是面向连接的吗？","back":"是"}},{"index":1,"atomicity":10,"clarity":10,"issues":[],"rewrite":null}]}\n```'
+    }));
+    const cards = [
+      generated('multi', 'TCP 和 UDP 分别有什么特点', '...'),
+      generated('clean', 'HTTP 默认端口是多少', '80')
+    ];
+
+    const reviews = await reviewer.review(cards, { aiService: { chat } });
+
+    expect(chat).toHaveBeenCalledTimes(1);
+    expect(reviews.multi).toMatchObject({
+      score: 50,
+      aiReviewed: true,
+      suggestion: { front: 'TCP 是面向连接的吗？', back: '是' }
+    });
+    expect(reviews.multi.issues).toEqual([{ type: 'atomicity', severity: 'warning', message: '包含两个知识点' }]);
+    expect(reviews.clean.score).toBe(100);
+    expect(isFlagged(reviews.clean)).toBe(false);
+  });
+
+  it('should fall back to rule checks when the AI call fails', async () => {
+    const chat = vi.fn(async () => ({ success: false, error: 'timeout' }));
+    const reviews = await reviewer.review([generated('a', 'Q', 'A')], { aiService: { chat } });
+
+    expect(reviews.a).toMatchObject({ score: 100, issues: [], aiReviewed: false });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * CSV / TSV 导入导出测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+let idCounter = 0;
+vi.mock('../../utils/helpers', () => ({
+  generateId: () => `id-${++idCounter}`,
+  generateUUID: () => `tk-${idCounter}`
+}));
+
+import {
+  buildCardsFromRows,
+  detectDelimiter,
+  exportCardsToCsv,
+  parseDelimited,
+  suggestCsvMapping
+} from '../csv/CsvService';
+import type { CsvImportOptions } from '../csv/CsvService';
+import type { Card, Deck } from '../../data/types';
+import { CardState } from '../../data/types';
+
+const decks = [
+  { id: 'deck-a', name: 'English' },
+  { id: 'deck-b', name: 'Math' }
+] as Deck[];
+
+function options(overrides: Partial<CsvImportOptions> = {}): CsvImportOptions {
+  return {
+    delimiter: ',',
+    hasHeader: true,
+    mapping: ['front', 'back', 'tags'],
+    deckId: 'deck-a',
+    tags: ['csv'],
+    dedupeField: 'front',
+    ...overrides
+  };
+}
+
+describe('CsvService', () => {
+  it('should parse quoted fields with delimiters, escaped quotes and newlines', () => {
+    const text = '\ufeffQuestion,Answer\n"a, b","say ""hi""\nnow"\r\nc,d\n\n';
+    expect(parseDelimited(text, ',')).toEqual([
+      ['Question', 'Answer'],
+      ['a, b', 'say "hi"\nnow'],
+      ['c', 'd']
+    ]);
+    expect(detectDelimiter('front\tback\ttags\nx\ty\tz')).toBe('\t');
+  });
+
+  it('should suggest mappings from headers and fall back to column positions', () => {
+    expect(suggestCsvMapping(['Question', '答案', 'Tags', '牌组', 'Notes'], 5))
+      .toEqual(['front', 'back', 'tags', 'deck', '']);
+    expect(suggestCsvMapping(null, 4)).toEqual(['front', 'back', 'tags', '']);
+  });
+
+  it('should build cards with deck assignment, tags and deduplication', () => {
+    const existing = [{ id: 'old', fields: { front: 'Apple', back: '苹果' } }] as unknown as Card[];
+    const rows = [
+      ['apple ', 'dup of existing', ''],
+      ['Banana', '香蕉', 'fruit #food', 'Math'],
+      ['banana', 'dup in file', ''],
+      ['', 'no front', ''],
+      ['Cherry', '樱桃', '', 'Unknown']
+    ];
+
+    const result = buildCardsFromRows(rows, options({ mapping: ['front', 'back', 'tags', 'deck'] }), existing, decks);
+
+    expect(result.cards.map(card => card.fields?.front)).toEqual(['Banana', 'Cherry']);
+    expect(result.skipped).toBe(3);
+    expect(result.cards[0]).toMatchObject({
+      deckId: 'deck-b',
+      templateId: 'official-qa',
+      tags: ['csv', 'fruit', 'food'],
+      content: 'Banana\n\n---div---\n\n香蕉'
+    });
+    expect(result.cards[0].fsrs.state).toBe(CardState.New);
+    expect(result.cards[1].deckId).toBe('deck-a');
+    expect(result.warnings.some(w => w.includes('Unknown'))).toBe(true);
+  });
+
+  it('should export cards with optional FSRS columns', () => {
+    const card = {
+      id: 'c1',
+      uuid: 'tk-1',
+      deckId: 'deck-a',
+      fields: { front: 'Q, with comma', back: 'A' },
+      tags: ['x', 'y'],
+      fsrs: { state: CardState.Review, due: '2025-05-01T00:00:00.000Z', stability: 12.345678, difficulty: 5, retrievability: 0.9, elapsedDays: 3, scheduledDays: 10, reps: 4, lapses: 1, lastReview: '2025-04-21T00:00:00.000Z' }
+    } as unknown as Card;
+
+    const lines = exportCardsToCsv([card], decks, { delimiter: ',', includeFsrs: true }).split('\n');
+    expect(lines[0]).toBe('id,deck,front,back,tags,state,due,stability,difficulty,retrievability,elapsed_days,scheduled_days,reps,lapses,last_review,suspended');
+    expect(lines[1]).toBe('tk-1,English,"Q, with comma",A,x y,review,2025-05-01T00:00:00.000Z,12.3457,5,0.9,3,10,4,1,2025-04-21T00:00:00.000Z,false');
+
+    const tsv = exportCardsToCsv([card], decks, { delimiter: '\t', includeFsrs: false });
+    expect(tsv.split('\n')[1]).toBe('tk-1\tEnglish\tQ, with comma\tA\tx y');
+  });
+});
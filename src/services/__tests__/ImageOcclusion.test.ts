@@ -0,0 +1,77 @@
+/**
+ * 图片遮罩测试（注释格式兼容 / 多边形遮罩 / 出题目标）
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MaskDataParser, parseMaskComment } from '../image-mask/MaskDataParser';
+import { isPointInMask, simplifyPath } from '../image-mask/mask-operations';
+import { getContentOcclusionTargets, resolveMaskOcclusion } from '../image-mask/occlusion-targets';
+import type { MaskData } from '../../types/image-mask-types';
+
+const comment = (data: unknown) => `<!-- tuanki-mask: ${JSON.stringify(data)} -->`;
+
+const triangle = [{ x: 0.5, y: 0.1 }, { x: 0.9, y: 0.9 }, { x: 0.1, y: 0.9 }];
+
+const groupedData: MaskData = {
+  version: '1.1',
+  mode: 'hide-all-guess-one',
+  masks: [
+    { id: 'a', type: 'rect', x: 0.1, y: 0.1, width: 0.1, height: 0.1, style: 'solid', groupId: 'g1' },
+    { id: 'b', type: 'polygon', x: 0.1, y: 0.1, points: triangle, style: 'solid', groupId: 'g1' },
+    { id: 'c', type: 'circle', x: 0.8, y: 0.8, radius: 0.1, style: 'solid' }
+  ]
+};
+
+describe('MaskDataParser', () => {
+  it('应该兼容 1.0 格式，并拒绝 1.0 格式中的多边形', () => {
+    const legacy = parseMaskComment(comment({
+      version: '1.0',
+      masks: [{ id: 'r', type: 'rect', x: 0.1, y: 0.1, width: 0.2, height: 0.2, fill: 'rgba(0, 0, 0, 0.7)', style: 'solid' }]
+    }));
+    expect(legacy.success).toBe(true);
+    expect(legacy.data?.masks[0].type).toBe('rect');
+
+    expect(parseMaskComment(comment({ version: '1.0', masks: [{ id: 'p', type: 'polygon', x: 0, y: 0, points: triangle }] })).success).toBe(false);
+  });
+
+  it('应该校验 1.1 格式的多边形顶点和出题模式', () => {
+    expect(parseMaskComment(comment(groupedData)).success).toBe(true);
+    expect(parseMaskComment(comment({ ...groupedData, mode: 'guess-all' })).success).toBe(false);
+    expect(parseMaskComment(comment({
+      version: '1.1',
+      masks: [{ id: 'p', type: 'freehand', x: 0, y: 0, points: triangle.slice(0, 2) }]
+    })).success).toBe(false);
+  });
+
+  it('未使用新特性时应该按 1.0 格式保存', () => {
+    const parser = new MaskDataParser({} as any);
+    const rectOnly = parser.maskDataToComment({ version: '1.1', masks: [groupedData.masks[2]] });
+    expect(rectOnly).toContain('"version":"1.0"');
+    expect(parser.maskDataToComment(groupedData)).toContain('"version":"1.1"');
+  });
+});
+
+describe('多边形遮罩', () => {
+  it('应该按多边形区域判断点击，并精简自由绘制轨迹', () => {
+    const mask = groupedData.masks[1];
+    expect(isPointInMask({ x: 0.5, y: 0.5 }, mask)).toBe(true);
+    expect(isPointInMask({ x: 0.15, y: 0.2 }, mask)).toBe(false);
+    expect(simplifyPath([{ x: 0, y: 0 }, { x: 0.001, y: 0 }, { x: 0.1, y: 0 }])).toEqual([{ x: 0, y: 0 }, { x: 0.1, y: 0 }]);
+  });
+});
+
+describe('出题目标', () => {
+  it('同组遮罩应该作为一个出题目标', () => {
+    const content = `![[heart.png]]\n${comment(groupedData)}\n---div---\n心脏`;
+    expect(getContentOcclusionTargets(content)).toEqual(['g1', 'c']);
+    expect(getContentOcclusionTargets(`![[heart.png]]\n${comment({ ...groupedData, mode: undefined })}`)).toEqual([]);
+  });
+
+  it('遮全猜一保留其他遮罩，遮一猜一只渲染目标遮罩', () => {
+    expect(resolveMaskOcclusion(groupedData, 'g1').map(({ mask, role }) => [mask.id, role])).toEqual([
+      ['a', 'target'], ['b', 'target'], ['c', 'context']
+    ]);
+    expect(resolveMaskOcclusion({ ...groupedData, mode: 'hide-one-guess-one' }, 'c').map(({ mask }) => mask.id)).toEqual(['c']);
+    expect(resolveMaskOcclusion(groupedData).every(({ role }) => role === 'target')).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * 难点卡片（Leech）检测测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  LeechService,
+  LEECH_TAG,
+  reachesLeechThreshold,
+  resolveLeechSettings,
+  shouldTriggerLeech
+} from '../leech/LeechService';
+import { Rating } from '../../data/types';
+
+function makeCard(lapses: number, errorCount = 0) {
+  return {
+    id: 'card-1',
+    deckId: 'deck-a',
+    deckIds: ['deck-a', 'deck-b'],
+    tags: ['math'],
+    fsrs: { lapses },
+    stats: { errorTracking: { errorCount } }
+  } as any;
+}
+
+describe('LeechService', () => {
+  it('should trigger at the threshold and every half threshold after', () => {
+    const hits = Array.from({ length: 20 }, (_, i) => i + 1).filter(n => reachesLeechThreshold(n, 8));
+    expect(hits).toEqual([8, 12, 16, 20]);
+    expect(reachesLeechThreshold(5, 0)).toBe(false);
+  });
+
+  it('should only check on Again and respect the error threshold', () => {
+    const settings = resolveLeechSettings({ lapseThreshold: 8, errorThreshold: 5 });
+    expect(shouldTriggerLeech(makeCard(8), Rating.Good, settings)).toBe(false);
+    expect(shouldTriggerLeech(makeCard(8), Rating.Again, settings)).toBe(true);
+    expect(shouldTriggerLeech(makeCard(2, 5), Rating.Again, settings)).toBe(true);
+    expect(shouldTriggerLeech(makeCard(8), Rating.Again, { ...settings, enabled: false })).toBe(false);
+  });
+
+  it('should tag and suspend', async () => {
+    const service = new LeechService({} as any);
+    const card = makeCard(8);
+    const result = await service.checkAfterRating(card, Rating.Again, { action: 'suspend' });
+
+    expect(result?.firstTime).toBe(true);
+    expect(card.tags).toEqual(['math', LEECH_TAG]);
+    expect(card.suspended).toBe(true);
+    expect(card.leech.lapses).toBe(8);
+  });
+
+  it('should move to the error book deck and keep other references', async () => {
+    const storage = {
+      getDeck: vi.fn(async (id: string) => (id === 'errors' ? { id: 'errors', name: '错题' } : null)),
+      getDecks: vi.fn(async () => [])
+    };
+    const service = new LeechService(storage as any);
+    const card = makeCard(8);
+    const result = await service.checkAfterRating(card, Rating.Again, { action: 'move', errorBookDeckId: 'errors' });
+
+    expect(result?.targetDeck?.id).toBe('errors');
+    expect(card.deckId).toBe('errors');
+    expect(card.deckIds).toEqual(['errors', 'deck-b']);
+    expect(card.leech.originDeckId).toBe('deck-a');
+  });
+});
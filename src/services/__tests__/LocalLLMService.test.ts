@@ -0,0 +1,116 @@
+/**
+ * 本地模型服务测试（OpenAI 兼容接口 / Ollama 原生接口）
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('obsidian', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  requestUrl: vi.fn()
+}));
+
+import { requestUrl } from 'obsidian';
+import { LocalLLMService } from '../ai/LocalLLMService';
+import { AIServiceFactory } from '../ai/AIServiceFactory';
+import type { GenerationConfig } from '../../types/ai-types';
+
+const mockedRequestUrl = vi.mocked(requestUrl);
+
+function lastRequest() {
+  const [params] = mockedRequestUrl.mock.calls[mockedRequestUrl.mock.calls.length - 1] as any[];
+  return { ...params, body: params.body ? JSON.parse(params.body) : undefined };
+}
+
+describe('LocalLLMService', () => {
+  beforeEach(() => {
+    mockedRequestUrl.mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should call the Ollama native chat API without auth header', async () => {
+    mockedRequestUrl.mockResolvedValue({
+      json: {
+        message: { role: 'assistant', content: '[{"type":"qa","front":"Q","back":"A"}]' },
+        prompt_eval_count: 12,
+        eval_count: 8
+      }
+    } as any);
+
+    const service = new LocalLLMService('', 'qwen2.5:7b', { baseUrl: 'http://localhost:11434/', apiFormat: 'ollama' });
+    const result = await service.regenerateCard(
+      { cardId: 'card-1', instruction: '更简洁', originalCard: { type: 'qa', front: 'Q0', back: 'A0' } } as any,
+      { temperature: 0.3, maxTokens: 500 } as GenerationConfig
+    );
+
+    const request = lastRequest();
+    expect(request.url).toBe('http://localhost:11434/api/chat');
+    expect(request.headers.Authorization).toBeUndefined();
+    expect(request.body).toMatchObject({
+      model: 'qwen2.5:7b',
+      stream: false,
+      format: 'json',
+      options: { temperature: 0.3, num_predict: 500 }
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.cards?.[0]).toMatchObject({ id: 'card-1', front: 'Q', back: 'A' });
+    expect(result.cards?.[0].metadata.provider).toBe('local');
+    expect(result.usage).toEqual({ promptTokens: 12, completionTokens: 8, totalTokens: 20, estimatedCost: 0 });
+  });
+
+  it('should use OpenAI-compatible endpoints and tolerate missing usage', async () => {
+    mockedRequestUrl.mockResolvedValue({
+      json: { choices: [{ message: { content: '{"cards":[{"front":"F","back":"B"}]}' } }] }
+    } as any);
+
+    const service = new LocalLLMService('secret', 'llama3', { baseUrl: 'http://127.0.0.1:1234/v1', apiFormat: 'openai' });
+    const split = await service.splitParentCard({ content: { front: 'F1 F2', back: 'B1 B2' } } as any);
+
+    const request = lastRequest();
+    expect(request.url).toBe('http://127.0.0.1:1234/v1/chat/completions');
+    expect(request.headers.Authorization).toBe('Bearer secret');
+    expect(request.body.response_format).toEqual({ type: 'json_object' });
+    expect(split.success).toBe(true);
+    expect(split.childCards).toHaveLength(1);
+    expect(split.usage?.totalTokens).toBe(0);
+
+    mockedRequestUrl.mockResolvedValue({ json: { choices: [{ message: { content: ' 你好 ' } }] } } as any);
+    const chat = await service.chat({ messages: [{ role: 'user', content: 'hi' }] });
+    expect(chat).toMatchObject({ success: true, content: '你好', cost: 0 });
+    expect(lastRequest().body.response_format).toBeUndefined();
+  });
+
+  it('should list models and test the connection', async () => {
+    mockedRequestUrl.mockResolvedValue({ json: { models: [{ name: 'qwen2.5:7b' }, { model: 'llama3.1:8b' }] } } as any);
+    const ollama = new LocalLLMService('', 'qwen2.5:7b', { apiFormat: 'ollama' });
+    expect(await ollama.listModels()).toEqual(['qwen2.5:7b', 'llama3.1:8b']);
+    expect(lastRequest().url).toBe('http://localhost:11434/api/tags');
+
+    mockedRequestUrl.mockResolvedValue({ json: { data: [{ id: 'mistral-7b' }] } } as any);
+    const compatible = new LocalLLMService('', 'mistral-7b', { apiFormat: 'openai' });
+    expect(await compatible.listModels()).toEqual(['mistral-7b']);
+    expect(await compatible.testConnection()).toBe(true);
+
+    mockedRequestUrl.mockRejectedValue(new Error('net::ERR_CONNECTION_REFUSED'));
+    expect(await compatible.testConnection()).toBe(false);
+  });
+
+  it('should be created by the factory without an API key', () => {
+    const plugin = {
+      settings: {
+        aiConfig: {
+          defaultProvider: 'local',
+          apiKeys: {
+            openai: { apiKey: '', model: 'gpt-4o-mini', verified: false },
+            local: { apiKey: '', model: 'qwen2.5:7b', verified: false, baseUrl: 'http://localhost:11434', apiFormat: 'ollama' }
+          }
+        }
+      }
+    } as any;
+
+    expect(AIServiceFactory.isProviderConfigured('local', plugin)).toBe(true);
+    expect(AIServiceFactory.isProviderConfigured('openai', plugin)).toBe(false);
+    expect(AIServiceFactory.getDefaultService(plugin)).toBeInstanceOf(LocalLLMService);
+    expect(() => AIServiceFactory.createService('openai', plugin)).toThrow();
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * 近似重复检测（MinHash）与合并测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+let idCounter = 0;
+vi.mock('../../utils/helpers', () => ({
+  generateId: () => `id-${++idCounter}`,
+  generateUUID: () => `tk-${++idCounter}`
+}));
+
+import { TFile } from 'obsidian';
+import { NearDuplicateIndex, normalizeForDuplicate } from '../duplicate/NearDuplicateDetector';
+import { DuplicateMergeService } from '../duplicate/DuplicateMergeService';
+import type { AnkiDataStorage } from '../../data/storage';
+import { CardType } from '../../data/types';
+import type { Card } from '../../data/types';
+import { createTFile } from './test-plugin';
+
+function makeCard(id: string, front: string, back: string, extra: Partial<Card> = {}): Card {
+  return {
+    id,
+    uuid: `tk-${id}`,
+    deckId: 'deck-a',
+    templateId: 'basic',
+    type: 'basic',
+    content: `${front}\n\n---div---\n\n${back}`,
+    fields: { front, back },
+    fsrs: { due: '2025-01-01T00:00:00.000Z', stability: 0, difficulty: 5, elapsedDays: 0, scheduledDays: 0, reps: 0, lapses: 0, state: 0, retrievability: 0 },
+    reviewHistory: [],
+    stats: { totalReviews: 0, totalTime: 0, averageTime: 0, memoryRate: 0 },
+    created: '2025-01-01T00:00:00.000Z',
+    modified: '2025-01-01T00:00:00.000Z',
+    ...extra
+  } as Card;
+}
+
+function createStorage(initial: Card[]) {
+  const cards = new Map(initial.map(card => [card.id, card]));
+  const storage = {
+    getAllCards: vi.fn(async () => Array.from(cards.values())),
+    getCards: vi.fn(async ({ cardIds }: { cardIds: string[] }) =>
+      cardIds.map(id => cards.get(id)).filter((card): card is Card => !!card)),
+    getCardsByNote: vi.fn(async (noteId: string) => Array.from(cards.values()).filter(card => card.noteId === noteId)),
+    saveCard: vi.fn(async (card: Card) => {
+      cards.set(card.id, card);
+      return { success: true, data: card, timestamp: '' };
+    }),
+    updateCards: vi.fn(async (updated: Card[]) => {
+      updated.forEach(card => cards.set(card.id, card));
+      return updated.length;
+    }),
+    deleteCard: vi.fn(async (id: string) => {
+      cards.delete(id);
+      return { success: true, data: true, timestamp: '' };
+    })
+  };
+  return { cards, storage: storage as unknown as AnkiDataStorage };
+}
+
+describe('NearDuplicateIndex', () => {
+  it('should ignore formatting differences when normalizing', () => {
+    expect(normalizeForDuplicate('**光合作用**的产物是{{c1::氧气::气体}}？ <!-- tk-abc -->')).toBe('光合作用的产物是氧气');
+    expect(normalizeForDuplicate('What is the <b>capital</b> of [[France]]?')).toBe('whatisthecapitaloffrance');
+  });
+
+  it('should find near-duplicates but not unrelated cards', () => {
+    const index = new NearDuplicateIndex();
+    index.add('a', 'What is the capital of France?\nParis');
+    index.add('b', 'What is the capital city of France?\nParis.');
+    index.add('c', 'Which gas do plants release during photosynthesis?\nOxygen');
+    index.add('d', '光合作用释放的气体是什么？\n氧气');
+    index.add('e', '光合作用释放的气体是什么?\n**氧气**');
+
+    expect(index.query('what is the capital of france? paris').map(match => match.id)).toEqual(['a', 'b']);
+
+    const groups = index.findGroups();
+    expect(groups.map(group => group.ids)).toEqual([['a', 'b'], ['d', 'e']]);
+    expect(groups[1].similarity).toBe(1);
+
+    index.remove('b');
+    expect(index.findGroups().map(group => group.ids)).toEqual([['d', 'e']]);
+    expect(index.findGroupsOf(['e', 'c'])).toEqual([{ ids: ['d', 'e'], similarity: 1 }]);
+  });
+});
+
+describe('DuplicateMergeService', () => {
+  it('should report groups that involve newly created cards only', async () => {
+    const { storage } = createStorage([
+      makeCard('old1', '法国的首都是哪里？', '巴黎'),
+      makeCard('old2', '法国的首都是哪里?', '巴黎。'),
+      makeCard('old3', 'TCP 是面向连接的吗', '是')
+    ]);
+    const created = makeCard('new', 'TCP是面向连接的吗？', '是');
+
+    const groups = await new DuplicateMergeService(storage).findDuplicatesOf([created]);
+
+    expect(groups.map(group => group.cards.map(card => card.id).sort())).toEqual([['new', 'old3']]);
+  });
+
+  it('should build the index once and only hash new or changed cards afterwards', async () => {
+    const { cards, storage } = createStorage([
+      makeCard('old1', '法国的首都是哪里？', '巴黎'),
+      makeCard('old2', 'TCP 是面向连接的吗', '是')
+    ]);
+    const service = new DuplicateMergeService(storage);
+
+    expect(await service.findDuplicatesOf([makeCard('new1', '光合作用释放什么气体', '氧气')])).toEqual([]);
+    const groups = await service.findDuplicatesOf([makeCard('new2', 'TCP是面向连接的吗？', '是')]);
+    expect(groups.map(group => group.cards.map(card => card.id).sort())).toEqual([['new2', 'old2']]);
+
+    // 未通知缓存的删除：命中时按存储复核
+    cards.delete('old1');
+    expect(await service.findDuplicatesOf([makeCard('new3', '法国的首都是哪里', '巴黎')])).toEqual([]);
+
+    // 通知缓存的修改
+    const edited = makeCard('old2', 'UDP 是无连接的吗', '是');
+    cards.set('old2', edited);
+    service.updateCards([edited]);
+    const udp = await service.findDuplicatesOf([makeCard('new4', 'UDP是无连接的吗？', '是')]);
+    expect(udp.map(group => group.cards.map(card => card.id).sort())).toEqual([['new4', 'old2']]);
+
+    expect(storage.getAllCards).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the better history and redirect relations and source references', async () => {
+    const reviewed = makeCard('reviewed', 'HTTP 默认端口', '80', {
+      tags: ['net'],
+      reviewHistory: [{} as any, {} as any],
+      fsrs: { ...makeCard('x', '', '').fsrs, reps: 2, stability: 12 },
+      metadata: { cardRelation: { isParent: true, level: 0, childCardIds: ['tk-child1'] } }
+    });
+    const imported = makeCard('imported', 'HTTP 默认端口？', '80', {
+      deckId: 'deck-b',
+      tags: ['web'],
+      sourceFile: 'notes/http.md',
+      sourceBlock: '^blk1',
+      metadata: { cardRelation: { isParent: true, level: 0, childCardIds: ['tk-child2'] } }
+    });
+    const child1 = makeCard('child1', 'c1', 'c1', { parentCardId: 'tk-reviewed' });
+    const child2 = makeCard('child2', 'c2', 'c2', { parentCardId: 'tk-imported' });
+    const { cards, storage } = createStorage([reviewed, imported, child1, child2]);
+
+    const vault = {
+      getAbstractFileByPath: vi.fn((path: string) => createTFile(path)),
+      read: vi.fn(async () => 'Q::A <!-- tk-imported --> ^blk1'),
+      modify: vi.fn(async () => {})
+    };
+
+    const service = new DuplicateMergeService(storage, vault as any);
+    const [group] = await service.findDuplicateGroups();
+    expect(group.cards.map(card => card.id)).toEqual(['reviewed', 'imported']);
+
+    const result = await service.mergeGroup(group.cards);
+
+    expect(result.removedIds).toEqual(['imported']);
+    expect(cards.has('imported')).toBe(false);
+    const keeper = cards.get('reviewed')!;
+    expect(keeper.reviewHistory).toHaveLength(2);
+    expect(keeper.tags).toEqual(['net', 'web']);
+    expect(keeper.deckIds).toEqual(['deck-a', 'deck-b']);
+    expect(keeper).toMatchObject({ sourceFile: 'notes/http.md', sourceBlock: '^blk1' });
+    expect(keeper.metadata?.cardRelation?.childCardIds).toEqual(['tk-child1', 'tk-child2']);
+    expect(cards.get('child2')!.parentCardId).toBe('tk-reviewed');
+    expect(result.redirected).toBe(1);
+    expect(vault.modify).toHaveBeenCalledWith(expect.any(TFile), 'Q::A <!-- tk-reviewed --> ^blk1');
+  });
+
+  it('should merge notes slot by slot and keep siblings without a matching slot', async () => {
+    const content = '{{c1::巴黎}}是法国的首都，{{c2::柏林}}是德国的首都';
+    const cloze = (id: string, noteId: string, clozeOrdinal: number, extra: Partial<Card> = {}) =>
+      makeCard(id, '', '', { type: CardType.Cloze, content, fields: undefined, noteId, clozeOrdinal, ...extra });
+    const reviewed = { reviewHistory: [{} as any, {} as any, {} as any], fsrs: { ...makeCard('x', '', '').fsrs, reps: 3, stability: 20 } };
+
+    const keeperC1 = cloze('k1', 'k1', 1, reviewed);
+    const keeperC2 = cloze('k2', 'k1', 2);
+    const dupC1 = cloze('d1', 'd1', 1);
+    const dupC2 = cloze('d2', 'd1', 2, reviewed);
+    const dupC3 = cloze('d3', 'd1', 3);
+    const { cards, storage } = createStorage([keeperC1, keeperC2, dupC1, dupC2, dupC3]);
+
+    const result = await new DuplicateMergeService(storage).mergeGroup([dupC1, keeperC1]);
+
+    expect(result.keeper.id).toBe('k1');
+    expect(result.removedIds.sort()).toEqual(['d1', 'd2']);
+    expect(storage.deleteCard).toHaveBeenCalledWith('d2', { keepSiblings: true });
+    // 被合并笔记中复习记录更好的卡片，学习进度移到保留笔记的同槽位卡片
+    expect(cards.get('k2')!.reviewHistory).toHaveLength(3);
+    expect(cards.get('k2')!.fsrs.stability).toBe(20);
+    // 保留笔记没有 c3：兄弟卡片不删除
+    expect(cards.has('d3')).toBe(true);
+    expect(storage.updateCards).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * 批量重新调度测试
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+let idCounter = 0;
+vi.mock('../../utils/helpers', () => ({
+  generateId: () => `id-${++idCounter}`,
+  generateUUID: () => `tk-${++idCounter}`
+}));
+
+import { RescheduleService } from '../scheduling/RescheduleService';
+import { FSRS } from '../../algorithms/fsrs';
+import { AnkiDataStorage } from '../../data/storage';
+import { CardState } from '../../data/types';
+import type { Card } from '../../data/types';
+import { MemoryAdapter, createMemoryPlugin } from '../../data/__tests__/memory-adapter';
+import { createTestCard, createTestDeck } from '../../data/__tests__/card-fixtures';
+
+const LAST_REVIEW = new Date(2025, 2, 1, 9, 0).toISOString();
+
+function makeReview(id: string, deckId: string): Card {
+  return createTestCard(
+    id,
+    { state: CardState.Review, stability: 20, lastReview: LAST_REVIEW, due: LAST_REVIEW, scheduledDays: 0 },
+    { deckId }
+  );
+}
+
+describe('RescheduleService', () => {
+  let storage: AnkiDataStorage;
+
+  beforeEach(() => {
+    storage = new AnkiDataStorage(createMemoryPlugin(new MemoryAdapter()));
+  });
+
+  it('should write changed cards in batches and schedule each deck with its optimized weights', async () => {
+    const deckIds = ['optimized', 'default'];
+    const cards = Array.from({ length: 1200 }, (_, i) => makeReview(`c${i}`, deckIds[i % 2]));
+    for (const deckId of deckIds) {
+      await storage.saveDeckCards(deckId, cards.filter(card => card.deckId === deckId));
+    }
+    const optimizedWeights = [...new FSRS().getParameters().w];
+    optimizedWeights[0] = 9.9;
+    await storage.saveDeck(createTestDeck('optimized', {
+      fsrsOptimization: { w: optimizedWeights, optimizedAt: LAST_REVIEW, reviewCount: 1000, logLossBefore: 0.4, logLossAfter: 0.3 }
+    }));
+    await storage.saveDeck(createTestDeck('default'));
+
+    const getAllCards = vi.spyOn(storage, 'getAllCards');
+    const updateCards = vi.spyOn(storage, 'updateCards');
+    const saveCard = vi.spyOn(storage, 'saveCard');
+    const reschedule = vi.spyOn(FSRS.prototype, 'rescheduleCard');
+    const progress: number[] = [];
+
+    const result = await new RescheduleService(storage).rescheduleAll(
+      { requestRetention: 0.9, enableFuzz: false },
+      undefined,
+      done => progress.push(done)
+    );
+
+    expect(result).toEqual({ total: 1200, changed: 1200, failed: 0 });
+    expect(updateCards.mock.calls.map(([batch]) => batch.length)).toEqual([500, 500, 200]);
+    expect(saveCard).not.toHaveBeenCalled();
+    expect(progress).toEqual([500, 1000, 1200]);
+    expect((await storage.getAllCards()).every(card => card.fsrs.scheduledDays === 20)).toBe(true);
+
+    const loaded: Card[] = await getAllCards.mock.results[0].value;
+    const w0ByDeck = new Map(reschedule.mock.calls.map(([fsrs], i) => [
+      loaded.find(card => card.fsrs === fsrs)!.deckId,
+      (reschedule.mock.instances[i] as unknown as FSRS).getParameters().w[0]
+    ]));
+    expect(w0ByDeck.get('optimized')).toBe(9.9);
+    expect(w0ByDeck.get('default')).not.toBe(9.9);
+    reschedule.mockRestore();
+  });
+
+  it('should count a failed batch without aborting the remaining batches', async () => {
+    await storage.saveDeckCards('deck', Array.from({ length: 600 }, (_, i) => makeReview(`c${i}`, 'deck')));
+    vi.spyOn(storage, 'updateCards').mockRejectedValueOnce(new Error('EIO'));
+
+    const result = await new RescheduleService(storage).rescheduleAll({ requestRetention: 0.9, enableFuzz: false });
+
+    expect(result).toEqual({ total: 600, changed: 100, failed: 500 });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * 复习撤销管理器测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ReviewUndoManager,
+  adjustSessionForReview,
+  applyCardSnapshot,
+  captureCardSnapshot,
+  updateSavedSessionForReview
+} from '../ReviewUndoManager';
+import type { ReviewJournalData, ReviewJournalStore, ReviewSnapshot } from '../ReviewUndoManager';
+import { CardState } from '../../data/types';
+
+class MemoryJournalStore implements ReviewJournalStore {
+  data: ReviewJournalData | null = null;
+  writes = 0;
+  async loadReviewJournal() {
+    return this.data;
+  }
+  async saveReviewJournal(data: ReviewJournalData) {
+    this.data = data;
+    this.writes++;
+  }
+}
+
+function makeCard(state: CardState = CardState.New): any {
+  return {
+    id: 'card-1',
+    deckId: 'deck-1',
+    content: 'Q',
+    modified: '2025-01-01T00:00:00.000Z',
+    fsrs: { state, stability: 0, difficulty: 0, due: '2025-01-01T00:00:00.000Z', reps: 0, lapses: 0 },
+    reviewHistory: [],
+    stats: { totalReviews: 0, totalTime: 0, averageTime: 0, memoryRate: 0 }
+  };
+}
+
+function makeSnapshot(card: any, timestamp = Date.now(), rating = 3): ReviewSnapshot {
+  return {
+    cardIndex: 0,
+    cardId: card.id,
+    sessionId: 'session-1',
+    cardSnapshot: captureCardSnapshot(card),
+    sessionSnapshot: { cardsReviewed: 0, newCardsLearned: 0, correctAnswers: 0, totalTime: 0 },
+    reviewInfo: { rating: rating as any, timestamp, responseTime: 4000 }
+  };
+}
+
+/** 模拟一次评分：修改卡片并记录评分后的状态 */
+function review(manager: ReviewUndoManager, card: any, timestamp = Date.now()) {
+  manager.saveSnapshot(makeSnapshot(card, timestamp));
+  card.fsrs = { ...card.fsrs, state: CardState.Learning, reps: card.fsrs.reps + 1 };
+  card.reviewHistory.push({ rating: 3, review: new Date(timestamp).toISOString() });
+  card.stats.totalReviews++;
+  manager.recordResult(card.id, card, { cardsReviewed: 1, newCardsLearned: 1, correctAnswers: 1, totalTime: 0 });
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('ReviewUndoManager', () => {
+  it('should restore the card exactly on undo and reapply the result on redo', () => {
+    const manager = new ReviewUndoManager();
+    const card = makeCard();
+    const before = JSON.parse(JSON.stringify(card));
+    review(manager, card);
+    const after = JSON.parse(JSON.stringify(card));
+
+    const undone = manager.undo()!;
+    applyCardSnapshot(card, undone.cardSnapshot);
+    expect(card).toEqual(before);
+    expect(manager.getRedoCount()).toBe(1);
+
+    const redone = manager.redo()!;
+    applyCardSnapshot(card, redone.after!.cardSnapshot);
+    expect(card).toEqual(after);
+    expect(manager.getUndoCount()).toBe(1);
+    expect(manager.getRedoCount()).toBe(0);
+  });
+
+  it('should clear the redo stack when a new rating is made', () => {
+    const manager = new ReviewUndoManager();
+    const card = makeCard();
+    review(manager, card);
+    manager.undo();
+    review(manager, card);
+    expect(manager.canRedo()).toBe(false);
+    expect(manager.getTodayEntries()).toHaveLength(1);
+  });
+
+  it('should persist the journal and only reload today\'s entries', async () => {
+    const store = new MemoryJournalStore();
+    const manager = new ReviewUndoManager(store);
+    const card = makeCard();
+    review(manager, card, Date.now() - 3 * 24 * 60 * 60 * 1000);
+    review(manager, card);
+    manager.undo();
+    await flush();
+
+    expect(store.data?.undo).toHaveLength(1);
+    expect(store.data?.redo).toHaveLength(1);
+
+    const reloaded = new ReviewUndoManager(store);
+    await reloaded.load();
+    expect(reloaded.getUndoCount()).toBe(0);
+    expect(reloaded.getRedoCount()).toBe(1);
+    expect(reloaded.getTodayEntries()[0].undone).toBe(true);
+  });
+
+  it('should write the journal once per rating', async () => {
+    const store = new MemoryJournalStore();
+    const manager = new ReviewUndoManager(store);
+    const card = makeCard();
+    review(manager, card);
+    await flush();
+
+    expect(store.writes).toBe(1);
+    expect(store.data?.undo[0].after).toBeDefined();
+  });
+
+  it('should keep buried siblings in the same journal entry as the rating', async () => {
+    const store = new MemoryJournalStore();
+    const manager = new ReviewUndoManager(store);
+    const card = makeCard();
+    const buriedUntil = '2025-01-02T00:00:00.000Z';
+    manager.saveSnapshot(makeSnapshot(card));
+    manager.recordResult(card.id, card, { cardsReviewed: 1, newCardsLearned: 1, correctAnswers: 1, totalTime: 0 }, [
+      { cardId: 'card-2', after: buriedUntil },
+      { cardId: 'card-3', before: '2024-12-31T00:00:00.000Z', after: buriedUntil }
+    ]);
+    await flush();
+
+    expect(store.writes).toBe(1);
+    expect(store.data?.undo[0].after?.buriedSiblings).toEqual([
+      { cardId: 'card-2', after: buriedUntil },
+      { cardId: 'card-3', before: '2024-12-31T00:00:00.000Z', after: buriedUntil }
+    ]);
+
+    const undone = manager.undo()!;
+    expect(undone.after?.buriedSiblings?.map(sibling => sibling.before)).toEqual([undefined, '2024-12-31T00:00:00.000Z']);
+    expect(manager.redo()?.after?.buriedSiblings).toHaveLength(2);
+  });
+
+  it('should put a snapshot back when undo fails', () => {
+    const manager = new ReviewUndoManager();
+    const card = makeCard();
+    review(manager, card);
+    const snapshot = manager.undo()!;
+    manager.cancelUndo(snapshot);
+    expect(manager.getUndoCount()).toBe(1);
+    expect(manager.getRedoCount()).toBe(0);
+  });
+});
+
+describe('session adjustment', () => {
+  it('should revert and reapply the counters of a saved session', async () => {
+    const card = makeCard();
+    const snapshot = makeSnapshot(card, Date.now(), 3);
+    const saved: any = {
+      id: 'session-1',
+      startTime: new Date(Date.now() - 60_000),
+      cardsReviewed: 2,
+      newCardsLearned: 1,
+      correctAnswers: 2,
+      totalTime: 60,
+      cardReviews: [
+        { cardId: 'other', rating: 3, responseTime: 1000, timestamp: new Date() },
+        { cardId: 'card-1', rating: 3, responseTime: 4000, timestamp: new Date() }
+      ]
+    };
+    const written: any[] = [];
+    const store = {
+      getStudySessions: async () => [saved],
+      saveStudySession: async (session: any) => { written.push(session); }
+    };
+
+    expect(await updateSavedSessionForReview(store, snapshot, -1)).toBe(true);
+    expect(written).toHaveLength(1);
+    expect(saved).toMatchObject({ cardsReviewed: 1, newCardsLearned: 0, correctAnswers: 1, totalTime: 56 });
+    expect(saved.cardReviews.map((r: any) => r.cardId)).toEqual(['other']);
+
+    adjustSessionForReview(saved, snapshot, 1);
+    expect(saved).toMatchObject({ cardsReviewed: 2, newCardsLearned: 1, correctAnswers: 2, totalTime: 60 });
+    expect(saved.cardReviews).toHaveLength(2);
+  });
+});
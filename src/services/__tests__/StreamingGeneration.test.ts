@@ -0,0 +1,186 @@
+// @vitest-environment node
+/**
+ * 流式卡片生成测试（增量 JSON 解析 + SSE / Ollama 逐行 JSON）
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('obsidian', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  requestUrl: vi.fn()
+}));
+
+import { requestUrl } from 'obsidian';
+import { IncrementalCardParser } from '../ai/IncrementalCardParser';
+import { OpenAIService } from '../ai/OpenAIService';
+import { LocalLLMService } from '../ai/LocalLLMService';
+import type { GenerationConfig, GeneratedCard } from '../../types/ai-types';
+
+const config: GenerationConfig = {
+  templateId: 'custom',
+  promptTemplate: '生成卡片',
+  cardCount: 3,
+  difficulty: 'medium',
+  typeDistribution: { qa: 100, cloze: 0, choice: 0 },
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  temperature: 0.5,
+  maxTokens: 1000,
+  imageGeneration: { enabled: false, strategy: 'none', imagesPerCard: 0, placement: 'question' },
+  autoTags: [],
+  enableHints: false
+};
+
+const CARDS_JSON = '{"cards":[{"type":"qa","front":"什么是 {x}?","back":"含 \\"]\\" 的答案"},{"front":"Q2","back":"A2","tags":["t"]},{"front":"Q3","back":"A3"}]}';
+
+/**
+ * 把文本按固定长度切片，模拟网络分包
+ */
+function slices(text: string, size: number): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    result.push(text.slice(i, i + size));
+  }
+  return result;
+}
+
+/**
+ * 构造流式响应；取消信号触发后读取报 AbortError
+ */
+function streamResponse(chunks: string[], signal?: AbortSignal): Response {
+  const encoder = new TextEncoder();
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (signal?.aborted) {
+        controller.error(new DOMException('Aborted', 'AbortError'));
+      } else if (index < chunks.length) {
+        controller.enqueue(encoder.encode(chunks[index++]));
+      } else {
+        controller.close();
+      }
+    }
+  });
+  return new Response(body, { status: 200 });
+}
+
+function sseChunks(content: string): string[] {
+  const events = slices(content, 7).map(part =>
+    `data: ${JSON.stringify({ choices: [{ delta: { content: part } }] })}\n\n`
+  );
+  events.push(`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 } })}\n\ndata: [DONE]\n\n`);
+  // 再次切分，使事件跨越读取边界
+  return slices(events.join(''), 13);
+}
+
+describe('IncrementalCardParser', () => {
+  it('should emit array elements as soon as they close', () => {
+    const parser = new IncrementalCardParser();
+    const emitted: any[][] = slices(CARDS_JSON, 5).map(part => parser.push(part));
+
+    const all = emitted.flat();
+    expect(all.map(card => card.front)).toEqual(['什么是 {x}?', 'Q2', 'Q3']);
+    expect(all[0].back).toBe('含 "]" 的答案');
+    // 第一张卡片在整个响应结束前就已解析出来
+    const firstIndex = emitted.findIndex(items => items.length > 0);
+    expect(firstIndex).toBeLessThan(emitted.length / 2);
+  });
+
+  it('should accept a bare array and ignore text after it', () => {
+    const parser = new IncrementalCardParser();
+    expect(parser.push('```json\n[{"front":"A"},')).toEqual([{ front: 'A' }]);
+    expect(parser.push('{"front":"B"}]\n``` [{"front":"C"}]')).toEqual([{ front: 'B' }]);
+  });
+});
+
+const mockedRequestUrl = vi.mocked(requestUrl);
+
+describe('OpenAIService.generateCardsStream', () => {
+  beforeEach(() => {
+    mockedRequestUrl.mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should deliver each card through onCard and report usage', async () => {
+    const fetchMock = vi.fn(async () => streamResponse(sseChunks(CARDS_JSON)));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const service = new OpenAIService('sk-test', 'gpt-4o-mini');
+    const received: GeneratedCard[] = [];
+    const result = await service.generateCardsStream('材料', config, { onCard: card => received.push(card) });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://api.openai.com/v1/chat/completions');
+    expect(JSON.parse(init.body as string)).toMatchObject({ stream: true, response_format: { type: 'json_object' } });
+
+    expect(result.success).toBe(true);
+    expect(received.map(card => card.front)).toEqual(['什么是 {x}?', 'Q2', 'Q3']);
+    expect(result.cards).toEqual(received);
+    expect(received[1].tags).toEqual(['t']);
+    expect(result.usage).toMatchObject({ promptTokens: 10, completionTokens: 20, totalTokens: 30 });
+  });
+
+  it('should keep generated cards when cancelled midway', async () => {
+    const controller = new AbortController();
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => streamResponse(sseChunks(CARDS_JSON), init.signal!)));
+
+    const service = new OpenAIService('sk-test', 'gpt-4o-mini');
+    const result = await service.generateCardsStream('材料', config, {
+      signal: controller.signal,
+      onCard: () => controller.abort()
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.cancelled).toBe(true);
+    expect(result.cards?.map(card => card.front)).toEqual(['什么是 {x}?']);
+  });
+
+  it('should fall back to a normal request when the stream fails before any output', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+    mockedRequestUrl.mockResolvedValue({
+      json: { choices: [{ message: { content: CARDS_JSON } }], usage: { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3 } }
+    } as any);
+
+    const received: GeneratedCard[] = [];
+    const result = await new OpenAIService('sk-test', 'gpt-4o-mini').generateCardsStream('材料', config, {
+      onCard: card => received.push(card)
+    });
+
+    expect(mockedRequestUrl).toHaveBeenCalledTimes(1);
+    expect(result.success).toBe(true);
+    expect(received.map(card => card.front)).toEqual(['什么是 {x}?', 'Q2', 'Q3']);
+    expect(result.cards).toEqual(received);
+  });
+
+  it('should surface HTTP errors with the status code when the fallback fails too', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('invalid key', { status: 401 })));
+    mockedRequestUrl.mockRejectedValue(new Error('Request failed, status 401'));
+
+    const result = await new OpenAIService('bad', 'gpt-4o-mini').generateCardsStream('材料', config, {});
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('401');
+    expect(result.cards ?? []).toEqual([]);
+  });
+
+  it('should stream Ollama native responses line by line', async () => {
+    const lines = slices(CARDS_JSON, 9).map(part => JSON.stringify({ message: { content: part }, done: false }) + '\n');
+    lines.push(JSON.stringify({ message: { content: '' }, done: true, prompt_eval_count: 4, eval_count: 6 }) + '\n');
+    const fetchMock = vi.fn(async () => streamResponse(slices(lines.join(''), 11)));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const service = new LocalLLMService('', 'qwen2.5:7b', { apiFormat: 'ollama' });
+    const result = await service.generateCardsStream('材料', config, {});
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:11434/api/chat');
+    expect(JSON.parse(init.body as string)).toMatchObject({ stream: true, format: 'json' });
+    expect(result.cards).toHaveLength(3);
+    expect(result.cards?.[0].metadata.provider).toBe('local');
+    expect(result.usage).toEqual({ promptTokens: 4, completionTokens: 6, totalTokens: 10, estimatedCost: 0 });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * 文字转语音测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createTtsFieldResolver,
+  getCardSideContents,
+  getTtsSegments,
+  pickTtsVoice,
+  renderTtsButtons,
+  resolveTtsSettings
+} from '../audio/TextToSpeechService';
+import { ankiTtsTagsToMarkers, ttsMarkersToAnkiTags } from '../../utils/tts-markers';
+import { ContentConverter } from '../../domain/apkg/converter/ContentConverter';
+import { CardType } from '../../data/types';
+import type { Card } from '../../data/types';
+import type { ParseTemplate } from '../../types/newCardParsingTypes';
+
+const template = {
+  id: 't1',
+  fields: [{ name: 'Word', key: 'word' }, { name: 'Meaning', key: 'meaning' }],
+  tts: { lang: 'en-US' }
+} as unknown as ParseTemplate;
+
+function makeCard(content: string, fields: Record<string, string> = {}): Card {
+  return { id: 'c1', type: CardType.Basic, templateId: 't1', content, fields } as Card;
+}
+
+describe('TextToSpeechService', () => {
+  it('should read field markers per side and speak unknown arguments literally', () => {
+    const card = makeCard('{{tts:Word}} **apple**\n---div---\n{{tts zh_CN:苹果}}', { word: '**apple**' });
+    const settings = resolveTtsSettings(template);
+    const sides = getCardSideContents(card, template);
+    const resolveField = createTtsFieldResolver(card, template);
+
+    expect(getTtsSegments(sides.front, settings, resolveField)).toEqual([{ text: 'apple', lang: 'en-US' }]);
+    expect(getTtsSegments(sides.back, settings, resolveField)).toEqual([{ text: '苹果', lang: 'zh-CN' }]);
+  });
+
+  it('should render markers as speaker buttons with escaped attributes', () => {
+    const html = renderTtsButtons('Q {{tts:"a" < b}}', resolveTtsSettings(template));
+    expect(html).toContain('class="tuanki-tts-button"');
+    expect(html).toContain('data-tts-text="&quot;a&quot; &lt; b"');
+    expect(html).toContain('data-tts-lang="en-US"');
+    expect(html.startsWith('Q ')).toBe(true);
+  });
+
+  it('should prefer the named voice, then local voices of the same language', () => {
+    const voices = [
+      { name: 'Online US', voiceURI: 'online-us', lang: 'en-US', localService: false },
+      { name: 'Local US', voiceURI: 'local-us', lang: 'en_US', localService: true },
+      { name: 'Local GB', voiceURI: 'local-gb', lang: 'en-GB', localService: true },
+      { name: 'Mei', voiceURI: 'mei', lang: 'zh-CN', localService: true }
+    ];
+
+    expect(pickTtsVoice(voices, 'en-US', '')?.name).toBe('Local US');
+    expect(pickTtsVoice(voices, 'en-AU', '')?.name).toBe('Local US');
+    expect(pickTtsVoice(voices, 'en-US', 'Local GB')?.name).toBe('Local GB');
+    // 标记指定了其他语言时不使用模板的声音
+    expect(pickTtsVoice(voices, 'zh-CN', 'Local GB')?.name).toBe('Mei');
+    expect(pickTtsVoice(voices, '', '')).toBeUndefined();
+  });
+
+  it('should convert Anki sound and tts tags to embeds and markers and back', () => {
+    const converter = new ContentConverter();
+    const { markdown, mediaRefs } = converter.convert('[anki:tts lang=en_US voices=Apple_Samantha]Hello[/anki:tts] [sound:hello.mp3]');
+    const imported = converter.replaceMediaPlaceholders(markdown, mediaRefs, new Map());
+
+    expect(imported).toContain('{{tts en-US:Hello}}');
+    expect(imported).toContain('![[hello.mp3]]');
+    expect(ankiTtsTagsToMarkers('[anki:tts]Hi[/anki:tts]')).toBe('{{tts:Hi}}');
+
+    const exported = ttsMarkersToAnkiTags('{{tts en-US:Hello}} {{tts:Word}}', name => (name === 'Word' ? 'apple' : undefined));
+    expect(exported).toBe('[anki:tts lang=en_US]Hello[/anki:tts] [anki:tts]apple[/anki:tts]');
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Tuanki 模板导出测试：卡片类型 → Anki 卡片模板
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TuankiTemplateExporter } from '../ankiconnect/TuankiTemplateExporter';
+import type { ParseTemplate } from '../../types/newCardParsingTypes';
+
+const vocabTemplate: ParseTemplate = {
+  id: 'vocab',
+  name: '单词',
+  type: 'single-field',
+  fields: [
+    { name: 'word', pattern: 'Word', isRegex: false },
+    { name: 'meaning', pattern: 'Meaning', isRegex: false },
+    { name: 'audio', pattern: '', isRegex: false }
+  ],
+  scenarios: [],
+  cardTypes: [
+    { id: 'forward', name: '单词→释义', frontFields: ['word'], backFields: ['meaning'] },
+    { id: 'reverse', name: '释义→单词', frontFields: ['meaning'], backFields: ['word'] },
+    { id: 'audio', name: '发音→单词', frontFields: ['audio'], backFields: ['word', 'meaning'] }
+  ]
+};
+
+describe('TuankiTemplateExporter', () => {
+  const exporter = new TuankiTemplateExporter({} as any, {} as any);
+
+  it('should export one Anki card template per card type', () => {
+    const definition = exporter.buildModelDefinition(vocabTemplate);
+
+    expect(definition.inOrderFields).toEqual(['Word', 'Meaning', 'audio', 'tuanki_template_id', 'tuanki_card_id']);
+    expect(definition.cardTemplates.map(tmpl => tmpl.Name)).toEqual(['单词→释义', '释义→单词', '发音→单词']);
+    expect(definition.cardTemplates[1]).toEqual({
+      Name: '释义→单词',
+      Front: '<div class="question">{{Meaning}}</div>',
+      Back: '<div class="question">{{Meaning}}</div>\n<div class="answer">{{Word}}</div>'
+    });
+    expect(definition.cardTemplates[2].Back).toBe(
+      '<div class="question">{{audio}}</div>\n<div class="answer">{{Word}}</div>\n<div class="answer">{{Meaning}}</div>'
+    );
+  });
+
+  it('should keep a single card template when no card types are defined', () => {
+    const { cardTypes, ...template } = vocabTemplate;
+    expect(exporter.generateCardTemplates(template).map(tmpl => tmpl.Name)).toEqual(['Card 1']);
+  });
+});
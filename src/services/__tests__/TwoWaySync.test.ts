@@ -0,0 +1,234 @@
+// @vitest-environment node
+/**
+ * 双向同步测试（三方合并 + 模拟 AnkiConnect 后端）
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+let idCounter = 0;
+vi.mock('../../utils/helpers', () => ({
+  generateId: () => `id-${++idCounter}`,
+  generateUUID: () => `tk-${++idCounter}`
+}));
+
+import { AnkiConnectClient } from '../ankiconnect/AnkiConnectClient';
+import { CardExporter } from '../ankiconnect/CardExporter';
+import { CardImporter } from '../ankiconnect/CardImporter';
+import { TuankiTemplateExporter } from '../ankiconnect/TuankiTemplateExporter';
+import { AnkiTemplateConverter } from '../ankiconnect/AnkiTemplateConverter';
+import { MediaSyncService } from '../ankiconnect/MediaSyncService';
+import { TwoWaySyncService } from '../ankiconnect/TwoWaySyncService';
+import { planFieldMerge, mergeTags } from '../ankiconnect/ThreeWayMerge';
+import { FakeAnkiConnectBackend } from '../ankiconnect/transport/FakeAnkiConnectBackend';
+import { FakeAnkiConnectTransport } from '../ankiconnect/transport/FakeAnkiConnectTransport';
+import type { DeckSyncMapping } from '../../components/settings/types/settings-types';
+import type { Card } from '../../data/types';
+import { CardState, CardType } from '../../data/types';
+import { createAnkiConnectPlugin } from './test-plugin';
+
+const identity = (html: string) => html;
+
+function tuankiCard(id: string, front: string, back: string, tags: string[]): Card {
+  return {
+    id,
+    uuid: `tk-${id}`,
+    deckId: 'deck-1',
+    templateId: 'official-qa',
+    type: CardType.Basic,
+    content: `${front}\n\n---div---\n\n${back}`,
+    fields: { front, back },
+    fsrs: {
+      due: '2025-01-01T00:00:00.000Z',
+      stability: 0,
+      difficulty: 0,
+      elapsedDays: 0,
+      scheduledDays: 0,
+      reps: 0,
+      lapses: 0,
+      state: CardState.New,
+      retrievability: 1
+    },
+    reviewHistory: [],
+    stats: { totalReviews: 0, totalTime: 0, averageTime: 0, memoryRate: 0 },
+    tags,
+    created: '2025-01-01T00:00:00.000Z',
+    modified: '2025-01-01T00:00:00.000Z'
+  } as Card;
+}
+
+describe('ThreeWayMerge', () => {
+  const bindings = [{ ankiField: 'Front', cardKey: 'front' }, { ankiField: 'Back', cardKey: 'back' }];
+  const snapshot = { tuankiFields: { front: 'Q', back: 'A' }, ankiFields: { Front: 'Q', Back: 'A' }, tags: [] };
+
+  it('should plan push, pull and conflict per field against the snapshot', () => {
+    const decisions = planFieldMerge({
+      bindings,
+      tuankiFields: { front: 'Q2', back: 'A2' },
+      ankiFields: { Front: 'Q', Back: 'A3' },
+      snapshot,
+      toMarkdown: identity
+    });
+    expect(decisions.map(d => d.action)).toEqual(['push', 'conflict']);
+
+    const pulled = planFieldMerge({
+      bindings,
+      tuankiFields: { front: 'Q', back: 'A' },
+      ankiFields: { Front: 'Q', Back: 'A3' },
+      snapshot,
+      toMarkdown: identity
+    });
+    expect(pulled.map(d => d.action)).toEqual(['unchanged', 'pull']);
+  });
+
+  it('should treat identical edits on both sides as unchanged', () => {
+    const decisions = planFieldMerge({
+      bindings,
+      tuankiFields: { front: 'Same', back: 'A' },
+      ankiFields: { Front: '<b>Same</b>', Back: 'A' },
+      snapshot,
+      toMarkdown: html => html.replace(/<\/?b>/g, '')
+    });
+    expect(decisions[0].action).toBe('unchanged');
+  });
+
+  it('should merge tags three-way', () => {
+    expect(mergeTags(['a', 'b'], ['a', 'b', 'c'], ['b', 'd']).sort()).toEqual(['b', 'c', 'd']);
+    expect(mergeTags(undefined, ['a'], ['b']).sort()).toEqual(['a', 'b']);
+  });
+});
+
+describe('TwoWaySyncService with fake backend', () => {
+  let clock: number;
+  let backend: FakeAnkiConnectBackend;
+  let client: AnkiConnectClient;
+  const deckMapping: DeckSyncMapping = {
+    tuankiDeckId: 'deck-1',
+    tuankiDeckName: 'Deck 1',
+    ankiDeckName: 'Tuanki::Sync',
+    syncDirection: 'bidirectional',
+    enabled: true
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    clock = new Date(2025, 2, 1, 12, 0).getTime();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(clock);
+    backend = new FakeAnkiConnectBackend({ now: () => Date.now() });
+    client = new AnkiConnectClient(undefined, new FakeAnkiConnectTransport(backend));
+    return () => vi.useRealTimers();
+  });
+
+  function createService(plugin: any) {
+    const exporter = new CardExporter(plugin, client, new TuankiTemplateExporter(plugin, client));
+    const importer = new CardImporter(plugin, client, new AnkiTemplateConverter(plugin));
+    const media = new MediaSyncService(plugin.app, client, { largeFileThresholdMB: 10, createBacklinks: false, supportedTypes: [] } as any);
+    return new TwoWaySyncService(plugin, client, exporter, importer, media);
+  }
+
+  function advance(ms: number) {
+    clock += ms;
+    vi.setSystemTime(clock);
+  }
+
+  it('should push, pull and resolve conflicts field by field', async () => {
+    const deckCards: Record<string, Card[]> = {
+      'deck-1': [
+        tuankiCard('c1', 'Capital of France', 'Paris', ['geo']),
+        tuankiCard('c2', 'Capital of Italy', 'Rome', ['geo'])
+      ]
+    };
+    const { plugin } = createAnkiConnectPlugin(deckCards);
+    const service = createService(plugin);
+
+    const first = await service.syncDeck(deckMapping);
+    expect(first.errors).toEqual([]);
+    expect(first.exportedCards).toBe(2);
+
+    const [franceId, italyId] = await client.findNotesByDeck('Tuanki::Sync');
+    const [frontField, backField] = Object.keys(backend.getNoteFields(franceId)!);
+
+    // Tuanki 修改法国卡片背面；Anki 修改法国卡片正面并加标签，意大利卡片两侧都改背面
+    advance(60_000);
+    const [france, italy] = deckCards['deck-1'];
+    france.fields = { ...france.fields, back: 'Paris, France' };
+    france.modified = new Date().toISOString();
+    italy.fields = { ...italy.fields, back: 'Roma' };
+    italy.modified = new Date().toISOString();
+    await client.updateNoteFields(franceId, { [frontField]: 'Capital city of France' });
+    await client.updateNoteTags(franceId, ['geo', 'europe']);
+    await client.updateNoteFields(italyId, { [backField]: 'Rome, Italy' });
+
+    // 新笔记直接在 Anki 中创建
+    await client.addNote({
+      deckName: 'Tuanki::Sync',
+      modelName: backend.handle('notesInfo', { notes: [franceId] })[0].modelName,
+      fields: { [frontField]: 'Capital of Spain', [backField]: 'Madrid' },
+      tags: []
+    });
+
+    advance(60_000);
+    const resolveConflicts = vi.fn(async () => ({ c2: { [backField]: 'anki' as const } }));
+    const second = await service.syncDeck(deckMapping, { resolveConflicts });
+
+    expect(second.errors).toEqual([]);
+    expect(resolveConflicts).toHaveBeenCalledTimes(1);
+    expect((resolveConflicts.mock.calls[0] as any)[0]).toEqual([
+      expect.objectContaining({ cardId: 'c2', fields: [expect.objectContaining({ ankiField: backField })] })
+    ]);
+    expect(second.resolvedConflicts).toBe(1);
+    expect(second.conflicts).toEqual([]);
+    expect(second.importedCards).toBe(1);
+
+    const cards = deckCards['deck-1'];
+    const syncedFrance = cards.find(card => card.id === 'c1')!;
+    expect(syncedFrance.fields?.front).toBe('Capital city of France');
+    expect(syncedFrance.content).toContain('Capital city of France');
+    expect(syncedFrance.tags).toEqual(expect.arrayContaining(['geo', 'europe']));
+    expect(backend.getNoteFields(franceId)![backField]).toContain('Paris, France');
+    expect(cards.find(card => card.id === 'c2')!.fields?.back).toBe('Rome, Italy');
+    expect(cards).toHaveLength(3);
+
+    // 再次同步时没有任何变化
+    const third = await service.syncDeck(deckMapping);
+    expect([third.pushedNotes, third.pulledCards, third.exportedCards, third.importedCards]).toEqual([0, 0, 0, 0]);
+  });
+
+  it('should keep unresolved conflicts and replay Anki reviews', async () => {
+    const deckCards: Record<string, Card[]> = { 'deck-1': [tuankiCard('c1', 'Q', 'A', [])] };
+    const { plugin } = createAnkiConnectPlugin(deckCards);
+    const service = createService(plugin);
+    await service.syncDeck(deckMapping);
+
+    const [noteId] = await client.findNotesByDeck('Tuanki::Sync');
+    const backField = Object.keys(backend.getNoteFields(noteId)!)[1];
+
+    advance(60_000);
+    const card = deckCards['deck-1'][0];
+    card.fields = { ...card.fields, back: 'A local' };
+    card.modified = new Date().toISOString();
+    await client.updateNoteFields(noteId, { [backField]: 'A anki' });
+    backend.addReview(noteId, { id: clock - 1000, ease: 3, ivl: 1, lastIvl: 0, factor: 2500, time: 4000, type: 0 });
+    backend.addReview(noteId, { id: clock - 500, ease: 0, ivl: 0, lastIvl: 1, factor: 2500, time: 0, type: 4 });
+
+    advance(60_000);
+    const result = await service.syncDeck(deckMapping, { resolveConflicts: async () => null });
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.errors).toEqual([]);
+    expect(result.syncedReviews).toBe(1);
+
+    const synced = deckCards['deck-1'][0];
+    expect(synced.fields?.back).toBe('A local');
+    expect(backend.getNoteFields(noteId)![backField]).toBe('A anki');
+    expect(synced.reviewHistory).toHaveLength(1);
+    expect(synced.fsrs.reps).toBe(1);
+    expect(synced.stats.totalReviews).toBe(1);
+
+    // 冲突保留到下次同步，已同步的复习记录不会重复应用
+    const again = await service.syncDeck(deckMapping);
+    expect(again.conflicts).toHaveLength(1);
+    expect(again.syncedReviews).toBe(0);
+  });
+});
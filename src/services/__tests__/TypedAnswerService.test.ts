@@ -0,0 +1,74 @@
+/**
+ * 输入答案比对测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compareTypedAnswer,
+  getExpectedAnswer,
+  resolveTypedAnswerSettings
+} from '../typed-answer/TypedAnswerService';
+import { CardType, Rating } from '../../data/types';
+import type { Card } from '../../data/types';
+
+const settings = resolveTypedAnswerSettings({ enabled: true });
+
+function makeCard(content: string, extra: Partial<Card> = {}): Card {
+  return { id: 'c1', type: CardType.Basic, content, fields: {}, ...extra } as Card;
+}
+
+describe('TypedAnswerService', () => {
+  it('should ignore case and punctuation by default and suggest Good for an exact match', () => {
+    const result = compareTypedAnswer('paris', 'Paris.', settings);
+    expect(result.exact).toBe(true);
+    expect(result.similarity).toBe(1);
+    expect(result.suggestedRating).toBe(Rating.Good);
+    expect(result.expected).toEqual([
+      { text: 'Paris', status: 'correct' },
+      { text: '.', status: 'ignored' }
+    ]);
+
+    const strict = resolveTypedAnswerSettings({ enabled: true, ignoreCase: false }, { ignorePunctuation: false });
+    expect(compareTypedAnswer('paris', 'Paris.', strict).exact).toBe(false);
+  });
+
+  it('should mark wrong and missing characters and suggest a rating from the similarity', () => {
+    const result = compareTypedAnswer('photosynthsis', 'photosynthesis', settings);
+    expect(result.typed).toEqual([{ text: 'photosynthsis', status: 'correct' }]);
+    expect(result.expected).toEqual([
+      { text: 'photosynth', status: 'correct' },
+      { text: 'e', status: 'missing' },
+      { text: 'sis', status: 'correct' }
+    ]);
+    expect(result.suggestedRating).toBe(Rating.Hard);
+
+    expect(compareTypedAnswer('cat', 'photosynthesis', settings).suggestedRating).toBe(Rating.Again);
+  });
+
+  it('should compare words and optionally ignore accents', () => {
+    const words = resolveTypedAnswerSettings({ enabled: true, granularity: 'word' });
+    const result = compareTypedAnswer('the cafe is open', 'the café is closed', words);
+    expect(result.typed.filter(s => s.status === 'wrong').map(s => s.text)).toEqual(['cafe', 'open']);
+    expect(result.expected.filter(s => s.status === 'missing').map(s => s.text)).toEqual(['café', 'closed']);
+
+    const accents = resolveTypedAnswerSettings({ ...words, ignoreAccents: true });
+    expect(compareTypedAnswer('the cafe is closed', 'the café is closed', accents).exact).toBe(true);
+  });
+
+  it('should pick the expected answer from the back side, answer field or cloze', () => {
+    expect(getExpectedAnswer(makeCard('法国首都？\n\n---div---\n\n**巴黎**'))).toBe('巴黎');
+
+    const template = {
+      id: 'vocab',
+      fields: [{ name: 'word', pattern: 'word', isRegex: false }, { name: 'meaning', pattern: 'meaning', isRegex: false }],
+      cardTypes: [{ id: 'reverse', name: '释义→单词', frontFields: ['meaning'], backFields: ['word'] }]
+    } as any;
+    const vocab = makeCard('', { fields: { word: 'apple', meaning: '苹果' }, cardTypeId: 'reverse' });
+    expect(getExpectedAnswer(vocab, template)).toBe('apple');
+    expect(getExpectedAnswer(vocab, { ...template, typedAnswer: { answerField: 'meaning' } })).toBe('苹果');
+
+    const cloze = makeCard('==氧气== 和 {{c2::葡萄糖::糖}} 以及 ==水==', { type: CardType.Cloze });
+    expect(getExpectedAnswer(cloze)).toBe('氧气, 葡萄糖, 水');
+    expect(getExpectedAnswer({ ...cloze, clozeOrdinal: 2 })).toBe('葡萄糖, 水');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * 自定义学习队列测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../utils/helpers', () => ({
+  getCardContentBySide: () => ''
+}));
+
+import { buildCustomStudyQueue } from '../custom-study-service';
+
+const NOW = Date.parse('2025-03-01T12:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+function makeCard(id: string, deckId: string, fsrs: Record<string, unknown>, extra: Record<string, unknown> = {}) {
+  return { id, deckId, created: '2025-01-01T00:00:00Z', fsrs, ...extra } as any;
+}
+
+const filter = {
+  id: 'f1',
+  name: '数学',
+  config: {
+    globalLogic: 'AND',
+    groups: [{
+      id: 'g1',
+      logic: 'AND',
+      conditions: [{ id: 'c1', field: 'deck', operator: 'equals', value: 'math', enabled: true }]
+    }]
+  }
+} as any;
+
+const cards = [
+  makeCard('late', 'math', { due: new Date(NOW + 3 * DAY).toISOString(), stability: 10, difficulty: 3, lastReview: new Date(NOW - DAY).toISOString() }),
+  makeCard('early', 'math', { due: new Date(NOW - 2 * DAY).toISOString(), stability: 2, difficulty: 8, lastReview: new Date(NOW - 10 * DAY).toISOString() }),
+  makeCard('mid', 'math', { due: new Date(NOW).toISOString(), stability: 5, difficulty: 5, lastReview: new Date(NOW - 5 * DAY).toISOString() }),
+  makeCard('other-deck', 'english', { due: new Date(NOW - 5 * DAY).toISOString(), stability: 1, difficulty: 9 }),
+  makeCard('suspended', 'math', { due: new Date(NOW - 9 * DAY).toISOString(), stability: 1, difficulty: 9 }, { suspended: true })
+];
+
+describe('buildCustomStudyQueue', () => {
+  it('should apply the saved filter, skip suspended cards and sort by due date', () => {
+    const ids = buildCustomStudyQueue(cards, filter, { limit: 50, order: 'due', cram: false }, undefined, NOW);
+    expect(ids).toEqual(['early', 'mid', 'late']);
+  });
+
+  it('should include cards the filtered deck only references', () => {
+    const referenced = makeCard('referenced', 'english', { due: new Date(NOW - DAY).toISOString(), stability: 3, difficulty: 5 }, { deckIds: ['english', 'math'] });
+    expect(buildCustomStudyQueue([...cards, referenced], filter, { limit: 50, order: 'due', cram: false }, undefined, NOW))
+      .toEqual(['early', 'referenced', 'mid', 'late']);
+  });
+
+  it('should order by retrievability or difficulty and respect the limit', () => {
+    expect(buildCustomStudyQueue(cards, filter, { limit: 2, order: 'retrievability', cram: true }, undefined, NOW))
+      .toEqual(['early', 'mid']);
+    expect(buildCustomStudyQueue(cards, filter, { limit: 1, order: 'difficulty', cram: false }, undefined, NOW))
+      .toEqual(['early']);
+  });
+});
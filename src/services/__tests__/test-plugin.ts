@@ -0,0 +1,62 @@
+/**
+ * 服务测试共用的插件桩：内存 vault（文本/二进制文件）、元数据缓存和按牌组保存卡片的存储
+ */
+
+import { vi } from 'vitest';
+import { TFile } from 'obsidian';
+import type { Card } from '../../data/types';
+
+/**
+ * 按路径构造 TFile（Obsidian 的 TFile 构造函数不接受参数）
+ */
+export function createTFile(path: string): TFile {
+  const name = path.split('/').pop() ?? path;
+  const dot = name.lastIndexOf('.');
+  return Object.assign(new TFile(), {
+    path,
+    name,
+    basename: dot > 0 ? name.slice(0, dot) : name,
+    extension: dot > 0 ? name.slice(dot + 1) : ''
+  });
+}
+
+/**
+ * AnkiConnect 同步用的插件桩
+ *
+ * @param deckCards 牌组ID → 卡片，saveDeckCards 直接写回该对象
+ * @param files vault 中的文件（路径 → 内容），写入的文件也保存在这里
+ */
+export function createAnkiConnectPlugin(
+  deckCards: Record<string, Card[]>,
+  files: Map<string, ArrayBuffer | string> = new Map()
+) {
+  const plugin = {
+    manifest: { dir: '.obsidian/plugins/tuanki' },
+    settings: { simplifiedParsing: { templates: [] as any[] }, ankiConnect: {} as any },
+    saveSettings: vi.fn(async () => {}),
+    app: {
+      vault: {
+        getName: () => 'TestVault',
+        getAbstractFileByPath: (path: string) => (files.has(path) ? createTFile(path) : null),
+        readBinary: async (file: TFile) => files.get(file.path) as ArrayBuffer,
+        createFolder: async () => {},
+        adapter: {
+          exists: async (path: string) => files.has(path),
+          read: async (path: string) => String(files.get(path)),
+          write: async (path: string, data: string) => { files.set(path, data); },
+          writeBinary: async (path: string, data: ArrayBuffer) => { files.set(path, data); }
+        }
+      },
+      metadataCache: {
+        getFirstLinkpathDest: (link: string) =>
+          Array.from(files.keys()).filter(path => path.endsWith(`/${link}`)).map(createTFile)[0] ?? null
+      }
+    },
+    dataStorage: {
+      getAllDecks: async () => Object.keys(deckCards).map(id => ({ id, name: id })),
+      getCardsByDeck: async (deckId: string) => deckCards[deckId] ?? [],
+      saveDeckCards: async (deckId: string, cards: Card[]) => { deckCards[deckId] = cards; }
+    }
+  };
+  return { plugin: plugin as any, files };
+}
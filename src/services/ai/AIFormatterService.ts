@@ -65,7 +65,7 @@ export class AIFormatterService {
       
       // 检查API密钥
       const providerConfig = aiConfig.apiKeys[provider];
-      if (!providerConfig || !providerConfig.apiKey) {
+      if (!providerConfig || !AIServiceFactory.isProviderConfigured(provider, plugin)) {
         return {
           success: false,
           originalContent: card.content || '',
@@ -152,7 +152,7 @@ export class AIFormatterService {
       
       const providerConfig = aiConfig.apiKeys[provider];
       
-      if (!providerConfig || !providerConfig.apiKey) {
+      if (!providerConfig || !AIServiceFactory.isProviderConfigured(provider, plugin)) {
         return {
           success: false,
           error: `格式化AI提供商"${provider}"未配置API密钥，请在设置中配置`
@@ -8,6 +8,7 @@ import { DeepSeekService } from './DeepSeekService';
 import { GeminiService } from './GeminiService';
 import { AnthropicService } from './AnthropicService';
 import { SiliconFlowService } from './SiliconFlowService';
+import { LocalLLMService } from './LocalLLMService';
 import type { AIProvider } from '../../types/ai-types';
 import type { IAIService } from '../../types/ai-types';
 import type AnkiPlugin from '../../main';
@@ -28,7 +29,7 @@ export class AIServiceFactory {
 
     const providerConfig = aiConfig.apiKeys[provider];
 
-    if (!providerConfig || !providerConfig.apiKey) {
+    if (!providerConfig || !this.isProviderConfigured(provider, plugin)) {
       throw new Error(`${provider} API密钥未配置`);
     }
 
@@ -69,11 +70,41 @@ export class AIServiceFactory {
           providerConfig.model
         );
 
+      case 'local': {
+        const localConfig = aiConfig.apiKeys.local;
+        return new LocalLLMService(
+          providerConfig.apiKey,
+          providerConfig.model,
+          {
+            baseUrl: localConfig?.baseUrl,
+            apiFormat: localConfig?.apiFormat
+          }
+        );
+      }
+
       default:
         throw new Error(`不支持的AI服务提供商: ${provider}`);
     }
   }
 
+  /**
+   * 检查提供商是否已配置
+   * 托管服务需要API密钥；本地模型只需服务地址和模型
+   */
+  static isProviderConfigured(provider: AIProvider, plugin: AnkiPlugin): boolean {
+    const providerConfig = plugin.settings.aiConfig?.apiKeys[provider];
+
+    if (!providerConfig) {
+      return false;
+    }
+
+    if (provider === 'local') {
+      return Boolean(plugin.settings.aiConfig?.apiKeys.local?.baseUrl && providerConfig.model);
+    }
+
+    return Boolean(providerConfig.apiKey);
+  }
+
   /**
    * 获取默认服务实例
    */
@@ -0,0 +1,267 @@
+/**
+ * AI卡片质量审查
+ *
+ * 生成结果进入预览前的第二轮检查：
+ * - 规则检查：答案泄露、选择题缺少 {✓} 标记、与目标牌组或同批卡片重复、明显的多知识点
+ * - AI 审查（可选）：原子性、歧义评分，并给出改写建议
+ * AI 调用失败时只保留规则检查的结果，不影响预览和导入。
+ */
+
+import type { AIService } from './AIService';
+import type { Card } from '../../data/types';
+import type { CardQualityIssue, CardQualityReview, GeneratedCard } from '../../types/ai-types';
+import { IncrementalCardParser } from './IncrementalCardParser';
+import { MAIN_SEPARATOR } from '../../constants/markdown-delimiters';
+
+/** 判定为重复的相似度阈值 */
+const DUPLICATE_THRESHOLD = 0.85;
+/** 每次 AI 审查的卡片数 */
+const AI_REVIEW_BATCH_SIZE = 10;
+/** 低于此分数的卡片视为需要关注 */
+export const QUALITY_PASS_SCORE = 70;
+
+const SEVERITY_PENALTY: Record<CardQualityIssue['severity'], number> = {
+  error: 40,
+  warning: 20
+};
+
+export interface CardQualityReviewOptions {
+  /** 目标牌组中的已有卡片，用于重复检测 */
+  existingCards?: Card[];
+  /** 提供时进行 AI 语义审查 */
+  aiService?: Pick<AIService, 'chat'>;
+}
+
+/**
+ * AI 返回的单张卡片审查结果
+ */
+interface AIReviewItem {
+  index: number;
+  atomicity?: number;
+  clarity?: number;
+  issues?: Array<{ type?: string; message?: string }>;
+  rewrite?: { front?: string; back?: string } | null;
+}
+
+export class CardQualityReviewer {
+  /**
+   * 审查一批卡片，返回以卡片ID为键的审查结果
+   */
+  async review(cards: GeneratedCard[], options: CardQualityReviewOptions = {}): Promise<Record<string, CardQualityReview>> {
+    const existingFronts = (options.existingCards ?? []).map(card => normalizeText(getCardFront(card)));
+    const reviews: Record<string, CardQualityReview> = {};
+    const seenFronts: string[] = [];
+
+    for (const card of cards) {
+      const issues = this.checkRules(card, existingFronts, seenFronts);
+      seenFronts.push(normalizeText(card.front));
+      reviews[card.id] = {
+        cardId: card.id,
+        score: 100,
+        issues,
+        suggestion: this.suggestChoiceMarker(card),
+        aiReviewed: false
+      };
+    }
+
+    if (options.aiService) {
+      for (let start = 0; start < cards.length; start += AI_REVIEW_BATCH_SIZE) {
+        const batch = cards.slice(start, start + AI_REVIEW_BATCH_SIZE);
+        const items = await this.requestAIReview(batch, options.aiService);
+        this.mergeAIReview(batch, items, reviews);
+      }
+    }
+
+    for (const review of Object.values(reviews)) {
+      const penalty = review.issues.reduce((sum, issue) => sum + SEVERITY_PENALTY[issue.severity], 0);
+      review.score = Math.max(0, Math.min(review.score, 100 - penalty));
+    }
+
+    return reviews;
+  }
+
+  /**
+   * 规则检查
+   */
+  private checkRules(card: GeneratedCard, existingFronts: string[], seenFronts: string[]): CardQualityIssue[] {
+    const issues: CardQualityIssue[] = [];
+    const front = normalizeText(card.front);
+    const back = normalizeText(card.back);
+
+    // 答案泄露：问答题的答案原文出现在问题中
+    if (card.type === 'qa' && back.length >= 2 && front.includes(back)) {
+      issues.push({ type: 'answer-leakage', severity: 'error', message: '问题中包含了答案原文' });
+    }
+
+    // 选择题必须标记正确答案
+    if (card.type === 'choice' && !card.front.includes('{✓}') && !card.back.includes('{✓}')) {
+      issues.push({ type: 'missing-choice-marker', severity: 'error', message: '选择题缺少 {✓} 正确答案标记' });
+    }
+
+    // 重复检测
+    const existingMatch = bestMatch(front, existingFronts);
+    if (existingMatch >= DUPLICATE_THRESHOLD) {
+      issues.push({
+        type: 'duplicate',
+        severity: 'warning',
+        message: `与目标牌组中已有卡片相似（${Math.round(existingMatch * 100)}%）`
+      });
+    } else if (bestMatch(front, seenFronts) >= DUPLICATE_THRESHOLD) {
+      issues.push({ type: 'duplicate', severity: 'warning', message: '与本批生成的其他卡片重复' });
+    }
+
+    // 多知识点：问题中有多个问句，或答案是较长的列表
+    const questionCount = (card.front.match(/[?？]/g) ?? []).length;
+    const listItems = card.back.split('\n').filter(line => /^\s*(?:[-*+]|\d+[.、)])\s+/.test(line)).length;
+    if (card.type === 'qa' && (questionCount > 1 || listItems >= 5)) {
+      issues.push({ type: 'atomicity', severity: 'warning', message: '一张卡片包含多个知识点，建议拆分' });
+    }
+
+    return issues;
+  }
+
+  /**
+   * 选择题缺少 {✓} 时，根据 correctAnswer 补全标记
+   */
+  private suggestChoiceMarker(card: GeneratedCard): CardQualityReview['suggestion'] {
+    if (card.type !== 'choice' || typeof card.correctAnswer !== 'number') return undefined;
+    if (card.front.includes('{✓}') || card.back.includes('{✓}')) return undefined;
+
+    const lines = card.front.split('\n');
+    const optionLineIndexes = lines
+      .map((line, index) => (/^\s*[A-Z][).．、]/.test(line) ? index : -1))
+      .filter(index => index >= 0);
+    const target = optionLineIndexes[card.correctAnswer];
+    if (target === undefined) return undefined;
+
+    lines[target] = `${lines[target].trimEnd()} {✓}`;
+    return { front: lines.join('\n'), back: card.back };
+  }
+
+  /**
+   * 调用 AI 审查一批卡片；失败时返回空结果
+   */
+  private async requestAIReview(cards: GeneratedCard[], aiService: Pick<AIService, 'chat'>): Promise<AIReviewItem[]> {
+    const cardList = cards.map((card, index) => JSON.stringify({
+      index,
+      type: card.type,
+      front: card.front,
+      back: card.back
+    })).join('\n');
+
+    try {
+      const response = await aiService.chat({
+        messages: [
+          {
+            role: 'system',
+            content: `你是间隔重复学习卡片的质量审查员。逐张评估卡片：
+- atomicity：0-10，10 表示只考察一个知识点
+- clarity：0-10，10 表示问题表述清晰、答案唯一
+- issues：发现的问题，type 取 atomicity / ambiguity / answer-leakage 之一
+- rewrite：存在问题时给出改写后的 front 和 back（保持原卡片类型和格式，选择题保留 {✓} 标记），没有问题时为 null
+
+只输出 JSON：{"reviews":[{"index":0,"atomicity":8,"clarity":9,"issues":[{"type":"ambiguity","message":"..."}],"rewrite":null}]}`
+          },
+          { role: 'user', content: `请审查以下卡片（每行一张）：\n${cardList}` }
+        ],
+        temperature: 0.2,
+        maxTokens: 3000
+      });
+
+      if (!response.success || !response.content) {
+        console.warn('[CardQualityReviewer] AI审查失败:', response.error);
+        return [];
+      }
+
+      return new IncrementalCardParser().push(response.content);
+    } catch (error) {
+      console.warn('[CardQualityReviewer] AI审查失败:', error);
+      return [];
+    }
+  }
+
+  private mergeAIReview(cards: GeneratedCard[], items: AIReviewItem[], reviews: Record<string, CardQualityReview>): void {
+    for (const item of items) {
+      const card = cards[item.index];
+      if (!card) continue;
+
+      const review = reviews[card.id];
+      review.aiReviewed = true;
+
+      const scores = [item.atomicity, item.clarity].filter((value): value is number => typeof value === 'number');
+      if (scores.length > 0) {
+        review.score = Math.round((scores.reduce((sum, value) => sum + value, 0) / scores.length) * 10);
+      }
+
+      for (const issue of item.issues ?? []) {
+        const type = issue.type === 'atomicity' || issue.type === 'ambiguity' || issue.type === 'answer-leakage'
+          ? issue.type
+          : 'ambiguity';
+        // 规则检查已发现的同类问题不重复记录
+        if (review.issues.some(existing => existing.type === type)) continue;
+        review.issues.push({ type, severity: 'warning', message: issue.message || '存在质量问题' });
+      }
+
+      if (item.rewrite?.front && !review.suggestion) {
+        review.suggestion = { front: item.rewrite.front, back: item.rewrite.back ?? '' };
+      }
+    }
+  }
+}
+
+/**
+ * 卡片是否需要关注
+ */
+export function isFlagged(review: CardQualityReview | undefined): boolean {
+  return Boolean(review && (review.issues.length > 0 || review.score < QUALITY_PASS_SCORE));
+}
+
+function getCardFront(card: Card): string {
+  return card.fields?.front ?? (card.content ?? '').split(MAIN_SEPARATOR)[0];
+}
+
+/**
+ * 去掉 Markdown 符号、标点和空白，便于比较
+ */
+function normalizeText(text: string): string {
+  return (text ?? '')
+    .toLowerCase()
+    .replace(/\{✓\}|==|\*\*|__|`/g, '')
+    .replace(/[\s\p{P}\p{S}]+/gu, '');
+}
+
+/**
+ * 字符二元组 Dice 相似度
+ */
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const gram = a.slice(i, i + 2);
+    bigrams.set(gram, (bigrams.get(gram) ?? 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const gram = b.slice(i, i + 2);
+    const count = bigrams.get(gram) ?? 0;
+    if (count > 0) {
+      bigrams.set(gram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+function bestMatch(text: string, candidates: string[]): number {
+  let best = 0;
+  for (const candidate of candidates) {
+    best = Math.max(best, similarity(text, candidate));
+    if (best >= 1) break;
+  }
+  return best;
+}
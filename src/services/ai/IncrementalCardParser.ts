@@ -0,0 +1,79 @@
+/**
+ * 增量 JSON 数组解析器
+ *
+ * 流式响应中模型逐段输出卡片 JSON，本解析器逐字符跟踪字符串和括号深度，
+ * 卡片数组（遇到的第一个 `[`，兼容 `[...]` 和 `{"cards": [...]}` 两种格式）中
+ * 每个元素对象一闭合就立即解析并返回，无需等待整个数组完成。
+ */
+export class IncrementalCardParser {
+  private buffer = '';
+  private position = 0;
+  private depth = 0;
+  /** 卡片数组所在深度，未遇到数组前为 -1 */
+  private arrayDepth = -1;
+  private objectStart = -1;
+  private inString = false;
+  private escaped = false;
+  private finished = false;
+
+  /**
+   * 追加一段文本，返回本次新解析出的完整元素
+   */
+  push(chunk: string): any[] {
+    this.buffer += chunk;
+    const items: any[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+        continue;
+      }
+
+      if (this.finished) continue;
+
+      if (char === '{' || char === '[') {
+        this.depth++;
+        if (char === '[' && this.arrayDepth < 0) {
+          this.arrayDepth = this.depth;
+        } else if (char === '{' && this.arrayDepth > 0 && this.depth === this.arrayDepth + 1) {
+          this.objectStart = this.position;
+        }
+      } else if (char === '}' || char === ']') {
+        if (char === '}' && this.objectStart >= 0 && this.depth === this.arrayDepth + 1) {
+          try {
+            items.push(JSON.parse(this.buffer.slice(this.objectStart, this.position + 1)));
+          } catch {
+            // 无法解析的元素直接跳过，不影响后续卡片
+          }
+          this.objectStart = -1;
+        }
+        if (char === ']' && this.depth === this.arrayDepth) {
+          this.finished = true;
+        }
+        this.depth--;
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * 目前接收到的完整文本
+   */
+  getText(): string {
+    return this.buffer;
+  }
+}
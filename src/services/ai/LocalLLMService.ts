@@ -0,0 +1,189 @@
+/**
+ * 本地模型服务实现
+ * 继承自OpenAIService，支持 OpenAI 兼容接口（LM Studio、vLLM、llama.cpp 等）和 Ollama 原生接口
+ * 请求只发往用户配置的地址，笔记内容不会离开本机/内网
+ */
+
+import { requestUrl } from 'obsidian';
+import { OpenAIService } from './OpenAIService';
+import type { ChatCompletionChunk, ChatCompletionParams, ChatCompletionResult } from './OpenAIService';
+import { readJsonLines } from './StreamReader';
+import type { AIServiceResponse, LocalLLMApiFormat } from '../../types/ai-types';
+
+/**
+ * 各接口格式的默认服务地址
+ */
+export const LOCAL_LLM_DEFAULT_BASE_URLS: Record<LocalLLMApiFormat, string> = {
+  openai: 'http://localhost:1234/v1',
+  ollama: 'http://localhost:11434'
+};
+
+export interface LocalLLMOptions {
+  baseUrl?: string;
+  apiFormat?: LocalLLMApiFormat;
+}
+
+export class LocalLLMService extends OpenAIService {
+  protected providerName = 'local';
+  private apiFormat: LocalLLMApiFormat;
+
+  constructor(apiKey: string, model: string, options: LocalLLMOptions = {}) {
+    super(apiKey, model);
+    this.apiFormat = options.apiFormat ?? 'openai';
+    this.baseUrl = (options.baseUrl?.trim() || LOCAL_LLM_DEFAULT_BASE_URLS[this.apiFormat]).replace(/\/+$/, '');
+  }
+
+  /**
+   * 本地模型不产生费用
+   */
+  protected estimateCost(): number {
+    return 0;
+  }
+
+  /**
+   * 本地服务通常不需要密钥，未配置时不发送鉴权头
+   */
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  protected async requestChatCompletion(params: ChatCompletionParams): Promise<ChatCompletionResult> {
+    if (this.apiFormat !== 'ollama') {
+      return super.requestChatCompletion(params);
+    }
+
+    // Ollama 原生接口：/api/chat
+    const response = await requestUrl({
+      url: `${this.baseUrl}/api/chat`,
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify({
+        model: this.model,
+        messages: params.messages,
+        stream: false,
+        ...(params.jsonMode ? { format: 'json' } : {}),
+        options: {
+          temperature: params.temperature,
+          num_predict: params.maxTokens
+        }
+      })
+    });
+
+    const data = response.json;
+    const promptTokens = data.prompt_eval_count ?? 0;
+    const completionTokens = data.eval_count ?? 0;
+
+    return {
+      content: data.message?.content ?? '',
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      }
+    };
+  }
+
+  /**
+   * Ollama 原生接口的流式响应为逐行 JSON，最后一行（done）带用量
+   */
+  protected async *streamChatCompletion(
+    params: ChatCompletionParams,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatCompletionChunk> {
+    if (this.apiFormat !== 'ollama') {
+      yield* super.streamChatCompletion(params, signal);
+      return;
+    }
+
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify({
+        model: this.model,
+        messages: params.messages,
+        stream: true,
+        ...(params.jsonMode ? { format: 'json' } : {}),
+        options: {
+          temperature: params.temperature,
+          num_predict: params.maxTokens
+        }
+      }),
+      signal
+    });
+
+    await this.assertStreamResponse(response);
+
+    for await (const data of readJsonLines(response.body!)) {
+      if (data.error) {
+        throw new Error(data.error);
+      }
+
+      const promptTokens = data.prompt_eval_count ?? 0;
+      const completionTokens = data.eval_count ?? 0;
+      yield {
+        content: data.message?.content ?? '',
+        usage: data.done
+          ? { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+          : undefined
+      };
+    }
+  }
+
+  /**
+   * 获取服务端可用的模型列表
+   */
+  async listModels(): Promise<string[]> {
+    const response = await requestUrl({
+      url: this.apiFormat === 'ollama' ? `${this.baseUrl}/api/tags` : `${this.baseUrl}/models`,
+      method: 'GET',
+      headers: this.buildHeaders()
+    });
+
+    const data = response.json;
+    const models: any[] = (this.apiFormat === 'ollama' ? data?.models : data?.data) ?? [];
+    return models
+      .map(model => (this.apiFormat === 'ollama' ? model.name ?? model.model : model.id))
+      .filter((name): name is string => typeof name === 'string' && name.length > 0);
+  }
+
+  /**
+   * 测试本地服务连接
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.listModels();
+      return true;
+    } catch (error) {
+      console.error('Local LLM connection test failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 本地服务特定错误处理
+   */
+  protected handleError(error: any): AIServiceResponse {
+    console.error('Local LLM Error:', error);
+
+    let errorMessage = '本地模型调用失败';
+    const message: string = error?.message ?? '';
+
+    if (/ECONNREFUSED|ERR_CONNECTION_REFUSED|Failed to fetch/i.test(message)) {
+      errorMessage = `无法连接本地模型服务（${this.baseUrl}），请确认服务已启动`;
+    } else if (error?.status === 404 || message.includes('404')) {
+      errorMessage = `本地模型服务未找到模型"${this.model}"或接口地址有误`;
+    } else if (message) {
+      errorMessage = `本地模型错误: ${message}`;
+    }
+
+    return {
+      success: false,
+      error: errorMessage,
+      cards: []
+    };
+  }
+}
@@ -10,13 +10,54 @@ import type {
   GenerationProgress,
   GeneratedCard,
   SplitCardRequest,
-  SplitCardResponse
+  SplitCardResponse,
+  StreamGenerationOptions
 } from '../../types/ai-types';
+import type { ChatMessage } from './AIService';
+import { IncrementalCardParser } from './IncrementalCardParser';
+import { readSSEData } from './StreamReader';
 import { requestUrl } from 'obsidian';
 
+/**
+ * Chat Completions 请求参数
+ */
+export interface ChatCompletionParams {
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  /** 要求模型以 JSON 对象输出 */
+  jsonMode?: boolean;
+}
+
+/**
+ * 流式响应的增量片段
+ */
+export interface ChatCompletionChunk {
+  content: string;
+  /** 部分服务只在最后一个片段返回用量 */
+  usage?: ChatCompletionResult['usage'];
+}
+
+/**
+ * Chat Completions 请求结果（各接口格式统一后的内容和用量）
+ */
+export interface ChatCompletionResult {
+  content: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
 export class OpenAIService extends AIService {
   protected baseUrl = 'https://api.openai.com/v1';
 
+  /**
+   * 写入卡片元数据的提供商标识
+   */
+  protected providerName: string = 'openai';
+
   async generateCards(
     content: string,
     config: GenerationConfig,
@@ -51,26 +92,20 @@ export class OpenAIService extends AIService {
         }
       }, 500);
 
-      const response = await requestUrl({
-        url: `${this.baseUrl}/chat/completions`,
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
-        body: JSON.stringify({
-          model: this.model,
+      let completion: ChatCompletionResult;
+      try {
+        completion = await this.requestChatCompletion({
           messages: [
             { role: 'system', content: systemPrompt },
             { role: 'user', content: userPrompt }
           ],
           temperature: config.temperature,
-          max_tokens: config.maxTokens,
-          response_format: { type: 'json_object' }
-        })
-      });
-
-      clearInterval(progressInterval);
+          maxTokens: config.maxTokens,
+          jsonMode: true
+        });
+      } finally {
+        clearInterval(progressInterval);
+      }
 
       onProgress?.({
         status: 'parsing',
@@ -78,29 +113,10 @@ export class OpenAIService extends AIService {
         message: '解析生成结果...'
       });
 
-      const data = response.json;
-      const content_text = data.choices[0].message.content;
-      const parsedCards = this.parseResponse(content_text);
+      const parsedCards = this.parseResponse(completion.content);
 
       // 转换为GeneratedCard格式
-      const cards: GeneratedCard[] = parsedCards.map((card: any) => ({
-        id: this.generateCardId(),
-        type: card.type || 'qa',
-        front: this.ensureString(card.front),
-        back: this.ensureString(card.back),
-        choices: card.choices,
-        correctAnswer: card.correctAnswer,
-        clozeText: card.clozeText,
-        tags: card.tags || [],
-        images: card.images || [],
-        explanation: card.explanation,
-        metadata: {
-          generatedAt: new Date().toISOString(),
-          provider: 'openai',
-          model: this.model,
-          temperature: config.temperature
-        }
-      }));
+      const cards: GeneratedCard[] = parsedCards.map((card: any) => this.toGeneratedCard(card, config));
 
       onProgress?.({
         status: 'completed',
@@ -111,15 +127,7 @@ export class OpenAIService extends AIService {
       return {
         success: true,
         cards,
-        usage: {
-          promptTokens: data.usage.prompt_tokens,
-          completionTokens: data.usage.completion_tokens,
-          totalTokens: data.usage.total_tokens,
-          estimatedCost: this.estimateCost(
-            data.usage.prompt_tokens,
-            data.usage.completion_tokens
-          )
-        }
+        usage: this.buildUsage(completion.usage)
       };
     } catch (error) {
       onProgress?.({
@@ -131,6 +139,107 @@ export class OpenAIService extends AIService {
     }
   }
 
+  /**
+   * 流式生成卡片
+   * 通过 SSE 接收模型输出，每解析出一张完整卡片立即回调；取消时返回已生成的卡片。
+   * 流式请求在产生任何输出前失败（如 fetch 受跨域限制或在移动端不可用）时，改用 generateCards 普通请求
+   */
+  async generateCardsStream(
+    content: string,
+    config: GenerationConfig,
+    options: StreamGenerationOptions
+  ): Promise<AIServiceResponse> {
+    const { onCard, onProgress, signal } = options;
+    const parser = new IncrementalCardParser();
+    const cards: GeneratedCard[] = [];
+    let usage: ChatCompletionResult['usage'] | undefined;
+
+    try {
+      onProgress?.({
+        status: 'preparing',
+        progress: 10,
+        message: '准备生成卡片...'
+      });
+
+      const stream = this.streamChatCompletion({
+        messages: [
+          { role: 'system', content: this.buildSystemPrompt(config) },
+          { role: 'user', content: this.buildUserPrompt(content, config.promptTemplate) }
+        ],
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        jsonMode: true
+      }, signal);
+
+      onProgress?.({
+        status: 'generating',
+        progress: 20,
+        message: `AI正在生成...（0/${config.cardCount}）`
+      });
+
+      for await (const chunk of stream) {
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+
+        for (const raw of parser.push(chunk.content)) {
+          const card = this.toGeneratedCard(raw, config);
+          cards.push(card);
+          onCard?.(card);
+          onProgress?.({
+            status: 'generating',
+            progress: Math.min(95, 20 + Math.round((cards.length / Math.max(config.cardCount, 1)) * 75)),
+            message: `AI正在生成...（${cards.length}/${config.cardCount}）`
+          });
+        }
+      }
+
+      // 模型未按数组格式输出时，回退为整体解析
+      if (cards.length === 0 && parser.getText().trim()) {
+        for (const raw of this.parseResponse(parser.getText())) {
+          const card = this.toGeneratedCard(raw, config);
+          cards.push(card);
+          onCard?.(card);
+        }
+      }
+
+      onProgress?.({
+        status: 'completed',
+        progress: 100,
+        message: `成功生成${cards.length}张卡片`
+      });
+
+      return {
+        success: true,
+        cards,
+        usage: usage ? this.buildUsage(usage) : undefined
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        onProgress?.({
+          status: 'completed',
+          progress: 100,
+          message: `已停止生成，保留${cards.length}张卡片`
+        });
+        return { success: true, cards, cancelled: true };
+      }
+
+      if (cards.length === 0 && !parser.getText().trim()) {
+        console.warn('[OpenAIService] 流式生成失败，改用普通请求:', error);
+        const fallback = await this.generateCards(content, config, onProgress);
+        fallback.cards?.forEach(card => onCard?.(card));
+        return fallback;
+      }
+
+      onProgress?.({
+        status: 'failed',
+        progress: 0,
+        message: '生成失败'
+      });
+      return { ...this.handleError(error), cards };
+    }
+  }
+
   async regenerateCard(
     request: RegenerateRequest,
     config: GenerationConfig
@@ -145,28 +254,17 @@ export class OpenAIService extends AIService {
 
 请根据用户的修改要求生成新卡片，保持与原卡片相同的格式，以JSON格式返回。`;
 
-      const response = await requestUrl({
-        url: `${this.baseUrl}/chat/completions`,
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: request.instruction }
-          ],
-          temperature: config.temperature,
-          max_tokens: config.maxTokens,
-          response_format: { type: 'json_object' }
-        })
+      const completion = await this.requestChatCompletion({
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: request.instruction }
+        ],
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        jsonMode: true
       });
 
-      const data = response.json;
-      const content_text = data.choices[0].message.content;
-      const parsedCards = this.parseResponse(content_text);
+      const parsedCards = this.parseResponse(completion.content);
 
       if (parsedCards.length === 0) {
         throw new Error('未能生成新卡片');
@@ -185,7 +283,7 @@ export class OpenAIService extends AIService {
         explanation: parsedCards[0].explanation,
         metadata: {
           generatedAt: new Date().toISOString(),
-          provider: 'openai',
+          provider: this.providerName,
           model: this.model,
           temperature: config.temperature
         }
@@ -194,15 +292,7 @@ export class OpenAIService extends AIService {
       return {
         success: true,
         cards: [newCard],
-        usage: {
-          promptTokens: data.usage.prompt_tokens,
-          completionTokens: data.usage.completion_tokens,
-          totalTokens: data.usage.total_tokens,
-          estimatedCost: this.estimateCost(
-            data.usage.prompt_tokens,
-            data.usage.completion_tokens
-          )
-        }
+        usage: this.buildUsage(completion.usage)
       };
     } catch (error) {
       return this.handleError(error);
@@ -249,30 +339,18 @@ ${request.instruction ? `\n【额外要求】\n${request.instruction}` : ''}
 
 请按照JSON格式输出拆分后的子卡片。`;
 
-      const response = await requestUrl({
-        url: `${this.baseUrl}/chat/completions`,
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt }
-          ],
-          temperature: 0.7,
-          max_tokens: 3000,
-          response_format: { type: 'json_object' }
-        })
+      const completion = await this.requestChatCompletion({
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt }
+        ],
+        temperature: 0.7,
+        maxTokens: 3000,
+        jsonMode: true
       });
-
-      const data = response.json;
-      const content_text = data.choices[0].message.content;
       
       // 解析JSON响应
-      const parsed = JSON.parse(content_text);
+      const parsed = JSON.parse(completion.content);
       const childCards = parsed.cards || [];
 
       if (!Array.isArray(childCards) || childCards.length === 0) {
@@ -290,15 +368,7 @@ ${request.instruction ? `\n【额外要求】\n${request.instruction}` : ''}
       return {
         success: true,
         childCards: normalizedCards,
-        usage: {
-          promptTokens: data.usage.prompt_tokens,
-          completionTokens: data.usage.completion_tokens,
-          totalTokens: data.usage.total_tokens,
-          estimatedCost: this.estimateCost(
-            data.usage.prompt_tokens,
-            data.usage.completion_tokens
-          )
-        }
+        usage: this.buildUsage(completion.usage)
       };
     } catch (error) {
       console.error('OpenAI splitParentCard error:', error);
@@ -331,36 +401,24 @@ ${request.instruction ? `\n【额外要求】\n${request.instruction}` : ''}
    */
   async chat(request: import('./AIService').ChatRequest): Promise<import('./AIService').ChatResponse> {
     try {
-      const response = await requestUrl({
-        url: `${this.baseUrl}/chat/completions`,
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages: request.messages,
-          temperature: request.temperature ?? 0.7,
-          max_tokens: request.maxTokens ?? 2000
-        })
+      const completion = await this.requestChatCompletion({
+        messages: request.messages,
+        temperature: request.temperature ?? 0.7,
+        maxTokens: request.maxTokens ?? 2000
       });
 
-      const data = response.json;
-      const content = data.choices?.[0]?.message?.content;
-
-      if (!content) {
+      if (!completion.content) {
         throw new Error('OpenAI未返回有效内容');
       }
 
       return {
         success: true,
-        content: content.trim(),
+        content: completion.content.trim(),
         model: this.model,
-        tokensUsed: data.usage?.total_tokens,
+        tokensUsed: completion.usage.totalTokens,
         cost: this.estimateCost(
-          data.usage?.prompt_tokens || 0,
-          data.usage?.completion_tokens || 0
+          completion.usage.promptTokens,
+          completion.usage.completionTokens
         )
       };
     } catch (error) {
@@ -372,11 +430,137 @@ ${request.instruction ? `\n【额外要求】\n${request.instruction}` : ''}
     }
   }
 
+  /**
+   * 调用 Chat Completions 接口
+   * 子类可覆盖以适配不同的请求格式（如 Ollama 原生接口）
+   */
+  protected async requestChatCompletion(params: ChatCompletionParams): Promise<ChatCompletionResult> {
+    const response = await requestUrl({
+      url: `${this.baseUrl}/chat/completions`,
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify({
+        model: this.model,
+        messages: params.messages,
+        temperature: params.temperature,
+        max_tokens: params.maxTokens,
+        ...(params.jsonMode ? { response_format: { type: 'json_object' } } : {})
+      })
+    });
+
+    const data = response.json;
+    const promptTokens = data.usage?.prompt_tokens ?? 0;
+    const completionTokens = data.usage?.completion_tokens ?? 0;
+
+    return {
+      content: data.choices?.[0]?.message?.content ?? '',
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: data.usage?.total_tokens ?? promptTokens + completionTokens
+      }
+    };
+  }
+
+  /**
+   * 以流式方式调用 Chat Completions 接口（SSE），逐段返回增量内容
+   * requestUrl 不支持流式读取，这里使用 fetch
+   */
+  protected async *streamChatCompletion(
+    params: ChatCompletionParams,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatCompletionChunk> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify({
+        model: this.model,
+        messages: params.messages,
+        temperature: params.temperature,
+        max_tokens: params.maxTokens,
+        stream: true,
+        ...(params.jsonMode ? { response_format: { type: 'json_object' } } : {})
+      }),
+      signal
+    });
+
+    await this.assertStreamResponse(response);
+
+    for await (const data of readSSEData(response.body!)) {
+      if (data === '[DONE]') return;
+
+      const json = JSON.parse(data);
+      const promptTokens = json.usage?.prompt_tokens ?? 0;
+      const completionTokens = json.usage?.completion_tokens ?? 0;
+
+      yield {
+        content: json.choices?.[0]?.delta?.content ?? '',
+        usage: json.usage
+          ? { promptTokens, completionTokens, totalTokens: json.usage.total_tokens ?? promptTokens + completionTokens }
+          : undefined
+      };
+    }
+  }
+
+  /**
+   * 检查流式响应状态，失败时带上状态码和响应内容抛出
+   */
+  protected async assertStreamResponse(response: Response): Promise<void> {
+    if (response.ok && response.body) return;
+
+    const detail = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+
+  /**
+   * 转换为GeneratedCard格式
+   */
+  protected toGeneratedCard(card: any, config: GenerationConfig): GeneratedCard {
+    return {
+      id: this.generateCardId(),
+      type: card.type || 'qa',
+      front: this.ensureString(card.front),
+      back: this.ensureString(card.back),
+      choices: card.choices,
+      correctAnswer: card.correctAnswer,
+      clozeText: card.clozeText,
+      tags: card.tags || [],
+      images: card.images || [],
+      explanation: card.explanation,
+      metadata: {
+        generatedAt: new Date().toISOString(),
+        provider: this.providerName,
+        model: this.model,
+        temperature: config.temperature
+      }
+    };
+  }
+
+  /**
+   * 请求头（含鉴权）
+   */
+  protected buildHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${this.apiKey}`
+    };
+  }
+
+  /**
+   * 转换为响应中的用量统计
+   */
+  protected buildUsage(usage: ChatCompletionResult['usage']) {
+    return {
+      ...usage,
+      estimatedCost: this.estimateCost(usage.promptTokens, usage.completionTokens)
+    };
+  }
+
   /**
    * 确保值是字符串
    * 处理AI可能返回对象、数组、undefined等非字符串类型的情况
    */
-  private ensureString(value: any): string {
+  protected ensureString(value: any): string {
     if (value === null || value === undefined) {
       return '';
     }
@@ -0,0 +1,67 @@
+/**
+ * 流式响应读取工具
+ * - readSSEData：Server-Sent Events（OpenAI 兼容接口），逐个返回 data 字段
+ * - readJsonLines：按行分隔的 JSON（Ollama 原生接口）
+ */
+
+/**
+ * 按行读取响应流
+ */
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      pending += decoder.decode(value, { stream: true });
+      const lines = pending.split(/\r?\n/);
+      pending = lines.pop() ?? '';
+      yield* lines;
+    }
+
+    pending += decoder.decode();
+    if (pending) {
+      yield pending;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * 读取 SSE 事件的 data 内容（多行 data 按换行拼接）
+ */
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  let dataLines: string[] = [];
+
+  for await (const line of readLines(body)) {
+    if (line === '') {
+      if (dataLines.length > 0) {
+        yield dataLines.join('\n');
+        dataLines = [];
+      }
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+    // 注释行（:）和 event/id 等字段忽略
+  }
+
+  if (dataLines.length > 0) {
+    yield dataLines.join('\n');
+  }
+}
+
+/**
+ * 读取逐行 JSON
+ */
+export async function* readJsonLines(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  for await (const line of readLines(body)) {
+    if (line.trim()) {
+      yield JSON.parse(line);
+    }
+  }
+}
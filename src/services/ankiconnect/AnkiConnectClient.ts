@@ -12,17 +12,23 @@ import {
   type AnkiNoteInfo,
   type AnkiNote,
   type AnkiMediaFile,
+  type AnkiModelDefinition,
+  type AnkiReviewEntry,
   AnkiConnectError,
   ConnectionErrorType
 } from '../../types/ankiconnect-types';
+import type { AnkiConnectTransport } from './transport/AnkiConnectTransport';
+import { HttpTransport } from './transport/HttpTransport';
 
 export class AnkiConnectClient {
-  private readonly endpoint: string;
   private readonly apiVersion: number = 6;
-  private requestTimeout: number = 5000; // 5秒超时
+  private readonly transport: AnkiConnectTransport;
 
-  constructor(endpoint: string = 'http://localhost:8765') {
-    this.endpoint = endpoint;
+  /**
+   * @param transport - 自定义传输层；不传时通过 HTTP 连接 endpoint
+   */
+  constructor(endpoint: string = 'http://localhost:8765', transport?: AnkiConnectTransport) {
+    this.transport = transport ?? new HttpTransport(endpoint);
   }
 
   /**
@@ -39,29 +45,7 @@ export class AnkiConnectClient {
     };
 
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
-
-      const response = await fetch(this.endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(request),
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new AnkiConnectError(
-          `HTTP 错误: ${response.status} ${response.statusText}`,
-          ConnectionErrorType.NETWORK,
-          '请检查网络连接和 AnkiConnect 插件状态'
-        );
-      }
-
-      const result: AnkiConnectResponse<T> = await response.json();
+      const result: AnkiConnectResponse<T> = await this.transport.send<T>(request);
 
       if (result.error) {
         throw new AnkiConnectError(
@@ -73,26 +57,10 @@ export class AnkiConnectClient {
 
       return result.result;
     } catch (error: any) {
-      if (error.name === 'AbortError') {
-        throw new AnkiConnectError(
-          '请求超时',
-          ConnectionErrorType.NETWORK,
-          '请确保 Anki 正在运行且 AnkiConnect 插件已启用'
-        );
-      }
-
       if (error instanceof AnkiConnectError) {
         throw error;
       }
 
-      if (error.message?.includes('fetch')) {
-        throw new AnkiConnectError(
-          'Anki 未运行或 AnkiConnect 插件未安装',
-          ConnectionErrorType.NOT_RUNNING,
-          '请启动 Anki 并确保已安装 AnkiConnect 插件'
-        );
-      }
-
       throw new AnkiConnectError(
         error.message || '未知错误',
         ConnectionErrorType.UNKNOWN
@@ -292,6 +260,13 @@ export class AnkiConnectClient {
     await this.invoke('deleteNotes', { notes: noteIds });
   }
 
+  /**
+   * 获取卡片的复习记录（按卡片ID分组）
+   */
+  async getReviewsOfCards(cardIds: number[]): Promise<Record<string, AnkiReviewEntry[]>> {
+    return await this.invoke<Record<string, AnkiReviewEntry[]>>('getReviewsOfCards', { cards: cardIds });
+  }
+
   /**
    * 存储媒体文件到 Anki
    */
@@ -334,6 +309,13 @@ export class AnkiConnectClient {
     await this.invoke('sync');
   }
 
+  /**
+   * 创建笔记类型
+   */
+  async createModel(model: AnkiModelDefinition): Promise<any> {
+    return await this.invoke('createModel', model);
+  }
+
   /**
    * 创建新牌组
    */
@@ -359,7 +341,7 @@ export class AnkiConnectClient {
    * 设置超时时间
    */
   setRequestTimeout(timeout: number): void {
-    this.requestTimeout = timeout;
+    this.transport.setRequestTimeout?.(timeout);
   }
 }
 
@@ -21,6 +21,7 @@ import type {
 } from '../../types/ankiconnect-types';
 
 import { AnkiConnectClient } from './AnkiConnectClient';
+import type { AnkiConnectTransport } from './transport/AnkiConnectTransport';
 import { SyncStateTracker } from './SyncStateTracker';
 import { TemplateAutoIdentifier } from './TemplateAutoIdentifier';
 import { MediaSyncService } from './MediaSyncService';
@@ -31,11 +32,18 @@ import { AnkiTemplateConverter } from './AnkiTemplateConverter';
 import { TuankiTemplateExporter } from './TuankiTemplateExporter';
 import { CardImporter } from './CardImporter';
 import { CardExporter } from './CardExporter';
+import { TwoWaySyncService } from './TwoWaySyncService';
 import { TemplateManager } from './TemplateManager';
 import { ConnectionManager } from './ConnectionManager';
 import { IncrementalSyncTracker } from './IncrementalSyncTracker';
 import { AutoSyncScheduler } from './AutoSyncScheduler';
-import type { IncrementalSyncResult, ConnectionState } from '../../types/ankiconnect-types';
+import type {
+  IncrementalSyncResult,
+  ConnectionState,
+  ConflictResolutions,
+  SyncConflict,
+  TwoWaySyncResult
+} from '../../types/ankiconnect-types';
 import type AnkiPlugin from '../../main';
 
 export class AnkiConnectService {
@@ -51,6 +59,7 @@ export class AnkiConnectService {
   private templateExporter: TuankiTemplateExporter;
   private cardImporter: CardImporter;
   private cardExporter: CardExporter;
+  private twoWaySync: TwoWaySyncService;
   private templateManager: TemplateManager;
   
   // 🆕 连接管理和自动同步服务
@@ -73,9 +82,10 @@ export class AnkiConnectService {
   constructor(
     private plugin: AnkiPlugin,
     private app: App,
-    private settings: AnkiConnectSettings
+    private settings: AnkiConnectSettings,
+    private transport?: AnkiConnectTransport
   ) {
-    this.client = new AnkiConnectClient(settings.endpoint);
+    this.client = new AnkiConnectClient(settings.endpoint, transport);
     this.stateTracker = new SyncStateTracker({});
     this.templateIdentifier = new TemplateAutoIdentifier();
     this.mediaService = new MediaSyncService(app, this.client, settings.mediaSync);
@@ -87,6 +97,7 @@ export class AnkiConnectService {
     this.templateExporter = new TuankiTemplateExporter(plugin, this.client);
     this.cardImporter = new CardImporter(plugin, this.client, this.templateConverter);
     this.cardExporter = new CardExporter(plugin, this.client, this.templateExporter);
+    this.twoWaySync = new TwoWaySyncService(plugin, this.client, this.cardExporter, this.cardImporter, this.mediaService);
     this.templateManager = new TemplateManager(plugin);
     
     // 🆕 初始化连接管理和自动同步服务
@@ -560,7 +571,7 @@ export class AnkiConnectService {
     Object.assign(this.settings, settings);
     
     if (settings.endpoint) {
-      this.client = new AnkiConnectClient(settings.endpoint);
+      this.client = new AnkiConnectClient(settings.endpoint, this.transport);
     }
     
     if (settings.mediaSync) {
@@ -705,6 +716,19 @@ export class AnkiConnectService {
     }
   }
 
+  /**
+   * 双向同步牌组
+   *
+   * @param resolveConflicts - 两侧都修改过的字段交由该回调裁决；不提供时冲突保留到下次同步
+   */
+  async syncDeckTwoWay(
+    mapping: DeckSyncMapping,
+    onProgress?: (current: number, total: number, status: string) => void,
+    resolveConflicts?: (conflicts: SyncConflict[]) => Promise<ConflictResolutions | null>
+  ): Promise<TwoWaySyncResult> {
+    return await this.twoWaySync.syncDeck(mapping, { onProgress, resolveConflicts });
+  }
+
   /**
    * 获取模板管理器（供 UI 使用）
    */
@@ -905,8 +929,23 @@ export class AnkiConnectService {
         }
 
         try {
+          // 双向同步：后台执行时不弹出冲突处理，冲突保留到下次手动同步
+          if (mapping.syncDirection === 'bidirectional') {
+            const twoWayResult = await this.twoWaySync.syncDeck(mapping);
+
+            importedCards += twoWayResult.importedCards + twoWayResult.pulledCards;
+            exportedCards += twoWayResult.exportedCards + twoWayResult.pushedNotes;
+            totalCards += twoWayResult.importedCards + twoWayResult.pulledCards
+              + twoWayResult.exportedCards + twoWayResult.pushedNotes;
+            errors.push(...twoWayResult.errors);
+            if (twoWayResult.conflicts.length > 0) {
+              errors.push(`牌组 ${mapping.ankiDeckName}: ${twoWayResult.conflicts.length} 条笔记存在冲突，请手动同步处理`);
+            }
+            continue;
+          }
+
           // 根据同步方向执行
-          if (mapping.syncDirection === 'from_anki' || mapping.syncDirection === 'bidirectional') {
+          if (mapping.syncDirection === 'from_anki') {
             // 从 Anki 导入
             const importResult = await this.cardImporter.importDeck(
               mapping.ankiDeckName,
@@ -921,7 +960,7 @@ export class AnkiConnectService {
             }
           }
 
-          if (mapping.syncDirection === 'to_anki' || mapping.syncDirection === 'bidirectional') {
+          if (mapping.syncDirection === 'to_anki') {
             // 导出到 Anki
             const exportResult = await this.cardExporter.exportDeck(
               mapping.tuankiDeckId,
@@ -4,14 +4,15 @@
  */
 
 import type { AnkiNoteInfo, AnkiModelInfo, ExportResult, ExportError } from '../../types/ankiconnect-types';
-import type { ParseTemplate } from '../../types/newCardParsingTypes';
+import type { ParseTemplate, TemplateField } from '../../types/newCardParsingTypes';
 import type { Card } from '../../data/types';
 import type AnkiPlugin from '../../main';
 import { AnkiConnectClient } from './AnkiConnectClient';
 import { TuankiTemplateExporter } from './TuankiTemplateExporter';
 import { ObsidianToAnkiConverter } from './ObsidianToAnkiConverter';
-import type { ObsidianToAnkiOptions } from '../../types/ankiconnect-types';
+import type { ObsidianToAnkiOptions, MediaFileInfo } from '../../types/ankiconnect-types';
 import { OFFICIAL_TEMPLATES } from '../../constants/official-templates';
+import { groupNoteSiblings } from '../../data/note-siblings';
 
 /**
  * 字段别名映射表
@@ -132,13 +133,14 @@ export class CardExporter {
 
       onProgress?.(40, 100, '正在导出卡片...');
 
-      // 4. 转换并上传卡片
-      for (let i = 0; i < cards.length; i++) {
-        const card = cards[i];
+      // 4. 转换并上传卡片（兄弟卡片属于同一条笔记，只上传一次，由 Anki 按卡片模板生成各张卡片）
+      const notes = groupNoteSiblings(cards);
+      for (let i = 0; i < notes.length; i++) {
+        const [card, ...siblings] = notes[i];
 
         // 每10张卡片输出一次进度
-        if (i % 10 === 0 || i === cards.length - 1) {
-          console.log('📤 上传进度:', i + 1, '/', cards.length);
+        if (i % 10 === 0 || i === notes.length - 1) {
+          console.log('📤 上传进度:', i + 1, '/', notes.length);
         }
 
         try {
@@ -165,11 +167,11 @@ export class CardExporter {
           }
 
           await this.convertAndUploadCard(card, template, modelInfo, ankiDeckName);
-          exportedCards++;
+          exportedCards += 1 + siblings.length;
 
-          if ((i + 1) % 10 === 0 || i === cards.length - 1) {
+          if ((i + 1) % 10 === 0 || i === notes.length - 1) {
             onProgress?.(
-              40 + (i + 1) / cards.length * 60,
+              40 + (i + 1) / notes.length * 60,
               100,
               `已导出 ${exportedCards}/${cards.length} 张卡片`
             );
@@ -238,18 +240,21 @@ export class CardExporter {
 
   /**
    * 转换 Tuanki Card 为 Anki Note
+   *
+   * @param mediaCollector - 提供时不上传媒体，而是收集引用到的媒体文件（离线导出 APKG 时使用）
    */
   async convertCardToAnkiNote(
     card: Card,
     template: ParseTemplate,
-    modelInfo: AnkiModelInfo
+    modelInfo: AnkiModelInfo,
+    mediaCollector?: MediaFileInfo[]
   ): Promise<Partial<AnkiNoteInfo>> {
     console.log('🔍 转换卡片', card.id, '使用模板', template.name);
 
     // 🆕 准备转换选项
     const conversionOptions: ObsidianToAnkiOptions = {
       vaultName: this.plugin.app.vault.getName(),
-      uploadMedia: true,
+      uploadMedia: !mediaCollector,
       generateBacklinks: true,
       backlinkPosition: 'append',  // 追加到字段末尾
       mediaPosition: 'inline',
@@ -281,47 +286,16 @@ export class CardExporter {
     
     for (const templateField of templateFields) {
       const fieldName = templateField.pattern || templateField.name;
-      let fieldValue = '';
-      let matchedKey = '';
-
-      // 生成可能的字段名列表
-      const possibleKeys: string[] = [];
-      
-      // 1. 添加基本字段名
-      if (templateField.name) possibleKeys.push(templateField.name);
-      if (templateField.pattern) possibleKeys.push(templateField.pattern);
-      if (fieldName) possibleKeys.push(fieldName);
-      
-      // 2. 添加首字母大写形式
-      if (templateField.name) {
-        const capitalized = templateField.name.charAt(0).toUpperCase() + templateField.name.slice(1);
-        possibleKeys.push(capitalized);
-      }
-      
-      // 3. 添加别名
-      if (FIELD_ALIASES[templateField.name]) {
-        possibleKeys.push(...FIELD_ALIASES[templateField.name]);
-      }
-      
-      // 去重
-      const uniqueKeys = [...new Set(possibleKeys)];
-
-      // 在 card.fields 中查找匹配的字段
-      if (card.fields) {
-        for (const key of uniqueKeys) {
-          if (card.fields[key] && card.fields[key].trim() !== '') {
-            fieldValue = card.fields[key];
-            matchedKey = key;
-            console.log(`  ✓ 字段匹配: "${fieldName}" ← "${matchedKey}" = "${fieldValue.slice(0, 30)}${fieldValue.length > 30 ? '...' : ''}"`);
-            break;
-          }
-        }
+      const matchedKey = this.findCardFieldKey(card, templateField);
+      let fieldValue = matchedKey ? card.fields![matchedKey] : '';
+      if (matchedKey) {
+        console.log(`  ✓ 字段匹配: "${fieldName}" ← "${matchedKey}" = "${fieldValue.slice(0, 30)}${fieldValue.length > 30 ? '...' : ''}"`);
       }
 
       // 如果未找到匹配，输出警告
       if (!fieldValue) {
         console.warn(`  ⚠️ 字段未匹配: "${fieldName}"`);
-        console.warn(`     尝试了: ${uniqueKeys.join(', ')}`);
+        console.warn(`     尝试了: ${this.candidateFieldKeys(templateField).join(', ')}`);
         console.warn(`     可用字段: ${Object.keys(card.fields || {}).join(', ')}`);
       }
 
@@ -346,6 +320,7 @@ export class CardExporter {
             );
             
             fieldValue = conversionResult.convertedContent;
+            mediaCollector?.push(...conversionResult.mediaFiles.filter(media => media.fileExists));
             
             // 输出转换信息
             if (conversionResult.mediaFiles.length > 0 || conversionResult.backlinks.length > 0) {
@@ -380,6 +355,48 @@ export class CardExporter {
     };
   }
 
+  /**
+   * 查找模板字段在 card.fields 中对应的非空字段键
+   *
+   * 依次尝试字段名、模式、首字母大写形式和别名；找不到时返回空字符串
+   */
+  findCardFieldKey(card: Card, templateField: TemplateField): string {
+    if (!card.fields) return '';
+    for (const key of this.candidateFieldKeys(templateField)) {
+      if (card.fields[key] && card.fields[key].trim() !== '') {
+        return key;
+      }
+    }
+    return '';
+  }
+
+  /**
+   * 生成模板字段可能对应的卡片字段名列表
+   */
+  private candidateFieldKeys(templateField: TemplateField): string[] {
+    const fieldName = templateField.pattern || templateField.name;
+    const possibleKeys: string[] = [];
+
+    // 1. 添加基本字段名
+    if (templateField.name) possibleKeys.push(templateField.name);
+    if (templateField.pattern) possibleKeys.push(templateField.pattern);
+    if (fieldName) possibleKeys.push(fieldName);
+
+    // 2. 添加首字母大写形式
+    if (templateField.name) {
+      const capitalized = templateField.name.charAt(0).toUpperCase() + templateField.name.slice(1);
+      possibleKeys.push(capitalized);
+    }
+
+    // 3. 添加别名
+    if (FIELD_ALIASES[templateField.name]) {
+      possibleKeys.push(...FIELD_ALIASES[templateField.name]);
+    }
+
+    // 去重
+    return [...new Set(possibleKeys)];
+  }
+
   /**
    * 上传 Note 到 Anki
    */
@@ -478,7 +495,7 @@ export class CardExporter {
    * 先在官方模板中查找，再在用户模板中查找
    * 如果找不到，使用降级机制返回默认问答题模板
    */
-  private getTemplateById(templateId: string): ParseTemplate | null {
+  getTemplateById(templateId: string): ParseTemplate | null {
     console.log('🔍 查找模板:', templateId);
 
     // 参数验证：如果模板ID为空，使用默认问答题模板
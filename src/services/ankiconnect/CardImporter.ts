@@ -138,22 +138,11 @@ export class CardImporter {
         const modelName = modelNames[i];
         try {
           const modelInfo = await this.ankiConnect.getModelInfo(modelName);
-          
-          // 检查是否已导入
-          if (this.templateConverter.isTemplateAlreadyImported(modelInfo.id)) {
-            const existingTemplate = this.templateConverter.findImportedTemplate(modelInfo.id);
-            if (existingTemplate) {
-              templateMap.set(modelName, existingTemplate);
-              console.log(`模板 ${modelName} 已存在，跳过创建`);
-              continue;
-            }
-          }
-
-          const { template, warnings } = this.templateConverter.convertModelToTemplate(modelInfo);
-          
-          // 保存模板到设置
-          await this.saveTemplate(template);
+          const { template, created, warnings } = await this.ensureTemplate(modelInfo);
           templateMap.set(modelName, template);
+          if (!created) {
+            continue;
+          }
           importedTemplates.push(template);
 
           if (warnings.length > 0) {
@@ -331,6 +320,42 @@ export class CardImporter {
     }
   }
 
+  /**
+   * 获取 Anki 模型对应的 Tuanki 模板，尚未导入时转换并保存
+   */
+  async ensureTemplate(
+    modelInfo: AnkiModelInfo
+  ): Promise<{ template: ParseTemplate; created: boolean; warnings: string[] }> {
+    // 检查是否已导入
+    if (this.templateConverter.isTemplateAlreadyImported(modelInfo.id)) {
+      const existingTemplate = this.templateConverter.findImportedTemplate(modelInfo.id);
+      if (existingTemplate) {
+        console.log(`模板 ${modelInfo.name} 已存在，跳过创建`);
+        return { template: existingTemplate, created: false, warnings: [] };
+      }
+    }
+
+    const { template, warnings } = this.templateConverter.convertModelToTemplate(modelInfo);
+
+    // 保存模板到设置
+    await this.saveTemplate(template);
+    return { template, created: true, warnings };
+  }
+
+  /**
+   * 获取导入映射管理器（双向同步与导入共用同一份映射）
+   */
+  getMappingManager(): ImportMappingManager {
+    return this.mappingManager;
+  }
+
+  /**
+   * 获取 Anki 导入适配器
+   */
+  getImportAdapter(): AnkiImportAdapter {
+    return this.importAdapter;
+  }
+
   /**
    * @deprecated 该方法已由AnkiImportAdapter.adaptAnkiNote替代
    * 保留仅用于兼容性，实际调用已被移除
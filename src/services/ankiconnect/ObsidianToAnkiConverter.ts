@@ -3,7 +3,8 @@
  * 负责将 Obsidian Markdown 格式转换为 Anki HTML 格式
  */
 
-import type { App, TFile } from 'obsidian';
+import { TFile } from 'obsidian';
+import type { App } from 'obsidian';
 import type { Card } from '../../data/types';
 import type { AnkiConnectClient } from './AnkiConnectClient';
 import type {
@@ -19,6 +20,7 @@ import { MathFormulaLayer } from './layers/MathFormulaLayer';
 import { WikiLinkLayer } from './layers/WikiLinkLayer';
 import { CalloutLayer } from './layers/CalloutLayer';
 import { HighlightLayer } from './layers/HighlightLayer';
+import { ttsMarkersToAnkiTags } from '../../utils/tts-markers';
 
 /**
  * Obsidian → Anki 转换器
@@ -103,6 +105,12 @@ export class ObsidianToAnkiConverter {
       }
     }
 
+    // 1.5 TTS 标记转换为 Anki 的 [anki:tts] 标签（参数是字段名时导出字段内容）
+    result.convertedContent = ttsMarkersToAnkiTags(result.convertedContent, name => {
+      const value = card.fields?.[name];
+      return typeof value === 'string' ? value : undefined;
+    });
+
     // 2. 上传媒体文件到 Anki
     if (options.uploadMedia) {
       await this.uploadMediaFiles(result.mediaFiles);
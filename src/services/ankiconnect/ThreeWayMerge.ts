@@ -0,0 +1,102 @@
+/**
+ * 双向同步的三方比较
+ *
+ * 以上次同步完成时的快照为基线，分别判断 Tuanki 和 Anki 两侧每个字段是否修改：
+ * 只有一侧修改的字段直接采用该侧的值，两侧都修改且结果不同的字段记为冲突。
+ * 两侧字段格式不同（Markdown / HTML），因此各自与本侧的快照比较，不做跨格式比较。
+ */
+
+import type { SyncSnapshot } from '../../data/types';
+import type { FieldMergeDecision } from '../../types/ankiconnect-types';
+
+/**
+ * Anki 字段与 Tuanki 字段的对应关系
+ */
+export interface FieldBinding {
+  ankiField: string;
+  cardKey: string;
+}
+
+export interface FieldMergeInput {
+  bindings: FieldBinding[];
+  /** Tuanki 当前字段（card.fields） */
+  tuankiFields: Record<string, string>;
+  /** Anki 当前字段 */
+  ankiFields: Record<string, string>;
+  /** 上次同步的快照；没有快照时按修改时间判断哪一侧有修改 */
+  snapshot?: SyncSnapshot;
+  tuankiModified?: boolean;
+  ankiModified?: boolean;
+  /** Anki HTML 转 Markdown，用于识别两侧做了相同修改的情况 */
+  toMarkdown: (html: string) => string;
+}
+
+/**
+ * 逐字段规划合并动作
+ */
+export function planFieldMerge(input: FieldMergeInput): FieldMergeDecision[] {
+  const { snapshot } = input;
+
+  return input.bindings.map(({ ankiField, cardKey }) => {
+    const tuankiValue = input.tuankiFields[cardKey] ?? '';
+    const ankiValue = input.ankiFields[ankiField] ?? '';
+
+    const tuankiChanged = snapshot
+      ? normalize(tuankiValue) !== normalize(snapshot.tuankiFields[cardKey] ?? '')
+      : Boolean(input.tuankiModified);
+    const ankiChanged = snapshot
+      ? normalize(ankiValue) !== normalize(snapshot.ankiFields[ankiField] ?? '')
+      : Boolean(input.ankiModified);
+
+    const decision: FieldMergeDecision = { ankiField, cardKey, action: 'unchanged', tuankiValue, ankiValue };
+    if (!ankiChanged) {
+      decision.action = tuankiChanged ? 'push' : 'unchanged';
+      return decision;
+    }
+
+    decision.ankiMarkdown = input.toMarkdown(ankiValue);
+    if (normalize(decision.ankiMarkdown) === normalize(tuankiValue)) {
+      // 两侧内容已一致（相同修改，或没有快照时本来就相同）
+      decision.action = 'unchanged';
+    } else {
+      decision.action = tuankiChanged ? 'conflict' : 'pull';
+    }
+    return decision;
+  });
+}
+
+/**
+ * 标签按集合三方合并：保留基线中两侧都未删除的标签，再加上两侧各自新增的标签
+ *
+ * 没有基线时取两侧并集。
+ */
+export function mergeTags(base: string[] | undefined, tuankiTags: string[], ankiTags: string[]): string[] {
+  if (!base) {
+    return unique([...tuankiTags, ...ankiTags]);
+  }
+
+  const baseSet = new Set(base);
+  const tuankiSet = new Set(tuankiTags);
+  const ankiSet = new Set(ankiTags);
+
+  const kept = base.filter(tag => tuankiSet.has(tag) && ankiSet.has(tag));
+  const added = [...tuankiTags, ...ankiTags].filter(tag => !baseSet.has(tag));
+  return unique([...kept, ...added]);
+}
+
+/**
+ * 比较两组标签是否相同（忽略顺序）
+ */
+export function sameTags(a: string[], b: string[]): boolean {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  return setA.size === setB.size && [...setA].every(tag => setB.has(tag));
+}
+
+function normalize(value: string): string {
+  return value.replace(/\r\n/g, '\n').replace(/[ \t]+$/gm, '').trim();
+}
+
+function unique(tags: string[]): string[] {
+  return Array.from(new Set(tags.filter(Boolean)));
+}
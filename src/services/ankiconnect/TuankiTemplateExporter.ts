@@ -14,6 +14,17 @@ export interface ExportResult {
   error?: string;
 }
 
+/**
+ * 由模板生成的 Anki 模型定义（供 AnkiConnect 创建模型和离线 APKG 导出共用）
+ */
+export interface AnkiModelDefinition {
+  modelName: string;
+  inOrderFields: string[];
+  css: string;
+  cardTemplates: Array<{ Name: string; Front: string; Back: string }>;
+  isCloze: boolean;
+}
+
 export class TuankiTemplateExporter {
   private plugin: AnkiPlugin;
   private ankiConnect: AnkiConnectClient;
@@ -200,24 +211,19 @@ hr {
         };
       }
 
-      // 生成字段列表
-      const fields = this.generateModelFields(template);
-
-      // 生成卡片模板
-      const cardTemplates = this.generateCardTemplates(template);
-
       // 调用 AnkiConnect API 创建模型
+      const definition = this.buildModelDefinition(template);
       const modelData = {
-        modelName: modelName,
-        inOrderFields: fields,
-        css: this.DEFAULT_CARD_CSS,
-        cardTemplates: cardTemplates
+        modelName: definition.modelName,
+        inOrderFields: definition.inOrderFields,
+        css: definition.css,
+        cardTemplates: definition.cardTemplates
       };
 
       console.log('创建 Anki 模型:', modelData);
 
       // 使用AnkiConnect API创建模型
-      await (this.ankiConnect as any).invoke('createModel', modelData);
+      await this.ankiConnect.createModel(modelData);
 
       // 获取创建后的模型信息
       const modelInfo = await this.ankiConnect.getModelInfo(modelName);
@@ -235,6 +241,19 @@ hr {
     }
   }
 
+  /**
+   * 生成 Anki 模型定义（不依赖 AnkiConnect）
+   */
+  buildModelDefinition(template: ParseTemplate): AnkiModelDefinition {
+    return {
+      modelName: this.generateAnkiModelName(template),
+      inOrderFields: this.generateModelFields(template),
+      css: this.DEFAULT_CARD_CSS,
+      cardTemplates: this.generateCardTemplates(template),
+      isCloze: (template as any).cardType === 'cloze-deletion'
+    };
+  }
+
   /**
    * 检查模型是否存在
    */
@@ -321,6 +340,21 @@ hr {
     const fields = template.fields || [];
     const cardType = (template as any).cardType || 'basic-qa';
 
+    // 定义了卡片类型：每个卡片类型对应一个 Anki 卡片模板
+    if (template.cardTypes && template.cardTypes.length > 0 && cardType !== 'cloze-deletion') {
+      return template.cardTypes.map(type => {
+        const questionDivs = type.frontFields
+          .map(name => `<div class="question">{{${this.getAnkiFieldName(fields, name)}}}</div>`);
+        const answerDivs = type.backFields
+          .map(name => `<div class="answer">{{${this.getAnkiFieldName(fields, name)}}}</div>`);
+        return {
+          Name: type.name,
+          Front: questionDivs.join('\n'),
+          Back: [...questionDivs, ...answerDivs].join('\n')
+        };
+      });
+    }
+
     let frontTemplate = '';
     let backTemplate = '';
 
@@ -371,6 +405,14 @@ hr {
     ];
   }
 
+  /**
+   * 模板字段名对应的 Anki 字段名（与 generateModelFields 一致）
+   */
+  private getAnkiFieldName(fields: Array<{ name: string; pattern: string }>, name: string): string {
+    const field = fields.find(f => f.name === name);
+    return field ? (field.pattern || field.name) : name;
+  }
+
   /**
    * 根据类型查找字段
    */
@@ -0,0 +1,578 @@
+/**
+ * 双向同步服务
+ *
+ * 以 ImportMapping 记录的快照为基线，对已关联的卡片和笔记逐字段三方合并：
+ * 只在一侧修改的字段推送或拉取，两侧都修改的字段交给调用方裁决，未裁决的保持原样并标记为冲突。
+ * 尚未关联的卡片导出到 Anki，尚未关联的笔记导入到 Tuanki；任一侧删除的内容不会同步删除另一侧。
+ * Anki 中新增的复习记录按时间顺序用 FSRS 重放到 Tuanki 卡片上。
+ */
+
+import type { Card, ImportMapping, SyncSnapshot } from '../../data/types';
+import type { ParseTemplate } from '../../types/newCardParsingTypes';
+import type { DeckSyncMapping } from '../../components/settings/types/settings-types';
+import type {
+  AnkiModelInfo,
+  AnkiNoteInfo,
+  AnkiReviewEntry,
+  ConflictResolutions,
+  FieldMergeDecision,
+  SyncConflict,
+  TwoWaySyncResult
+} from '../../types/ankiconnect-types';
+import type AnkiPlugin from '../../main';
+import type { AnkiConnectClient } from './AnkiConnectClient';
+import type { CardExporter } from './CardExporter';
+import type { CardImporter } from './CardImporter';
+import type { MediaSyncService } from './MediaSyncService';
+import { ImportMappingManager } from './ImportMappingManager';
+import { planFieldMerge, mergeTags, sameTags, type FieldBinding } from './ThreeWayMerge';
+import { ContentConverter } from '../../domain/apkg/converter/ContentConverter';
+import { FSRS } from '../../algorithms/fsrs';
+import { Rating } from '../../data/types';
+import { MAIN_SEPARATOR } from '../../constants/markdown-delimiters';
+import { generateUUID } from '../../utils/helpers';
+
+/** revlog.type: 手动操作（重置、设置到期日等） */
+const REVLOG_MANUAL = 4;
+
+/** 导出时追加到字段末尾的回链，拉取时去掉 */
+const BACKLINK_PATTERN = /\s*<div class="obsidian-backlink"[\s\S]*$/;
+
+export interface TwoWaySyncOptions {
+  onProgress?: (current: number, total: number, status: string) => void;
+  /** 有冲突时调用；返回 null 表示暂不处理，冲突保留到下次同步 */
+  resolveConflicts?: (conflicts: SyncConflict[]) => Promise<ConflictResolutions | null>;
+}
+
+/**
+ * 一对已关联的卡片和笔记
+ */
+interface SyncPair {
+  card: Card;
+  note: AnkiNoteInfo;
+  mapping: ImportMapping;
+  template: ParseTemplate;
+  bindings: FieldBinding[];
+  decisions: FieldMergeDecision[];
+}
+
+export class TwoWaySyncService {
+  private contentConverter = new ContentConverter();
+  private modelCache = new Map<string, AnkiModelInfo>();
+
+  constructor(
+    private plugin: AnkiPlugin,
+    private client: AnkiConnectClient,
+    private exporter: CardExporter,
+    private importer: CardImporter,
+    private mediaService: MediaSyncService
+  ) {}
+
+  /**
+   * 双向同步一个牌组映射
+   */
+  async syncDeck(deckMapping: DeckSyncMapping, options: TwoWaySyncOptions = {}): Promise<TwoWaySyncResult> {
+    const { onProgress } = options;
+    const result: TwoWaySyncResult = {
+      success: true,
+      pushedNotes: 0,
+      pulledCards: 0,
+      exportedCards: 0,
+      importedCards: 0,
+      resolvedConflicts: 0,
+      conflicts: [],
+      syncedReviews: 0,
+      errors: []
+    };
+
+    const dataStorage = this.plugin.dataStorage;
+    if (!dataStorage) {
+      return { ...result, success: false, errors: ['DataStorage 未初始化'] };
+    }
+
+    this.modelCache.clear();
+    const mappingManager = this.importer.getMappingManager();
+    const deckName = deckMapping.ankiDeckName;
+
+    try {
+      // 1. 读取两侧数据
+      onProgress?.(0, 100, '正在读取两侧数据...');
+      const cards = [...await dataStorage.getCardsByDeck(deckMapping.tuankiDeckId)];
+      await this.client.createDeck(deckName);
+      const notes = await this.client.getNotesInfo(await this.client.findNotesByDeck(deckName));
+      const notesById = new Map(notes.map(note => [note.noteId, note]));
+
+      // 2. 按映射配对；映射指向的笔记已删除时跳过该卡片
+      const pairs: SyncPair[] = [];
+      const linkedNoteIds = new Set<number>();
+      const unmappedCards: Card[] = [];
+      for (const card of cards) {
+        const mapping = mappingManager.findByTuankiCardId(card.id);
+        const note = mapping ? notesById.get(mapping.ankiNoteId) : undefined;
+        if (mapping && note) {
+          pairs.push(this.createPair(card, note, mapping, false));
+          linkedNoteIds.add(note.noteId);
+        } else if (!mapping) {
+          unmappedCards.push(card);
+        }
+      }
+
+      // 3. 导出未关联的卡片；Anki 中已有相同笔记时直接关联，按两侧都有修改处理
+      onProgress?.(10, 100, `正在导出 ${unmappedCards.length} 张新卡片...`);
+      for (const card of unmappedCards) {
+        try {
+          const linked = await this.exportCard(card, deckName, notes, linkedNoteIds, mappingManager);
+          if (linked) {
+            pairs.push(linked);
+            linkedNoteIds.add(linked.note.noteId);
+          } else {
+            result.exportedCards++;
+          }
+        } catch (error: any) {
+          result.errors.push(`导出卡片 ${card.id} 失败: ${error.message}`);
+        }
+      }
+
+      // 4. 导入未关联的笔记
+      const unmappedNotes = notes.filter(note =>
+        !linkedNoteIds.has(note.noteId) && !mappingManager.findByAnkiNoteId(note.noteId)
+      );
+      onProgress?.(30, 100, `正在导入 ${unmappedNotes.length} 条新笔记...`);
+      for (const note of unmappedNotes) {
+        try {
+          cards.push(await this.importNote(note, deckMapping.tuankiDeckId, mappingManager));
+          result.importedCards++;
+        } catch (error: any) {
+          result.errors.push(`导入笔记 ${note.noteId} 失败: ${error.message}`);
+        }
+      }
+
+      // 5. 逐字段比较，收集冲突并交由调用方裁决
+      onProgress?.(50, 100, '正在比较字段...');
+      for (const pair of pairs) {
+        const conflictFields = pair.decisions.filter(decision => decision.action === 'conflict');
+        if (conflictFields.length > 0) {
+          result.conflicts.push({
+            cardId: pair.card.id,
+            ankiNoteId: pair.note.noteId,
+            title: this.conflictTitle(pair.card),
+            fields: conflictFields
+          });
+        }
+      }
+
+      let resolutions: ConflictResolutions | null = null;
+      if (result.conflicts.length > 0 && options.resolveConflicts) {
+        resolutions = await options.resolveConflicts(result.conflicts);
+      }
+
+      // 6. 应用合并结果
+      onProgress?.(60, 100, '正在合并修改...');
+      for (const pair of pairs) {
+        try {
+          const applied = await this.applyPair(pair, resolutions?.[pair.card.id] ?? {}, deckName);
+          if (applied.pushed) result.pushedNotes++;
+          if (applied.pulled) result.pulledCards++;
+          result.resolvedConflicts += applied.resolved;
+        } catch (error: any) {
+          result.errors.push(`同步笔记 ${pair.note.noteId} 失败: ${error.message}`);
+        }
+      }
+      result.conflicts = result.conflicts.filter(conflict =>
+        mappingManager.findByTuankiCardId(conflict.cardId)?.syncStatus === 'conflict'
+      );
+
+      // 7. 同步复习记录
+      onProgress?.(80, 100, '正在同步复习记录...');
+      result.syncedReviews = await this.syncReviews(pairs, mappingManager);
+
+      // 8. 保存
+      onProgress?.(90, 100, '正在保存...');
+      await dataStorage.saveDeckCards(deckMapping.tuankiDeckId, cards);
+
+      onProgress?.(100, 100, '双向同步完成！');
+      console.log('✅ 双向同步完成:', {
+        推送: result.pushedNotes,
+        拉取: result.pulledCards,
+        导出: result.exportedCards,
+        导入: result.importedCards,
+        冲突: result.conflicts.length,
+        复习记录: result.syncedReviews
+      });
+      return result;
+    } catch (error: any) {
+      console.error('❌ 双向同步失败:', error);
+      return { ...result, success: false, errors: [...result.errors, `双向同步失败: ${error.message}`] };
+    }
+  }
+
+  /**
+   * 导出一张未关联的卡片
+   *
+   * @returns Anki 中已有相同笔记时返回关联后的配对，否则返回 null
+   */
+  private async exportCard(
+    card: Card,
+    deckName: string,
+    existingNotes: AnkiNoteInfo[],
+    linkedNoteIds: Set<number>,
+    mappingManager: ImportMappingManager
+  ): Promise<SyncPair | null> {
+    const template = this.requireTemplate(card);
+    const modelInfo = await this.exporter.ensureAnkiModel(template);
+    const ankiNote = await this.exporter.convertCardToAnkiNote(card, template, modelInfo);
+    const ankiFields = ankiNote.fields as Record<string, string>;
+    const noteId = await this.exporter.uploadNoteToAnki(ankiNote, deckName);
+    card.uuid = card.uuid || generateUUID();
+
+    if (noteId === -1) {
+      // 重复：按首字段找到 Anki 中的同一笔记
+      const firstField = modelInfo.fields[0];
+      const duplicate = existingNotes.find(note =>
+        note.modelName === modelInfo.name &&
+        !linkedNoteIds.has(note.noteId) &&
+        !mappingManager.findByAnkiNoteId(note.noteId) &&
+        noteFieldValues(note)[firstField] === ankiFields[firstField]
+      );
+      if (!duplicate) {
+        throw new Error('Anki 中已有重复笔记，且无法确定对应关系');
+      }
+
+      await mappingManager.recordMapping(card.id, duplicate.noteId, card.uuid, '', modelInfo.id, modelInfo.name);
+      const mapping = mappingManager.findByAnkiNoteId(duplicate.noteId)!;
+      return this.createPair(card, duplicate, mapping, true);
+    }
+
+    const bindings = this.buildBindings(card, template, ankiFields);
+    await mappingManager.recordMapping(
+      card.id,
+      noteId,
+      card.uuid,
+      ImportMappingManager.calculateContentHash(card.content || ''),
+      modelInfo.id,
+      modelInfo.name
+    );
+    await mappingManager.updateMapping(card.uuid, {
+      isBidirectional: true,
+      snapshot: takeSnapshot(bindings, card.fields || {}, ankiFields, card.tags || [])
+    });
+    return null;
+  }
+
+  /**
+   * 导入一条未关联的笔记
+   */
+  private async importNote(
+    note: AnkiNoteInfo,
+    deckId: string,
+    mappingManager: ImportMappingManager
+  ): Promise<Card> {
+    const modelInfo = await this.getModelInfo(note.modelName);
+    const { template } = await this.importer.ensureTemplate(modelInfo);
+    const card = await this.importer.getImportAdapter().adaptAnkiNote(note, template, modelInfo, deckId);
+    const ankiFields = noteFieldValues(note);
+    const uuid = card.uuid || generateUUID();
+    card.uuid = uuid;
+
+    await mappingManager.recordMapping(
+      card.id,
+      note.noteId,
+      uuid,
+      ImportMappingManager.calculateContentHash(card.content || ''),
+      modelInfo.id,
+      modelInfo.name
+    );
+    await mappingManager.updateMapping(uuid, {
+      isBidirectional: true,
+      snapshot: takeSnapshot(this.buildBindings(card, template, ankiFields), card.fields || {}, ankiFields, card.tags || [])
+    });
+    return card;
+  }
+
+  /**
+   * 建立配对并规划字段合并
+   *
+   * @param unknownBase - 关联时两侧内容来源不明，视为两侧都有修改，不一致的字段全部作为冲突
+   */
+  private createPair(card: Card, note: AnkiNoteInfo, mapping: ImportMapping, unknownBase: boolean): SyncPair {
+    const template = this.requireTemplate(card);
+    const ankiFields = noteFieldValues(note);
+    const bindings = this.buildBindings(card, template, ankiFields);
+    const lastSync = Date.parse(mapping.lastSyncTime) || 0;
+
+    const decisions = planFieldMerge({
+      bindings,
+      tuankiFields: card.fields || {},
+      ankiFields,
+      snapshot: unknownBase ? undefined : mapping.snapshot,
+      tuankiModified: unknownBase || Date.parse(card.modified) > lastSync,
+      ankiModified: unknownBase || note.mod * 1000 > lastSync,
+      toMarkdown: html => this.toMarkdown(html).markdown
+    });
+
+    return { card, note, mapping, template, bindings, decisions };
+  }
+
+  /**
+   * 应用一对卡片和笔记的合并结果，并更新映射
+   */
+  private async applyPair(
+    pair: SyncPair,
+    choices: Record<string, 'tuanki' | 'anki'>,
+    deckName: string
+  ): Promise<{ pushed: boolean; pulled: boolean; resolved: number }> {
+    const { card, note, mapping } = pair;
+    const ankiFields = noteFieldValues(note);
+    const pushFields: string[] = [];
+    const pullDecisions: FieldMergeDecision[] = [];
+    const unresolved = new Set<string>();
+    let resolved = 0;
+
+    for (const decision of pair.decisions) {
+      let action = decision.action;
+      if (action === 'conflict') {
+        const choice = choices[decision.ankiField];
+        if (!choice) {
+          unresolved.add(decision.ankiField);
+          continue;
+        }
+        action = choice === 'tuanki' ? 'push' : 'pull';
+        resolved++;
+      }
+      if (action === 'push') pushFields.push(decision.ankiField);
+      if (action === 'pull') pullDecisions.push(decision);
+    }
+
+    // 拉取：HTML 转 Markdown，缺失的媒体文件从 Anki 下载
+    card.fields = { ...card.fields };
+    let rebuildContent = false;
+    for (const decision of pullDecisions) {
+      const previous = card.fields[decision.cardKey] ?? '';
+      const value = await this.pullField(decision.ankiValue, deckName);
+      card.fields[decision.cardKey] = value;
+      // 优先在原内容中原位替换，保留字段以外的内容；找不到原值时按正反面重建
+      if (previous && card.content?.includes(previous)) {
+        card.content = card.content.replace(previous, () => value);
+      } else {
+        rebuildContent = true;
+      }
+    }
+
+    // 推送：重新转换整张卡片，只提交需要推送的字段
+    let pushedValues: Record<string, string> = {};
+    if (pushFields.length > 0) {
+      const modelInfo = await this.getModelInfo(note.modelName);
+      const converted = await this.exporter.convertCardToAnkiNote(card, pair.template, modelInfo);
+      pushedValues = Object.fromEntries(pushFields.map(field => [field, converted.fields?.[field] ?? '']));
+      await this.client.updateNoteFields(note.noteId, pushedValues);
+    }
+
+    // 标签
+    const tags = mergeTags(mapping.snapshot?.tags, card.tags || [], note.tags || []);
+    const ankiTagsChanged = !sameTags(tags, note.tags || []);
+    const tuankiTagsChanged = !sameTags(tags, card.tags || []);
+    if (ankiTagsChanged) {
+      await this.client.updateNoteTags(note.noteId, tags);
+    }
+    if (tuankiTagsChanged) {
+      card.tags = tags;
+    }
+
+    const pulled = pullDecisions.length > 0 || tuankiTagsChanged;
+    const pushed = pushFields.length > 0 || ankiTagsChanged;
+    const now = new Date().toISOString();
+    if (rebuildContent) {
+      card.content = buildContent(card);
+    }
+    if (pulled) {
+      card.modified = now;
+    }
+
+    // 快照：未裁决的字段保留旧基线，下次同步仍会识别为冲突
+    const snapshot = takeSnapshot(pair.bindings, card.fields, { ...ankiFields, ...pushedValues }, tags);
+    for (const binding of pair.bindings) {
+      if (unresolved.has(binding.ankiField)) {
+        snapshot.tuankiFields[binding.cardKey] = mapping.snapshot?.tuankiFields[binding.cardKey] ?? '';
+        snapshot.ankiFields[binding.ankiField] = mapping.snapshot?.ankiFields[binding.ankiField] ?? '';
+      }
+    }
+
+    await this.importer.getMappingManager().updateMapping(mapping.uuid, {
+      snapshot,
+      contentHash: ImportMappingManager.calculateContentHash(card.content || ''),
+      lastSyncTime: now,
+      lastModifiedInTuanki: card.modified,
+      lastModifiedInAnki: pushed ? now : new Date(note.mod * 1000).toISOString(),
+      syncVersion: mapping.syncVersion + 1,
+      isBidirectional: true,
+      syncStatus: unresolved.size > 0 ? 'conflict' : 'synced'
+    });
+
+    return { pushed, pulled, resolved };
+  }
+
+  /**
+   * 将 Anki 中新增的复习记录重放到 Tuanki 卡片
+   *
+   * 手动操作和早于卡片本地最后复习时间的记录不参与重放（本地已复习过的部分以本地为准）。
+   */
+  private async syncReviews(pairs: SyncPair[], mappingManager: ImportMappingManager): Promise<number> {
+    const cardIds = pairs.map(pair => pair.note.cards?.[0]).filter((id): id is number => typeof id === 'number');
+    if (cardIds.length === 0) return 0;
+
+    const reviewsByCard = await this.client.getReviewsOfCards(cardIds);
+    // 沿用用户的 FSRS 参数，重放时不加随机扰动
+    const scheduler = new FSRS({ ...this.plugin.fsrs?.getParameters(), enableFuzz: false });
+    let synced = 0;
+
+    for (const pair of pairs) {
+      const ankiCardId = pair.note.cards?.[0];
+      const entries: AnkiReviewEntry[] = reviewsByCard[String(ankiCardId)] || [];
+      const mapping = mappingManager.findByUUID(pair.mapping.uuid)!;
+      const lastSyncedId = mapping.lastAnkiReviewId ?? 0;
+      const newEntries = entries.filter(entry => entry.id > lastSyncedId).sort((a, b) => a.id - b.id);
+      if (newEntries.length === 0) continue;
+
+      const { card } = pair;
+      const localLastReview = card.fsrs?.lastReview ? Date.parse(card.fsrs.lastReview) : 0;
+      let applied = 0;
+
+      for (const entry of newEntries) {
+        if (entry.type === REVLOG_MANUAL) continue;
+        if (entry.ease < Rating.Again || entry.ease > Rating.Easy) continue;
+        if (entry.id <= localLastReview) continue;
+
+        const review = scheduler.review(card.fsrs, entry.ease as Rating, new Date(entry.id).toISOString());
+        card.fsrs = review.card;
+        card.reviewHistory = [...(card.reviewHistory || []), { ...review.log, duration: Math.max(0, entry.time) }];
+
+        const totalReviews = (card.stats?.totalReviews ?? 0) + 1;
+        const totalTime = (card.stats?.totalTime ?? 0) + Math.max(0, entry.time) / 1000;
+        card.stats = { ...card.stats, totalReviews, totalTime, averageTime: totalTime / totalReviews };
+        applied++;
+      }
+
+      if (applied > 0) {
+        card.modified = new Date().toISOString();
+        synced += applied;
+      }
+      await mappingManager.updateMapping(mapping.uuid, {
+        lastAnkiReviewId: newEntries[newEntries.length - 1].id
+      });
+    }
+
+    return synced;
+  }
+
+  /**
+   * 拉取单个字段：HTML 转 Markdown，并确保引用的媒体文件在库中存在
+   */
+  private async pullField(html: string, deckName: string): Promise<string> {
+    const { markdown, missingMedia } = this.toMarkdown(html);
+    if (missingMedia.length > 0) {
+      const mediaFolder = `tuanki/media/[AnkiConnect] ${deckName.replace(/[\\/:*?"<>|]/g, '_')}`;
+      for (const filename of missingMedia) {
+        const downloaded = await this.mediaService.downloadMediaFromAnki(filename, mediaFolder);
+        if (!downloaded) {
+          console.warn(`[TwoWaySync] 媒体文件下载失败: ${filename}`);
+        }
+      }
+    }
+    return markdown;
+  }
+
+  /**
+   * Anki HTML 转 Markdown，媒体统一写成按文件名解析的 WikiLink
+   */
+  private toMarkdown(html: string): { markdown: string; missingMedia: string[] } {
+    const { markdown, mediaRefs } = this.contentConverter.convert(html.replace(BACKLINK_PATTERN, ''));
+    const mediaPathMap = new Map(mediaRefs.map(ref => [ref.originalName, ref.originalName]));
+    const missingMedia = mediaRefs
+      .map(ref => ref.originalName)
+      .filter(name => !this.plugin.app.metadataCache.getFirstLinkpathDest(name, ''));
+
+    return {
+      markdown: this.contentConverter.replaceMediaPlaceholders(markdown, mediaRefs, mediaPathMap),
+      missingMedia: Array.from(new Set(missingMedia))
+    };
+  }
+
+  /**
+   * 模板字段与 Anki 字段的绑定；多个模板字段落到同一个卡片字段时只保留第一个
+   */
+  private buildBindings(card: Card, template: ParseTemplate, ankiFields: Record<string, string>): FieldBinding[] {
+    const bindings: FieldBinding[] = [];
+    const usedKeys = new Set<string>();
+
+    for (const field of template.fields || []) {
+      const ankiField = field.pattern || field.name;
+      if (!(ankiField in ankiFields)) continue;
+
+      const cardKey = this.exporter.findCardFieldKey(card, field) || field.name;
+      if (usedKeys.has(cardKey)) continue;
+
+      usedKeys.add(cardKey);
+      bindings.push({ ankiField, cardKey });
+    }
+    return bindings;
+  }
+
+  private requireTemplate(card: Card): ParseTemplate {
+    const template = this.exporter.getTemplateById(card.templateId || '');
+    if (!template) {
+      throw new Error(`卡片 ${card.id} 的模板不可用`);
+    }
+    return template;
+  }
+
+  private async getModelInfo(modelName: string): Promise<AnkiModelInfo> {
+    let modelInfo = this.modelCache.get(modelName);
+    if (!modelInfo) {
+      modelInfo = await this.client.getModelInfo(modelName);
+      this.modelCache.set(modelName, modelInfo);
+    }
+    return modelInfo;
+  }
+
+  private conflictTitle(card: Card): string {
+    const front = card.fields?.front || card.content || card.id;
+    const firstLine = front.split('\n')[0].trim();
+    return firstLine.length > 60 ? `${firstLine.slice(0, 60)}…` : firstLine;
+  }
+}
+
+/**
+ * 读取笔记字段值（兼容 AnkiConnect 的 {value, order} 形式）
+ */
+function noteFieldValues(note: AnkiNoteInfo): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [name, field] of Object.entries((note.fields || {}) as Record<string, unknown>)) {
+    values[name] = typeof field === 'object' && field !== null && 'value' in field
+      ? String((field as { value: unknown }).value ?? '')
+      : String(field ?? '');
+  }
+  return values;
+}
+
+function takeSnapshot(
+  bindings: FieldBinding[],
+  tuankiFields: Record<string, string>,
+  ankiFields: Record<string, string>,
+  tags: string[]
+): SyncSnapshot {
+  const snapshot: SyncSnapshot = { tuankiFields: {}, ankiFields: {}, tags: [...tags] };
+  for (const { ankiField, cardKey } of bindings) {
+    snapshot.tuankiFields[cardKey] = tuankiFields[cardKey] ?? '';
+    snapshot.ankiFields[ankiField] = ankiFields[ankiField] ?? '';
+  }
+  return snapshot;
+}
+
+/**
+ * 按正反面字段重建卡片内容
+ */
+function buildContent(card: Card): string {
+  const front = card.fields?.front ?? '';
+  const back = card.fields?.back ?? '';
+  return back ? `${front}\n\n${MAIN_SEPARATOR}\n\n${back}` : front;
+}
@@ -3,6 +3,9 @@
  * 
  * 将旧的双向同步配置迁移为单向同步配置
  * 执行日期：2025-10-16
+ *
+ * 双向同步已改为基于 ImportMapping 快照的三方合并（TwoWaySyncService），
+ * 牌组映射的 'bidirectional' 方向重新有效，迁移时保留。
  */
 
 import type { AnkiConnectSettings, DeckSyncMapping } from '../../../components/settings/types/settings-types';
@@ -25,16 +28,11 @@ export function migrateAnkiConnectSettings(
 ): AnkiConnectSettings {
   const { bidirectionalSync, ...rest } = legacySettings;
 
-  // 迁移牌组映射：将 'bidirectional' 改为 'to_anki'
+  // 牌组映射原样保留（'bidirectional' 由 TwoWaySyncService 处理）
   const migratedDeckMappings: Record<string, DeckSyncMapping> = {};
   
   for (const [key, mapping] of Object.entries(rest.deckMappings || {})) {
-    migratedDeckMappings[key] = {
-      ...mapping,
-      syncDirection: mapping.syncDirection === 'bidirectional' 
-        ? 'to_anki'  // 默认改为导出到 Anki
-        : mapping.syncDirection as 'to_anki' | 'from_anki'
-    };
+    migratedDeckMappings[key] = { ...mapping };
   }
 
   // 移除模板映射中的 isBidirectionalCapable
@@ -45,9 +43,9 @@ export function migrateAnkiConnectSettings(
     migratedTemplateMappings[key] = cleanMapping;
   }
 
-  console.log('[Migration] 已移除双向同步配置，牌组映射已迁移为单向同步');
+  console.log('[Migration] 已移除旧版双向同步配置');
   if (bidirectionalSync?.enabled) {
-    console.warn('[Migration] 双向同步已被禁用，请检查牌组映射的同步方向设置');
+    console.warn('[Migration] 旧版双向同步配置已移除，双向牌组映射改由三方合并同步');
   }
 
   return {
@@ -76,7 +74,6 @@ export async function executeMigration(
   
   console.log('[Migration] 迁移完成');
   console.log('[Migration] - 已移除 bidirectionalSync 配置');
-  console.log('[Migration] - 已更新牌组映射同步方向');
   console.log('[Migration] - 已清理模板映射双向标识');
   
   return migratedSettings;
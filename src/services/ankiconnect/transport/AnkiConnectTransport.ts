@@ -0,0 +1,21 @@
+/**
+ * AnkiConnect 传输层
+ *
+ * 客户端只负责组装请求和解析结果，请求如何送达由传输层决定：
+ * - HttpTransport：通过 HTTP 与运行中的 Anki 通信（默认）
+ * - FakeAnkiConnectTransport：在进程内由 FakeAnkiConnectBackend 处理，用于测试和无 Anki 环境
+ */
+
+import type { AnkiConnectRequest, AnkiConnectResponse } from '../../../types/ankiconnect-types';
+
+export interface AnkiConnectTransport {
+  /**
+   * 发送请求并返回原始响应（action 级错误放在 response.error 中，由客户端处理）
+   */
+  send<T = any>(request: AnkiConnectRequest): Promise<AnkiConnectResponse<T>>;
+
+  /**
+   * 设置请求超时（毫秒），不需要超时的传输层可以不实现
+   */
+  setRequestTimeout?(timeout: number): void;
+}
@@ -0,0 +1,512 @@
+/**
+ * 进程内 AnkiConnect 模拟后端
+ *
+ * 在内存中维护牌组、笔记类型、笔记和媒体文件，按 AnkiConnect v6 的语义响应常用 action，
+ * 用于集成测试以及没有运行 Anki 时的离线同步。状态可以导出为 sqlite 数据库并从中恢复。
+ *
+ * 只实现同步链路用到的 action；每条笔记只生成一张卡片，复习记录只能通过 addReview 写入，不涉及调度。
+ */
+
+import { loadSqlJs } from '../../../utils/sql-loader';
+import type { SqlDatabase } from '../../../utils/sql-loader';
+import type { AnkiReviewEntry } from '../../../types/ankiconnect-types';
+
+interface FakeDeck {
+  id: number;
+  name: string;
+}
+
+interface FakeModel {
+  id: number;
+  name: string;
+  fields: string[];
+  templates: Array<{ Name: string; Front: string; Back: string }>;
+  css: string;
+  isCloze: boolean;
+}
+
+interface FakeNote {
+  id: number;
+  modelName: string;
+  deckName: string;
+  /** 按笔记类型字段顺序存放 */
+  fields: Record<string, string>;
+  tags: string[];
+  cardId: number;
+  /** 修改时间（秒），与 AnkiConnect 的 notesInfo 一致 */
+  mod: number;
+}
+
+export interface FakeAnkiConnectBackendOptions {
+  /** 时钟（毫秒），测试时可固定 */
+  now?: () => number;
+  /** sql.js 的 wasm 地址，仅在导入导出数据库时使用 */
+  wasmUrl?: string;
+}
+
+const DEFAULT_DECK = 'Default';
+const API_VERSION = 6;
+
+const SCHEMA_SQL = `
+CREATE TABLE meta (key TEXT PRIMARY KEY, value INTEGER NOT NULL);
+CREATE TABLE decks (id INTEGER PRIMARY KEY, name TEXT NOT NULL);
+CREATE TABLE models (id INTEGER PRIMARY KEY, name TEXT NOT NULL, fields TEXT NOT NULL,
+  templates TEXT NOT NULL, css TEXT NOT NULL, is_cloze INTEGER NOT NULL);
+CREATE TABLE notes (id INTEGER PRIMARY KEY, model TEXT NOT NULL, deck TEXT NOT NULL,
+  fields TEXT NOT NULL, tags TEXT NOT NULL, card_id INTEGER NOT NULL, mod INTEGER NOT NULL);
+CREATE TABLE media (filename TEXT PRIMARY KEY, data TEXT NOT NULL);
+CREATE TABLE revlog (id INTEGER NOT NULL, cid INTEGER NOT NULL, ease INTEGER NOT NULL, ivl INTEGER NOT NULL,
+  last_ivl INTEGER NOT NULL, factor INTEGER NOT NULL, time INTEGER NOT NULL, type INTEGER NOT NULL);
+`;
+
+export class FakeAnkiConnectBackend {
+  private decks = new Map<string, FakeDeck>();
+  private models = new Map<string, FakeModel>();
+  private notes = new Map<number, FakeNote>();
+  private media = new Map<string, string>();
+  private reviews = new Map<number, AnkiReviewEntry[]>();
+  private nextId: number;
+  private readonly now: () => number;
+
+  constructor(private options: FakeAnkiConnectBackendOptions = {}) {
+    this.now = options.now ?? (() => Date.now());
+    this.nextId = this.now();
+    this.createDeck(DEFAULT_DECK);
+  }
+
+  /**
+   * 处理单个 action，失败时抛出与 AnkiConnect 相同措辞的错误
+   */
+  handle(action: string, params: any = {}): any {
+    switch (action) {
+      case 'version':
+        return API_VERSION;
+      case 'sync':
+      case 'clearUnusedTags':
+        return null;
+      case 'multi':
+        return (params.actions || []).map((item: { action: string; params?: any }) => {
+          try {
+            return { result: this.handle(item.action, item.params), error: null };
+          } catch (error) {
+            return { result: null, error: error instanceof Error ? error.message : String(error) };
+          }
+        });
+
+      // 牌组
+      case 'deckNames':
+        return Array.from(this.decks.keys());
+      case 'deckNamesAndIds':
+        return Object.fromEntries(Array.from(this.decks.values()).map(deck => [deck.name, deck.id]));
+      case 'createDeck':
+        return this.createDeck(params.deck);
+      case 'getDeck':
+        return this.getDeckStats(params.deck);
+      case 'getDeckConfig':
+        this.requireDeck(params.deck);
+        return { id: 1, name: 'Default', new: { perDay: 20 }, rev: { perDay: 200 } };
+      case 'changeDeck':
+        return this.changeDeck(params.cards || [], params.deck);
+
+      // 笔记类型
+      case 'modelNames':
+        return Array.from(this.models.keys());
+      case 'modelNamesAndIds':
+        return Object.fromEntries(Array.from(this.models.values()).map(model => [model.name, model.id]));
+      case 'modelFieldNames':
+        return [...this.requireModel(params.modelName).fields];
+      case 'modelTemplates':
+        return Object.fromEntries(this.requireModel(params.modelName).templates
+          .map(template => [template.Name, { Front: template.Front, Back: template.Back }]));
+      case 'modelStyling':
+        return { css: this.requireModel(params.modelName).css };
+      case 'createModel':
+        return this.createModel(params);
+
+      // 笔记
+      case 'addNote':
+        return this.addNote(params.note);
+      case 'updateNoteFields':
+        return this.updateNoteFields(params.note);
+      case 'updateNoteTags':
+        return this.updateNoteTags(params.note, params.tags);
+      case 'notesInfo':
+        return (params.notes || []).map((id: number) => this.noteInfo(id));
+      case 'findNotes':
+        return this.findNotes(params.query || '');
+      case 'deleteNotes':
+        for (const id of params.notes || []) this.notes.delete(id);
+        return null;
+
+      // 复习记录
+      case 'getReviewsOfCards':
+        return Object.fromEntries((params.cards || []).map((id: number | string) => [
+          String(id),
+          this.reviews.get(Number(id)) ?? []
+        ]));
+
+      // 媒体
+      case 'storeMediaFile':
+        if (typeof params.data !== 'string') {
+          throw new Error('storeMediaFile 需要 base64 data 参数');
+        }
+        this.media.set(params.filename, params.data);
+        return params.filename;
+      case 'retrieveMediaFile':
+        return this.media.get(params.filename) ?? false;
+      case 'getMediaFilesNames':
+        return this.findMedia(params.pattern || '*');
+      case 'deleteMediaFile':
+        this.media.delete(params.filename);
+        return null;
+
+      default:
+        throw new Error('unsupported action');
+    }
+  }
+
+  /**
+   * 按笔记 ID 读取字段（测试断言用）
+   */
+  getNoteFields(noteId: number): Record<string, string> | undefined {
+    const note = this.notes.get(noteId);
+    return note ? { ...note.fields } : undefined;
+  }
+
+  /**
+   * 为笔记的卡片追加一条复习记录（模拟在 Anki 中复习）
+   */
+  addReview(noteId: number, review: Omit<AnkiReviewEntry, 'usn'>): void {
+    const note = this.requireNote(noteId);
+    const entries = this.reviews.get(note.cardId) ?? [];
+    entries.push({ ...review, usn: -1 });
+    entries.sort((a, b) => a.id - b.id);
+    this.reviews.set(note.cardId, entries);
+  }
+
+  /**
+   * 导出为 sqlite 数据库
+   */
+  async exportDatabase(): Promise<Uint8Array> {
+    const SQL = await loadSqlJs(this.options.wasmUrl);
+    const db = new SQL.Database();
+    try {
+      db.exec(SCHEMA_SQL);
+      db.exec('BEGIN');
+      db.run('INSERT INTO meta VALUES (?,?)', ['next_id', this.nextId]);
+      for (const deck of this.decks.values()) {
+        db.run('INSERT INTO decks VALUES (?,?)', [deck.id, deck.name]);
+      }
+      for (const model of this.models.values()) {
+        db.run('INSERT INTO models VALUES (?,?,?,?,?,?)', [
+          model.id, model.name, JSON.stringify(model.fields), JSON.stringify(model.templates),
+          model.css, model.isCloze ? 1 : 0
+        ]);
+      }
+      for (const note of this.notes.values()) {
+        db.run('INSERT INTO notes VALUES (?,?,?,?,?,?,?)', [
+          note.id, note.modelName, note.deckName, JSON.stringify(note.fields),
+          JSON.stringify(note.tags), note.cardId, note.mod
+        ]);
+      }
+      for (const [filename, data] of this.media) {
+        db.run('INSERT INTO media VALUES (?,?)', [filename, data]);
+      }
+      for (const [cardId, entries] of this.reviews) {
+        for (const entry of entries) {
+          db.run('INSERT INTO revlog VALUES (?,?,?,?,?,?,?,?)', [
+            entry.id, cardId, entry.ease, entry.ivl, entry.lastIvl, entry.factor, entry.time, entry.type
+          ]);
+        }
+      }
+      db.exec('COMMIT');
+      return db.export();
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * 从 exportDatabase 生成的 sqlite 数据库恢复
+   */
+  static async fromDatabase(
+    data: Uint8Array,
+    options: FakeAnkiConnectBackendOptions = {}
+  ): Promise<FakeAnkiConnectBackend> {
+    const SQL = await loadSqlJs(options.wasmUrl);
+    const db = new SQL.Database(data);
+    const backend = new FakeAnkiConnectBackend(options);
+    backend.decks.clear();
+
+    try {
+      for (const [key, value] of rows(db, 'SELECT key, value FROM meta')) {
+        if (key === 'next_id') backend.nextId = Number(value);
+      }
+      for (const [id, name] of rows(db, 'SELECT id, name FROM decks')) {
+        backend.decks.set(name, { id: Number(id), name });
+      }
+      for (const [id, name, fields, templates, css, isCloze] of rows(db, 'SELECT * FROM models')) {
+        backend.models.set(name, {
+          id: Number(id),
+          name,
+          fields: JSON.parse(fields),
+          templates: JSON.parse(templates),
+          css,
+          isCloze: isCloze === 1
+        });
+      }
+      for (const [id, modelName, deckName, fields, tags, cardId, mod] of rows(db, 'SELECT * FROM notes')) {
+        backend.notes.set(Number(id), {
+          id: Number(id),
+          modelName,
+          deckName,
+          fields: JSON.parse(fields),
+          tags: JSON.parse(tags),
+          cardId: Number(cardId),
+          mod: Number(mod)
+        });
+      }
+      for (const [filename, content] of rows(db, 'SELECT filename, data FROM media')) {
+        backend.media.set(filename, content);
+      }
+      for (const [id, cid, ease, ivl, lastIvl, factor, time, type] of rows(db, 'SELECT * FROM revlog ORDER BY id')) {
+        const entries = backend.reviews.get(Number(cid)) ?? [];
+        entries.push({ id: Number(id), usn: -1, ease, ivl, lastIvl, factor, time, type });
+        backend.reviews.set(Number(cid), entries);
+      }
+    } finally {
+      db.close();
+    }
+
+    return backend;
+  }
+
+  private generateId(): number {
+    this.nextId = Math.max(this.nextId + 1, this.now());
+    return this.nextId;
+  }
+
+  private createDeck(name: string): number {
+    const existing = this.decks.get(name);
+    if (existing) return existing.id;
+
+    // 与 Anki 一致：创建子牌组时补齐父牌组
+    const parts = name.split('::');
+    for (let i = 1; i < parts.length; i++) {
+      this.createDeck(parts.slice(0, i).join('::'));
+    }
+
+    const deck = { id: this.generateId(), name };
+    this.decks.set(name, deck);
+    return deck.id;
+  }
+
+  private requireDeck(name: string): FakeDeck {
+    const deck = this.decks.get(name);
+    if (!deck) {
+      throw new Error(`deck was not found: ${name}`);
+    }
+    return deck;
+  }
+
+  private getDeckStats(name: string) {
+    const deck = this.requireDeck(name);
+    const total = Array.from(this.notes.values()).filter(note => note.deckName === name).length;
+    return {
+      deck_id: deck.id,
+      name,
+      total_in_deck: total,
+      new_count: total,
+      learn_count: 0,
+      review_count: 0
+    };
+  }
+
+  private changeDeck(cardIds: number[], deckName: string): null {
+    this.createDeck(deckName);
+    const ids = new Set(cardIds);
+    for (const note of this.notes.values()) {
+      if (ids.has(note.cardId)) {
+        note.deckName = deckName;
+        note.mod = this.modTime();
+      }
+    }
+    return null;
+  }
+
+  private requireModel(name: string): FakeModel {
+    const model = this.models.get(name);
+    if (!model) {
+      throw new Error(`model was not found: ${name}`);
+    }
+    return model;
+  }
+
+  private createModel(params: any) {
+    const name: string = params.modelName;
+    if (!name) {
+      throw new Error('Must provide a modelName');
+    }
+    if (this.models.has(name)) {
+      throw new Error(`Model name already exists`);
+    }
+    const fields: string[] = params.inOrderFields || [];
+    if (fields.length === 0) {
+      throw new Error('Must provide at least one field for inOrderFields');
+    }
+
+    const model: FakeModel = {
+      id: this.generateId(),
+      name,
+      fields: [...fields],
+      templates: (params.cardTemplates || []).map((template: any, index: number) => ({
+        Name: template.Name || `Card ${index + 1}`,
+        Front: template.Front || '',
+        Back: template.Back || ''
+      })),
+      css: params.css || '',
+      isCloze: Boolean(params.isCloze)
+    };
+    this.models.set(name, model);
+
+    return { id: model.id, name: model.name, flds: model.fields.map((field, ord) => ({ name: field, ord })) };
+  }
+
+  private addNote(note: any): number {
+    if (!note) {
+      throw new Error('note is required');
+    }
+    const deck = this.requireDeck(note.deckName);
+    const model = this.requireModel(note.modelName);
+
+    const fields: Record<string, string> = {};
+    for (const field of model.fields) {
+      fields[field] = note.fields?.[field] ?? '';
+    }
+
+    const firstField = fields[model.fields[0]];
+    if (!firstField.trim()) {
+      throw new Error('cannot create note because it is empty');
+    }
+
+    if (!note.options?.allowDuplicate) {
+      const scopeDeck = note.options?.duplicateScope === 'deck' ? deck.name : null;
+      const duplicate = Array.from(this.notes.values()).some(existing =>
+        existing.modelName === model.name &&
+        (!scopeDeck || existing.deckName === scopeDeck) &&
+        existing.fields[model.fields[0]] === firstField
+      );
+      if (duplicate) {
+        throw new Error('cannot create note because it is a duplicate');
+      }
+    }
+
+    const id = this.generateId();
+    this.notes.set(id, {
+      id,
+      modelName: model.name,
+      deckName: deck.name,
+      fields,
+      tags: normalizeTags(note.tags),
+      cardId: this.generateId(),
+      mod: this.modTime()
+    });
+    return id;
+  }
+
+  private requireNote(id: number): FakeNote {
+    const note = this.notes.get(id);
+    if (!note) {
+      throw new Error(`Note was not found: ${id}`);
+    }
+    return note;
+  }
+
+  private updateNoteFields(params: any): null {
+    const note = this.requireNote(params?.id);
+    for (const [field, value] of Object.entries(params.fields || {})) {
+      if (field in note.fields) {
+        note.fields[field] = String(value);
+      }
+    }
+    note.mod = this.modTime();
+    return null;
+  }
+
+  private updateNoteTags(noteId: number, tags: string | string[]): null {
+    const note = this.requireNote(noteId);
+    note.tags = normalizeTags(tags);
+    note.mod = this.modTime();
+    return null;
+  }
+
+  private noteInfo(id: number) {
+    const note = this.notes.get(id);
+    if (!note) return {};
+
+    const model = this.models.get(note.modelName);
+    const order = model?.fields ?? Object.keys(note.fields);
+    return {
+      noteId: note.id,
+      modelName: note.modelName,
+      tags: [...note.tags],
+      fields: Object.fromEntries(order.map((field, index) => [
+        field,
+        { value: note.fields[field] ?? '', order: index }
+      ])),
+      cards: [note.cardId],
+      mod: note.mod
+    };
+  }
+
+  /**
+   * 支持 deck:、nid:、tag:、note: 以及 * 的组合（空格分隔，全部满足）
+   */
+  private findNotes(query: string): number[] {
+    const terms = query.match(/(?:[^\s"]+|"[^"]*")+/g) || [];
+    const predicates = terms.map(term => {
+      const [key, ...rest] = term.split(':');
+      const value = rest.join(':').replace(/^"|"$/g, '');
+      switch (key.toLowerCase()) {
+        case 'deck':
+          return (note: FakeNote) => value === '*' || note.deckName === value || note.deckName.startsWith(`${value}::`);
+        case 'nid': {
+          const ids = new Set(value.split(',').map(Number));
+          return (note: FakeNote) => ids.has(note.id);
+        }
+        case 'tag':
+          return (note: FakeNote) => note.tags.some(tag => tag.toLowerCase() === value.toLowerCase());
+        case 'note':
+          return (note: FakeNote) => note.modelName === value;
+        case '*':
+          return () => true;
+        default:
+          throw new Error(`unsupported query term: ${term}`);
+      }
+    });
+
+    return Array.from(this.notes.values())
+      .filter(note => predicates.every(predicate => predicate(note)))
+      .map(note => note.id);
+  }
+
+  private findMedia(pattern: string): string[] {
+    const regex = new RegExp(
+      `^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`
+    );
+    return Array.from(this.media.keys()).filter(name => regex.test(name));
+  }
+
+  private modTime(): number {
+    return Math.floor(this.now() / 1000);
+  }
+}
+
+function normalizeTags(tags: string | string[] | undefined): string[] {
+  const list = Array.isArray(tags) ? tags : (tags || '').split(/\s+/);
+  return Array.from(new Set(list.map(tag => tag.trim()).filter(Boolean)));
+}
+
+function rows(db: SqlDatabase, sql: string): any[][] {
+  return db.exec(sql)[0]?.values ?? [];
+}
@@ -0,0 +1,35 @@
+/**
+ * 进程内传输层
+ * 把请求直接交给 FakeAnkiConnectBackend 处理，不经过网络
+ */
+
+import type { AnkiConnectRequest, AnkiConnectResponse } from '../../../types/ankiconnect-types';
+import type { AnkiConnectTransport } from './AnkiConnectTransport';
+import { FakeAnkiConnectBackend } from './FakeAnkiConnectBackend';
+
+export class FakeAnkiConnectTransport implements AnkiConnectTransport {
+  /** 已收到的请求，便于断言调用顺序 */
+  readonly requests: AnkiConnectRequest[] = [];
+
+  constructor(readonly backend: FakeAnkiConnectBackend = new FakeAnkiConnectBackend()) {}
+
+  async send<T = any>(request: AnkiConnectRequest): Promise<AnkiConnectResponse<T>> {
+    this.requests.push(request);
+
+    if (request.version !== 6) {
+      return { result: null as T, error: 'unsupported version' };
+    }
+
+    try {
+      // 深拷贝，避免调用方与后端共享对象引用
+      const result = this.backend.handle(request.action, clone(request.params));
+      return { result: clone(result), error: null };
+    } catch (error) {
+      return { result: null as T, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,75 @@
+/**
+ * HTTP 传输层
+ * 通过 fetch 将请求发送到 AnkiConnect 插件监听的端口
+ */
+
+import {
+  type AnkiConnectRequest,
+  type AnkiConnectResponse,
+  AnkiConnectError,
+  ConnectionErrorType
+} from '../../../types/ankiconnect-types';
+import type { AnkiConnectTransport } from './AnkiConnectTransport';
+
+export class HttpTransport implements AnkiConnectTransport {
+  private requestTimeout: number = 5000; // 5秒超时
+
+  constructor(private readonly endpoint: string = 'http://localhost:8765') {}
+
+  async send<T = any>(request: AnkiConnectRequest): Promise<AnkiConnectResponse<T>> {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
+
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        throw new AnkiConnectError(
+          `HTTP 错误: ${response.status} ${response.statusText}`,
+          ConnectionErrorType.NETWORK,
+          '请检查网络连接和 AnkiConnect 插件状态'
+        );
+      }
+
+      return await response.json();
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        throw new AnkiConnectError(
+          '请求超时',
+          ConnectionErrorType.NETWORK,
+          '请确保 Anki 正在运行且 AnkiConnect 插件已启用'
+        );
+      }
+
+      if (error instanceof AnkiConnectError) {
+        throw error;
+      }
+
+      if (error.message?.includes('fetch')) {
+        throw new AnkiConnectError(
+          'Anki 未运行或 AnkiConnect 插件未安装',
+          ConnectionErrorType.NOT_RUNNING,
+          '请启动 Anki 并确保已安装 AnkiConnect 插件'
+        );
+      }
+
+      throw new AnkiConnectError(
+        error.message || '未知错误',
+        ConnectionErrorType.UNKNOWN
+      );
+    }
+  }
+
+  setRequestTimeout(timeout: number): void {
+    this.requestTimeout = timeout;
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * 文字转语音服务
+ *
+ * 使用平台自带的语音合成（speechSynthesis）朗读卡片中的 TTS 标记，不依赖网络：
+ * - {{tts:字段名}} 朗读模板字段的内容，{{tts 语言:文本}} 按指定语言朗读原文
+ * - 语言、声音和语速按模板设置，标记中的语言优先
+ * - 按语言选择声音时优先使用本地（离线）声音
+ */
+
+import type { Card, TtsSettings } from '../../data/types';
+import type { ParseTemplate } from '../../types/newCardParsingTypes';
+import { MAIN_SEPARATOR } from '../../constants/markdown-delimiters';
+import { parseTtsMarkers, replaceTtsMarkers } from '../../utils/tts-markers';
+import { buildCardTypeSides, findTemplateCardType, getTemplateFieldValue } from '../../utils/template-card-types';
+import { toPlainAnswer } from '../typed-answer/TypedAnswerService';
+
+export const DEFAULT_TTS_SETTINGS: TtsSettings = {
+  lang: '',
+  voice: '',
+  rate: 1,
+  autoPlay: true
+};
+
+/** 一段待朗读的文本 */
+export interface TtsSegment {
+  text: string;
+  lang: string;
+}
+
+export interface CardSideContents {
+  front: string;
+  back: string;
+}
+
+/** 预览中渲染的朗读按钮，data-tts-* 属性记录朗读所需的全部信息 */
+export const TTS_BUTTON_CLASS = 'tuanki-tts-button';
+
+export function resolveTtsSettings(template?: Pick<ParseTemplate, 'tts'> | null): TtsSettings {
+  const settings = { ...DEFAULT_TTS_SETTINGS };
+  for (const key of Object.keys(settings) as Array<keyof TtsSettings>) {
+    const value = template?.tts?.[key];
+    if (value !== undefined) (settings as any)[key] = value;
+  }
+  return settings;
+}
+
+/**
+ * 标记参数的解析函数：参数是模板字段名（或 card.fields 中的键）时返回字段内容，否则返回 undefined
+ */
+export function createTtsFieldResolver(
+  card: Pick<Card, 'fields'>,
+  template?: Pick<ParseTemplate, 'fields'> | null
+): (name: string) => string | undefined {
+  return (name: string) => {
+    const isField = template?.fields?.some(field => field.name === name)
+      || typeof card.fields?.[name] === 'string';
+    return isField ? getTemplateFieldValue(card, template, name) : undefined;
+  };
+}
+
+/**
+ * 卡片问题面和答案面的原始内容（用于分别朗读两面的 TTS 标记）
+ */
+export function getCardSideContents(card: Card, template?: ParseTemplate | null): CardSideContents {
+  const cardType = findTemplateCardType(template, card.cardTypeId);
+  if (cardType) {
+    return buildCardTypeSides(card, template, cardType);
+  }
+
+  const content = card.content ?? '';
+  if (!content.trim()) {
+    return { front: card.fields?.front ?? '', back: card.fields?.back ?? '' };
+  }
+  const dividerIndex = content.indexOf(MAIN_SEPARATOR);
+  return dividerIndex >= 0
+    ? { front: content.slice(0, dividerIndex), back: content.slice(dividerIndex + MAIN_SEPARATOR.length) }
+    : { front: content, back: '' };
+}
+
+/**
+ * 提取文本中 TTS 标记对应的朗读内容（去掉 Markdown/HTML 标记，跳过空内容）
+ */
+export function getTtsSegments(
+  text: string,
+  settings: TtsSettings,
+  resolveField: (name: string) => string | undefined = () => undefined
+): TtsSegment[] {
+  return parseTtsMarkers(text)
+    .map(marker => ({
+      text: toPlainAnswer(resolveField(marker.argument) ?? marker.argument),
+      lang: marker.lang ?? settings.lang
+    }))
+    .filter(segment => segment.text);
+}
+
+/**
+ * 将 TTS 标记渲染为朗读按钮（HTML），点击由预览容器处理
+ */
+export function renderTtsButtons(
+  text: string,
+  settings: TtsSettings,
+  resolveField: (name: string) => string | undefined = () => undefined
+): string {
+  return replaceTtsMarkers(text, marker => {
+    const spoken = toPlainAnswer(resolveField(marker.argument) ?? marker.argument);
+    if (!spoken) return '';
+    const attributes = [
+      `data-tts-text="${escapeAttribute(spoken)}"`,
+      `data-tts-lang="${escapeAttribute(marker.lang ?? settings.lang)}"`,
+      `data-tts-voice="${escapeAttribute(settings.voice)}"`,
+      `data-tts-rate="${settings.rate}"`
+    ];
+    return `<span class="${TTS_BUTTON_CLASS}" role="button" aria-label="朗读" ${attributes.join(' ')}>🔊</span>`;
+  });
+}
+
+/**
+ * 选择声音：声音名称匹配且语言一致时使用指定声音，否则按语言（先完全匹配再匹配主语言）选择，优先本地声音
+ */
+export function pickTtsVoice<V extends Pick<SpeechSynthesisVoice, 'name' | 'voiceURI' | 'lang' | 'localService'>>(
+  voices: V[],
+  lang: string,
+  voiceName: string
+): V | undefined {
+  const normalizedLang = lang.toLowerCase().replace(/_/g, '-');
+  const primaryLang = normalizedLang.split('-')[0];
+  const voiceLang = (voice: V) => voice.lang.toLowerCase().replace(/_/g, '-');
+
+  const named = voiceName ? voices.find(voice => voice.name === voiceName || voice.voiceURI === voiceName) : undefined;
+  if (named && (!normalizedLang || voiceLang(named).split('-')[0] === primaryLang)) {
+    return named;
+  }
+  if (!normalizedLang) return undefined;
+
+  const byLocal = (a: V, b: V) => Number(b.localService) - Number(a.localService);
+  const exact = voices.filter(voice => voiceLang(voice) === normalizedLang).sort(byLocal);
+  if (exact.length > 0) return exact[0];
+  return voices.filter(voice => voiceLang(voice).split('-')[0] === primaryLang).sort(byLocal)[0];
+}
+
+/**
+ * 朗读播放器：新的朗读会打断正在进行的朗读
+ */
+export class TextToSpeechService {
+  private generation = 0;
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined'
+      && 'speechSynthesis' in window
+      && typeof SpeechSynthesisUtterance !== 'undefined';
+  }
+
+  getVoices(): SpeechSynthesisVoice[] {
+    return TextToSpeechService.isSupported() ? window.speechSynthesis.getVoices() : [];
+  }
+
+  /**
+   * 依次朗读各段文本，全部读完（或被打断）后 resolve
+   */
+  async speak(segments: TtsSegment[], settings: Pick<TtsSettings, 'voice' | 'rate'>): Promise<void> {
+    this.stop();
+    if (!TextToSpeechService.isSupported() || segments.length === 0) return;
+
+    const generation = this.generation;
+    const voices = this.getVoices();
+    for (const segment of segments) {
+      if (generation !== this.generation) return;
+      await new Promise<void>(resolve => {
+        const utterance = new SpeechSynthesisUtterance(segment.text);
+        const voice = pickTtsVoice(voices, segment.lang, settings.voice);
+        if (voice) utterance.voice = voice;
+        if (segment.lang) utterance.lang = segment.lang;
+        utterance.rate = settings.rate || 1;
+        utterance.onend = () => resolve();
+        utterance.onerror = () => resolve();
+        window.speechSynthesis.speak(utterance);
+      });
+    }
+  }
+
+  stop(): void {
+    this.generation++;
+    if (TextToSpeechService.isSupported()) {
+      window.speechSynthesis.cancel();
+    }
+  }
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
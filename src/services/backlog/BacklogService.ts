@@ -0,0 +1,162 @@
+/**
+ * 积压追赶服务
+ *
+ * 长时间中断后逾期卡片大量堆积，按当前可回忆性 R 决定复习顺序：
+ * - lowest-r：最容易遗忘的优先，尽量挽救记忆
+ * - highest-r：最容易答对的优先，先快速清掉“简单题”
+ *
+ * 每日只取固定数量的积压卡片；也可以把积压按 R 排序后重新分摊到未来 N 天的到期时间
+ * R 由按用户参数创建的算法实例计算（见 createBacklogAlgorithm），缺省时使用默认参数
+ */
+
+import type { AnkiDataStorage } from '../../data/storage';
+import type { Card, Deck, FSRSParameters } from '../../data/types';
+import { CardState } from '../../data/types';
+import { FSRS6CoreAlgorithm } from '../../algorithms/fsrs6-core';
+import type { FSRS6Parameters } from '../../types/fsrs6-types';
+import { isCardAvailableForStudy } from '../../utils/study/cardAvailability';
+import { parseDueTime } from '../../utils/study/studyCompletionHelper';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type BacklogOrder = 'lowest-r' | 'highest-r';
+
+export interface BacklogOptions {
+  order: BacklogOrder;
+  /** 每天最多复习的积压卡片数 */
+  dailyLimit: number;
+  /** 大于 1 时把积压重新分摊到 N 天（含今天） */
+  spreadDays: number;
+}
+
+export const DEFAULT_BACKLOG_OPTIONS: BacklogOptions = {
+  order: 'lowest-r',
+  dailyLimit: 100,
+  spreadDays: 1
+};
+
+export interface BacklogSpreadPlan {
+  cardId: string;
+  /** 分配到第几天（0 = 今天） */
+  day: number;
+  due: string;
+}
+
+const defaultCore = new FSRS6CoreAlgorithm();
+
+/**
+ * 按全局 FSRS 参数创建算法实例；牌组应用了参数优化结果时使用该牌组的权重
+ */
+export function createBacklogAlgorithm(params?: Partial<FSRSParameters>, deck?: Deck): FSRS6CoreAlgorithm {
+  const w = deck?.settings?.fsrsOptimization?.w ?? params?.w;
+  return new FSRS6CoreAlgorithm({
+    ...params,
+    w: w ? [...w] as FSRS6Parameters['w'] : undefined,
+    version: '6.1.1'
+  });
+}
+
+/**
+ * 已逾期的复习/重学卡片（不含新卡片、学习中卡片以及暂停/搁置的卡片）
+ */
+export function getOverdueCards(cards: Card[], now: number = Date.now()): Card[] {
+  return cards.filter(card =>
+    card.fsrs
+    && (card.fsrs.state === CardState.Review || card.fsrs.state === CardState.Relearning)
+    && parseDueTime(card.fsrs.due) <= now
+    && isCardAvailableForStudy(card, now)
+  );
+}
+
+/**
+ * 卡片当前的可回忆性（缺少上次复习时间时按到期日倒推）
+ */
+export function getCurrentRetrievability(card: Card, now: number = Date.now(), core: FSRS6CoreAlgorithm = defaultCore): number {
+  const fsrs = card.fsrs;
+  if (!fsrs || !(fsrs.stability > 0)) return 0;
+  const lastReview = fsrs.lastReview
+    ? Date.parse(fsrs.lastReview)
+    : parseDueTime(fsrs.due) - Math.max(1, fsrs.scheduledDays || 1) * DAY_MS;
+  const elapsedDays = Number.isFinite(lastReview) ? Math.max(0, (now - lastReview) / DAY_MS) : 0;
+  return core.predictRetrievability(elapsedDays, fsrs.stability);
+}
+
+export function orderBacklog(cards: Card[], order: BacklogOrder, now: number = Date.now(), core: FSRS6CoreAlgorithm = defaultCore): Card[] {
+  const direction = order === 'highest-r' ? -1 : 1;
+  return cards
+    .map(card => ({ card, r: getCurrentRetrievability(card, now, core) }))
+    .sort((a, b) => direction * (a.r - b.r))
+    .map(({ card }) => card);
+}
+
+/**
+ * 今天已经在积压模式下复习的卡片数
+ */
+export function countBacklogReviewsToday(cards: Card[], now: Date = new Date()): number {
+  const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  return cards.filter(card =>
+    (card.reviewHistory || []).some(log => log.studyMode === 'backlog' && Date.parse(log.review) >= todayStart)
+  ).length;
+}
+
+/**
+ * 今天的积压学习队列：按 R 排序并扣除今天已复习的数量
+ */
+export function buildBacklogQueue(
+  cards: Card[],
+  options: BacklogOptions,
+  now: Date = new Date(),
+  core: FSRS6CoreAlgorithm = defaultCore
+): Card[] {
+  const remaining = Math.max(0, options.dailyLimit - countBacklogReviewsToday(cards, now));
+  return orderBacklog(getOverdueCards(cards, now.getTime()), options.order, now.getTime(), core).slice(0, remaining);
+}
+
+/**
+ * 把积压按 R 排序后平均分摊到 N 天，第 0 天的卡片保持当前到期时间
+ */
+export function planBacklogSpread(
+  cards: Card[],
+  options: BacklogOptions,
+  now: Date = new Date(),
+  core: FSRS6CoreAlgorithm = defaultCore
+): BacklogSpreadPlan[] {
+  const overdue = orderBacklog(getOverdueCards(cards, now.getTime()), options.order, now.getTime(), core);
+  const days = Math.max(1, Math.round(options.spreadDays));
+  const perDay = Math.max(1, Math.ceil(overdue.length / days));
+  const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  return overdue.map((card, index) => {
+    const day = Math.floor(index / perDay);
+    const due = new Date(todayStart);
+    due.setDate(due.getDate() + day);
+    return { cardId: card.id, day, due: day === 0 ? card.fsrs.due : due.toISOString() };
+  });
+}
+
+export class BacklogService {
+  constructor(
+    private storage: AnkiDataStorage,
+    private core: FSRS6CoreAlgorithm = defaultCore
+  ) {}
+
+  /**
+   * 执行分摊计划（被推迟的卡片一次批量写入），返回被推迟的卡片数
+   */
+  async spreadBacklog(cards: Card[], options: BacklogOptions, now: Date = new Date()): Promise<number> {
+    const cardMap = new Map(cards.map(card => [card.id, card]));
+    const moved: Card[] = [];
+
+    for (const entry of planBacklogSpread(cards, options, now, this.core)) {
+      if (entry.day === 0) continue;
+      const card = cardMap.get(entry.cardId);
+      if (!card) continue;
+
+      card.fsrs = { ...card.fsrs, due: entry.due };
+      card.modified = now.toISOString();
+      moved.push(card);
+    }
+
+    return this.storage.updateCards(moved);
+  }
+}
@@ -77,6 +77,34 @@ export async function batchUpdateCards(
   return result;
 }
 
+/**
+ * 批量暂停/恢复卡片
+ * 恢复时同时清除搁置标记，使卡片立即回到学习队列
+ * @param cards 要更新的卡片数组
+ * @param suspended true 为暂停，false 为恢复
+ * @param dataStorage 数据存储实例
+ * @param onProgress 进度回调函数
+ * @returns 批量操作结果
+ */
+export async function batchSetSuspended(
+  cards: Card[],
+  suspended: boolean,
+  dataStorage: AnkiDataStorage,
+  onProgress?: BatchProgressCallback
+): Promise<BatchOperationResult> {
+  const targets = cards.filter(card => suspended ? !card.suspended : card.suspended || card.buriedUntil);
+  return batchUpdateCards(
+    targets,
+    (card) => {
+      const updated: Card = { ...card, suspended, modified: new Date().toISOString() };
+      if (!suspended) delete updated.buriedUntil;
+      return updated;
+    },
+    dataStorage,
+    onProgress
+  );
+}
+
 /**
  * 获取卡片标题（用于错误报告）
  */
@@ -0,0 +1,368 @@
+/**
+ * CSV / TSV 导入导出服务
+ *
+ * 导入：按表头到卡片字段的映射生成问答卡片，可指定牌组、附加标签，并按关键字段去重
+ * 导出：把任意一组卡片（例如当前筛选结果）导出为表格，可附带 FSRS 调度状态列
+ */
+
+import type { AnkiDataStorage } from '../../data/storage';
+import type { Card, Deck } from '../../data/types';
+import { CardState, CardType } from '../../data/types';
+import { IntelligentFieldMapper } from '../../utils/intelligent-field-mapper';
+import { generateId, generateUUID } from '../../utils/helpers';
+
+export type CsvDelimiter = ',' | '\t' | ';';
+
+/** 列映射目标：问题、答案、标签、牌组名，空字符串表示不导入 */
+export type CsvTargetField = 'front' | 'back' | 'tags' | 'deck' | '';
+
+export const CSV_TARGET_FIELDS: Array<{ value: CsvTargetField; label: string }> = [
+  { value: '', label: '不导入' },
+  { value: 'front', label: '正面（问题）' },
+  { value: 'back', label: '背面（答案）' },
+  { value: 'tags', label: '标签' },
+  { value: 'deck', label: '牌组名' }
+];
+
+export interface CsvImportOptions {
+  delimiter: CsvDelimiter;
+  /** 第一行是否为表头 */
+  hasHeader: boolean;
+  /** 每一列的映射目标（按列序号） */
+  mapping: CsvTargetField[];
+  /** 目标牌组；牌组名列匹配不到已有牌组时也放入该牌组 */
+  deckId: string;
+  /** 附加到每张卡片的标签 */
+  tags: string[];
+  /** 去重关键字段：与已有卡片或文件中前面的行该字段相同则跳过 */
+  dedupeField: 'front' | 'back' | null;
+}
+
+export interface CsvImportResult {
+  cards: Card[];
+  skipped: number;
+  warnings: string[];
+}
+
+export interface CsvExportOptions {
+  delimiter: CsvDelimiter;
+  /** 是否附带 FSRS 调度状态列 */
+  includeFsrs: boolean;
+}
+
+const MAPPABLE_FIELDS = ['front', 'back', 'tags', 'deck'];
+
+const STATE_NAMES: Record<CardState, string> = {
+  [CardState.New]: 'new',
+  [CardState.Learning]: 'learning',
+  [CardState.Review]: 'review',
+  [CardState.Relearning]: 'relearning'
+};
+
+/**
+ * 解析分隔符文本（支持双引号包裹、引号转义和字段内换行）
+ */
+export function parseDelimited(text: string, delimiter: CsvDelimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * 按首行中出现最多的分隔符猜测格式
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates: CsvDelimiter[] = ['\t', ',', ';'];
+  let best: CsvDelimiter = ',';
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * 序列化为分隔符文本（包含分隔符、引号或换行的字段加引号）
+ */
+export function serializeDelimited(rows: string[][], delimiter: CsvDelimiter): string {
+  return rows
+    .map(row => row.map(cell => {
+      const value = cell ?? '';
+      return /["\r\n]/.test(value) || value.includes(delimiter)
+        ? `"${value.replace(/"/g, '""')}"`
+        : value;
+    }).join(delimiter))
+    .join('\n');
+}
+
+/**
+ * 由表头建议列映射；没有表头时按位置映射为 正面、背面、标签
+ */
+export function suggestCsvMapping(
+  headers: string[] | null,
+  columnCount: number,
+  mapper: IntelligentFieldMapper = new IntelligentFieldMapper()
+): CsvTargetField[] {
+  if (!headers) {
+    const positional: CsvTargetField[] = ['front', 'back', 'tags'];
+    return Array.from({ length: columnCount }, (_, i) => positional[i] ?? '');
+  }
+
+  const named = headers.filter(header => header.trim() !== '');
+  const rules = mapper.suggestMappings(named, MAPPABLE_FIELDS);
+  return Array.from({ length: columnCount }, (_, i) => {
+    const rule = rules.find(r => r.sourceField === headers[i]);
+    return (rule?.targetField as CsvTargetField) ?? '';
+  });
+}
+
+/**
+ * 由表格行生成卡片（不保存）
+ *
+ * @param rows - 数据行（不含表头）
+ * @param existingCards - 已有卡片，用于去重
+ * @param decks - 已有牌组，用于匹配牌组名列
+ */
+export function buildCardsFromRows(
+  rows: string[][],
+  options: CsvImportOptions,
+  existingCards: Card[],
+  decks: Deck[],
+  now: Date = new Date()
+): CsvImportResult {
+  const cards: Card[] = [];
+  const warnings: string[] = [];
+  let skipped = 0;
+
+  const seenKeys = new Set<string>();
+  if (options.dedupeField) {
+    for (const card of existingCards) {
+      const key = normalizeKey(card.fields?.[options.dedupeField]);
+      if (key) seenKeys.add(key);
+    }
+  }
+
+  const decksByName = new Map(decks.map(deck => [deck.name.trim().toLowerCase(), deck.id]));
+  const unknownDecks = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const values: Record<string, string[]> = {};
+    options.mapping.forEach((target, column) => {
+      const value = (row[column] ?? '').trim();
+      if (target && value) {
+        (values[target] ||= []).push(value);
+      }
+    });
+
+    const front = (values.front || []).join('\n\n');
+    const back = (values.back || []).join('\n\n');
+    if (!front) {
+      skipped++;
+      warnings.push(`第 ${index + 1} 行缺少正面内容，已跳过`);
+      return;
+    }
+
+    if (options.dedupeField) {
+      const key = normalizeKey(options.dedupeField === 'front' ? front : back);
+      if (key && seenKeys.has(key)) {
+        skipped++;
+        return;
+      }
+      if (key) seenKeys.add(key);
+    }
+
+    let deckId = options.deckId;
+    const deckName = values.deck?.[0];
+    if (deckName) {
+      const matched = decksByName.get(deckName.toLowerCase());
+      if (matched) {
+        deckId = matched;
+      } else {
+        unknownDecks.add(deckName);
+      }
+    }
+
+    const tags = Array.from(new Set([
+      ...options.tags,
+      ...(values.tags || []).flatMap(splitTags)
+    ]));
+
+    cards.push(createCard(front, back, deckId, tags, now));
+  });
+
+  if (unknownDecks.size > 0) {
+    warnings.push(`未找到牌组：${Array.from(unknownDecks).join('、')}，对应卡片已放入目标牌组`);
+  }
+
+  return { cards, skipped, warnings };
+}
+
+/**
+ * 导入 CSV/TSV 文本并保存卡片
+ */
+export async function importCsv(
+  dataStorage: AnkiDataStorage,
+  text: string,
+  options: CsvImportOptions
+): Promise<CsvImportResult & { failed: number }> {
+  const rows = parseDelimited(text, options.delimiter);
+  const dataRows = options.hasHeader ? rows.slice(1) : rows;
+
+  const [existingCards, decks] = await Promise.all([
+    dataStorage.getAllCards(),
+    dataStorage.getDecks()
+  ]);
+  const result = buildCardsFromRows(dataRows, options, existingCards, decks);
+
+  const saved: Card[] = [];
+  let failed = 0;
+  for (const card of result.cards) {
+    const response = await dataStorage.saveCard(card);
+    if (response.success) {
+      saved.push(card);
+    } else {
+      failed++;
+    }
+  }
+
+  return { ...result, cards: saved, failed };
+}
+
+/**
+ * 导出卡片为 CSV/TSV 文本
+ */
+export function exportCardsToCsv(cards: Card[], decks: Deck[], options: CsvExportOptions): string {
+  const deckNames = new Map(decks.map(deck => [deck.id, deck.name]));
+  const header = ['id', 'deck', 'front', 'back', 'tags'];
+  if (options.includeFsrs) {
+    header.push(
+      'state', 'due', 'stability', 'difficulty', 'retrievability',
+      'elapsed_days', 'scheduled_days', 'reps', 'lapses', 'last_review', 'suspended'
+    );
+  }
+
+  const rows = cards.map(card => {
+    const row = [
+      card.uuid || card.id,
+      deckNames.get(card.deckId) || '',
+      card.fields?.front ?? card.fields?.question ?? '',
+      card.fields?.back ?? card.fields?.answer ?? '',
+      (card.tags || []).join(' ')
+    ];
+    if (options.includeFsrs) {
+      const fsrs = card.fsrs;
+      row.push(
+        fsrs ? STATE_NAMES[fsrs.state as CardState] ?? String(fsrs.state) : '',
+        fsrs?.due || '',
+        formatNumber(fsrs?.stability, 4),
+        formatNumber(fsrs?.difficulty, 4),
+        formatNumber(fsrs?.retrievability, 4),
+        formatNumber(fsrs?.elapsedDays, 2),
+        formatNumber(fsrs?.scheduledDays, 2),
+        String(fsrs?.reps ?? 0),
+        String(fsrs?.lapses ?? 0),
+        fsrs?.lastReview || '',
+        card.suspended ? 'true' : 'false'
+      );
+    }
+    return row;
+  });
+
+  return serializeDelimited([header, ...rows], options.delimiter);
+}
+
+function createCard(front: string, back: string, deckId: string, tags: string[], now: Date): Card {
+  const timestamp = now.toISOString();
+  return {
+    id: generateId(),
+    uuid: generateUUID(),
+    deckId,
+    templateId: 'official-qa',
+    type: CardType.Basic,
+    content: back ? `${front}\n\n---div---\n\n${back}` : front,
+    fields: { front, back },
+    fsrs: {
+      due: timestamp,
+      stability: 0,
+      difficulty: 0,
+      elapsedDays: 0,
+      scheduledDays: 0,
+      reps: 0,
+      lapses: 0,
+      state: CardState.New,
+      lastReview: undefined,
+      retrievability: 1
+    },
+    reviewHistory: [],
+    stats: {
+      totalReviews: 0,
+      totalTime: 0,
+      averageTime: 0,
+      memoryRate: 0
+    },
+    tags,
+    created: timestamp,
+    modified: timestamp,
+    metadata: { importSource: 'csv' }
+  };
+}
+
+function splitTags(value: string): string[] {
+  return value.split(/[\s,，;；]+/).map(tag => tag.replace(/^#/, '').trim()).filter(Boolean);
+}
+
+function normalizeKey(value: string | undefined): string {
+  return (value || '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function formatNumber(value: number | undefined, digits: number): string {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? String(Math.round(value * 10 ** digits) / 10 ** digits)
+    : '';
+}
@@ -0,0 +1,109 @@
+/**
+ * 自定义学习服务
+ * 将保存的筛选器转换为学习队列，并以自定义或突击模式打开学习会话
+ */
+
+import { Notice } from 'obsidian';
+import type AnkiPlugin from '../main';
+import type { Card } from '../data/types';
+import type { SavedFilter } from '../types/filter-types';
+import type { CustomStudyOptions, CustomStudyOrder } from '../types/study-types';
+import { FilterManager } from './filter-manager';
+import { isCardAvailableForStudy } from '../utils/study/cardAvailability';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CUSTOM_STUDY_OPTIONS: CustomStudyOptions = {
+  limit: 50,
+  order: 'due',
+  cram: false
+};
+
+export const CUSTOM_STUDY_ORDER_OPTIONS: Array<{ value: CustomStudyOrder; label: string }> = [
+  { value: 'due', label: '到期时间（最早优先）' },
+  { value: 'retrievability', label: '最容易遗忘优先' },
+  { value: 'difficulty', label: '难度（最难优先）' },
+  { value: 'created', label: '创建时间（最新优先）' },
+  { value: 'random', label: '随机' }
+];
+
+/**
+ * 按筛选器选出卡片并排序、截断，返回卡片ID列表
+ *
+ * 已暂停和今天搁置的卡片不会进入队列。
+ */
+export function buildCustomStudyQueue(
+  cards: Card[],
+  filter: SavedFilter,
+  options: CustomStudyOptions,
+  filterManager: FilterManager = new FilterManager(),
+  now: number = Date.now()
+): string[] {
+  const matched = filterManager
+    .applyFilter(cards, filter.config, [])
+    .filter(card => isCardAvailableForStudy(card, now));
+
+  return sortForCustomStudy(matched, options.order, now)
+    .slice(0, Math.max(1, Math.round(options.limit)))
+    .map(card => card.id);
+}
+
+function sortForCustomStudy(cards: Card[], order: CustomStudyOrder, now: number): Card[] {
+  const sorted = [...cards];
+  switch (order) {
+    case 'random':
+      for (let i = sorted.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [sorted[i], sorted[j]] = [sorted[j], sorted[i]];
+      }
+      return sorted;
+    case 'retrievability':
+      return sorted.sort((a, b) => getRetrievability(a, now) - getRetrievability(b, now));
+    case 'difficulty':
+      return sorted.sort((a, b) => (b.fsrs?.difficulty ?? 0) - (a.fsrs?.difficulty ?? 0));
+    case 'created':
+      return sorted.sort((a, b) => Date.parse(b.created || '') - Date.parse(a.created || ''));
+    case 'due':
+    default:
+      return sorted.sort((a, b) => toTime(a.fsrs?.due) - toTime(b.fsrs?.due));
+  }
+}
+
+/**
+ * 当前可回忆性（新卡片视为 0，排在最前）
+ */
+function getRetrievability(card: Card, now: number): number {
+  const stability = card.fsrs?.stability ?? 0;
+  const lastReview = toTime(card.fsrs?.lastReview);
+  if (stability <= 0 || !Number.isFinite(lastReview)) return 0;
+  const elapsedDays = Math.max(0, (now - lastReview) / DAY_MS);
+  return Math.exp(-elapsedDays / stability);
+}
+
+function toTime(value: string | number | undefined): number {
+  if (value === undefined || value === '') return Number.POSITIVE_INFINITY;
+  const time = typeof value === 'number' ? value : Date.parse(value);
+  return Number.isFinite(time) ? time : Number.POSITIVE_INFINITY;
+}
+
+/**
+ * 从保存的筛选器启动学习会话
+ * @returns 进入队列的卡片数量（0 表示没有匹配卡片，未打开会话）
+ */
+export async function startCustomStudyFromFilter(
+  plugin: AnkiPlugin,
+  filter: SavedFilter,
+  options: CustomStudyOptions
+): Promise<number> {
+  const filterManager = new FilterManager();
+  const cardIds = buildCustomStudyQueue(await plugin.dataStorage.getAllCards(), filter, options, filterManager);
+
+  if (cardIds.length === 0) {
+    new Notice(`筛选器「${filter.name}」没有可学习的卡片`);
+    return 0;
+  }
+
+  filterManager.recordFilterUsage(filter.id);
+  await plugin.openStudySession({ mode: options.cram ? 'cram' : 'custom', cardIds });
+  return cardIds.length;
+}
@@ -7,6 +7,7 @@
 import type { Deck, Card, CardType } from '../../data/types';
 import type { AnkiDataStorage } from '../../data/storage';
 import type { DeckGroupByType } from '../../types/deck-kanban-types';
+import { getCardDeckIds } from '../../data/card-query-index';
 
 /**
  * 牌组统计数据接口
@@ -98,7 +99,7 @@ export class DeckAggregationService {
     try {
       // 使用缓存获取牌组所有卡片
       const allCards = await this.getAllCards();
-      const deckCards = allCards.filter(card => card.deckId === deck.id);
+      const deckCards = allCards.filter(card => getCardDeckIds(card).includes(deck.id));
 
       if (deckCards.length === 0) {
         return 'future';
@@ -153,7 +154,7 @@ export class DeckAggregationService {
 
       // 使用缓存获取牌组所有卡片
       const allCards = await this.getAllCards();
-      const deckCards = allCards.filter(card => card.deckId === deck.id);
+      const deckCards = allCards.filter(card => getCardDeckIds(card).includes(deck.id));
 
       if (deckCards.length === 0) {
         return 'mixed';
@@ -204,7 +205,7 @@ export class DeckAggregationService {
       // 🎯 备选方案：分析牌组内卡片的优先级
       // 使用缓存获取牌组所有卡片
       const allCards = await this.getAllCards();
-      const deckCards = allCards.filter(card => card.deckId === deck.id);
+      const deckCards = allCards.filter(card => getCardDeckIds(card).includes(deck.id));
 
       if (deckCards.length === 0) {
         return 'none';
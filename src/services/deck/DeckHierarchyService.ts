@@ -20,6 +20,7 @@ export interface DeckTreeNode {
  * - 重命名牌组（自动更新子牌组路径）
  * - 获取牌组树
  * - 获取牌组后代和面包屑路径
+ * - 引用式牌组：解散、重组、跨牌组收集卡片引用
  */
 export class DeckHierarchyService {
   private storage: AnkiDataStorage;
@@ -221,6 +222,91 @@ export class DeckHierarchyService {
     console.log(`✅ Deleted deck and ${descendants.length} descendants`);
   }
 
+  /**
+   * 解散牌组
+   *
+   * 牌组本身被删除，但卡片不会丢失：仅属于该牌组的卡片被并入目标牌组
+   * （默认父牌组），子牌组提升到被解散牌组的父级。
+   */
+  async dissolveDeck(deckId: string, targetDeckId?: string): Promise<void> {
+    const deck = await this.storage.getDeck(deckId);
+    if (!deck) {
+      throw new Error(`Deck not found: ${deckId}`);
+    }
+
+    const targetId = targetDeckId ?? deck.parentId;
+    if (!targetId) {
+      throw new Error('Dissolving a root deck requires a target deck');
+    }
+    if (targetId === deckId || await this.isDescendant(deckId, targetId)) {
+      throw new Error('Cannot dissolve deck into itself or its descendant');
+    }
+
+    // 1. 卡片引用并入目标牌组（已在目标中的卡片保持原位置）
+    const cardIds = await this.storage.getDeckCardIds(deckId);
+    await this.storage.addCardsToDeck(targetId, cardIds);
+
+    // 2. 子牌组提升一级
+    const children = await this.getChildren(deckId);
+    for (const child of children) {
+      await this.moveDeck(child.id, deck.parentId ?? null);
+    }
+
+    // 3. 删除牌组（此时卡片均已被目标牌组引用，不会被清理）
+    await this.storage.deleteDeck(deckId);
+
+    console.log(`✅ Dissolved deck ${deck.path}: ${cardIds.length} cards merged, ${children.length} subdecks lifted`);
+  }
+
+  /**
+   * 将多个牌组的卡片重组为一个新牌组
+   *
+   * 新牌组只保存引用，源牌组保持不变；卡片在多个源牌组中出现时只引用一次。
+   */
+  async combineDecks(name: string, sourceDeckIds: string[], parentId?: string): Promise<Deck> {
+    const deck = parentId
+      ? await this.createSubdeck(parentId, name)
+      : await this.createRootDeck(name);
+
+    const cardIds: string[] = [];
+    const seen = new Set<string>();
+    for (const sourceId of sourceDeckIds) {
+      for (const id of await this.storage.getDeckCardIds(sourceId)) {
+        if (!seen.has(id)) {
+          seen.add(id);
+          cardIds.push(id);
+        }
+      }
+    }
+
+    await this.storage.addCardsToDeck(deck.id, cardIds);
+    console.log(`✅ Combined ${sourceDeckIds.length} decks into ${deck.path} (${cardIds.length} cards)`);
+    return deck;
+  }
+
+  /**
+   * 获取牌组的卡片引用（可包含子牌组，按牌组树顺序去重）
+   */
+  async getDeckCardIds(deckId: string, includeSubdecks = false): Promise<string[]> {
+    const deckIds = [deckId];
+    if (includeSubdecks) {
+      const descendants = await this.getDescendants(deckId);
+      deckIds.push(...descendants.map(d => d.id));
+    }
+
+    const result: string[] = [];
+    const seen = new Set<string>();
+    for (const id of deckIds) {
+      for (const cardId of await this.storage.getDeckCardIds(id)) {
+        if (!seen.has(cardId)) {
+          seen.add(cardId);
+          result.push(cardId);
+        }
+      }
+    }
+    return result;
+  }
+
   /**
    * 获取牌组树
    */
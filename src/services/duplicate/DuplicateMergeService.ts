@@ -0,0 +1,374 @@
+/**
+ * 近似重复卡片的查找与合并
+ *
+ * 合并规则：
+ * - 保留复习记录更好的卡片（复习次数多者优先，其次稳定性高、创建早），其学习进度原样保留
+ * - 被合并卡片的标签、所属牌组、标注块绑定并入保留卡片；保留卡片没有源文档时沿用被合并卡片的源文档信息
+ * - 子卡片的 parentCardId、父卡片的 childCardIds 从被合并卡片的 UUID 改指向保留卡片
+ * - 源文档中被合并卡片的 UUID 标记替换为保留卡片的 UUID，避免重新解析时再次创建
+ * - 按笔记合并：被合并笔记的兄弟卡片按槽位对应到保留笔记的卡片，复习记录更好时学习进度移到对应卡片；
+ *   保留笔记没有对应槽位的兄弟卡片不删除
+ */
+
+import type { Vault } from 'obsidian';
+import { TFile } from 'obsidian';
+import type { AnkiDataStorage } from '../../data/storage';
+import type { AnnotationSource, Card } from '../../data/types';
+import { getCardDeckIds } from '../../data/card-query-index';
+import { slotKey } from '../../data/note-siblings';
+import { NearDuplicateIndex, getCardComparableText } from './NearDuplicateDetector';
+import type { NearDuplicateOptions } from './NearDuplicateDetector';
+
+export interface DuplicateCardGroup {
+  /** 按复习记录从好到差排序，第一张为建议保留的卡片 */
+  cards: Card[];
+  similarity: number;
+}
+
+export interface DuplicateMergeResult {
+  keeper: Card;
+  removedIds: string[];
+  /** 重新指向保留卡片的关联卡片数 */
+  redirected: number;
+}
+
+/**
+ * 比较两张卡片的复习记录，返回负数表示 a 更好
+ */
+export function compareReviewHistory(a: Card, b: Card): number {
+  const reviews = (card: Card) => Math.max(card.reviewHistory?.length ?? 0, card.fsrs?.reps ?? 0);
+  return (reviews(b) - reviews(a))
+    || ((b.fsrs?.stability ?? 0) - (a.fsrs?.stability ?? 0))
+    || (Date.parse(a.created) || 0) - (Date.parse(b.created) || 0);
+}
+
+/**
+ * 把被合并卡片的标签、牌组和来源信息并入保留卡片（只修改传入的 keeper）
+ */
+export function absorbDuplicate(keeper: Card, duplicate: Card): void {
+  const tags = Array.from(new Set([...(keeper.tags ?? []), ...(duplicate.tags ?? [])]));
+  if (tags.length > 0) keeper.tags = tags;
+
+  keeper.deckIds = Array.from(new Set([...getCardDeckIds(keeper), ...getCardDeckIds(duplicate)]));
+
+  if (!keeper.sourceFile && duplicate.sourceFile) {
+    keeper.sourceFile = duplicate.sourceFile;
+    keeper.sourceBlock = duplicate.sourceBlock;
+    keeper.sourceRange = duplicate.sourceRange;
+    keeper.documentRef = duplicate.documentRef;
+  }
+
+  const annotationKey = (source: AnnotationSource) => `${source.filePath}#${source.blockId}`;
+  const annotations = new Map<string, AnnotationSource>();
+  for (const source of [...(keeper.annotationSources ?? []), ...(duplicate.annotationSources ?? [])]) {
+    if (!annotations.has(annotationKey(source))) annotations.set(annotationKey(source), source);
+  }
+  if (annotations.size > 0) keeper.annotationSources = Array.from(annotations.values());
+
+  if (!keeper.parentCardId && duplicate.parentCardId && duplicate.parentCardId !== keeper.uuid) {
+    keeper.parentCardId = duplicate.parentCardId;
+  }
+
+  const duplicateChildren = duplicate.metadata?.cardRelation?.childCardIds ?? [];
+  if (duplicateChildren.length > 0) {
+    const relation = keeper.metadata?.cardRelation ?? { isParent: true, level: 0 };
+    keeper.metadata = {
+      ...keeper.metadata,
+      cardRelation: {
+        ...relation,
+        isParent: true,
+        childCardIds: Array.from(new Set([...(relation.childCardIds ?? []), ...duplicateChildren]))
+      }
+    };
+  }
+}
+
+/**
+ * 把学习进度（FSRS 状态、复习记录、统计）从一张卡片移到另一张卡片（只修改传入的 target）
+ */
+export function moveReviewProgress(source: Card, target: Card): void {
+  target.fsrs = { ...source.fsrs };
+  target.reviewHistory = [...(source.reviewHistory ?? [])];
+  if (source.stats) target.stats = { ...source.stats };
+}
+
+/**
+ * 把卡片中指向旧 UUID 的父子关系改为新 UUID，有修改时返回 true
+ */
+export function redirectCardRelations(card: Card, fromUuid: string, toUuid: string): boolean {
+  let changed = false;
+
+  if (card.parentCardId === fromUuid && card.uuid !== toUuid) {
+    card.parentCardId = toUuid;
+    changed = true;
+  }
+
+  const relation = card.metadata?.cardRelation;
+  if (relation?.childCardIds?.includes(fromUuid)) {
+    const childCardIds = Array.from(new Set(relation.childCardIds.map(uuid => (uuid === fromUuid ? toUuid : uuid))))
+      .filter(uuid => uuid !== card.uuid);
+    card.metadata = { ...card.metadata, cardRelation: { ...relation, childCardIds } };
+    changed = true;
+  }
+
+  return changed;
+}
+
+/**
+ * 挖空兄弟卡片内容相同，每条笔记只取一张卡片参与比较（删除时兄弟卡片随之删除）
+ */
+function noteRepresentatives(cards: Card[]): Card[] {
+  const seenNotes = new Set<string>();
+  return cards.filter(card => {
+    if (!card.noteId) return true;
+    if (seenNotes.has(card.noteId)) return false;
+    seenNotes.add(card.noteId);
+    return true;
+  });
+}
+
+/**
+ * 近似重复索引缓存：每条笔记只索引一张代表卡片
+ */
+interface DuplicateIndexCache {
+  optionsKey: string;
+  index: NearDuplicateIndex;
+  cards: Map<string, Card>;
+  /** 笔记ID → 代表卡片ID */
+  noteCards: Map<string, string>;
+}
+
+export class DuplicateMergeService {
+  private cache: DuplicateIndexCache | null = null;
+
+  constructor(
+    private storage: AnkiDataStorage,
+    private vault?: Vault
+  ) {}
+
+  /**
+   * 扫描整个卡片库（同时重建索引缓存）
+   */
+  async findDuplicateGroups(options?: Partial<NearDuplicateOptions>): Promise<DuplicateCardGroup[]> {
+    const cache = await this.buildCache(options);
+    return this.toCardGroups(cache.index.findGroups(), cache.cards);
+  }
+
+  /**
+   * 查找与指定卡片（新建或刚导入的卡片）近似重复的已有卡片
+   *
+   * 索引只在首次调用时全量构建，之后只对传入的卡片计算签名
+   */
+  async findDuplicatesOf(targets: Card[], options?: Partial<NearDuplicateOptions>): Promise<DuplicateCardGroup[]> {
+    if (targets.length === 0) return [];
+
+    const cache = await this.getCache(options);
+    const representatives = noteRepresentatives(targets);
+    for (const card of representatives) {
+      // 同一笔记的已有兄弟卡片由新卡片代替
+      const owner = card.noteId ? cache.noteCards.get(card.noteId) : undefined;
+      if (owner && owner !== card.id) this.uncacheCard(cache, owner);
+      this.cacheCard(cache, card);
+    }
+    const targetIds = representatives.map(card => card.id);
+
+    // 缓存可能错过了未发出变更通知的写入：命中的已有卡片以存储中的当前版本复核
+    const matchedIds = Array.from(new Set(cache.index.findGroupsOf(targetIds).flatMap(group => group.ids)))
+      .filter(id => !targetIds.includes(id));
+    if (matchedIds.length === 0) return [];
+    await this.refreshCards(matchedIds);
+
+    return this.toCardGroups(cache.index.findGroupsOf(targetIds), cache.cards);
+  }
+
+  /**
+   * 卡片新建或修改后更新索引缓存（缓存尚未构建时不做任何事）
+   */
+  updateCards(cards: Card[]): void {
+    if (!this.cache) return;
+    for (const card of cards) {
+      this.cacheCard(this.cache, card);
+    }
+  }
+
+  /**
+   * 卡片删除后从索引缓存中移除
+   */
+  removeCards(cardIds: string[]): void {
+    if (!this.cache) return;
+    for (const id of cardIds) {
+      this.uncacheCard(this.cache, id);
+    }
+  }
+
+  /**
+   * 按存储中的当前版本更新缓存中的卡片，已删除的卡片移出缓存
+   */
+  async refreshCards(cardIds: string[]): Promise<void> {
+    if (!this.cache || cardIds.length === 0) return;
+    const current = await this.storage.getCards({ cardIds });
+    const found = new Set(current.map(card => card.id));
+    this.removeCards(cardIds.filter(id => !found.has(id)));
+    this.updateCards(current);
+  }
+
+  /**
+   * 丢弃索引缓存，下次查找时重新构建
+   */
+  invalidate(): void {
+    this.cache = null;
+  }
+
+  /**
+   * 合并一组重复卡片；keeperId 缺省时保留复习记录最好的卡片
+   */
+  async mergeGroup(cards: Card[], keeperId?: string): Promise<DuplicateMergeResult> {
+    const sorted = [...cards].sort(compareReviewHistory);
+    const keeper: Card = { ...(sorted.find(card => card.id === keeperId) ?? sorted[0]) };
+    const duplicates = sorted.filter(card => card.id !== keeper.id);
+    const keeperNote = keeper.noteId
+      ? (await this.storage.getCardsByNote(keeper.noteId)).map(card => (card.id === keeper.id ? keeper : card))
+      : [keeper];
+    const keeperNoteIds = new Set(keeperNote.map(card => card.id));
+
+    // 被合并笔记的每张卡片 → 保留笔记中接替它的卡片；progress 记录接替卡片应取得的最好学习进度
+    const replacements = new Map<string, { card: Card; target: Card }>();
+    const progress = new Map<string, Card>();
+    for (const duplicate of duplicates) {
+      absorbDuplicate(keeper, duplicate);
+
+      const noteCards = duplicate.noteId ? await this.storage.getCardsByNote(duplicate.noteId) : [];
+      if (!noteCards.some(card => card.id === duplicate.id)) noteCards.push(duplicate);
+      for (const card of noteCards) {
+        if (keeperNoteIds.has(card.id) || replacements.has(card.id)) continue;
+        const target = keeperNote.find(candidate => slotKey(candidate) === slotKey(card))
+          ?? (card.id === duplicate.id ? keeper : undefined);
+        // 保留笔记没有这个槽位：兄弟卡片保留
+        if (!target) continue;
+        replacements.set(card.id, { card, target });
+        if (compareReviewHistory(card, progress.get(target.id) ?? target) < 0) progress.set(target.id, card);
+      }
+    }
+
+    const keeperProgress = progress.get(keeper.id);
+    if (keeperProgress) moveReviewProgress(keeperProgress, keeper);
+    const saved = await this.storage.saveCard(keeper);
+    if (!saved.success) {
+      throw new Error(saved.error || '保存保留卡片失败');
+    }
+
+    // 重新指向引用被合并卡片的父子关系，并写入移到保留笔记兄弟卡片上的学习进度（一次批量写入）
+    const uuidRedirects = Array.from(replacements.values())
+      .filter(({ card, target }) => card.uuid && target.uuid)
+      .map(({ card, target }) => [card.uuid, target.uuid] as const);
+    const updatedCards: Card[] = [];
+    let redirected = 0;
+    for (const card of await this.storage.getAllCards()) {
+      if (replacements.has(card.id) || card.id === keeper.id) continue;
+      const updated: Card = { ...card };
+      const relationChanged = uuidRedirects
+        .map(([fromUuid, toUuid]) => redirectCardRelations(updated, fromUuid, toUuid))
+        .some(Boolean);
+      const source = progress.get(card.id);
+      if (source) moveReviewProgress(source, updated);
+      if (relationChanged) redirected++;
+      if (relationChanged || source) updatedCards.push(updated);
+    }
+    if (updatedCards.length > 0) {
+      await this.storage.updateCards(updatedCards);
+    }
+
+    for (const { card, target } of replacements.values()) {
+      await this.storage.deleteCard(card.id, { keepSiblings: true });
+      await this.redirectSourceDocument(card, target.uuid);
+    }
+    const removedIds = Array.from(replacements.keys());
+    this.removeCards(removedIds);
+    this.updateCards([saved.data ?? keeper]);
+
+    return { keeper: saved.data ?? keeper, removedIds, redirected };
+  }
+
+  /**
+   * 源文档中的 UUID 标记改为保留卡片的 UUID
+   */
+  private async redirectSourceDocument(duplicate: Card, keeperUuid: string): Promise<void> {
+    if (!this.vault || !duplicate.sourceFile || !duplicate.uuid) return;
+
+    const file = this.vault.getAbstractFileByPath(duplicate.sourceFile);
+    if (!(file instanceof TFile)) return;
+
+    try {
+      const content = await this.vault.read(file);
+      if (!content.includes(duplicate.uuid)) return;
+      await this.vault.modify(file, content.split(duplicate.uuid).join(keeperUuid));
+    } catch (error) {
+      console.warn(`[DuplicateMergeService] 更新源文档失败: ${duplicate.sourceFile}`, error);
+    }
+  }
+
+  private async getCache(options?: Partial<NearDuplicateOptions>): Promise<DuplicateIndexCache> {
+    if (this.cache && this.cache.optionsKey === JSON.stringify(options ?? {})) return this.cache;
+    return this.buildCache(options);
+  }
+
+  private async buildCache(options?: Partial<NearDuplicateOptions>): Promise<DuplicateIndexCache> {
+    const cache: DuplicateIndexCache = {
+      optionsKey: JSON.stringify(options ?? {}),
+      index: new NearDuplicateIndex(options),
+      cards: new Map(),
+      noteCards: new Map()
+    };
+    for (const card of noteRepresentatives(await this.storage.getAllCards())) {
+      this.cacheCard(cache, card);
+    }
+    this.cache = cache;
+    return cache;
+  }
+
+  /**
+   * 加入或更新缓存；比较文本未变时不重新计算签名
+   */
+  private cacheCard(cache: DuplicateIndexCache, card: Card): void {
+    const previous = cache.cards.get(card.id);
+    if (previous?.noteId && previous.noteId !== card.noteId) {
+      cache.noteCards.delete(previous.noteId);
+    }
+    if (card.noteId) {
+      const owner = cache.noteCards.get(card.noteId);
+      if (owner && owner !== card.id) {
+        if (previous) this.uncacheCard(cache, card.id);
+        return;
+      }
+      cache.noteCards.set(card.noteId, card.id);
+    }
+
+    const text = getCardComparableText(card);
+    cache.cards.set(card.id, card);
+    if (!previous || getCardComparableText(previous) !== text) {
+      cache.index.add(card.id, text);
+    }
+  }
+
+  private uncacheCard(cache: DuplicateIndexCache, cardId: string): void {
+    const card = cache.cards.get(cardId);
+    if (!card) return;
+    cache.cards.delete(cardId);
+    cache.index.remove(cardId);
+    if (card.noteId && cache.noteCards.get(card.noteId) === cardId) {
+      cache.noteCards.delete(card.noteId);
+    }
+  }
+
+  private toCardGroups(groups: Array<{ ids: string[]; similarity: number }>, byId: Map<string, Card>): DuplicateCardGroup[] {
+    return groups
+      .map(group => ({
+        cards: group.ids
+          .map(id => byId.get(id))
+          .filter((card): card is Card => !!card)
+          .sort(compareReviewHistory),
+        similarity: group.similarity
+      }))
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+}
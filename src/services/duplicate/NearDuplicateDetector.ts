@@ -0,0 +1,319 @@
+/**
+ * 近似重复卡片检测（MinHash + LSH）
+ *
+ * 完全离线：
+ * 1. 规范化卡片文本（去掉 Markdown/HTML 标记、挖空语法、UUID 注释、标点和空白），统一小写
+ * 2. 按字符切分 k-gram（对中文和英文都适用）
+ * 3. 计算 MinHash 签名，按 LSH 分段放入桶中，只比较落入同一桶的候选
+ * 4. 候选对用 k-gram 集合的精确 Jaccard 相似度复核，达到阈值即判定为近似重复
+ */
+
+import type { Card } from '../../data/types';
+import { MAIN_SEPARATOR } from '../../constants/markdown-delimiters';
+
+export interface NearDuplicateOptions {
+  /** Jaccard 相似度阈值（0-1） */
+  threshold: number;
+  /** k-gram 长度 */
+  shingleSize: number;
+  /** MinHash 签名长度，必须能被 bands 整除 */
+  numHashes: number;
+  /** LSH 分段数 */
+  bands: number;
+}
+
+export const DEFAULT_NEAR_DUPLICATE_OPTIONS: NearDuplicateOptions = {
+  threshold: 0.7,
+  shingleSize: 3,
+  numHashes: 64,
+  bands: 16
+};
+
+export interface NearDuplicateMatch {
+  id: string;
+  similarity: number;
+}
+
+export interface NearDuplicateGroup {
+  /** 组内卡片ID，按加入索引的顺序排列 */
+  ids: string[];
+  /** 组内最高的两两相似度 */
+  similarity: number;
+}
+
+/**
+ * 提取卡片用于比较的文本：正面 + 背面
+ */
+export function getCardComparableText(card: Pick<Card, 'content' | 'fields'>): string {
+  const front = card.fields?.front ?? card.fields?.question;
+  const back = card.fields?.back ?? card.fields?.answer;
+  if (front !== undefined || back !== undefined) {
+    return `${front ?? ''}\n${back ?? ''}`;
+  }
+  return (card.content ?? '').split(MAIN_SEPARATOR).join('\n');
+}
+
+/**
+ * 规范化文本，去掉不影响语义的格式差异
+ */
+export function normalizeForDuplicate(text: string): string {
+  return (text ?? '')
+    .normalize('NFKC')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/!\[\[[^\]]*\]\]|!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[\[([^\]|]*\|)?([^\]]*)\]\]/g, '$2')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\{\{c\d+::([\s\S]*?)(?:::[\s\S]*?)?\}\}/g, '$1')
+    .replace(/\{✓\}/g, '')
+    .replace(/(^|\s)\^[\w-]+(?=\s|$)/g, ' ')
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]+/gu, '');
+}
+
+/**
+ * 字符 k-gram 集合；文本短于 k 时整体作为一个 gram
+ */
+export function shingle(text: string, size: number): Set<string> {
+  const chars = Array.from(text);
+  const grams = new Set<string>();
+  if (chars.length === 0) return grams;
+  if (chars.length <= size) {
+    grams.add(text);
+    return grams;
+  }
+  for (let i = 0; i <= chars.length - size; i++) {
+    grams.add(chars.slice(i, i + size).join(''));
+  }
+  return grams;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let intersection = 0;
+  for (const gram of small) {
+    if (large.has(gram)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * FNV-1a 32 位哈希
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * MurmurHash3 的 32 位终结混合，用作第 i 个哈希函数
+ */
+function mix(value: number, seed: number): number {
+  let h = (value ^ seed) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * 固定种子序列，保证同一文本在不同会话得到相同签名
+ */
+function createSeeds(count: number): number[] {
+  const seeds: number[] = [];
+  let state = 0x9e3779b9;
+  for (let i = 0; i < count; i++) {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    seeds.push(state);
+  }
+  return seeds;
+}
+
+export function minHashSignature(grams: Set<string>, seeds: number[]): Uint32Array {
+  const signature = new Uint32Array(seeds.length).fill(0xffffffff);
+  for (const gram of grams) {
+    const base = hashString(gram);
+    for (let i = 0; i < seeds.length; i++) {
+      const value = mix(base, seeds[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+interface IndexedEntry {
+  grams: Set<string>;
+  bucketKeys: string[];
+  /** 加入索引的次序 */
+  order: number;
+}
+
+/**
+ * 近似重复索引
+ */
+export class NearDuplicateIndex {
+  private options: NearDuplicateOptions;
+  private seeds: number[];
+  private rows: number;
+  private entries = new Map<string, IndexedEntry>();
+  private buckets = new Map<string, string[]>();
+  private nextOrder = 0;
+
+  constructor(options: Partial<NearDuplicateOptions> = {}) {
+    this.options = { ...DEFAULT_NEAR_DUPLICATE_OPTIONS, ...options };
+    if (this.options.numHashes % this.options.bands !== 0) {
+      throw new Error('numHashes must be divisible by bands');
+    }
+    this.rows = this.options.numHashes / this.options.bands;
+    this.seeds = createSeeds(this.options.numHashes);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * 加入索引；规范化后为空的文本不参与比较
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+    const grams = shingle(normalizeForDuplicate(text), this.options.shingleSize);
+    if (grams.size === 0) return;
+
+    const bucketKeys = this.bucketKeys(grams);
+    this.entries.set(id, { grams, bucketKeys, order: this.nextOrder++ });
+    for (const key of bucketKeys) {
+      const ids = this.buckets.get(key);
+      if (ids) ids.push(id);
+      else this.buckets.set(key, [id]);
+    }
+  }
+
+  remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    for (const key of entry.bucketKeys) {
+      const ids = this.buckets.get(key)?.filter(other => other !== id) ?? [];
+      if (ids.length > 0) this.buckets.set(key, ids);
+      else this.buckets.delete(key);
+    }
+    this.entries.delete(id);
+  }
+
+  /**
+   * 查找与文本近似重复的已索引条目，按相似度降序
+   */
+  query(text: string, excludeId?: string): NearDuplicateMatch[] {
+    const grams = shingle(normalizeForDuplicate(text), this.options.shingleSize);
+    if (grams.size === 0) return [];
+    return this.verify(grams, this.candidates(this.bucketKeys(grams)), excludeId);
+  }
+
+  /**
+   * 查找已索引条目之间的近似重复组（相似关系按传递合并）
+   */
+  findGroups(): NearDuplicateGroup[] {
+    const ids = Array.from(this.entries.keys());
+    const order = new Map(ids.map((id, index) => [id, index]));
+    const parent = new Map(ids.map(id => [id, id]));
+    const best = new Map<string, number>();
+
+    const find = (id: string): string => {
+      let root = id;
+      while (parent.get(root) !== root) root = parent.get(root)!;
+      parent.set(id, root);
+      return root;
+    };
+
+    for (const id of ids) {
+      const entry = this.entries.get(id)!;
+      for (const match of this.verify(entry.grams, this.candidates(entry.bucketKeys), id)) {
+        // 每对只比较一次
+        if (order.get(match.id)! < order.get(id)!) continue;
+        const a = find(id);
+        const b = find(match.id);
+        const root = order.get(a)! <= order.get(b)! ? a : b;
+        const similarity = Math.max(best.get(a) ?? 0, best.get(b) ?? 0, match.similarity);
+        parent.set(a, root);
+        parent.set(b, root);
+        best.set(root, similarity);
+      }
+    }
+
+    const groups = new Map<string, string[]>();
+    for (const id of ids) {
+      const root = find(id);
+      const members = groups.get(root);
+      if (members) members.push(id);
+      else groups.set(root, [id]);
+    }
+
+    return Array.from(groups.entries())
+      .filter(([, members]) => members.length > 1)
+      .map(([root, members]) => ({ ids: members, similarity: best.get(root) ?? 0 }));
+  }
+
+  /**
+   * 只查找包含指定条目的近似重复组，比较范围限于从这些条目出发能传递到达的条目
+   */
+  findGroupsOf(seedIds: string[]): NearDuplicateGroup[] {
+    const visited = new Set<string>();
+    const groups: NearDuplicateGroup[] = [];
+
+    for (const seed of seedIds) {
+      if (visited.has(seed) || !this.entries.has(seed)) continue;
+      visited.add(seed);
+      const members = [seed];
+      let similarity = 0;
+
+      for (let i = 0; i < members.length; i++) {
+        const entry = this.entries.get(members[i])!;
+        for (const match of this.verify(entry.grams, this.candidates(entry.bucketKeys), members[i])) {
+          similarity = Math.max(similarity, match.similarity);
+          if (visited.has(match.id)) continue;
+          visited.add(match.id);
+          members.push(match.id);
+        }
+      }
+
+      if (members.length > 1) {
+        groups.push({ ids: members.sort((a, b) => this.entries.get(a)!.order - this.entries.get(b)!.order), similarity });
+      }
+    }
+    return groups;
+  }
+
+  private bucketKeys(grams: Set<string>): string[] {
+    const signature = minHashSignature(grams, this.seeds);
+    const keys: string[] = [];
+    for (let band = 0; band < this.options.bands; band++) {
+      const start = band * this.rows;
+      keys.push(`${band}:${Array.from(signature.subarray(start, start + this.rows)).join(',')}`);
+    }
+    return keys;
+  }
+
+  private candidates(bucketKeys: string[]): Set<string> {
+    const result = new Set<string>();
+    for (const key of bucketKeys) {
+      for (const id of this.buckets.get(key) ?? []) result.add(id);
+    }
+    return result;
+  }
+
+  private verify(grams: Set<string>, candidates: Set<string>, excludeId?: string): NearDuplicateMatch[] {
+    const matches: NearDuplicateMatch[] = [];
+    for (const id of candidates) {
+      if (id === excludeId) continue;
+      const similarity = jaccard(grams, this.entries.get(id)!.grams);
+      if (similarity >= this.options.threshold) {
+        matches.push({ id, similarity });
+      }
+    }
+    return matches.sort((a, b) => b.similarity - a.similarity);
+  }
+}
@@ -13,6 +13,8 @@ import type {
 } from '../types/filter-types';
 import type { Card, FieldTemplate } from '../data/types';
 import { getCardContentBySide } from '../utils/helpers';
+import { isCardBuried } from '../utils/study/cardAvailability';
+import { getCardDeckIds } from '../data/card-query-index';
 
 export class FilterManager {
   private storage: FilterStorage;
@@ -141,6 +143,32 @@ export class FilterManager {
         isPinned: true,
         isBuiltIn: true
       },
+      {
+        id: 'builtin-suspended',
+        name: '已暂停',
+        description: '已暂停、不会进入学习队列的卡片',
+        icon: 'pause',
+        color: '#6b7280',
+        config: {
+          groups: [{
+            id: 'g1',
+            logic: 'AND',
+            conditions: [{
+              id: 'c1',
+              field: 'scheduling',
+              operator: 'equals',
+              value: 'suspended',
+              enabled: true
+            }]
+          }],
+          globalLogic: 'AND'
+        },
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        useCount: 0,
+        isPinned: false,
+        isBuiltIn: true
+      },
       {
         id: 'builtin-recent',
         name: '最近创建',
@@ -412,9 +440,12 @@ export class FilterManager {
     
     switch (condition.operator) {
       case 'equals':
+        // 多值字段（如卡片所属的全部牌组）任一值相等即匹配
+        if (Array.isArray(fieldValue)) return fieldValue.includes(targetValue);
         return fieldValue === targetValue;
         
       case 'not_equals':
+        if (Array.isArray(fieldValue)) return !fieldValue.includes(targetValue);
         return fieldValue !== targetValue;
         
       case 'contains':
@@ -483,8 +514,12 @@ export class FilterManager {
       case 'status':
         return this.getStatusString(card.fsrs?.state ?? 0);
         
+      case 'scheduling':
+        if (card.suspended) return 'suspended';
+        return isCardBuried(card) ? 'buried' : 'active';
+        
       case 'deck':
-        return card.deckId;
+        return getCardDeckIds(card);
         
       case 'tags':
         return card.tags || [];
@@ -13,6 +13,7 @@
 import type { App } from 'obsidian';
 import { MaskDataParser } from './MaskDataParser';
 import { MaskRenderer, revealAllMasks } from './MaskRenderer';
+import { getContentOcclusionTargets } from './occlusion-targets';
 import type { MaskData } from '../../types/image-mask-types';
 import { MASK_CONSTANTS } from '../../types/image-mask-types';
 
@@ -32,10 +33,12 @@ export class ImageMaskIntegration {
    * 
    * @param container 容器元素
    * @param content Markdown 内容（用于解析遮罩数据）
+   * @param occlusionTarget 卡片的出题目标（Card.occlusionTarget），不在内容中时按所有遮罩一起揭示处理
    */
   applyMasksInContainer(
     container: HTMLElement,
-    content: string
+    content: string,
+    occlusionTarget?: string
   ): void {
     const images = container.querySelectorAll('img');
     
@@ -50,6 +53,10 @@ export class ImageMaskIntegration {
       return;
     }
 
+    const target = occlusionTarget && getContentOcclusionTargets(content).includes(occlusionTarget)
+      ? occlusionTarget
+      : undefined;
+
     // 为每个图片应用遮罩
     images.forEach((img, index) => {
       const imageSrc = img.getAttribute('src') || '';
@@ -67,7 +74,7 @@ export class ImageMaskIntegration {
           }))
         });
         
-        this.renderer.renderMasksOnImage(img, maskData, { visible: true });
+        this.renderer.renderMasksOnImage(img, maskData, { visible: true, occlusionTarget: target });
       }
     });
   }
@@ -87,9 +94,8 @@ export class ImageMaskIntegration {
         if (animated) {
           this.renderer.showMasks(overlay, MASK_CONSTANTS.DEFAULT_ANIMATION_DURATION);
         } else {
-          // ✅ 修复：非动画模式也要恢复 display 属性
-          overlay.style.display = '';
-          overlay.style.opacity = '1';
+          // ✅ 修复：非动画模式也要恢复 display 属性（包括已揭示的目标遮罩）
+          this.renderer.showMasks(overlay, 0);
         }
       }
     });
@@ -14,6 +14,10 @@
 import type { App, TFile } from 'obsidian';
 import type { 
   MaskData, 
+  MaskDataVersion,
+  MaskPoint,
+  MaskType,
+  OcclusionMode,
   ParseResult, 
   CommentLocation,
   Mask
@@ -34,40 +38,7 @@ export class MaskDataParser {
    * @returns 解析结果
    */
   parseCommentToMaskData(comment: string): ParseResult {
-    try {
-      // 提取 JSON 部分
-      const jsonContent = this.extractJSONFromComment(comment);
-      if (!jsonContent) {
-        return {
-          success: false,
-          error: '无法从注释中提取 JSON 数据'
-        };
-      }
-
-      // 解析 JSON
-      const data = JSON.parse(jsonContent) as MaskData;
-
-      // 验证数据结构
-      const validation = this.validateMaskData(data);
-      if (!validation.success) {
-        return {
-          success: false,
-          error: validation.error
-        };
-      }
-
-      return {
-        success: true,
-        data
-      };
-
-    } catch (error) {
-      console.error('[MaskDataParser] 解析注释失败:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : '未知错误'
-      };
-    }
+    return parseMaskComment(comment);
   }
 
   /**
@@ -77,8 +48,8 @@ export class MaskDataParser {
    * @returns HTML 注释字符串
    */
   maskDataToComment(maskData: MaskData): string {
-    // 压缩 JSON（无空格）
-    const json = JSON.stringify(maskData);
+    // 压缩 JSON（无空格）；未使用 1.1 新特性时按 1.0 保存
+    const json = JSON.stringify({ ...maskData, version: getRequiredMaskDataVersion(maskData) });
     
     return `${MASK_CONSTANTS.COMMENT_PREFIX} ${json} ${MASK_CONSTANTS.COMMENT_SUFFIX}`;
   }
@@ -110,7 +81,7 @@ export class MaskDataParser {
     const nextLine = lines[nextLineIndex].trim();
     
     // 检查是否为 tuanki-mask 注释
-    if (this.isMaskComment(nextLine)) {
+    if (isMaskComment(nextLine)) {
       return {
         found: true,
         line: nextLineIndex,
@@ -196,155 +167,241 @@ export class MaskDataParser {
   // ===== 私有辅助方法 =====
 
   /**
-   * 从注释中提取 JSON 内容
+   * 从图片链接中提取文件名/路径
    */
-  private extractJSONFromComment(comment: string): string | null {
-    const trimmed = comment.trim();
-    
-    // 检查格式
-    if (!trimmed.startsWith(MASK_CONSTANTS.COMMENT_PREFIX)) {
-      return null;
+  private extractImageFilename(link: string): string | null {
+    // Wiki 链接格式: ![[filename]]
+    const wikiMatch = link.match(/!\[\[(.*?)\]\]/);
+    if (wikiMatch) {
+      return wikiMatch[1];
     }
-    if (!trimmed.endsWith(MASK_CONSTANTS.COMMENT_SUFFIX)) {
-      return null;
+
+    // Markdown 链接格式: ![alt](path)
+    const mdMatch = link.match(/!\[.*?\]\((.*?)\)/);
+    if (mdMatch) {
+      return mdMatch[1];
     }
 
-    // 提取中间的 JSON 部分
-    const start = MASK_CONSTANTS.COMMENT_PREFIX.length;
-    const end = trimmed.length - MASK_CONSTANTS.COMMENT_SUFFIX.length;
-    
-    return trimmed.substring(start, end).trim();
+    return null;
   }
+}
 
-  /**
-   * 验证遮罩数据结构
-   */
-  private validateMaskData(data: any): ParseResult {
-    // 检查基本结构
-    if (!data || typeof data !== 'object') {
+/**
+ * 解析 HTML 注释为遮罩数据（支持 1.0 和 1.1 格式）
+ *
+ * @param comment HTML 注释内容（完整格式）
+ * @returns 解析结果
+ */
+export function parseMaskComment(comment: string): ParseResult {
+  try {
+    // 提取 JSON 部分
+    const jsonContent = extractJSONFromComment(comment);
+    if (!jsonContent) {
       return {
         success: false,
-        error: '遮罩数据格式错误'
+        error: '无法从注释中提取 JSON 数据'
       };
     }
 
-    // 检查版本
-    if (!data.version || data.version !== MASK_CONSTANTS.CURRENT_VERSION) {
-      return {
-        success: false,
-        error: `不支持的数据版本: ${data.version}`
-      };
-    }
+    // 解析 JSON
+    const data = JSON.parse(jsonContent) as MaskData;
 
-    // 检查 masks 数组
-    if (!Array.isArray(data.masks)) {
+    // 验证数据结构
+    const validation = validateMaskData(data);
+    if (!validation.success) {
       return {
         success: false,
-        error: 'masks 必须是数组'
+        error: validation.error
       };
     }
 
-    // 验证每个遮罩
-    for (let i = 0; i < data.masks.length; i++) {
-      const mask = data.masks[i];
-      const maskValidation = this.validateMask(mask, i);
-      
-      if (!maskValidation.success) {
-        return maskValidation;
-      }
+    return {
+      success: true,
+      data
+    };
+
+  } catch (error) {
+    console.error('[MaskDataParser] 解析注释失败:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '未知错误'
+    };
+  }
+}
+
+/**
+ * 检查是否为遮罩注释
+ */
+export function isMaskComment(line: string): boolean {
+  return line.startsWith(MASK_CONSTANTS.COMMENT_PREFIX) &&
+         line.endsWith(MASK_CONSTANTS.COMMENT_SUFFIX);
+}
+
+/**
+ * 保存遮罩数据所需的最低格式版本：使用了多边形、自由绘制、分组或出题模式时为 1.1
+ */
+export function getRequiredMaskDataVersion(maskData: MaskData): MaskDataVersion {
+  const usesNewFeatures = !!maskData.mode || maskData.masks.some(mask =>
+    (mask.type !== 'rect' && mask.type !== 'circle') || !!mask.groupId
+  );
+  return usesNewFeatures ? MASK_CONSTANTS.CURRENT_VERSION : MASK_CONSTANTS.LEGACY_VERSION;
+}
+
+/**
+ * 从注释中提取 JSON 内容
+ */
+function extractJSONFromComment(comment: string): string | null {
+  const trimmed = comment.trim();
+  
+  // 检查格式
+  if (!trimmed.startsWith(MASK_CONSTANTS.COMMENT_PREFIX)) {
+    return null;
+  }
+  if (!trimmed.endsWith(MASK_CONSTANTS.COMMENT_SUFFIX)) {
+    return null;
+  }
+
+  // 提取中间的 JSON 部分
+  const start = MASK_CONSTANTS.COMMENT_PREFIX.length;
+  const end = trimmed.length - MASK_CONSTANTS.COMMENT_SUFFIX.length;
+  
+  return trimmed.substring(start, end).trim();
+}
+
+/**
+ * 验证遮罩数据结构
+ */
+function validateMaskData(data: any): ParseResult {
+  // 检查基本结构
+  if (!data || typeof data !== 'object') {
+    return {
+      success: false,
+      error: '遮罩数据格式错误'
+    };
+  }
+
+  // 检查版本
+  if (!data.version || !MASK_CONSTANTS.SUPPORTED_VERSIONS.includes(data.version)) {
+    return {
+      success: false,
+      error: `不支持的数据版本: ${data.version}`
+    };
+  }
+
+  // 检查 masks 数组
+  if (!Array.isArray(data.masks)) {
+    return {
+      success: false,
+      error: 'masks 必须是数组'
+    };
+  }
+
+  // 1.0 格式只有矩形和圆形，且没有分组和出题模式
+  const isLegacy = data.version === MASK_CONSTANTS.LEGACY_VERSION;
+  if (!isLegacy && data.mode !== undefined && !OCCLUSION_MODES.includes(data.mode)) {
+    return {
+      success: false,
+      error: `不支持的出题模式: ${data.mode}`
+    };
+  }
+
+  // 验证每个遮罩
+  for (let i = 0; i < data.masks.length; i++) {
+    const mask = data.masks[i];
+    const maskValidation = validateMask(mask, i, isLegacy ? LEGACY_MASK_TYPES : MASK_TYPES);
+    
+    if (!maskValidation.success) {
+      return maskValidation;
     }
+  }
 
-    return { success: true };
+  return { success: true };
+}
+
+const LEGACY_MASK_TYPES: MaskType[] = ['rect', 'circle'];
+const MASK_TYPES: MaskType[] = ['rect', 'circle', 'polygon', 'freehand'];
+const OCCLUSION_MODES: OcclusionMode[] = ['hide-all-guess-one', 'hide-one-guess-one'];
+
+/**
+ * 验证单个遮罩数据
+ */
+function validateMask(mask: any, index: number, allowedTypes: MaskType[]): ParseResult {
+  // 必需字段
+  if (!mask.id || typeof mask.id !== 'string') {
+    return {
+      success: false,
+      error: `遮罩 #${index}: 缺少 id 字段`
+    };
   }
 
-  /**
-   * 验证单个遮罩数据
-   */
-  private validateMask(mask: any, index: number): ParseResult {
-    // 必需字段
-    if (!mask.id || typeof mask.id !== 'string') {
+  if (!mask.type || !allowedTypes.includes(mask.type)) {
+    return {
+      success: false,
+      error: `遮罩 #${index}: type 必须是 ${allowedTypes.map(type => `'${type}'`).join('、')} 之一`
+    };
+  }
+
+  if (typeof mask.x !== 'number' || mask.x < 0 || mask.x > 1) {
+    return {
+      success: false,
+      error: `遮罩 #${index}: x 必须是 0-1 之间的数字`
+    };
+  }
+
+  if (typeof mask.y !== 'number' || mask.y < 0 || mask.y > 1) {
+    return {
+      success: false,
+      error: `遮罩 #${index}: y 必须是 0-1 之间的数字`
+    };
+  }
+
+  if (mask.groupId !== undefined && typeof mask.groupId !== 'string') {
+    return {
+      success: false,
+      error: `遮罩 #${index}: groupId 必须是字符串`
+    };
+  }
+
+  // 根据类型验证额外字段
+  if (mask.type === 'rect') {
+    if (typeof mask.width !== 'number' || mask.width <= 0 || mask.width > 1) {
       return {
         success: false,
-        error: `遮罩 #${index}: 缺少 id 字段`
+        error: `遮罩 #${index}: width 必须是 0-1 之间的正数`
       };
     }
 
-    if (!mask.type || !['rect', 'circle'].includes(mask.type)) {
+    if (typeof mask.height !== 'number' || mask.height <= 0 || mask.height > 1) {
       return {
         success: false,
-        error: `遮罩 #${index}: type 必须是 'rect' 或 'circle'`
+        error: `遮罩 #${index}: height 必须是 0-1 之间的正数`
       };
     }
+  }
 
-    if (typeof mask.x !== 'number' || mask.x < 0 || mask.x > 1) {
+  if (mask.type === 'circle') {
+    if (typeof mask.radius !== 'number' || mask.radius <= 0 || mask.radius > 1) {
       return {
         success: false,
-        error: `遮罩 #${index}: x 必须是 0-1 之间的数字`
+        error: `遮罩 #${index}: radius 必须是 0-1 之间的正数`
       };
     }
+  }
 
-    if (typeof mask.y !== 'number' || mask.y < 0 || mask.y > 1) {
+  if (mask.type === 'polygon' || mask.type === 'freehand') {
+    const validPoints = Array.isArray(mask.points) && mask.points.length >= 3 && mask.points.every((point: any) =>
+      typeof point?.x === 'number' && typeof point?.y === 'number' &&
+      point.x >= 0 && point.x <= 1 && point.y >= 0 && point.y <= 1
+    );
+    if (!validPoints) {
       return {
         success: false,
-        error: `遮罩 #${index}: y 必须是 0-1 之间的数字`
+        error: `遮罩 #${index}: points 必须是至少 3 个 0-1 之间的坐标点`
       };
     }
-
-    // 根据类型验证额外字段
-    if (mask.type === 'rect') {
-      if (typeof mask.width !== 'number' || mask.width <= 0 || mask.width > 1) {
-        return {
-          success: false,
-          error: `遮罩 #${index}: width 必须是 0-1 之间的正数`
-        };
-      }
-
-      if (typeof mask.height !== 'number' || mask.height <= 0 || mask.height > 1) {
-        return {
-          success: false,
-          error: `遮罩 #${index}: height 必须是 0-1 之间的正数`
-        };
-      }
-    }
-
-    if (mask.type === 'circle') {
-      if (typeof mask.radius !== 'number' || mask.radius <= 0 || mask.radius > 1) {
-        return {
-          success: false,
-          error: `遮罩 #${index}: radius 必须是 0-1 之间的正数`
-        };
-      }
-    }
-
-    return { success: true };
-  }
-
-  /**
-   * 检查是否为遮罩注释
-   */
-  private isMaskComment(line: string): boolean {
-    return line.startsWith(MASK_CONSTANTS.COMMENT_PREFIX) &&
-           line.endsWith(MASK_CONSTANTS.COMMENT_SUFFIX);
   }
 
-  /**
-   * 从图片链接中提取文件名/路径
-   */
-  private extractImageFilename(link: string): string | null {
-    // Wiki 链接格式: ![[filename]]
-    const wikiMatch = link.match(/!\[\[(.*?)\]\]/);
-    if (wikiMatch) {
-      return wikiMatch[1];
-    }
-
-    // Markdown 链接格式: ![alt](path)
-    const mdMatch = link.match(/!\[.*?\]\((.*?)\)/);
-    if (mdMatch) {
-      return mdMatch[1];
-    }
-
-    return null;
-  }
+  return { success: true };
 }
 
 /**
@@ -397,3 +454,22 @@ export function createDefaultCircleMask(): Mask {
 
 
 
+
+/**
+ * 创建多边形或自由绘制遮罩（x/y 取顶点的外接矩形左上角）
+ */
+export function createPointsMask(
+  type: 'polygon' | 'freehand',
+  points: MaskPoint[],
+  fill: string = MASK_CONSTANTS.DEFAULT_FILL
+): Mask {
+  return {
+    id: generateMaskId(),
+    type,
+    x: Math.min(...points.map(point => point.x)),
+    y: Math.min(...points.map(point => point.y)),
+    points: points.map(point => ({ x: point.x, y: point.y })),
+    style: MASK_CONSTANTS.DEFAULT_STYLE,
+    fill
+  };
+}
@@ -6,6 +6,7 @@
  * - 支持 SVG 遮罩层（轻量级，支持百分比坐标）
  * - 支持遮罩显示/隐藏动画
  * - 支持多种遮罩样式（纯色、模糊）
+ * - 支持多边形/自由绘制遮罩，以及按出题目标（遮全猜一/遮一猜一）只揭示目标遮罩
  * 
  * @author Tuanki Team
  * @date 2025-10-22
@@ -13,7 +14,13 @@
 
 import type { MaskData, Mask, MaskRenderOptions } from '../../types/image-mask-types';
 import { MASK_CONSTANTS } from '../../types/image-mask-types';
-import { parseRGBAColor } from './mask-operations';
+import { parseRGBAColor, toSVGPolygonPoints } from './mask-operations';
+import { resolveMaskOcclusion } from './occlusion-targets';
+
+/** 卡片有出题目标时，遮罩层记录该目标，显示答案只揭示目标遮罩 */
+const OCCLUSION_TARGET_ATTRIBUTE = 'data-occlusion-target';
+const TARGET_MASK_CLASS = 'tuanki-mask-target';
+const CONTEXT_MASK_CLASS = 'tuanki-mask-context';
 
 export class MaskRenderer {
   /**
@@ -34,11 +41,18 @@ export class MaskRenderer {
 
     // 创建遮罩容器
     const container = this.createMaskContainer(imgElement);
+    const hasTarget = !!maskData.mode && !!options.occlusionTarget;
+    if (hasTarget) {
+      container.setAttribute(OCCLUSION_TARGET_ATTRIBUTE, options.occlusionTarget!);
+    }
     
     // 渲染每个遮罩
-    maskData.masks.forEach(mask => {
+    resolveMaskOcclusion(maskData, options.occlusionTarget).forEach(({ mask, role }) => {
       const maskElement = this.createMaskElement(mask, imgElement, options);
       if (maskElement) {
+        if (hasTarget) {
+          this.applyOcclusionRole(maskElement, role);
+        }
         container.appendChild(maskElement);
       }
     });
@@ -59,6 +73,12 @@ export class MaskRenderer {
     container.style.display = '';
     container.style.opacity = '1';
     container.style.transition = `opacity ${duration}ms ease-in`;
+
+    this.getTargetMaskElements(container).forEach(element => {
+      element.style.display = '';
+      element.style.opacity = '1';
+      element.style.transition = `opacity ${duration}ms ease-in`;
+    });
   }
 
   /**
@@ -73,6 +93,21 @@ export class MaskRenderer {
   ): void {
     if (!container) return;
 
+    // 有出题目标时只揭示目标遮罩，其他遮罩保持遮挡
+    if (container.hasAttribute(OCCLUSION_TARGET_ATTRIBUTE)) {
+      const targets = this.getTargetMaskElements(container);
+      targets.forEach(element => {
+        element.style.opacity = '0';
+        element.style.transition = `opacity ${duration}ms ease-out`;
+      });
+      setTimeout(() => {
+        targets.forEach(element => {
+          element.style.display = 'none';
+        });
+      }, duration);
+      return;
+    }
+
     container.style.opacity = '0';
     container.style.transition = `opacity ${duration}ms ease-out`;
     
@@ -99,6 +134,24 @@ export class MaskRenderer {
 
   // ===== 私有方法 =====
 
+  private getTargetMaskElements(container: Element): SVGElement[] {
+    return Array.from(container.querySelectorAll<SVGElement>(`.${TARGET_MASK_CLASS}`));
+  }
+
+  /**
+   * 标记遮罩在当前卡片中的角色，目标遮罩加描边突出显示
+   */
+  private applyOcclusionRole(element: SVGElement, role: 'target' | 'context'): void {
+    if (role === 'target') {
+      element.classList.add(TARGET_MASK_CLASS);
+      element.setAttribute('stroke', 'var(--interactive-accent)');
+      element.setAttribute('stroke-width', '2');
+      element.setAttribute('vector-effect', 'non-scaling-stroke');
+    } else {
+      element.classList.add(CONTEXT_MASK_CLASS);
+    }
+  }
+
   /**
    * 创建遮罩容器
    */
@@ -155,6 +208,8 @@ export class MaskRenderer {
       element = this.createRectMask(mask);
     } else if (mask.type === 'circle') {
       element = this.createCircleMask(mask);
+    } else if ((mask.type === 'polygon' || mask.type === 'freehand') && mask.points) {
+      element = this.createPolygonMask(mask);
     } else {
       console.warn('[MaskRenderer] 不支持的遮罩类型:', mask.type);
       return null;
@@ -214,6 +269,22 @@ export class MaskRenderer {
     return circle;
   }
 
+  /**
+   * 创建多边形遮罩（自由绘制遮罩同样以多边形渲染）
+   */
+  private createPolygonMask(mask: Mask): SVGPolygonElement {
+    const polygon = document.createElementNS('http://www.w3.org/2000/svg', 'polygon');
+    
+    // viewBox 为 0 0 100 100，顶点直接使用百分比数值
+    polygon.setAttribute('points', toSVGPolygonPoints(mask.points));
+    polygon.setAttribute('data-mask-id', mask.id);
+    if (mask.groupId) {
+      polygon.setAttribute('data-group-id', mask.groupId);
+    }
+
+    return polygon;
+  }
+
   /**
    * 应用遮罩样式
    */
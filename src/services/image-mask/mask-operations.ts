@@ -12,7 +12,7 @@
  * @date 2025-10-22
  */
 
-import type { Mask } from '../../types/image-mask-types';
+import type { Mask, MaskPoint } from '../../types/image-mask-types';
 
 // ===== 颜色处理 =====
 
@@ -173,11 +173,46 @@ export function clampMask(mask: Mask): Mask {
       y: clampCoordinate(mask.y),
       radius: Math.min(mask.radius!, maxRadius)
     };
+  } else if (mask.points) {
+    const points = mask.points.map(point => ({
+      x: clampCoordinate(point.x),
+      y: clampCoordinate(point.y)
+    }));
+    const bounds = getPointsBounds(points);
+    return { ...mask, points, x: bounds.left, y: bounds.top };
   }
   
   return mask;
 }
 
+/**
+ * 多边形顶点转换为 SVG points 属性（viewBox 为 0 0 100 100）
+ * 
+ * @param points 相对坐标顶点
+ * @returns SVG points 字符串
+ */
+export function toSVGPolygonPoints(points: MaskPoint[] = []): string {
+  return points.map(point => `${point.x * 100},${point.y * 100}`).join(' ');
+}
+
+/**
+ * 精简自由绘制的轨迹：丢弃与上一个保留点距离过近的点
+ * 
+ * @param points 原始轨迹
+ * @param minDistance 最小间距（相对坐标，默认0.005）
+ * @returns 精简后的轨迹
+ */
+export function simplifyPath(points: MaskPoint[], minDistance: number = 0.005): MaskPoint[] {
+  const result: MaskPoint[] = [];
+  for (const point of points) {
+    const last = result[result.length - 1];
+    if (!last || distance(last, point) >= minDistance) {
+      result.push(point);
+    }
+  }
+  return result;
+}
+
 // ===== 几何计算 =====
 
 /**
@@ -196,6 +231,45 @@ export function distance(
   return Math.sqrt(dx * dx + dy * dy);
 }
 
+/**
+ * 计算顶点的外接矩形
+ * 
+ * @param points 顶点数组
+ * @returns 边界框 {left, top, right, bottom}
+ */
+export function getPointsBounds(points: MaskPoint[]): {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+} {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  return {
+    left: Math.min(...xs),
+    top: Math.min(...ys),
+    right: Math.max(...xs),
+    bottom: Math.max(...ys)
+  };
+}
+
+/**
+ * 计算遮罩的中心点（用于显示编号）
+ * 
+ * @param mask 遮罩对象
+ * @returns 中心点坐标
+ */
+export function getMaskCenter(mask: Mask): {x: number; y: number} {
+  if (mask.type === 'circle') {
+    return { x: mask.x, y: mask.y };
+  }
+  if (mask.points && mask.points.length > 0) {
+    const bounds = getPointsBounds(mask.points);
+    return { x: (bounds.left + bounds.right) / 2, y: (bounds.top + bounds.bottom) / 2 };
+  }
+  return { x: mask.x + (mask.width || 0) / 2, y: mask.y + (mask.height || 0) / 2 };
+}
+
 /**
  * 计算矩形的边界框
  * 
@@ -242,11 +316,35 @@ export function isPointInMask(
   } else if (mask.type === 'circle') {
     const dist = distance(point, {x: mask.x, y: mask.y});
     return dist <= (mask.radius || 0);
+  } else if (mask.points) {
+    return isPointInPolygon(point, mask.points);
   }
   
   return false;
 }
 
+/**
+ * 检查点是否在多边形内（射线法）
+ * 
+ * @param point 点坐标
+ * @param points 多边形顶点
+ * @returns 是否在多边形内
+ */
+export function isPointInPolygon(
+  point: {x: number; y: number},
+  points: MaskPoint[]
+): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    const crosses = (a.y > point.y) !== (b.y > point.y) &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
 /**
  * 检测两个遮罩是否碰撞
  * 
@@ -407,7 +505,7 @@ export function isNearHandle(
  * @returns 是否有效
  */
 export function isValidMask(mask: Partial<Mask>): boolean {
-  if (!mask.type || !['rect', 'circle'].includes(mask.type)) {
+  if (!mask.type || !['rect', 'circle', 'polygon', 'freehand'].includes(mask.type)) {
     return false;
   }
   
@@ -433,6 +531,12 @@ export function isValidMask(mask: Partial<Mask>): boolean {
     }
   }
   
+  if (mask.type === 'polygon' || mask.type === 'freehand') {
+    if (!Array.isArray(mask.points) || mask.points.length < 3) {
+      return false;
+    }
+  }
+  
   return true;
 }
 
@@ -448,6 +552,9 @@ export function isMaskTooSmall(mask: Mask, threshold: number = 0.01): boolean {
     return (mask.width || 0) < threshold || (mask.height || 0) < threshold;
   } else if (mask.type === 'circle') {
     return (mask.radius || 0) < threshold;
+  } else if (mask.points && mask.points.length > 0) {
+    const bounds = getPointsBounds(mask.points);
+    return bounds.right - bounds.left < threshold || bounds.bottom - bounds.top < threshold;
   }
   
   return false;
@@ -0,0 +1,77 @@
+/**
+ * 图片遮罩出题目标
+ *
+ * 设置了出题模式（MaskData.mode）的图片，每个遮罩或每个分组（相同 groupId）是一个出题目标，
+ * 对应一张兄弟卡片（Card.occlusionTarget）：
+ * - 遮全猜一：问题面遮住全部遮罩，答案面只揭示当前目标
+ * - 遮一猜一：只遮住当前目标，答案面揭示
+ * 未设置出题模式、或卡片没有（有效的）出题目标时，所有遮罩一起隐藏和揭示
+ */
+
+import type { Mask, MaskData } from '../../types/image-mask-types';
+import { isMaskComment, parseMaskComment } from './MaskDataParser';
+
+export type MaskOcclusionRole = 'target' | 'context';
+
+export interface OccludedMask {
+  mask: Mask;
+  /** target：当前考察的遮罩，显示答案时揭示；context：显示答案后仍保持遮挡 */
+  role: MaskOcclusionRole;
+}
+
+const IMAGE_LINK_PATTERN = /!\[\[.*?\]\]|!\[.*?\]\(.*?\)/;
+
+/**
+ * 遮罩所属的出题目标：分组 ID，未分组时为遮罩自身 ID
+ */
+export function getMaskTargetKey(mask: Pick<Mask, 'id' | 'groupId'>): string {
+  return mask.groupId || mask.id;
+}
+
+/**
+ * 一张图片的出题目标（按遮罩顺序去重）；未设置出题模式时为空
+ */
+export function getOcclusionTargets(maskData: MaskData): string[] {
+  if (!maskData.mode) return [];
+  return Array.from(new Set(maskData.masks.map(getMaskTargetKey)));
+}
+
+/**
+ * 按图片出现顺序提取内容中的遮罩数据（遮罩注释位于图片语法的下一行）
+ */
+export function extractMaskDataFromContent(content: string): MaskData[] {
+  const lines = (content ?? '').split('\n');
+  const result: MaskData[] = [];
+  for (let i = 0; i < lines.length - 1; i++) {
+    if (!IMAGE_LINK_PATTERN.test(lines[i])) continue;
+    const nextLine = lines[i + 1].trim();
+    if (!isMaskComment(nextLine)) continue;
+    const parsed = parseMaskComment(nextLine);
+    if (parsed.success && parsed.data) result.push(parsed.data);
+  }
+  return result;
+}
+
+/**
+ * 内容中所有图片的出题目标，每个目标对应一张兄弟卡片
+ */
+export function getContentOcclusionTargets(content: string): string[] {
+  return Array.from(new Set(extractMaskDataFromContent(content).flatMap(getOcclusionTargets)));
+}
+
+/**
+ * 计算一张图片在当前卡片中要渲染的遮罩及其角色
+ *
+ * @param occlusionTarget 卡片的出题目标；须为内容中有效的目标（可以属于其他图片），否则传 undefined
+ */
+export function resolveMaskOcclusion(maskData: MaskData, occlusionTarget?: string): OccludedMask[] {
+  if (!maskData.mode || !occlusionTarget) {
+    return maskData.masks.map(mask => ({ mask, role: 'target' }));
+  }
+
+  const isTarget = (mask: Mask) => getMaskTargetKey(mask) === occlusionTarget;
+  if (maskData.mode === 'hide-one-guess-one') {
+    return maskData.masks.filter(isTarget).map(mask => ({ mask, role: 'target' }));
+  }
+  return maskData.masks.map(mask => ({ mask, role: isTarget(mask) ? 'target' : 'context' }));
+}
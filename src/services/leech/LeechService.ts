@@ -0,0 +1,119 @@
+/**
+ * 难点卡片（Leech）检测服务
+ *
+ * 判定规则（参考 Anki）：
+ * - 遗忘次数首次达到阈值时触发，此后每再遗忘 ceil(阈值/2) 次重复触发一次
+ * - 累计错误次数（错题追踪）达到阈值时同样触发，重复间隔相同
+ * - 只在评分为「重来」时检测
+ *
+ * 触发后统一打上 leech 标签，并按牌组设置执行暂停或移入错题牌组
+ */
+
+import type { AnkiDataStorage } from '../../data/storage';
+import type { Card, Deck, LeechAction, LeechSettings } from '../../data/types';
+import { Rating } from '../../data/types';
+import { DeckHierarchyService } from '../deck/DeckHierarchyService';
+
+export const LEECH_TAG = 'leech';
+export const DEFAULT_ERROR_BOOK_DECK_NAME = '错题集';
+
+export const DEFAULT_LEECH_SETTINGS: LeechSettings = {
+  enabled: true,
+  lapseThreshold: 8,
+  errorThreshold: 0,
+  action: 'tag'
+};
+
+export interface LeechCheckResult {
+  card: Card;
+  action: LeechAction;
+  /** 首次被判定为难点卡片 */
+  firstTime: boolean;
+  /** action 为 move 时的目标牌组 */
+  targetDeck?: Deck;
+}
+
+export function resolveLeechSettings(settings?: Partial<LeechSettings>): LeechSettings {
+  return { ...DEFAULT_LEECH_SETTINGS, ...settings };
+}
+
+export function isLeech(card: Card): boolean {
+  return !!card.leech || (card.tags?.includes(LEECH_TAG) ?? false);
+}
+
+/**
+ * 计数是否恰好落在触发点上（阈值、阈值 + 半阈值、…）
+ */
+export function reachesLeechThreshold(count: number, threshold: number): boolean {
+  if (threshold <= 0 || count < threshold) return false;
+  const step = Math.max(1, Math.ceil(threshold / 2));
+  return (count - threshold) % step === 0;
+}
+
+/**
+ * 本次评分是否使卡片触发难点判定
+ */
+export function shouldTriggerLeech(card: Card, rating: Rating, settings: LeechSettings): boolean {
+  if (!settings.enabled || rating !== Rating.Again) return false;
+  return reachesLeechThreshold(card.fsrs?.lapses ?? 0, settings.lapseThreshold)
+    || reachesLeechThreshold(card.stats?.errorTracking?.errorCount ?? 0, settings.errorThreshold);
+}
+
+export class LeechService {
+  constructor(private storage: AnkiDataStorage) {}
+
+  /**
+   * 评分后检测，触发时直接修改传入的卡片（不负责保存），未触发返回 null
+   */
+  async checkAfterRating(card: Card, rating: Rating, settings?: Partial<LeechSettings>): Promise<LeechCheckResult | null> {
+    const resolved = resolveLeechSettings(settings);
+    if (!shouldTriggerLeech(card, rating, resolved)) return null;
+
+    const now = new Date().toISOString();
+    const firstTime = !card.leech;
+
+    card.tags = card.tags?.includes(LEECH_TAG) ? card.tags : [...(card.tags || []), LEECH_TAG];
+    card.leech = {
+      detectedAt: card.leech?.detectedAt ?? now,
+      lastTriggeredAt: now,
+      lapses: card.fsrs?.lapses ?? 0,
+      errorCount: card.stats?.errorTracking?.errorCount ?? 0,
+      action: resolved.action,
+      originDeckId: card.leech?.originDeckId
+    };
+
+    const result: LeechCheckResult = { card, action: resolved.action, firstTime };
+
+    if (resolved.action === 'suspend') {
+      card.suspended = true;
+    } else if (resolved.action === 'move') {
+      const targetDeck = await this.getErrorBookDeck(resolved.errorBookDeckId);
+      if (card.deckId !== targetDeck.id) {
+        card.leech.originDeckId ??= card.deckId;
+        this.moveCardToDeck(card, targetDeck.id);
+      }
+      result.targetDeck = targetDeck;
+    }
+
+    card.modified = now;
+    return result;
+  }
+
+  private moveCardToDeck(card: Card, deckId: string): void {
+    // 引用式存储：替换主牌组，保留其他牌组引用
+    const others = (card.deckIds || []).filter(id => id !== card.deckId && id !== deckId);
+    card.deckId = deckId;
+    card.deckIds = [deckId, ...others];
+  }
+
+  private async getErrorBookDeck(deckId?: string): Promise<Deck> {
+    if (deckId) {
+      const deck = await this.storage.getDeck(deckId);
+      if (deck) return deck;
+    }
+    const decks = await this.storage.getDecks();
+    const existing = decks.find(d => !d.parentId && d.name === DEFAULT_ERROR_BOOK_DECK_NAME);
+    if (existing) return existing;
+    return new DeckHierarchyService(this.storage).createRootDeck(DEFAULT_ERROR_BOOK_DECK_NAME);
+  }
+}
@@ -126,6 +126,13 @@ export class MediaManagementService {
     return allMedia.filter(m => m.usedByCards.includes(cardId));
   }
 
+  /**
+   * 读取媒体文件内容
+   */
+  async readMedia(media: MediaFile): Promise<ArrayBuffer> {
+    return await this.plugin.app.vault.adapter.readBinary(`${this.mediaBasePath}/${media.storagePath}`);
+  }
+
   /**
    * 获取牌组的所有媒体
    */
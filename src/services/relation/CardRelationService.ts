@@ -168,12 +168,13 @@ export class CardRelationService {
     // 获取或创建子牌组
     const childDeck = await this.getOrCreateChildDeck(parentDeck);
 
-    // 更新子卡片的牌组ID
+    // 子卡片以子牌组为主牌组
     for (const childCard of childCards) {
       childCard.deckId = childDeck.id;
+      childCard.deckIds = [childDeck.id];
     }
 
-    // 批量保存子卡片（逐个保存，因为 dataStorage 没有 saveCards 方法）
+    // 批量保存子卡片（逐个保存，saveCard 会同步写入子牌组的引用）
     for (const childCard of childCards) {
       await this.dataStorage.saveCard(childCard);
     }
@@ -184,6 +185,21 @@ export class CardRelationService {
     return childCards.length;
   }
 
+  /**
+   * 获取子卡片（按父卡片UUID，跨牌组）
+   * @param parentCard 父卡片
+   * @returns 子卡片数组
+   */
+  async getChildCards(parentCard: Card): Promise<Card[]> {
+    const childUuids = parentCard.metadata?.cardRelation?.childCardIds || [];
+    const children: Card[] = [];
+    for (const uuid of childUuids) {
+      const child = await this.dataStorage.getCardByUUID(uuid);
+      if (child) children.push(child);
+    }
+    return children;
+  }
+
   /**
    * 计算内容哈希（简单实现）
    */
@@ -0,0 +1,123 @@
+/**
+ * 批量重新调度服务
+ *
+ * 按当前的目标记忆率、最大间隔和负载均衡设置，从上次复习时间重新计算所有复习卡片的到期日，
+ * 用于修改参数或开启轻松日后让已有卡片立即生效；应用了参数优化结果的牌组使用该牌组的权重
+ */
+
+import type { AnkiDataStorage } from '../../data/storage';
+import type { Card, FSRSParameters } from '../../data/types';
+import { CardState } from '../../data/types';
+import { FSRS } from '../../algorithms/fsrs';
+import { LoadBalancer } from '../../algorithms/load-balancer';
+import type { LoadBalanceSettings } from '../../algorithms/load-balancer';
+
+/** 每批写入的卡片数 */
+const SAVE_BATCH_SIZE = 500;
+
+export interface RescheduleResult {
+  total: number;
+  changed: number;
+  failed: number;
+}
+
+/**
+ * 可以重新调度的卡片：已进入复习阶段、有复习时间和稳定性、未暂停
+ */
+export function isReschedulable(card: Card): boolean {
+  return !!card.fsrs
+    && card.fsrs.state === CardState.Review
+    && !!card.fsrs.lastReview
+    && card.fsrs.stability > 0
+    && !card.suspended;
+}
+
+/**
+ * 计算新的到期日（不保存），返回到期日有变化的卡片
+ *
+ * 不参与重新调度的卡片先计入每日负载，复习卡片再按原到期日顺序依次排入
+ *
+ * @param deckWeights 牌组ID → 优化后的权重，卡片按主牌组选用（其余参数沿用 params）
+ */
+export function planReschedule(
+  cards: Card[],
+  params: Partial<FSRSParameters>,
+  loadBalance?: LoadBalanceSettings,
+  deckWeights: Map<string, number[]> = new Map()
+): Card[] {
+  const targets = cards
+    .filter(isReschedulable)
+    .sort((a, b) => Date.parse(a.fsrs.due) - Date.parse(b.fsrs.due));
+
+  // 所有调度器共用一个负载均衡器，各牌组排入的卡片互相计入每日负载
+  const balancer = loadBalance?.enabled
+    ? LoadBalancer.fromCards(cards.filter(card => !isReschedulable(card)), loadBalance.easyDays)
+    : null;
+  const fsrs = new FSRS(params);
+  fsrs.setLoadBalancer(balancer);
+  const deckSchedulers = new Map<string, FSRS>();
+  const getScheduler = (card: Card): FSRS => {
+    const weights = deckWeights.get(card.deckId);
+    if (!weights) return fsrs;
+    let scheduler = deckSchedulers.get(card.deckId);
+    if (!scheduler) {
+      scheduler = new FSRS({ ...params, w: [...weights] });
+      scheduler.setLoadBalancer(balancer);
+      deckSchedulers.set(card.deckId, scheduler);
+    }
+    return scheduler;
+  };
+
+  const changed: Card[] = [];
+  for (const card of targets) {
+    const next = getScheduler(card).rescheduleCard(card.fsrs);
+    if (next.due !== card.fsrs.due) {
+      changed.push({ ...card, fsrs: next });
+    }
+  }
+  return changed;
+}
+
+export class RescheduleService {
+  constructor(private storage: AnkiDataStorage) {}
+
+  async rescheduleAll(
+    params: Partial<FSRSParameters>,
+    loadBalance?: LoadBalanceSettings,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<RescheduleResult> {
+    const cards = await this.storage.getAllCards();
+    const changed = planReschedule(cards, params, loadBalance, await this.loadDeckWeights());
+    let saved = 0;
+    let failed = 0;
+
+    for (let i = 0; i < changed.length; i += SAVE_BATCH_SIZE) {
+      const batch = changed.slice(i, i + SAVE_BATCH_SIZE);
+      try {
+        saved += await this.storage.updateCards(batch);
+      } catch (error) {
+        console.error('[RescheduleService] 批量保存失败:', error);
+        failed += batch.length;
+      }
+      onProgress?.(Math.min(i + SAVE_BATCH_SIZE, changed.length), changed.length);
+    }
+
+    return {
+      total: cards.filter(isReschedulable).length,
+      changed: saved,
+      failed
+    };
+  }
+
+  /**
+   * 应用了参数优化结果的牌组的权重
+   */
+  private async loadDeckWeights(): Promise<Map<string, number[]>> {
+    const weights = new Map<string, number[]>();
+    for (const deck of await this.storage.getDecks()) {
+      const w = deck.settings?.fsrsOptimization?.w;
+      if (w) weights.set(deck.id, w);
+    }
+    return weights;
+  }
+}
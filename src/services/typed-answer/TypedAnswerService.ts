@@ -0,0 +1,208 @@
+/**
+ * 输入答案比对服务
+ *
+ * 学习时用户先输入答案，显示答案后与期望答案逐字符（或逐单词）比对：
+ * - 比对前按设置忽略大小写、标点和重音符号，空白始终不参与比对
+ * - 以最长公共子序列对齐，标出输入中的错误部分和期望答案中遗漏的部分
+ * - 按匹配程度给出建议评分：完全正确为「良好」，大部分正确为「困难」，否则为「重来」
+ *
+ * 挖空题的期望答案为当前挖空编号的内容（多个挖空以「, 」连接，与 Anki 一致）
+ */
+
+import type { Card, TypedAnswerSettings } from '../../data/types';
+import { CardType, Rating } from '../../data/types';
+import type { ParseTemplate } from '../../types/newCardParsingTypes';
+import { MAIN_SEPARATOR } from '../../constants/markdown-delimiters';
+import { getClozeAnswers } from '../../utils/cloze-ordinals';
+import { findTemplateCardType, getTemplateFieldValue } from '../../utils/template-card-types';
+
+export const DEFAULT_TYPED_ANSWER_SETTINGS: TypedAnswerSettings = {
+  enabled: false,
+  granularity: 'char',
+  ignoreCase: true,
+  ignorePunctuation: true,
+  ignoreAccents: false
+};
+
+/** 相似度达到该值时建议「困难」，低于该值建议「重来」 */
+export const TYPED_ANSWER_HARD_THRESHOLD = 0.8;
+
+export type TypedAnswerSegmentStatus = 'correct' | 'wrong' | 'missing' | 'ignored';
+
+export interface TypedAnswerSegment {
+  text: string;
+  status: TypedAnswerSegmentStatus;
+}
+
+export interface TypedAnswerResult {
+  /** 输入的答案：correct / wrong / ignored */
+  typed: TypedAnswerSegment[];
+  /** 期望答案：correct / missing / ignored */
+  expected: TypedAnswerSegment[];
+  /** 0-1，按参与比对的字符数计算 */
+  similarity: number;
+  /** 规范化后完全一致 */
+  exact: boolean;
+  suggestedRating: Rating;
+}
+
+interface Token {
+  text: string;
+  key: string;
+}
+
+/**
+ * 合并牌组和模板的设置：模板中设置的项优先
+ */
+export function resolveTypedAnswerSettings(
+  deckSettings?: Partial<TypedAnswerSettings>,
+  templateSettings?: Partial<TypedAnswerSettings>
+): TypedAnswerSettings {
+  const settings = { ...DEFAULT_TYPED_ANSWER_SETTINGS };
+  for (const source of [deckSettings, templateSettings]) {
+    if (!source) continue;
+    for (const key of Object.keys(settings) as Array<keyof TypedAnswerSettings>) {
+      if (source[key] !== undefined) (settings as any)[key] = source[key];
+    }
+  }
+  return settings;
+}
+
+/**
+ * 卡片的期望答案（纯文本）
+ *
+ * 优先级：挖空内容 → 模板指定的答案字段 → 卡片类型的第一个答案面字段 → 答案面内容
+ */
+export function getExpectedAnswer(card: Card, template?: ParseTemplate | null): string {
+  if (card.type === CardType.Cloze) {
+    return getClozeAnswers(card.content ?? '', card.clozeOrdinal).map(toPlainAnswer).join(', ');
+  }
+
+  const answerField = template?.typedAnswer?.answerField
+    ?? findTemplateCardType(template, card.cardTypeId)?.backFields[0];
+  if (answerField) {
+    return toPlainAnswer(getTemplateFieldValue(card, template, answerField));
+  }
+
+  const content = card.content ?? '';
+  const dividerIndex = content.indexOf(MAIN_SEPARATOR);
+  const back = dividerIndex >= 0
+    ? content.slice(dividerIndex + MAIN_SEPARATOR.length)
+    : card.fields?.back ?? card.fields?.answer ?? '';
+  return toPlainAnswer(back);
+}
+
+/**
+ * 去掉 Markdown/HTML 标记，保留可输入的文字
+ */
+export function toPlainAnswer(text: string): string {
+  return (text ?? '')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/!\[\[[^\]]*\]\]|!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[\[([^\]|]*\|)?([^\]]*)\]\]/g, '$2')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[sound:[^\]]*\]/g, ' ')
+    .replace(/\{\{tts[^{}]*\}\}/g, ' ')
+    .replace(/(\*\*|__|~~|==|`)/g, '')
+    .replace(/(^|\s)\^[\w-]+(?=\s|$)/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 比对用的规范化形式；空白和（按设置）被忽略的字符规范化为空串
+ */
+export function normalizeAnswerText(text: string, settings: TypedAnswerSettings): string {
+  let normalized = text.normalize('NFKC');
+  if (settings.ignoreAccents) {
+    normalized = normalized.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC');
+  }
+  if (settings.ignoreCase) {
+    normalized = normalized.toLowerCase();
+  }
+  if (settings.ignorePunctuation) {
+    normalized = normalized.replace(/[\p{P}\p{S}]/gu, '');
+  }
+  return normalized.replace(/\s+/g, '');
+}
+
+/**
+ * 比对输入的答案和期望答案
+ */
+export function compareTypedAnswer(typed: string, expected: string, settings: TypedAnswerSettings): TypedAnswerResult {
+  const typedTokens = tokenize(typed, settings);
+  const expectedTokens = tokenize(expected, settings);
+  const a = typedTokens.filter(token => token.key);
+  const b = expectedTokens.filter(token => token.key);
+
+  // 最长公共子序列
+  const table: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i].key === b[j].key
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const matchedA = new Set<Token>();
+  const matchedB = new Set<Token>();
+  let matchedLength = 0;
+  for (let i = 0, j = 0; i < a.length && j < b.length;) {
+    if (a[i].key === b[j].key) {
+      matchedA.add(a[i]);
+      matchedB.add(b[j]);
+      matchedLength += a[i].key.length;
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  const keyLength = (tokens: Token[]) => tokens.reduce((sum, token) => sum + token.key.length, 0);
+  const total = keyLength(a) + keyLength(b);
+  const similarity = total === 0 ? 1 : (2 * matchedLength) / total;
+  const exact = a.length === b.length && matchedA.size === a.length;
+
+  return {
+    typed: toSegments(typedTokens, token => (matchedA.has(token) ? 'correct' : 'wrong')),
+    expected: toSegments(expectedTokens, token => (matchedB.has(token) ? 'correct' : 'missing')),
+    similarity,
+    exact,
+    suggestedRating: suggestRating(similarity, exact)
+  };
+}
+
+export function suggestRating(similarity: number, exact: boolean): Rating {
+  if (exact) return Rating.Good;
+  if (similarity >= TYPED_ANSWER_HARD_THRESHOLD) return Rating.Hard;
+  return Rating.Again;
+}
+
+/**
+ * 切分为比对单元：字符模式逐字符；单词模式按单词，中日韩文字逐字
+ */
+function tokenize(text: string, settings: TypedAnswerSettings): Token[] {
+  text = text.normalize('NFC');
+  const parts = settings.granularity === 'word'
+    ? text.match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{N}\p{M}'’]+|\s+|[^]/gu) ?? []
+    : Array.from(text);
+  return parts.map(part => ({ text: part, key: normalizeAnswerText(part, settings) }));
+}
+
+function toSegments(tokens: Token[], status: (token: Token) => TypedAnswerSegmentStatus): TypedAnswerSegment[] {
+  const segments: TypedAnswerSegment[] = [];
+  for (const token of tokens) {
+    const tokenStatus = token.key ? status(token) : 'ignored';
+    const last = segments[segments.length - 1];
+    if (last && last.status === tokenStatus) last.text += token.text;
+    else segments.push({ text: token.text, status: tokenStatus });
+  }
+  return segments;
+}
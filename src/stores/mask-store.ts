@@ -284,8 +284,13 @@ export class MaskStore {
       id: generateMaskId(),
       // 稍微偏移位置，避免完全重叠
       x: Math.min(this.selectedMask.x + 0.02, 0.98),
-      y: Math.min(this.selectedMask.y + 0.02, 0.98)
+      y: Math.min(this.selectedMask.y + 0.02, 0.98),
+      points: this.selectedMask.points?.map(point => ({
+        x: Math.min(point.x + 0.02, 1),
+        y: Math.min(point.y + 0.02, 1)
+      }))
     };
+    if (!duplicated.points) delete duplicated.points;
     
     this.addMask(duplicated);
     return duplicated;
@@ -6,7 +6,10 @@ import type { TFile } from 'obsidian';
 import type { Card } from '../data/types';
 
 // ===== AI服务提供商 =====
-export type AIProvider = 'openai' | 'gemini' | 'anthropic' | 'deepseek' | 'zhipu' | 'siliconflow';
+export type AIProvider = 'openai' | 'gemini' | 'anthropic' | 'deepseek' | 'zhipu' | 'siliconflow' | 'local';
+
+// 本地模型接口格式：OpenAI 兼容接口 / Ollama 原生接口
+export type LocalLLMApiFormat = 'openai' | 'ollama';
 
 // ===== Obsidian文件信息 =====
 export interface ObsidianFileInfo {
@@ -60,6 +63,9 @@ export interface GenerationConfig {
   targetDeck?: string;
   autoTags: string[];
   enableHints: boolean;
+
+  // 生成后进行质量审查（可选）
+  qualityReview?: boolean;
 }
 
 // ===== 生成的卡片 =====
@@ -115,6 +121,8 @@ export interface AIServiceResponse {
   success: boolean;
   cards?: GeneratedCard[];
   error?: string;
+  /** 流式生成被用户中途取消（cards 为取消前已生成的卡片） */
+  cancelled?: boolean;
   usage?: {
     promptTokens: number;
     completionTokens: number;
@@ -238,6 +246,52 @@ export interface IAIService {
    * 测试API连接
    */
   testConnection(): Promise<boolean>;
+
+  /**
+   * 流式生成卡片（仅支持流式响应的提供商实现）
+   */
+  generateCardsStream?(
+    content: string,
+    config: GenerationConfig,
+    options: StreamGenerationOptions
+  ): Promise<AIServiceResponse>;
+}
+
+// ===== 流式生成选项 =====
+export interface StreamGenerationOptions {
+  /** 每解析出一张完整卡片时回调 */
+  onCard?: (card: GeneratedCard) => void;
+  onProgress?: (progress: GenerationProgress) => void;
+  /** 取消信号，取消后保留已生成的卡片 */
+  signal?: AbortSignal;
+}
+
+// ===== 卡片质量审查 =====
+export type CardQualityIssueType =
+  | 'atomicity'              // 一张卡片包含多个知识点
+  | 'ambiguity'              // 问题表述有歧义，答案不唯一
+  | 'answer-leakage'         // 问题中泄露了答案
+  | 'duplicate'              // 与目标牌组已有卡片或同批卡片重复
+  | 'missing-choice-marker'; // 选择题缺少 {✓} 正确答案标记
+
+export interface CardQualityIssue {
+  type: CardQualityIssueType;
+  severity: 'warning' | 'error';
+  message: string;
+}
+
+export interface CardQualityReview {
+  cardId: string;
+  /** 质量分（0-100） */
+  score: number;
+  issues: CardQualityIssue[];
+  /** 建议的改写 */
+  suggestion?: {
+    front: string;
+    back: string;
+  };
+  /** 是否经过 AI 语义审查（AI 不可用时只有规则检查） */
+  aiReviewed: boolean;
 }
 
 // ===== 卡片转换结果 =====
@@ -306,6 +306,93 @@ export interface IncrementalSyncResult {
   duration: number;  // 同步耗时（毫秒）
 }
 
+/**
+ * Anki 复习记录（getReviewsOfCards 返回的 revlog 行）
+ */
+export interface AnkiReviewEntry {
+  /** 复习时间（毫秒时间戳），同时是记录ID */
+  id: number;
+  usn: number;
+  /** 评分按钮 1-4，手动操作为 0 */
+  ease: number;
+  ivl: number;
+  lastIvl: number;
+  factor: number;
+  /** 作答用时（毫秒） */
+  time: number;
+  /** 0=学习 1=复习 2=重学 3=筛选 4=手动 */
+  type: number;
+}
+
+/**
+ * 双向同步：单个字段的合并动作
+ * - push: 仅 Tuanki 修改，写入 Anki
+ * - pull: 仅 Anki 修改，写回 Tuanki
+ * - conflict: 两侧都修改且内容不同
+ */
+export type FieldMergeAction = 'unchanged' | 'push' | 'pull' | 'conflict';
+
+/**
+ * 双向同步：单个字段的合并决定
+ */
+export interface FieldMergeDecision {
+  /** Anki 笔记类型中的字段名 */
+  ankiField: string;
+  /** Tuanki card.fields 中的键 */
+  cardKey: string;
+  action: FieldMergeAction;
+  /** Tuanki 当前值（Markdown） */
+  tuankiValue: string;
+  /** Anki 当前值（HTML） */
+  ankiValue: string;
+  /** Anki 当前值转换为 Markdown 后的内容（仅 Anki 侧有修改时计算） */
+  ankiMarkdown?: string;
+}
+
+/**
+ * 双向同步冲突：两侧都修改过的笔记
+ */
+export interface SyncConflict {
+  cardId: string;
+  ankiNoteId: number;
+  /** 展示用标题（正面内容摘要） */
+  title: string;
+  /** 冲突字段 */
+  fields: FieldMergeDecision[];
+}
+
+/**
+ * 冲突字段的取舍
+ */
+export type ConflictChoice = 'tuanki' | 'anki';
+
+/**
+ * 冲突解决结果：cardId -> Anki 字段名 -> 取舍
+ */
+export type ConflictResolutions = Record<string, Record<string, ConflictChoice>>;
+
+/**
+ * 双向同步结果
+ */
+export interface TwoWaySyncResult {
+  success: boolean;
+  /** 写入 Anki 的已关联笔记数 */
+  pushedNotes: number;
+  /** 从 Anki 更新的已关联卡片数 */
+  pulledCards: number;
+  /** 新建到 Anki 的卡片数 */
+  exportedCards: number;
+  /** 从 Anki 新导入的卡片数 */
+  importedCards: number;
+  /** 已解决的冲突笔记数 */
+  resolvedConflicts: number;
+  /** 尚未解决的冲突 */
+  conflicts: SyncConflict[];
+  /** 同步回 Tuanki 的 Anki 复习记录数 */
+  syncedReviews: number;
+  errors: string[];
+}
+
 /**
  * 自动同步配置
  */
@@ -0,0 +1,41 @@
+/**
+ * 卡片标记筛选类型定义
+ * 按调度标记（难点、暂停、搁置）筛选卡片
+ */
+
+export type CardFlagFilterType =
+  | 'leech'              // 难点卡片
+  | 'suspended'          // 已暂停
+  | 'buried'             // 已搁置（次日恢复）
+  | null;
+
+export interface CardFlagFilterOption {
+  value: Exclude<CardFlagFilterType, null>;
+  label: string;
+  icon: string;
+  description?: string;
+}
+
+/**
+ * 卡片标记筛选配置
+ */
+export const CARD_FLAG_FILTER_OPTIONS: CardFlagFilterOption[] = [
+  {
+    value: 'leech',
+    label: '难点卡片',
+    icon: 'alert-triangle',
+    description: '反复遗忘、被判定为 leech 的卡片'
+  },
+  {
+    value: 'suspended',
+    label: '已暂停',
+    icon: 'pause',
+    description: '不会进入学习队列，需手动恢复'
+  },
+  {
+    value: 'buried',
+    label: '已搁置',
+    icon: 'clock',
+    description: '今天不再出现，明天自动恢复'
+  }
+];
@@ -8,6 +8,7 @@
  */
 export type FilterField = 
   | 'status'           // 卡片状态
+  | 'scheduling'       // 调度标记（正常/暂停/搁置）
   | 'deck'             // 所属牌组
   | 'tags'             // 标签
   | 'priority'         // 优先级
@@ -129,6 +130,13 @@ export const FILTER_FIELD_CONFIGS: FilterFieldConfig[] = [
     operators: ['equals', 'not_equals'],
     icon: 'circle-dot'
   },
+  {
+    field: 'scheduling',
+    label: '调度标记',
+    type: 'select',
+    operators: ['equals', 'not_equals'],
+    icon: 'pause'
+  },
   {
     field: 'deck',
     label: '所属牌组',
@@ -3,7 +3,7 @@
  * 基于 FSRS6.1.1 标准规范
  */
 
-import type { FSRSCard, FSRSParameters, ReviewLog } from "../data/types";
+import type { CardState, FSRSCard, FSRSParameters, ReviewLog } from "../data/types";
 
 /**
  * FSRS6 版本信息
@@ -49,6 +49,16 @@ export interface FSRS6Parameters extends FSRSParameters {
   longTermStabilityEnabled?: boolean;      // 启用长期稳定性优化
 }
 
+/**
+ * FSRS6 记忆状态（不含日期信息，用于参数优化和调度模拟）
+ */
+export interface FSRS6MemoryState {
+  stability: number;
+  difficulty: number;
+  state: CardState;
+  scheduledDays?: number;   // 本次转移计算出的间隔（未随机化）
+}
+
 /**
  * 个性化数据结构
  */
@@ -16,13 +16,28 @@ import type { Editor, TFile } from 'obsidian';
  * 遮罩数据容器
  */
 export interface MaskData {
-  /** 数据格式版本 */
-  version: '1.0';
+  /** 数据格式版本（1.1 起支持多边形、自由绘制、分组和出题模式） */
+  version: MaskDataVersion;
   
   /** 遮罩数组 */
   masks: Mask[];
+
+  /** 出题模式：设置后每个遮罩（或分组）生成一张兄弟卡片；未设置时所有遮罩一起隐藏和揭示 */
+  mode?: OcclusionMode;
 }
 
+/**
+ * 遮罩数据格式版本
+ */
+export type MaskDataVersion = '1.0' | '1.1';
+
+/**
+ * 出题模式
+ * - hide-all-guess-one：遮住全部，猜其中一个（答案面只揭示当前遮罩）
+ * - hide-one-guess-one：只遮住当前一个，其余不遮
+ */
+export type OcclusionMode = 'hide-all-guess-one' | 'hide-one-guess-one';
+
 /**
  * 单个遮罩定义
  */
@@ -31,9 +46,9 @@ export interface Mask {
   id: string;
   
   /** 遮罩类型 */
-  type: 'rect' | 'circle';
+  type: MaskType;
   
-  /** 相对坐标 X (0-1) - 相对于图片宽度 */
+  /** 相对坐标 X (0-1) - 相对于图片宽度；多边形和自由绘制为外接矩形左上角 */
   x: number;
   
   /** 相对坐标 Y (0-1) - 相对于图片高度 */
@@ -47,6 +62,12 @@ export interface Mask {
   
   /** 圆形：相对半径 (0-1) - 相对于图片较短边 */
   radius?: number;
+
+  /** 多边形/自由绘制：顶点（相对坐标，首尾自动闭合） */
+  points?: MaskPoint[];
+
+  /** 分组 ID：同组的遮罩作为一个整体出题和揭示 */
+  groupId?: string;
   
   /** 遮罩样式 */
   style: MaskStyle;
@@ -58,6 +79,19 @@ export interface Mask {
   blurRadius?: number;
 }
 
+/**
+ * 遮罩形状
+ */
+export type MaskType = 'rect' | 'circle' | 'polygon' | 'freehand';
+
+/**
+ * 相对坐标点 (0-1)
+ */
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
 /**
  * 遮罩样式枚举
  */
@@ -127,6 +161,9 @@ export interface MaskRenderOptions {
   
   /** 是否启用动画 */
   enableAnimation?: boolean;
+
+  /** 当前卡片的出题目标（遮罩 ID 或分组 ID），仅在设置了出题模式时生效 */
+  occlusionTarget?: string;
 }
 
 /**
@@ -140,7 +177,13 @@ export const MASK_CONSTANTS = {
   COMMENT_SUFFIX: '-->',
   
   /** 当前数据版本 */
-  CURRENT_VERSION: '1.0' as const,
+  CURRENT_VERSION: '1.1' as const,
+
+  /** 只含矩形和圆形、无分组和出题模式的数据仍按 1.0 格式保存，兼容旧版本 */
+  LEGACY_VERSION: '1.0' as const,
+
+  /** 可解析的数据版本 */
+  SUPPORTED_VERSIONS: ['1.0', '1.1'] as readonly MaskDataVersion[],
   
   /** 默认遮罩样式 */
   DEFAULT_STYLE: 'solid' as MaskStyle,
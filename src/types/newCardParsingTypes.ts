@@ -3,6 +3,9 @@
  * 完全替代旧的三位一体模板系统
  */
 
+import type { TemplateCardType } from '../data/template-types';
+import type { TtsSettings, TypedAnswerSettings } from '../data/types';
+
 /**
  * 简化解析设置 - 全局配置
  */
@@ -69,6 +72,15 @@ export interface ParseTemplate {
   // 字段映射（用于正则表达式捕获组到字段的映射）
   fieldMappings?: Record<string, number>;
 
+  // 卡片类型（一条笔记生成多张卡片，字段名对应 fields 中的 name）
+  cardTypes?: TemplateCardType[];
+
+  // 输入答案模式（覆盖牌组设置）；answerField 为比对的字段名，缺省时使用答案面内容，挖空题使用挖空内容
+  typedAnswer?: Partial<TypedAnswerSettings> & { answerField?: string };
+
+  // 文字转语音（{{tts:字段名}} 标记）的语言、声音和自动朗读设置
+  tts?: Partial<TtsSettings>;
+
   // 应用场景
   scenarios: TemplateScenario[];
 
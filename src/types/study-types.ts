@@ -7,8 +7,31 @@
  * - normal: 正常学习（到期卡片 + 新卡片配额）
  * - advance: 提前学习（未到期的复习卡片）
  * - custom: 自定义学习（指定卡片ID列表）
+ * - cram: 突击复习（指定卡片ID列表，不修改 FSRS 状态和复习记录）
+ * - backlog: 积压追赶（按可回忆性排序的逾期卡片）
  */
-export type StudyMode = 'normal' | 'advance' | 'custom';
+export type StudyMode = 'normal' | 'advance' | 'custom' | 'cram' | 'backlog';
+
+/**
+ * 自定义学习的卡片排序
+ * - due: 到期时间（最早到期优先）
+ * - retrievability: 可回忆性（最容易遗忘优先）
+ * - difficulty: 难度（最难优先）
+ * - created: 创建时间（最新优先）
+ * - random: 随机
+ */
+export type CustomStudyOrder = 'due' | 'retrievability' | 'difficulty' | 'created' | 'random';
+
+/**
+ * 从保存的筛选器启动自定义学习的选项
+ */
+export interface CustomStudyOptions {
+  /** 最多学习的卡片数 */
+  limit: number;
+  order: CustomStudyOrder;
+  /** 突击模式：不修改 FSRS 状态 */
+  cram: boolean;
+}
 
 /**
  * 学习视图状态
@@ -20,7 +43,7 @@ export interface StudyViewState {
   /** 学习模式 */
   mode?: StudyMode;
   
-  /** 自定义卡片ID列表（当mode='custom'或'advance'时使用） */
+  /** 自定义卡片ID列表（当mode='custom'、'cram'、'backlog'或'advance'时使用） */
   cardIds?: string[];
 }
 
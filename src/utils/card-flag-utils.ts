@@ -0,0 +1,50 @@
+/**
+ * 卡片标记筛选工具函数
+ */
+
+import type { Card } from '../data/types';
+import type { CardFlagFilterType } from '../types/card-flag-types';
+import { isLeech } from '../services/leech/LeechService';
+import { isCardBuried } from './study/cardAvailability';
+
+/**
+ * 检查卡片是否带有指定标记
+ */
+export function matchesCardFlag(card: Card, flag: CardFlagFilterType): boolean {
+  switch (flag) {
+    case 'leech':
+      return isLeech(card);
+    case 'suspended':
+      return !!card.suspended;
+    case 'buried':
+      return isCardBuried(card);
+    default:
+      return true;
+  }
+}
+
+/**
+ * 应用卡片标记筛选；难点卡片按遗忘次数从多到少排列
+ */
+export function applyCardFlagFilter(cards: Card[], flag: CardFlagFilterType): Card[] {
+  if (!flag) return cards;
+  const result = cards.filter(card => matchesCardFlag(card, flag));
+  if (flag === 'leech') {
+    result.sort((a, b) => (b.fsrs?.lapses ?? 0) - (a.fsrs?.lapses ?? 0));
+  }
+  return result;
+}
+
+/**
+ * 获取各标记的卡片数量
+ */
+export function getCardFlagCounts(cards: Card[]): Record<Exclude<CardFlagFilterType, null>, number> {
+  const counts = { leech: 0, suspended: 0, buried: 0 };
+  const now = Date.now();
+  for (const card of cards) {
+    if (isLeech(card)) counts.leech++;
+    if (card.suspended) counts.suspended++;
+    if (isCardBuried(card, now)) counts.buried++;
+  }
+  return counts;
+}
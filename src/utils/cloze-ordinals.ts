@@ -0,0 +1,61 @@
+/**
+ * 挖空编号工具
+ *
+ * 编号规则与 ClozeCardParser.convertObsidianToAnkiStyle 一致：
+ * - {{cN::文本}} 使用显式编号 N
+ * - ==文本== 按出现顺序依次编号为 1、2、3…
+ */
+
+import { CLOZE_PATTERNS } from '../parsers/regex-patterns';
+
+/**
+ * 提取文本中出现的全部挖空编号（升序、去重）
+ */
+export function getClozeOrdinals(text: string): number[] {
+  if (!text) return [];
+
+  const ordinals = new Set<number>();
+  for (const match of text.matchAll(CLOZE_PATTERNS.ANKI_STYLE)) {
+    ordinals.add(Number(match[1]));
+  }
+  let index = 0;
+  for (const _match of text.matchAll(CLOZE_PATTERNS.OBSIDIAN_STYLE)) {
+    ordinals.add(++index);
+  }
+  return Array.from(ordinals).sort((a, b) => a - b);
+}
+
+/**
+ * 只保留指定编号的挖空：该编号统一转为 ==文本== 交给渲染器处理，其余挖空还原为普通文本
+ */
+export function focusClozeOrdinal(text: string, ordinal: number): string {
+  if (!text) return text;
+
+  let index = 0;
+  return text
+    .replace(CLOZE_PATTERNS.OBSIDIAN_STYLE, (match, content: string) => (++index === ordinal ? match : content))
+    .replace(CLOZE_PATTERNS.ANKI_STYLE, (_match, num: string, content: string) =>
+      Number(num) === ordinal ? `==${content}==` : content
+    );
+}
+
+/**
+ * 挖空答案（按出现顺序）；指定编号时只返回该编号的挖空
+ */
+export function getClozeAnswers(text: string, ordinal?: number): string[] {
+  if (!text) return [];
+
+  const answers: Array<{ position: number; text: string }> = [];
+  let index = 0;
+  for (const match of text.matchAll(CLOZE_PATTERNS.OBSIDIAN_STYLE)) {
+    if (ordinal === undefined || ++index === ordinal) {
+      answers.push({ position: match.index ?? 0, text: match[1] });
+    }
+  }
+  for (const match of text.matchAll(CLOZE_PATTERNS.ANKI_STYLE)) {
+    if (ordinal === undefined || Number(match[1]) === ordinal) {
+      answers.push({ position: match.index ?? 0, text: match[2] });
+    }
+  }
+  return answers.sort((a, b) => a.position - b.position).map(answer => answer.text);
+}
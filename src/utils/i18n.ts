@@ -414,14 +414,60 @@ const translations: Record<SupportedLanguage, TranslationKey> = {
         title: '智能优化',
         description: '基于您的学习数据自动调优FSRS6参数',
         dataPoints: '数据点数量',
-        accuracy: '预测准确性',
         status: '优化状态',
         statusReady: '就绪',
         statusOptimizing: '优化中...',
         startButton: '开始优化',
         optimizingButton: '优化中...',
         complete: '参数优化完成',
-        failed: '参数优化失败'
+        failed: '参数优化失败',
+        target: '数据范围与应用目标',
+        targetGlobal: '全局预设（全部卡片）',
+        targetHint: '选择牌组时只使用该牌组的复习记录，优化结果仅应用于该牌组',
+        progress: '第 {epoch}/{total} 轮',
+        metric: '指标',
+        before: '优化前',
+        after: '优化后',
+        logLoss: '对数损失（测试集）',
+        rmse: 'RMSE（测试集）',
+        trainLogLoss: '对数损失（训练集）',
+        split: '训练 {train} 张 / 测试 {test} 张卡片',
+        noImprovement: '优化后的参数在测试集上没有改进，建议保留当前参数',
+        apply: '应用参数',
+        applied: '优化参数已应用到：{target}',
+        discard: '放弃'
+      },
+      loadBalance: {
+        title: '负载均衡与轻松日',
+        description: '启用随机化时，在随机范围内把卡片安排到复习量最少的一天；轻松日按比例减少当天的负载',
+        enabled: '启用负载均衡',
+        easyDays: '每周负载',
+        weekdays: { sun: '周日', mon: '周一', tue: '周二', wed: '周三', thu: '周四', fri: '周五', sat: '周六' },
+        reschedule: '重新调度所有卡片',
+        rescheduling: '调度中...',
+        rescheduleHint: '修改设置后，按新的参数和负载重新安排已有复习卡片的到期日'
+      },
+      simulation: {
+        title: '调度模拟',
+        description: '基于当前卡片状态推演未来的复习量、用时和记住的卡片数，对比不同目标记忆率',
+        scope: '模拟范围',
+        days: '模拟天数',
+        newCardsPerDay: '每日新卡片',
+        maxReviewsPerDay: '每日复习上限',
+        unlimited: '不限',
+        retentions: '候选目标记忆率（逗号分隔）',
+        run: '开始模拟',
+        running: '模拟中...',
+        day: '天',
+        retention: '目标记忆率',
+        avgMinutes: '日均用时（分钟）',
+        totalReviews: '总复习次数',
+        finalRetained: '期末记住卡片数',
+        metrics: {
+          reviews: '每日复习数',
+          minutes: '每日用时（分钟）',
+          retained: '预计记住卡片数'
+        }
       },
       performance: {
         title: '性能监控',
@@ -446,13 +492,6 @@ const translations: Record<SupportedLanguage, TranslationKey> = {
           unit: '天'
         }
       },
-      optimization: {
-        title: '参数优化',
-        optimize: '优化参数',
-        optimizing: '优化中...',
-        optimizeDescription: '基于您的学习数据优化算法参数',
-        lastOptimized: '上次优化'
-      },
       actions: {
         reset: '重置为默认值',
         import: '导入参数',
@@ -571,6 +610,7 @@ const translations: Record<SupportedLanguage, TranslationKey> = {
         deepseek: 'DeepSeek',
         zhipu: '智谱清言',
         siliconflow: '硅基流动',
+        local: '本地模型',
         select: '选择提供商'
       },
       apiKeys: {
@@ -1240,14 +1280,60 @@ const translations: Record<SupportedLanguage, TranslationKey> = {
         title: 'Smart Optimization',
         description: 'Automatically optimize FSRS6 parameters based on your learning data',
         dataPoints: 'Data Points',
-        accuracy: 'Prediction Accuracy',
         status: 'Optimization Status',
         statusReady: 'Ready',
         statusOptimizing: 'Optimizing...',
         startButton: 'Start Optimization',
         optimizingButton: 'Optimizing...',
         complete: 'Parameter optimization complete',
-        failed: 'Parameter optimization failed'
+        failed: 'Parameter optimization failed',
+        target: 'Data Scope & Target',
+        targetGlobal: 'Global preset (all cards)',
+        targetHint: 'When a deck is selected, only its review history is used and the result applies to that deck only',
+        progress: 'Epoch {epoch}/{total}',
+        metric: 'Metric',
+        before: 'Before',
+        after: 'After',
+        logLoss: 'Log-loss (test set)',
+        rmse: 'RMSE (test set)',
+        trainLogLoss: 'Log-loss (training set)',
+        split: '{train} training / {test} test cards',
+        noImprovement: 'The optimized parameters did not improve on the test set; keeping the current parameters is recommended',
+        apply: 'Apply Parameters',
+        applied: 'Optimized parameters applied to: {target}',
+        discard: 'Discard'
+      },
+      loadBalance: {
+        title: 'Load Balancing & Easy Days',
+        description: 'When fuzz is enabled, place each card on the least busy day within the fuzz range; easy days take only a share of the normal load',
+        enabled: 'Enable load balancing',
+        easyDays: 'Weekly load',
+        weekdays: { sun: 'Sun', mon: 'Mon', tue: 'Tue', wed: 'Wed', thu: 'Thu', fri: 'Fri', sat: 'Sat' },
+        reschedule: 'Reschedule all cards',
+        rescheduling: 'Rescheduling...',
+        rescheduleHint: 'After changing settings, recompute due dates of existing review cards with the new parameters and load'
+      },
+      simulation: {
+        title: 'Schedule Simulation',
+        description: 'Play your current cards forward to estimate daily reviews, study time and retained cards for different target retentions',
+        scope: 'Scope',
+        days: 'Days to simulate',
+        newCardsPerDay: 'New cards per day',
+        maxReviewsPerDay: 'Max reviews per day',
+        unlimited: 'Unlimited',
+        retentions: 'Candidate retentions (comma separated)',
+        run: 'Run Simulation',
+        running: 'Simulating...',
+        day: 'Day',
+        retention: 'Target retention',
+        avgMinutes: 'Avg. minutes/day',
+        totalReviews: 'Total reviews',
+        finalRetained: 'Retained at end',
+        metrics: {
+          reviews: 'Daily reviews',
+          minutes: 'Daily minutes',
+          retained: 'Expected retained cards'
+        }
       },
       performance: {
         title: 'Performance Monitoring',
@@ -1272,13 +1358,6 @@ const translations: Record<SupportedLanguage, TranslationKey> = {
           unit: 'days'
         }
       },
-      optimization: {
-        title: 'Parameter Optimization',
-        optimize: 'Optimize Parameters',
-        optimizing: 'Optimizing...',
-        optimizeDescription: 'Optimize algorithm parameters based on your study data',
-        lastOptimized: 'Last Optimized'
-      },
       actions: {
         reset: 'Reset to Default',
         import: 'Import Parameters',
@@ -1383,6 +1462,7 @@ const translations: Record<SupportedLanguage, TranslationKey> = {
         deepseek: 'DeepSeek',
         zhipu: 'Zhipu AI',
         siliconflow: 'SiliconFlow',
+        local: 'Local Model',
         select: 'Select Provider'
       },
       apiKeys: {
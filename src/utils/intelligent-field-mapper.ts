@@ -75,6 +75,12 @@ export class IntelligentFieldMapper {
       aliases: ['标签', '分类', '关键词', '标记'],
       priority: 4
     },
+    {
+      group: 'deck',
+      fields: ['deck', 'deckname'],
+      aliases: ['牌组', '卡组'],
+      priority: 4
+    },
     {
       group: 'metadata',
       fields: ['source', 'reference', 'author', 'date'],
@@ -178,6 +184,37 @@ export class IntelligentFieldMapper {
     return result;
   }
 
+  /**
+   * 为任意字段名列表建议映射（精确匹配 + 语义匹配，不含位置匹配）
+   * 用于 CSV 表头等没有模板结构的场景
+   */
+  suggestMappings(sourceFields: string[], targetFields: string[]): FieldMappingRule[] {
+    const lowerTargets = new Map(targetFields.map(field => [field.toLowerCase(), field]));
+    const mappings: FieldMappingRule[] = [];
+
+    for (const sourceField of sourceFields) {
+      const targetField = lowerTargets.get(sourceField.trim().toLowerCase());
+      if (targetField && !mappings.some(m => m.targetField === targetField)) {
+        mappings.push({
+          sourceField,
+          targetField,
+          confidence: 100,
+          mappingType: 'exact',
+          reason: '字段名完全匹配'
+        });
+      }
+    }
+
+    const semantic = this.findSemanticMappings(
+      sourceFields.filter(f => !mappings.some(m => m.sourceField === f)),
+      targetFields.filter(f => !mappings.some(m => m.targetField === f)),
+      {}
+    );
+    mappings.push(...semantic.mappings);
+
+    return mappings;
+  }
+
   /**
    * 精确匹配 - 字段名完全相同
    */
@@ -1,14 +1,19 @@
 // SQL.js 加载器
-// 用于加载和初始化 sql.js 库，支持旧版 APKG 导入
+// 用于加载和初始化 sql.js 库，支持旧版 APKG 导入和导出
 
 import initSqlJs from "sql.js";
 
+// SQL.js 绑定参数值
+export type SqlValue = number | string | Uint8Array | null;
+
 // SQL.js 数据库接口
 export interface SqlDatabase {
   exec(sql: string): Array<{
     columns: string[];
     values: any[][];
   }>;
+  run(sql: string, params?: SqlValue[]): unknown;
+  export(): Uint8Array;
   close(): void;
 }
 
@@ -0,0 +1,44 @@
+/**
+ * 卡片暂停/搁置状态测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findSiblingCards, getBuryUntil, isCardAvailableForStudy, isCardBuried } from './cardAvailability';
+
+const NOW = new Date(2025, 0, 10, 15, 30);
+
+function makeCard(id: string, extra: Record<string, unknown> = {}) {
+  return { id, deckId: 'deck', ...extra } as any;
+}
+
+describe('cardAvailability', () => {
+  it('should bury until next local midnight', () => {
+    const until = new Date(getBuryUntil(NOW));
+    expect(until.getDate()).toBe(11);
+    expect(until.getHours()).toBe(0);
+  });
+
+  it('should exclude suspended and currently buried cards', () => {
+    const buried = makeCard('b', { buriedUntil: getBuryUntil(NOW) });
+    expect(isCardBuried(buried, NOW.getTime())).toBe(true);
+    expect(isCardAvailableForStudy(buried, NOW.getTime())).toBe(false);
+    // 次日自动恢复
+    expect(isCardAvailableForStudy(buried, NOW.getTime() + 24 * 60 * 60 * 1000)).toBe(true);
+    expect(isCardAvailableForStudy(makeCard('s', { suspended: true }), NOW.getTime())).toBe(false);
+    expect(isCardAvailableForStudy(makeCard('n'), NOW.getTime())).toBe(true);
+  });
+
+  it('should find siblings by parent card or source block', () => {
+    const card = makeCard('a', { parentCardId: 'p1', sourceFile: 'note.md', sourceBlock: '^x' });
+    const cards = [
+      card,
+      makeCard('child', { parentCardId: 'p1' }),
+      makeCard('same-block', { sourceFile: 'note.md', sourceBlock: '^x' }),
+      makeCard('other-block', { sourceFile: 'note.md', sourceBlock: '^y' }),
+      makeCard('unrelated')
+    ];
+
+    expect(findSiblingCards(card, cards).map(c => c.id)).toEqual(['child', 'same-block']);
+    expect(findSiblingCards(makeCard('lonely'), cards)).toEqual([]);
+  });
+});
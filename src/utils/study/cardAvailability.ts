@@ -0,0 +1,46 @@
+/**
+ * 卡片可学习状态工具
+ *
+ * 暂停（suspended）和搁置（buriedUntil）是独立于 FSRS 状态的调度标记：
+ * - 暂停：手动恢复前不进入任何学习队列
+ * - 搁置：到期时间（次日零点）之前不进入学习队列，过期后自动恢复
+ */
+
+import type { Card } from '../../data/types';
+
+/**
+ * 卡片当前是否处于搁置中
+ */
+export function isCardBuried(card: Card, now: number = Date.now()): boolean {
+  if (!card.buriedUntil) return false;
+  const until = Date.parse(card.buriedUntil);
+  return Number.isFinite(until) && until > now;
+}
+
+/**
+ * 卡片是否可以进入学习队列（未暂停且未搁置）
+ */
+export function isCardAvailableForStudy(card: Card, now: number = Date.now()): boolean {
+  return !card.suspended && !isCardBuried(card, now);
+}
+
+/**
+ * 搁置截止时间：次日本地零点
+ */
+export function getBuryUntil(now: Date = new Date()): string {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).toISOString();
+}
+
+/**
+ * 查找兄弟卡片：同一父卡片派生，或来自同一源文档块
+ */
+export function findSiblingCards(card: Card, allCards: Card[]): Card[] {
+  const sourceKey = card.sourceFile && card.sourceBlock ? `${card.sourceFile}#${card.sourceBlock}` : null;
+  if (!card.parentCardId && !sourceKey) return [];
+
+  return allCards.filter(other => {
+    if (other.id === card.id) return false;
+    if (card.parentCardId && other.parentCardId === card.parentCardId) return true;
+    return !!sourceKey && other.sourceFile === card.sourceFile && other.sourceBlock === card.sourceBlock;
+  });
+}
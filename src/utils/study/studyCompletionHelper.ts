@@ -10,6 +10,7 @@
 import type { Card, CardState } from '../../data/types';
 import type { StudySession } from '../../data/study-types';
 import type { AnkiDataStorage } from '../../data/storage';
+import { isCardAvailableForStudy } from './cardAvailability';
 
 /**
  * 统一的时间解析函数
@@ -96,7 +97,7 @@ export function isDeckCompleteForToday(
   
   // 1. 计算到期卡片数量（不包括新卡片）
   const dueCount = cards.filter(card => {
-    if (card.fsrs.state === 0) return false; // CardState.New = 0
+    if (card.fsrs.state === 0 || !isCardAvailableForStudy(card, now)) return false; // CardState.New = 0
     const dueTime = parseDueTime(card.fsrs.due);
     return dueTime <= now;
   }).length;
@@ -129,6 +130,7 @@ export function getAdvanceStudyCards(
   // state=2: Review（复习）
   const futureCards = cards
     .filter(card => {
+      if (!isCardAvailableForStudy(card, now)) return false;
       const isLearningOrReview = card.fsrs.state === 1 || card.fsrs.state === 2;
       const dueTime = parseDueTime(card.fsrs.due);
       const isNotDueYet = dueTime > now;
@@ -199,9 +201,9 @@ export async function loadDeckCardsForStudy(
   reviewsPerDay: number
 ): Promise<Card[]> {
   try {
-    const allCards = await dataStorage.getAllCards();
+    // 按牌组引用读取：包括只被该牌组引用、主牌组是其他牌组的卡片
     const now = Date.now();
-    const deckCards = allCards.filter(card => card.deckId === deckId);
+    const deckCards = (await dataStorage.getDeckCards(deckId)).filter(card => isCardAvailableForStudy(card, now));
     
     // 1. 学习中的到期卡片（state=1, 优先级最高）
     const learningCards = deckCards.filter(card => 
@@ -258,8 +260,8 @@ export async function loadAllDueCardsForStudy(
   reviewsPerDay: number
 ): Promise<Card[]> {
   try {
-    const allCards = await dataStorage.getAllCards();
     const now = Date.now();
+    const allCards = (await dataStorage.getAllCards()).filter(card => isCardAvailableForStudy(card, now));
     
     // 1. 学习中的到期卡片
     const learningCards = allCards.filter(card => 
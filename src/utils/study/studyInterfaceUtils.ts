@@ -4,7 +4,18 @@
  * 本文件包含从StudyInterface.svelte提取的纯函数，提升代码复用性和可测试性
  */
 
+import { Platform } from "obsidian";
 import type AnkiPlugin from "../../main";
+import type { ReviewDevice } from "../../data/types";
+
+/**
+ * 获取当前复习设备类型（写入复习记录）
+ */
+export function getReviewDevice(): ReviewDevice {
+  if (Platform.isPhone) return 'phone';
+  if (Platform.isTablet) return 'tablet';
+  return 'desktop';
+}
 
 /**
  * 处理挖空文本
@@ -0,0 +1,62 @@
+/**
+ * 模板卡片类型工具
+ *
+ * 模板定义了卡片类型（TemplateCardType）时，兄弟卡片共享同一条笔记的字段，
+ * 每张卡片按自己的 cardTypeId 选取问题面和答案面显示的字段
+ */
+
+import type { Card } from '../data/types';
+import type { TemplateCardType } from '../data/template-types';
+import type { ParseTemplate } from '../types/newCardParsingTypes';
+
+export interface CardTypeSides {
+  front: string;
+  back: string;
+}
+
+/**
+ * 查找模板中的卡片类型
+ */
+export function findTemplateCardType(
+  template: Pick<ParseTemplate, 'cardTypes'> | null | undefined,
+  cardTypeId: string | undefined
+): TemplateCardType | undefined {
+  if (!template?.cardTypes || !cardTypeId) return undefined;
+  return template.cardTypes.find(cardType => cardType.id === cardTypeId);
+}
+
+/**
+ * 读取卡片中某个模板字段的内容：依次按字段的 key、name、pattern 在 card.fields 中查找
+ */
+export function getTemplateFieldValue(
+  card: Pick<Card, 'fields'>,
+  template: Pick<ParseTemplate, 'fields'> | null | undefined,
+  fieldName: string
+): string {
+  const field = template?.fields?.find(f => f.name === fieldName);
+  const keys = [field?.key, fieldName, field?.pattern].filter((key): key is string => !!key);
+  for (const key of keys) {
+    const value = card.fields?.[key];
+    if (typeof value === 'string') return value;
+  }
+  return '';
+}
+
+/**
+ * 按卡片类型组合问题面和答案面内容（多个字段之间空一行，跳过空字段）
+ */
+export function buildCardTypeSides(
+  card: Pick<Card, 'fields'>,
+  template: Pick<ParseTemplate, 'fields'> | null | undefined,
+  cardType: TemplateCardType
+): CardTypeSides {
+  const join = (fieldNames: string[]) => fieldNames
+    .map(fieldName => getTemplateFieldValue(card, template, fieldName).trim())
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    front: join(cardType.frontFields),
+    back: join(cardType.backFields)
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * 文字转语音标记工具
+ *
+ * 卡片内容中的 {{tts:参数}} / {{tts 语言:参数}} 标记：参数是模板字段名时朗读该字段，否则按原文朗读。
+ * Anki 笔记字段中对应的写法为 [anki:tts lang=en_US]文本[/anki:tts]，导入和导出时互相转换
+ */
+
+export interface TtsMarker {
+  fullMatch: string;
+  /** BCP 47 语言标签（en-US），未指定时为 undefined */
+  lang?: string;
+  argument: string;
+}
+
+const TTS_MARKER_PATTERN = /\{\{tts(?:\s+([A-Za-z]{2,3}(?:[-_][A-Za-z0-9]+)*))?\s*:([^{}]+?)\}\}/g;
+const ANKI_TTS_TAG_PATTERN = /\[anki:tts([^\]]*)\]([\s\S]*?)\[\/anki:tts\]/gi;
+
+/**
+ * Anki 的语言代码使用下划线（en_US），语音合成使用连字符（en-US）
+ */
+export function normalizeTtsLang(lang: string | undefined): string {
+  return (lang ?? '').trim().replace(/_/g, '-');
+}
+
+/**
+ * 查找文本中的 TTS 标记
+ */
+export function parseTtsMarkers(text: string): TtsMarker[] {
+  return Array.from((text ?? '').matchAll(TTS_MARKER_PATTERN), match => ({
+    fullMatch: match[0],
+    lang: match[1] ? normalizeTtsLang(match[1]) : undefined,
+    argument: match[2].trim()
+  }));
+}
+
+/**
+ * 替换文本中的 TTS 标记
+ */
+export function replaceTtsMarkers(text: string, replacer: (marker: TtsMarker) => string): string {
+  return (text ?? '').replace(TTS_MARKER_PATTERN, (fullMatch, lang?: string, argument = '') =>
+    replacer({ fullMatch, lang: lang ? normalizeTtsLang(lang) : undefined, argument: argument.trim() })
+  );
+}
+
+/**
+ * Anki → Obsidian：[anki:tts lang=en_US]Hello[/anki:tts] → {{tts en-US:Hello}}
+ *
+ * 文本中含花括号时无法表示为标记，保留原样
+ */
+export function ankiTtsTagsToMarkers(text: string): string {
+  return (text ?? '').replace(ANKI_TTS_TAG_PATTERN, (fullMatch, attributes: string, content: string) => {
+    const spoken = content.trim();
+    if (!spoken || /[{}]/.test(spoken)) return fullMatch;
+    const lang = /\blang=["']?([\w-]+)/i.exec(attributes)?.[1];
+    return lang ? `{{tts ${normalizeTtsLang(lang)}:${spoken}}}` : `{{tts:${spoken}}}`;
+  });
+}
+
+/**
+ * Obsidian → Anki：{{tts en-US:Hello}} → [anki:tts lang=en_US]Hello[/anki:tts]
+ *
+ * @param resolveField 参数是字段名时返回字段内容，否则返回 undefined（按原文导出）
+ */
+export function ttsMarkersToAnkiTags(
+  text: string,
+  resolveField: (name: string) => string | undefined = () => undefined
+): string {
+  return replaceTtsMarkers(text, marker => {
+    const spoken = resolveField(marker.argument) ?? marker.argument;
+    const lang = marker.lang ? ` lang=${marker.lang.replace(/-/g, '_')}` : '';
+    return `[anki:tts${lang}]${spoken}[/anki:tts]`;
+  });
+}